@@ -8,6 +8,7 @@ import {
   GetResourceApiKeyCommand,
 } from '@aws-sdk/client-bedrock-agentcore'
 import type { OAuth2TokenRequest, ApiKeyRequest } from './types.js'
+import { getContextPropagationPlugin } from '../runtime/propagation.js'
 
 const POLLING_INTERVAL_MS = 5000 // 5 seconds
 const POLLING_TIMEOUT_MS = 600000 // 10 minutes
@@ -33,6 +34,7 @@ export class IdentityClient {
     }
 
     this.dataPlaneClient = new BedrockAgentCoreClient({ region: resolvedRegion })
+    this.dataPlaneClient.middlewareStack.use(getContextPropagationPlugin())
   }
 
   /**
@@ -1,7 +1,10 @@
-import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import { EventEmitter } from 'events'
 import { z } from 'zod'
 import type { InvocationHandler, WebSocketHandler } from '../types.js'
 import { BedrockAgentCoreApp } from '../app.js'
+import { getContext } from '../context.js'
+import { AgentCoreError, HandlerError, InvocationTimeoutError, UpstreamError } from '../errors.js'
 
 // Mock fastify module
 vi.mock('fastify', () => {
@@ -11,11 +14,15 @@ vi.mock('fastify', () => {
       post: vi.fn(),
       register: vi.fn(async () => {}),
       ready: vi.fn(async () => {}),
-      listen: vi.fn(async () => {}),
+      listen: vi.fn(async () => 'http://0.0.0.0:8080'),
+      close: vi.fn(async () => {}),
+      server: { closeAllConnections: vi.fn() },
       addContentTypeParser: vi.fn(), // Add content type parser method
+      setErrorHandler: vi.fn(),
       log: {
         error: vi.fn(),
         info: vi.fn(),
+        warn: vi.fn(),
       },
     }
   })
@@ -150,6 +157,215 @@ describe('BedrockAgentCoreApp', () => {
     })
   })
 
+  describe('run', () => {
+    const originalPort = process.env.PORT
+
+    afterEach(() => {
+      if (originalPort === undefined) {
+        delete process.env.PORT
+      } else {
+        process.env.PORT = originalPort
+      }
+    })
+
+    it('listens on port 8080 and 0.0.0.0 by default and resolves with the bound address', async () => {
+      delete process.env.PORT
+      const handler: InvocationHandler = async (_request, _context) => 'test response'
+      const app = new BedrockAgentCoreApp({
+        invocationHandler: { process: handler },
+        config: { shutdown: { handleSignals: false } },
+      })
+      const mockApp = app['_app'] as any
+
+      const address = await app.run()
+
+      expect(mockApp.listen).toHaveBeenCalledWith({ port: 8080, host: '0.0.0.0' })
+      expect(address).toBe('http://0.0.0.0:8080')
+    })
+
+    it('uses the PORT environment variable when set', async () => {
+      process.env.PORT = '9090'
+      const handler: InvocationHandler = async (_request, _context) => 'test response'
+      const app = new BedrockAgentCoreApp({
+        invocationHandler: { process: handler },
+        config: { shutdown: { handleSignals: false } },
+      })
+      const mockApp = app['_app'] as any
+
+      await app.run()
+
+      expect(mockApp.listen).toHaveBeenCalledWith({ port: 9090, host: '0.0.0.0' })
+    })
+
+    it('prefers explicit port and host over the environment', async () => {
+      process.env.PORT = '9090'
+      const handler: InvocationHandler = async (_request, _context) => 'test response'
+      const app = new BedrockAgentCoreApp({
+        invocationHandler: { process: handler },
+        config: { shutdown: { handleSignals: false } },
+      })
+      const mockApp = app['_app'] as any
+
+      await app.run({ port: 0, host: '127.0.0.1' })
+
+      expect(mockApp.listen).toHaveBeenCalledWith({ port: 0, host: '127.0.0.1' })
+    })
+
+    it('rejects with an invalid PORT environment variable', async () => {
+      process.env.PORT = 'not-a-port'
+      const handler: InvocationHandler = async (_request, _context) => 'test response'
+      const app = new BedrockAgentCoreApp({ invocationHandler: { process: handler } })
+
+      await expect(app.run()).rejects.toThrow('Invalid PORT environment variable: not-a-port')
+    })
+
+    it('rejects instead of exiting the process when listen fails', async () => {
+      const exitSpy = vi.spyOn(process, 'exit').mockImplementation((() => undefined) as any)
+      const handler: InvocationHandler = async (_request, _context) => 'test response'
+      const app = new BedrockAgentCoreApp({ invocationHandler: { process: handler } })
+      const mockApp = app['_app'] as any
+      mockApp.listen.mockRejectedValueOnce(new Error('EADDRINUSE'))
+
+      await expect(app.run({ port: 8080 })).rejects.toThrow('EADDRINUSE')
+      expect(mockApp.log.error).toHaveBeenCalled()
+      expect(exitSpy).not.toHaveBeenCalled()
+      exitSpy.mockRestore()
+    })
+
+    it('registers and removes signal handlers', async () => {
+      const handler: InvocationHandler = async (_request, _context) => 'test response'
+      const app = new BedrockAgentCoreApp({ invocationHandler: { process: handler } })
+      const listenersBefore = process.listenerCount('SIGTERM')
+
+      await app.run()
+      expect(process.listenerCount('SIGTERM')).toBe(listenersBefore + 1)
+
+      await app.close()
+      expect(process.listenerCount('SIGTERM')).toBe(listenersBefore)
+    })
+  })
+
+  describe('close', () => {
+    it('reports HealthyBusy with 503 on /ping while shutting down', async () => {
+      const handler: InvocationHandler = async (_request, _context) => 'test response'
+      const app = new BedrockAgentCoreApp({ invocationHandler: { process: handler } })
+      const mockApp = app['_app'] as any
+
+      app['_setupRoutes']()
+      await app.close()
+
+      const getCall = mockApp.get.mock.calls.find((call: any[]) => call[0] === '/ping')
+      const mockReply = { send: vi.fn(), status: vi.fn().mockReturnThis(), type: vi.fn().mockReturnThis() }
+      await getCall[1]({}, mockReply)
+
+      expect(app.getCurrentPingStatus()).toBe('HealthyBusy')
+      expect(mockReply.status).toHaveBeenCalledWith(503)
+      expect(mockReply.send).toHaveBeenCalledWith(expect.objectContaining({ status: 'HealthyBusy' }))
+      expect(mockApp.close).toHaveBeenCalledTimes(1)
+    })
+
+    it('rejects new invocations while shutting down', async () => {
+      const mockHandler = vi.fn(async () => 'test response')
+      const app = new BedrockAgentCoreApp({ invocationHandler: { process: mockHandler } })
+      const mockApp = app['_app'] as any
+
+      app['_setupRoutes']()
+      await app.close()
+
+      const postCall = mockApp.post.mock.calls.find((call: any[]) => call[0] === '/invocations')
+      const mockReq = {
+        body: {},
+        headers: {
+          'x-amzn-bedrock-agentcore-runtime-session-id': 'session-123',
+          'x-amzn-bedrock-agentcore-runtime-request-id': 'request-123',
+        },
+      }
+      const mockReply = { send: vi.fn(), status: vi.fn().mockReturnThis(), type: vi.fn().mockReturnThis() }
+      await postCall[2](mockReq, mockReply)
+
+      expect(mockReply.status).toHaveBeenCalledWith(503)
+      expect(mockReply.send).toHaveBeenCalledWith({
+        error: 'Server is shutting down',
+        code: 'SERVICE_UNAVAILABLE',
+        retryable: true,
+        requestId: 'request-123',
+      })
+      expect(mockHandler).not.toHaveBeenCalled()
+    })
+
+    it('waits for in-flight invocations before closing the server', async () => {
+      let finish: () => void = () => {}
+      const mockHandler = vi.fn(() => new Promise<string>((resolve) => (finish = () => resolve('done'))))
+      const app = new BedrockAgentCoreApp({ invocationHandler: { process: mockHandler } })
+      const mockApp = app['_app'] as any
+
+      app['_setupRoutes']()
+
+      const postCall = mockApp.post.mock.calls.find((call: any[]) => call[0] === '/invocations')
+      const mockReq = { body: {}, headers: { 'x-amzn-bedrock-agentcore-runtime-session-id': 'session-123' } }
+      const mockReply = { send: vi.fn(), status: vi.fn().mockReturnThis(), type: vi.fn().mockReturnThis() }
+      const invocation = postCall[2](mockReq, mockReply)
+
+      const closing = app.close()
+      await new Promise((resolve) => setTimeout(resolve, 10))
+      expect(mockApp.close).not.toHaveBeenCalled()
+
+      finish()
+      await invocation
+      await closing
+
+      expect(mockReply.send).toHaveBeenCalledWith('"done"')
+      expect(mockApp.close).toHaveBeenCalledTimes(1)
+      expect(mockApp.server.closeAllConnections).not.toHaveBeenCalled()
+    })
+
+    it('force closes connections after the grace period', async () => {
+      const mockHandler = vi.fn(() => new Promise(() => {}))
+      const app = new BedrockAgentCoreApp({
+        invocationHandler: { process: mockHandler },
+        config: { shutdown: { gracePeriodMs: 10 } },
+      })
+      const mockApp = app['_app'] as any
+
+      app['_setupRoutes']()
+
+      const postCall = mockApp.post.mock.calls.find((call: any[]) => call[0] === '/invocations')
+      const mockReq = { body: {}, headers: { 'x-amzn-bedrock-agentcore-runtime-session-id': 'session-123' } }
+      postCall[2](mockReq, { send: vi.fn(), status: vi.fn().mockReturnThis() })
+
+      await app.close()
+
+      expect(mockApp.server.closeAllConnections).toHaveBeenCalled()
+      expect(mockApp.close).toHaveBeenCalledTimes(1)
+    })
+
+    it('closes open WebSocket connections after the grace period', async () => {
+      const handler: InvocationHandler = async (_request, _context) => 'test response'
+      const app = new BedrockAgentCoreApp({
+        invocationHandler: { process: handler },
+        websocketHandler: async () => {},
+        config: { shutdown: { gracePeriodMs: 10 } },
+      })
+      const mockSocket = { close: vi.fn(), on: vi.fn() }
+      const mockReq = {
+        headers: { 'x-amzn-bedrock-agentcore-runtime-session-id': 'ws-session-123' },
+        log: { info: vi.fn(), error: vi.fn() },
+      }
+
+      await app['_handleWebSocket'](mockSocket as any, mockReq as any)
+      await app.close()
+
+      expect(mockSocket.close).toHaveBeenCalledWith(1001, 'Server shutting down')
+    })
+
+    it('returns the same promise when called more than once', () => {
+      const handler: InvocationHandler = async (_request, _context) => 'test response'
+      const app = new BedrockAgentCoreApp({ invocationHandler: { process: handler } })
+
+      expect(app.close()).toBe(app.close())
+    })
+  })
+
   describe('routes setup', () => {
     it('registers GET /ping route', () => {
       const handler: InvocationHandler = async (_request, _context) => 'test response'
@@ -237,7 +453,7 @@ describe('BedrockAgentCoreApp', () => {
           debug: vi.fn(),
         },
       }
-      const mockReply = { send: vi.fn(), status: vi.fn().mockReturnThis() }
+      const mockReply = { send: vi.fn(), status: vi.fn().mockReturnThis(), type: vi.fn().mockReturnThis() }
       await invocationHandler(mockReq, mockReply)
       expect(mockHandler).toHaveBeenCalledWith(
         { test: 'data' },
@@ -248,6 +464,8 @@ describe('BedrockAgentCoreApp', () => {
           requestId: expect.any(String),
           oauth2CallbackUrl: undefined,
           log: expect.any(Object),
+          signal: expect.any(globalThis.AbortSignal),
+          session: expect.any(Object),
         }
       )
     })
@@ -265,7 +483,7 @@ describe('BedrockAgentCoreApp', () => {
         body: {},
         headers: { 'x-amzn-bedrock-agentcore-runtime-session-id': 'session-123' },
       }
-      const mockReply = { send: vi.fn(), status: vi.fn().mockReturnThis() }
+      const mockReply = { send: vi.fn(), status: vi.fn().mockReturnThis(), type: vi.fn().mockReturnThis() }
       await invocationHandler(mockReq, mockReply)
       expect(mockReply.send).toHaveBeenCalledWith({ result: 'success' })
     })
@@ -286,7 +504,7 @@ describe('BedrockAgentCoreApp', () => {
           workloadaccesstoken: 'workload-token-abc123',
         },
       }
-      const mockReply = { send: vi.fn(), status: vi.fn().mockReturnThis() }
+      const mockReply = { send: vi.fn(), status: vi.fn().mockReturnThis(), type: vi.fn().mockReturnThis() }
       await invocationHandler(mockReq, mockReply)
       expect(mockHandler).toHaveBeenCalledWith(
         {},
@@ -309,7 +527,7 @@ describe('BedrockAgentCoreApp', () => {
         body: {},
         headers: { 'x-amzn-bedrock-agentcore-runtime-session-id': 'session-123' },
       }
-      const mockReply = { send: vi.fn(), status: vi.fn().mockReturnThis() }
+      const mockReply = { send: vi.fn(), status: vi.fn().mockReturnThis(), type: vi.fn().mockReturnThis() }
       await invocationHandler(mockReq, mockReply)
       expect(mockHandler).toHaveBeenCalledWith(
         {},
@@ -347,6 +565,9 @@ describe('BedrockAgentCoreApp', () => {
       expect(mockReply.send).toHaveBeenCalledWith({
         error:
           'Streaming response requires Accept: text/event-stream header. Please include this header in your request to receive streaming data.',
+        code: 'NOT_ACCEPTABLE',
+        retryable: false,
+        requestId: expect.any(String),
       })
     })
 
@@ -575,7 +796,7 @@ describe('BedrockAgentCoreApp', () => {
         body: { message: 'hello' },
         headers: { 'x-amzn-bedrock-agentcore-runtime-session-id': 'session-123' },
       }
-      const mockReply = { send: vi.fn(), status: vi.fn().mockReturnThis() }
+      const mockReply = { send: vi.fn(), status: vi.fn().mockReturnThis(), type: vi.fn().mockReturnThis() }
 
       await invocationHandler(mockReq, mockReply)
 
@@ -603,7 +824,7 @@ describe('BedrockAgentCoreApp', () => {
         body: { email: 'test@example.com' },
         headers: { 'x-amzn-bedrock-agentcore-runtime-session-id': 'session-123' },
       }
-      const mockReply = { send: vi.fn(), status: vi.fn().mockReturnThis() }
+      const mockReply = { send: vi.fn(), status: vi.fn().mockReturnThis(), type: vi.fn().mockReturnThis() }
 
       await invocationHandler(mockReq, mockReply)
 
@@ -625,7 +846,7 @@ describe('BedrockAgentCoreApp', () => {
         body: { tmessage: 'hello' },
         headers: { 'x-amzn-bedrock-agentcore-runtime-session-id': 'session-123' },
       }
-      const mockReply = { send: vi.fn(), status: vi.fn().mockReturnThis() }
+      const mockReply = { send: vi.fn(), status: vi.fn().mockReturnThis(), type: vi.fn().mockReturnThis() }
 
       await invocationHandler(mockReq, mockReply)
 
@@ -633,8 +854,640 @@ describe('BedrockAgentCoreApp', () => {
       expect(mockReply.status).toHaveBeenCalledWith(400)
       expect(mockReply.send).toHaveBeenCalledWith({
         error: 'Invalid request body format',
+        code: 'VALIDATION_ERROR',
+        retryable: false,
         details: expect.any(Array),
+        requestId: expect.any(String),
+      })
+    })
+  })
+
+  describe('middleware', () => {
+    it('returns the app from use() for chaining', () => {
+      const handler: InvocationHandler = async (_request, _context) => 'test'
+      const app = new BedrockAgentCoreApp({ invocationHandler: { process: handler } })
+
+      expect(app.use(async (_request, _context, next) => next())).toBe(app)
+    })
+
+    it('throws when middleware is not a function', () => {
+      const handler: InvocationHandler = async (_request, _context) => 'test'
+      const app = new BedrockAgentCoreApp({ invocationHandler: { process: handler } })
+
+      expect(() => app.use('not a function' as any)).toThrow('Middleware must be a function')
+    })
+
+    it('runs middleware with the validated request and context', async () => {
+      const requestSchema = z.object({ message: z.string() })
+      const mockHandler = vi.fn(async (request: { message: string }) => ({ echo: request.message }))
+      const middleware = vi.fn(async (_request, _context, next) => {
+        const result = await next()
+        return { ...result, audited: true }
+      })
+      const app = new BedrockAgentCoreApp({ invocationHandler: { process: mockHandler, requestSchema } })
+      app.use(middleware)
+      const mockApp = app['_app'] as any
+
+      app['_setupRoutes']()
+
+      const postCall = mockApp.post.mock.calls.find((call: any[]) => call[0] === '/invocations')
+      const mockReq = {
+        body: { message: 'hello' },
+        headers: { 'x-amzn-bedrock-agentcore-runtime-session-id': 'session-123' },
+      }
+      const mockReply = { send: vi.fn(), status: vi.fn().mockReturnThis(), type: vi.fn().mockReturnThis() }
+      await postCall[2](mockReq, mockReply)
+
+      expect(middleware).toHaveBeenCalledWith(
+        { message: 'hello' },
+        expect.objectContaining({ sessionId: 'session-123' }),
+        expect.any(Function)
+      )
+      expect(mockReply.send).toHaveBeenCalledWith({ echo: 'hello', audited: true })
+    })
+
+    it('uses the statusCode of errors thrown by middleware', async () => {
+      const mockHandler = vi.fn(async () => 'test')
+      const app = new BedrockAgentCoreApp({ invocationHandler: { process: mockHandler } })
+      app.use(() => {
+        throw Object.assign(new Error('Unauthorized'), { statusCode: 401 })
+      })
+      const mockApp = app['_app'] as any
+
+      app['_setupRoutes']()
+
+      const postCall = mockApp.post.mock.calls.find((call: any[]) => call[0] === '/invocations')
+      const mockReq = { body: {}, headers: { 'x-amzn-bedrock-agentcore-runtime-session-id': 'session-123' } }
+      const mockReply = { send: vi.fn(), status: vi.fn().mockReturnThis(), type: vi.fn().mockReturnThis() }
+      await postCall[2](mockReq, mockReply)
+
+      expect(mockHandler).not.toHaveBeenCalled()
+      expect(mockReply.status).toHaveBeenCalledWith(401)
+      expect(mockReply.send).toHaveBeenCalledWith({
+        error: 'Unauthorized',
+        code: 'UNAUTHORIZED',
+        retryable: false,
+        requestId: expect.any(String),
+      })
+    })
+
+    it('streams generators wrapped by middleware', async () => {
+      const mockHandler = vi.fn(async function* () {
+        yield { data: 'a' }
+        yield { data: 'b' }
+      })
+      const app = new BedrockAgentCoreApp({ invocationHandler: { process: mockHandler } })
+      app.use(async (_request, _context, next) => {
+        const stream = (await next()) as AsyncGenerator<{ data: string }>
+        return (async function* () {
+          for await (const chunk of stream) {
+            yield { data: chunk.data.toUpperCase() }
+          }
+        })()
       })
+      const mockApp = app['_app'] as any
+
+      app['_setupRoutes']()
+
+      const postCall = mockApp.post.mock.calls.find((call: any[]) => call[0] === '/invocations')
+      const mockReq = { body: {}, headers: { 'x-amzn-bedrock-agentcore-runtime-session-id': 'session-123' } }
+      const mockSSE = { keepAlive: vi.fn(), isConnected: true, send: vi.fn(), close: vi.fn() }
+      const mockReply = { sse: mockSSE, send: vi.fn(), status: vi.fn().mockReturnThis() }
+      await postCall[2](mockReq, mockReply)
+
+      expect(mockSSE.send.mock.calls.map((call: any[]) => call[0])).toEqual([{ data: 'A' }, { data: 'B' }])
+    })
+  })
+
+  describe('response schemas', () => {
+    const invoke = async (app: BedrockAgentCoreApp<any, any, any>, reply: any): Promise<void> => {
+      app['_setupRoutes']()
+      const postCall = (app['_app'] as any).post.mock.calls.find((call: any[]) => call[0] === '/invocations')
+      const mockReq = { body: {}, headers: { 'x-amzn-bedrock-agentcore-runtime-session-id': 'session-123' } }
+      await postCall[2](mockReq, reply)
+    }
+
+    it('sends the parsed response when it matches the response schema', async () => {
+      const responseSchema = z.object({ answer: z.string() })
+      const app = new BedrockAgentCoreApp({
+        invocationHandler: {
+          responseSchema,
+          process: async () => ({ answer: 'yes', internal: 'stripped' }) as { answer: string },
+        },
+      })
+      const mockReply = { send: vi.fn(), status: vi.fn().mockReturnThis(), type: vi.fn().mockReturnThis() }
+
+      await invoke(app, mockReply)
+
+      expect(mockReply.status).not.toHaveBeenCalled()
+      expect(mockReply.send).toHaveBeenCalledWith({ answer: 'yes' })
+    })
+
+    it('returns 500 without issue details when the response does not match', async () => {
+      const app = new BedrockAgentCoreApp({
+        invocationHandler: {
+          responseSchema: z.object({ answer: z.string() }),
+          process: async () => ({ answer: 42 }) as unknown as { answer: string },
+        },
+      })
+      const mockReply = { send: vi.fn(), status: vi.fn().mockReturnThis(), type: vi.fn().mockReturnThis() }
+
+      await invoke(app, mockReply)
+
+      expect(mockReply.status).toHaveBeenCalledWith(500)
+      expect(mockReply.send).toHaveBeenCalledWith({
+        error: 'Handler response failed schema validation',
+        code: 'RESPONSE_VALIDATION_ERROR',
+        retryable: false,
+        requestId: expect.any(String),
+      })
+      expect((app['_app'] as any).log.error).toHaveBeenCalledWith(
+        { issues: expect.any(Array) },
+        'Handler response failed schema validation'
+      )
+    })
+
+    it('includes Zod issues in dev mode', async () => {
+      const app = new BedrockAgentCoreApp({
+        invocationHandler: {
+          responseSchema: z.object({ answer: z.string() }),
+          process: async () => ({ answer: 42 }) as unknown as { answer: string },
+        },
+        config: { dev: true },
+      })
+      const mockReply = { send: vi.fn(), status: vi.fn().mockReturnThis(), type: vi.fn().mockReturnThis() }
+
+      await invoke(app, mockReply)
+
+      expect(mockReply.status).toHaveBeenCalledWith(500)
+      expect(mockReply.send).toHaveBeenCalledWith({
+        error: 'Handler response failed schema validation',
+        code: 'RESPONSE_VALIDATION_ERROR',
+        retryable: false,
+        details: [expect.objectContaining({ path: ['answer'], code: 'invalid_type' })],
+        requestId: expect.any(String),
+      })
+    })
+
+    it('validates each streamed chunk with the stream event schema', async () => {
+      const app = new BedrockAgentCoreApp({
+        invocationHandler: {
+          streamEventSchema: z.object({ data: z.object({ text: z.string() }) }),
+          process: async function* () {
+            yield { data: { text: 'a' } }
+            yield { data: { text: 1 } } as unknown as { data: { text: string } }
+            yield { data: { text: 'never sent' } }
+          },
+        },
+        config: { dev: true },
+      })
+      const mockSSE = { keepAlive: vi.fn(), isConnected: true, send: vi.fn(), close: vi.fn() }
+      const mockReply = { sse: mockSSE, send: vi.fn(), status: vi.fn().mockReturnThis() }
+
+      await invoke(app, mockReply)
+
+      expect(mockSSE.send.mock.calls.map((call: any[]) => call[0])).toEqual([
+        { data: { text: 'a' } },
+        {
+          event: 'error',
+          data: {
+            error: 'Handler response failed schema validation',
+            code: 'RESPONSE_VALIDATION_ERROR',
+            retryable: false,
+            details: [expect.objectContaining({ path: ['data', 'text'] })],
+            requestId: expect.any(String),
+          },
+        },
+      ])
+      expect(mockSSE.close).toHaveBeenCalled()
+    })
+
+    it('does not apply the response schema to streaming results', async () => {
+      const app = new BedrockAgentCoreApp({
+        invocationHandler: {
+          responseSchema: z.string(),
+          process: async function* () {
+            yield { data: 'chunk' }
+          },
+        },
+      })
+      const mockSSE = { keepAlive: vi.fn(), isConnected: true, send: vi.fn(), close: vi.fn() }
+      const mockReply = { sse: mockSSE, send: vi.fn(), status: vi.fn().mockReturnThis() }
+
+      await invoke(app, mockReply)
+
+      expect(mockSSE.send).toHaveBeenCalledWith({ data: 'chunk' })
+    })
+  })
+
+  describe('error responses', () => {
+    const getInvocationHandler = (app: BedrockAgentCoreApp): any => {
+      app['_setupRoutes']()
+      return (app['_app'] as any).post.mock.calls.find((call: any[]) => call[0] === '/invocations')[2]
+    }
+    const mockReq = {
+      body: {},
+      headers: {
+        'x-amzn-bedrock-agentcore-runtime-session-id': 'session-123',
+        'x-amzn-bedrock-agentcore-runtime-request-id': 'request-123',
+      },
+    }
+    const failWith = (error: unknown): BedrockAgentCoreApp =>
+      new BedrockAgentCoreApp({
+        invocationHandler: {
+          process: async () => {
+            throw error
+          },
+        },
+      })
+
+    it('wraps plain errors as HANDLER_ERROR with status 500', async () => {
+      const mockReply = { send: vi.fn(), status: vi.fn().mockReturnThis(), type: vi.fn().mockReturnThis() }
+
+      await getInvocationHandler(failWith(new Error('boom')))(mockReq, mockReply)
+
+      expect(mockReply.status).toHaveBeenCalledWith(500)
+      expect(mockReply.send).toHaveBeenCalledWith({
+        error: 'boom',
+        code: 'HANDLER_ERROR',
+        retryable: false,
+        requestId: 'request-123',
+      })
+    })
+
+    it('uses the code, status, retryability and details of AgentCoreErrors', async () => {
+      const error = new AgentCoreError('Quota exceeded', {
+        code: 'QUOTA_EXCEEDED',
+        statusCode: 429,
+        retryable: false,
+        details: { limit: 100 },
+      })
+      const mockReply = { send: vi.fn(), status: vi.fn().mockReturnThis(), type: vi.fn().mockReturnThis() }
+
+      await getInvocationHandler(failWith(error))(mockReq, mockReply)
+
+      expect(mockReply.status).toHaveBeenCalledWith(429)
+      expect(mockReply.send).toHaveBeenCalledWith({
+        error: 'Quota exceeded',
+        code: 'QUOTA_EXCEEDED',
+        retryable: false,
+        details: { limit: 100 },
+        requestId: 'request-123',
+      })
+    })
+
+    it('sends the same envelope as an SSE error event', async () => {
+      const app = new BedrockAgentCoreApp({
+        invocationHandler: {
+          process: async function* () {
+            yield { data: 'first' }
+            throw new UpstreamError('Model provider unavailable')
+          },
+        },
+      })
+      const mockSSE = { keepAlive: vi.fn(), isConnected: true, send: vi.fn(), close: vi.fn() }
+      const mockReply = { sse: mockSSE, send: vi.fn(), status: vi.fn().mockReturnThis() }
+
+      await getInvocationHandler(app)(mockReq, mockReply)
+
+      expect(mockSSE.send).toHaveBeenLastCalledWith({
+        event: 'error',
+        data: {
+          error: 'Model provider unavailable',
+          code: 'UPSTREAM_ERROR',
+          retryable: true,
+          requestId: 'request-123',
+        },
+      })
+    })
+
+    it('uses config.serializeError for JSON and SSE errors', async () => {
+      const serializeError = vi.fn((error, { transport, requestId }) => ({
+        type: error.code,
+        transport,
+        requestId,
+      }))
+      const app = new BedrockAgentCoreApp({
+        invocationHandler: {
+          process: async function* () {
+            yield { data: 'first' }
+            throw new Error('boom')
+          },
+        },
+        config: { serializeError },
+      })
+      const handler = getInvocationHandler(app)
+      const mockSSE = { keepAlive: vi.fn(), isConnected: true, send: vi.fn(), close: vi.fn() }
+      const jsonReply = { send: vi.fn(), status: vi.fn().mockReturnThis() }
+
+      await handler(mockReq, { sse: mockSSE, send: vi.fn(), status: vi.fn().mockReturnThis() })
+      await handler(mockReq, jsonReply)
+
+      expect(serializeError).toHaveBeenCalledWith(expect.any(HandlerError), {
+        transport: 'sse',
+        requestId: 'request-123',
+      })
+      expect(mockSSE.send).toHaveBeenLastCalledWith({
+        event: 'error',
+        data: { type: 'HANDLER_ERROR', transport: 'sse', requestId: 'request-123' },
+      })
+      expect(jsonReply.status).toHaveBeenCalledWith(406)
+      expect(jsonReply.send).toHaveBeenCalledWith({
+        type: 'NOT_ACCEPTABLE',
+        transport: 'http',
+        requestId: 'request-123',
+      })
+    })
+
+    it('falls back to the default envelope when the serializer throws', async () => {
+      const app = new BedrockAgentCoreApp({
+        invocationHandler: {
+          process: async () => {
+            throw new Error('boom')
+          },
+        },
+        config: {
+          serializeError: () => {
+            throw new Error('serializer bug')
+          },
+        },
+      })
+      const mockReply = { send: vi.fn(), status: vi.fn().mockReturnThis(), type: vi.fn().mockReturnThis() }
+
+      await getInvocationHandler(app)(mockReq, mockReply)
+
+      expect(mockReply.send).toHaveBeenCalledWith(expect.objectContaining({ error: 'boom', code: 'HANDLER_ERROR' }))
+      expect((app['_app'] as any).log.error).toHaveBeenCalledWith(
+        expect.any(Error),
+        'Error serializer failed, using the default error body'
+      )
+    })
+  })
+
+  describe('session state', () => {
+    const getInvocationHandler = (app: BedrockAgentCoreApp): any => {
+      app['_setupRoutes']()
+      return (app['_app'] as any).post.mock.calls.find((call: any[]) => call[0] === '/invocations')[2]
+    }
+    const requestFor = (sessionId: string): any => ({
+      body: {},
+      headers: { 'x-amzn-bedrock-agentcore-runtime-session-id': sessionId },
+    })
+    const createReply = (): any => ({ send: vi.fn(), status: vi.fn().mockReturnThis(), type: vi.fn().mockReturnThis() })
+
+    it('persists context.session across invocations of the same session', async () => {
+      const app = new BedrockAgentCoreApp({
+        invocationHandler: {
+          process: async (_request, context) => {
+            const count = ((await context.session!.get<number>('count')) ?? 0) + 1
+            await context.session!.set('count', count)
+            return { count }
+          },
+        },
+      })
+      const handler = getInvocationHandler(app)
+      const replies = [createReply(), createReply(), createReply()]
+
+      await handler(requestFor('session-1'), replies[0])
+      await handler(requestFor('session-1'), replies[1])
+      await handler(requestFor('session-2'), replies[2])
+
+      expect(replies.map((reply) => reply.send.mock.calls[0][0])).toEqual([{ count: 1 }, { count: 2 }, { count: 1 }])
+    })
+
+    it('touches the configured store for each invocation and closes it on shutdown', async () => {
+      const sessionStore = {
+        get: vi.fn(async () => undefined),
+        set: vi.fn(async () => {}),
+        delete: vi.fn(async () => {}),
+        clear: vi.fn(async () => {}),
+        touch: vi.fn(async () => {}),
+        close: vi.fn(async () => {}),
+      }
+      const app = new BedrockAgentCoreApp({
+        invocationHandler: { process: async (_request, context) => await context.session!.get('key') },
+        config: { sessionStore, shutdown: { handleSignals: false } },
+      })
+
+      await getInvocationHandler(app)(requestFor('session-1'), createReply())
+      await app.close()
+
+      expect(sessionStore.touch).toHaveBeenCalledWith('session-1')
+      expect(sessionStore.get).toHaveBeenCalledWith('session-1', 'key')
+      expect(sessionStore.close).toHaveBeenCalled()
+    })
+  })
+
+  describe('request cancellation', () => {
+    const getInvocationHandler = (app: BedrockAgentCoreApp): any => {
+      app['_setupRoutes']()
+      return (app['_app'] as any).post.mock.calls.find((call: any[]) => call[0] === '/invocations')[2]
+    }
+    const mockReq = { body: {}, headers: { 'x-amzn-bedrock-agentcore-runtime-session-id': 'session-123' } }
+    const waitForAbort = (signal: globalThis.AbortSignal): Promise<string> =>
+      new Promise((resolve) => signal.addEventListener('abort', () => resolve(signal.reason.message)))
+
+    it('provides an AbortSignal in the context and getContext()', async () => {
+      const mockHandler = vi.fn(async (_request, context) => ({
+        aborted: context.signal.aborted,
+        same: getContext()?.signal === context.signal,
+      }))
+      const app = new BedrockAgentCoreApp({ invocationHandler: { process: mockHandler } })
+      const mockReply = { send: vi.fn(), status: vi.fn().mockReturnThis(), type: vi.fn().mockReturnThis() }
+
+      await getInvocationHandler(app)(mockReq, mockReply)
+
+      expect(mockReply.send).toHaveBeenCalledWith({ aborted: false, same: true })
+    })
+
+    it('aborts the signal and responds with 504 when the invocation timeout elapses', async () => {
+      let signal: globalThis.AbortSignal | undefined
+      const app = new BedrockAgentCoreApp({
+        invocationHandler: {
+          process: async (_request, context) => {
+            signal = context.signal
+            return { reason: await waitForAbort(context.signal!) }
+          },
+        },
+        config: { invocationTimeoutMs: 10 },
+      })
+      const mockReply = { send: vi.fn(), status: vi.fn().mockReturnThis(), type: vi.fn().mockReturnThis() }
+
+      await getInvocationHandler(app)(mockReq, mockReply)
+
+      expect(signal!.reason).toBeInstanceOf(InvocationTimeoutError)
+      expect(signal!.reason.name).toBe('TimeoutError')
+      expect(mockReply.status).toHaveBeenCalledWith(504)
+      expect(mockReply.send).toHaveBeenCalledWith({
+        error: 'Invocation timed out after 10ms',
+        code: 'TIMEOUT',
+        retryable: true,
+        details: { timeoutMs: 10 },
+        requestId: expect.any(String),
+      })
+    })
+
+    it('responds with 504 even if the handler ignores the signal', async () => {
+      const app = new BedrockAgentCoreApp({
+        invocationHandler: { process: () => new Promise(() => {}) },
+        config: { invocationTimeoutMs: 10 },
+      })
+      const mockReply = { send: vi.fn(), status: vi.fn().mockReturnThis(), type: vi.fn().mockReturnThis() }
+
+      await getInvocationHandler(app)(mockReq, mockReply)
+
+      expect(mockReply.status).toHaveBeenCalledWith(504)
+    })
+
+    it('ends a stalled stream with an SSE error event when the timeout elapses', async () => {
+      const app = new BedrockAgentCoreApp({
+        invocationHandler: {
+          process: async function* () {
+            yield { data: 'first' }
+            await new Promise(() => {})
+          },
+        },
+        config: { invocationTimeoutMs: 10 },
+      })
+      const mockSSE = { keepAlive: vi.fn(), onClose: vi.fn(), isConnected: true, send: vi.fn(), close: vi.fn() }
+      const mockReply = { sse: mockSSE, send: vi.fn(), status: vi.fn().mockReturnThis() }
+
+      await getInvocationHandler(app)(mockReq, mockReply)
+
+      expect(mockSSE.send).toHaveBeenCalledWith({
+        event: 'error',
+        data: expect.objectContaining({ error: 'Invocation timed out after 10ms', code: 'TIMEOUT' }),
+      })
+    })
+
+    it('aborts the signal when the client disconnects before the response finishes', async () => {
+      const raw = Object.assign(new EventEmitter(), { writableFinished: false })
+      const app = new BedrockAgentCoreApp({
+        invocationHandler: {
+          process: async (_request, context) => {
+            const reason = waitForAbort(context.signal!)
+            raw.emit('close')
+            return { reason: await reason }
+          },
+        },
+      })
+      const mockReply = { raw, send: vi.fn(), status: vi.fn().mockReturnThis(), type: vi.fn().mockReturnThis() }
+
+      await getInvocationHandler(app)(mockReq, mockReply)
+
+      expect(mockReply.send).toHaveBeenCalledWith({ reason: 'Client disconnected' })
+      expect(raw.listenerCount('close')).toBe(0)
+    })
+
+    it('aborts in-flight invocations when the shutdown grace period elapses', async () => {
+      let reason: Promise<string> | undefined
+      const app = new BedrockAgentCoreApp({
+        invocationHandler: {
+          process: async (_request, context) => {
+            reason = waitForAbort(context.signal!)
+            return await reason
+          },
+        },
+        config: { shutdown: { gracePeriodMs: 10, handleSignals: false } },
+      })
+      const mockReply = { send: vi.fn(), status: vi.fn().mockReturnThis(), type: vi.fn().mockReturnThis() }
+
+      const invocation = getInvocationHandler(app)(mockReq, mockReply)
+      await app.close()
+      await invocation
+
+      expect(await reason).toBe('Server is shutting down')
+    })
+  })
+
+  describe('concurrency limits', () => {
+    const getInvocationHandler = (app: BedrockAgentCoreApp): any => {
+      app['_setupRoutes']()
+      return (app['_app'] as any).post.mock.calls.find((call: any[]) => call[0] === '/invocations')[2]
+    }
+    const requestFor = (sessionId: string): any => ({
+      body: {},
+      headers: { 'x-amzn-bedrock-agentcore-runtime-session-id': sessionId },
+    })
+    const createReply = (): any => ({
+      send: vi.fn(),
+      status: vi.fn().mockReturnThis(),
+      header: vi.fn().mockReturnThis(),
+      type: vi.fn().mockReturnThis(),
+    })
+
+    it('rejects invocations over the limit with 429 and Retry-After', async () => {
+      let finish!: () => void
+      const app = new BedrockAgentCoreApp({
+        invocationHandler: { process: () => new Promise<string>((resolve) => (finish = () => resolve('done'))) },
+        config: { concurrency: { maxConcurrentInvocations: 1, retryAfterSeconds: 5 } },
+      })
+      const handler = getInvocationHandler(app)
+      const firstReply = createReply()
+      const secondReply = createReply()
+
+      const first = handler(requestFor('session-1'), firstReply)
+      await handler(requestFor('session-2'), secondReply)
+
+      expect(secondReply.status).toHaveBeenCalledWith(429)
+      expect(secondReply.header).toHaveBeenCalledWith('retry-after', '5')
+      expect(secondReply.send).toHaveBeenCalledWith({
+        error: 'Too many concurrent invocations',
+        code: 'CONCURRENCY_LIMIT',
+        retryable: true,
+        requestId: expect.any(String),
+      })
+
+      finish()
+      await first
+      expect(firstReply.send).toHaveBeenCalledWith('"done"')
+    })
+
+    it('queues invocations and runs them when a slot frees up', async () => {
+      const started: string[] = []
+      const finishers: Array<() => void> = []
+      const app = new BedrockAgentCoreApp({
+        invocationHandler: {
+          process: (_request, context) => {
+            started.push(context.sessionId)
+            return new Promise<string>((resolve) => finishers.push(() => resolve(context.sessionId)))
+          },
+        },
+        config: { concurrency: { maxConcurrentInvocations: 1, maxQueueDepth: 1 } },
+      })
+      const handler = getInvocationHandler(app)
+      const secondReply = createReply()
+
+      const first = handler(requestFor('session-1'), createReply())
+      const second = handler(requestFor('session-2'), secondReply)
+      await new Promise((resolve) => globalThis.setTimeout(resolve, 0))
+      expect(started).toEqual(['session-1'])
+
+      finishers[0]!()
+      await first
+      await new Promise((resolve) => globalThis.setTimeout(resolve, 0))
+      expect(started).toEqual(['session-1', 'session-2'])
+
+      finishers[1]!()
+      await second
+      expect(secondReply.send).toHaveBeenCalledWith('"session-2"')
+    })
+
+    it('reports HealthyBusy while the global limit is reached', async () => {
+      let finish!: () => void
+      const app = new BedrockAgentCoreApp({
+        invocationHandler: { process: () => new Promise<string>((resolve) => (finish = () => resolve('done'))) },
+        config: { concurrency: { maxConcurrentInvocations: 1 } },
+      })
+
+      expect(app.getCurrentPingStatus()).toBe('Healthy')
+      const invocation = getInvocationHandler(app)(requestFor('session-1'), createReply())
+      await new Promise((resolve) => globalThis.setTimeout(resolve, 0))
+      expect(app.getCurrentPingStatus()).toBe('HealthyBusy')
+
+      finish()
+      await invocation
+      expect(app.getCurrentPingStatus()).toBe('Healthy')
     })
   })
 
@@ -650,7 +1503,7 @@ describe('BedrockAgentCoreApp', () => {
       const wsCall = mockApp.get.mock.calls.find((call: any[]) => call[0] === '/ws')
       const wsHandler = wsCall[2]
 
-      const mockSocket = { socket: { close: vi.fn() } }
+      const mockSocket = { socket: { close: vi.fn() }, on: vi.fn() }
       const mockReq = {
         headers: { 'x-amzn-bedrock-agentcore-runtime-session-id': 'ws-session-123' },
         log: {
@@ -670,6 +1523,8 @@ describe('BedrockAgentCoreApp', () => {
         requestId: expect.any(String),
         oauth2CallbackUrl: undefined,
         log: expect.any(Object),
+        signal: expect.any(globalThis.AbortSignal),
+        session: expect.any(Object),
       })
     })
 
@@ -683,7 +1538,7 @@ describe('BedrockAgentCoreApp', () => {
         websocketHandler: websocketHandler,
       })
 
-      const mockSocket = { close: vi.fn() }
+      const mockSocket = { close: vi.fn(), on: vi.fn() }
       const mockReq = {
         headers: { 'x-amzn-bedrock-agentcore-runtime-session-id': 'ws-session-123' },
         log: {
@@ -698,6 +1553,30 @@ describe('BedrockAgentCoreApp', () => {
 
       expect(mockSocket.close).toHaveBeenCalledWith(1011, 'Internal server error')
     })
+
+    it('sends the error envelope before closing an open socket', async () => {
+      const app = new BedrockAgentCoreApp({
+        invocationHandler: { process: async () => 'test response' },
+        websocketHandler: async () => {
+          throw new UpstreamError('Model provider unavailable')
+        },
+      })
+      const mockSocket = { readyState: 1, send: vi.fn(), close: vi.fn(), on: vi.fn() }
+      const mockReq = {
+        headers: { 'x-amzn-bedrock-agentcore-runtime-session-id': 'ws-session-123' },
+        log: { info: vi.fn(), error: vi.fn(), warn: vi.fn(), debug: vi.fn() },
+      }
+
+      await app['_handleWebSocket'](mockSocket as any, mockReq as any)
+
+      expect(JSON.parse(mockSocket.send.mock.calls[0]![0])).toEqual({
+        error: 'Model provider unavailable',
+        code: 'UPSTREAM_ERROR',
+        retryable: true,
+        requestId: expect.any(String),
+      })
+      expect(mockSocket.close).toHaveBeenCalledWith(1011, 'Internal server error')
+    })
   })
 
   describe('task tracking', () => {
@@ -840,7 +1719,7 @@ describe('BedrockAgentCoreApp', () => {
         body: {},
         headers: { 'x-amzn-bedrock-agentcore-runtime-session-id': 'test-session' },
       }
-      const mockReply = { send: vi.fn(), status: vi.fn().mockReturnThis() }
+      const mockReply = { send: vi.fn(), status: vi.fn().mockReturnThis(), type: vi.fn().mockReturnThis() }
 
       await invocationHandler(mockReq, mockReply)
 
@@ -868,7 +1747,7 @@ describe('BedrockAgentCoreApp', () => {
           'x-amzn-bedrock-agentcore-runtime-request-id': 'test-request-123',
         },
       }
-      const mockReply = { send: vi.fn(), status: vi.fn().mockReturnThis() }
+      const mockReply = { send: vi.fn(), status: vi.fn().mockReturnThis(), type: vi.fn().mockReturnThis() }
 
       await invocationHandler(mockReq, mockReply)
 
@@ -891,7 +1770,7 @@ describe('BedrockAgentCoreApp', () => {
           oauth2callbackurl: 'https://example.com/callback',
         },
       }
-      const mockReply = { send: vi.fn(), status: vi.fn().mockReturnThis() }
+      const mockReply = { send: vi.fn(), status: vi.fn().mockReturnThis(), type: vi.fn().mockReturnThis() }
 
       await invocationHandler(mockReq, mockReply)
 
@@ -914,7 +1793,7 @@ describe('BedrockAgentCoreApp', () => {
         body: {},
         headers: { 'x-amzn-bedrock-agentcore-runtime-session-id': 'test-session' },
       }
-      const mockReply = { send: vi.fn(), status: vi.fn().mockReturnThis() }
+      const mockReply = { send: vi.fn(), status: vi.fn().mockReturnThis(), type: vi.fn().mockReturnThis() }
 
       await invocationHandler(mockReq, mockReply)
 
@@ -937,7 +1816,7 @@ describe('BedrockAgentCoreApp', () => {
           authorization: 'Bearer token123',
         },
       }
-      const mockReply = { send: vi.fn(), status: vi.fn().mockReturnThis() }
+      const mockReply = { send: vi.fn(), status: vi.fn().mockReturnThis(), type: vi.fn().mockReturnThis() }
 
       await invocationHandler(mockReq, mockReply)
 
@@ -965,7 +1844,7 @@ describe('BedrockAgentCoreApp', () => {
           'x-amzn-bedrock-agentcore-runtime-custom-foo': 'bar',
         },
       }
-      const mockReply = { send: vi.fn(), status: vi.fn().mockReturnThis() }
+      const mockReply = { send: vi.fn(), status: vi.fn().mockReturnThis(), type: vi.fn().mockReturnThis() }
 
       await invocationHandler(mockReq, mockReply)
 
@@ -995,7 +1874,7 @@ describe('BedrockAgentCoreApp', () => {
           host: 'example.com',
         },
       }
-      const mockReply = { send: vi.fn(), status: vi.fn().mockReturnThis() }
+      const mockReply = { send: vi.fn(), status: vi.fn().mockReturnThis(), type: vi.fn().mockReturnThis() }
 
       await invocationHandler(mockReq, mockReply)
 
@@ -1022,7 +1901,7 @@ describe('BedrockAgentCoreApp', () => {
           'x-amzn-bedrock-agentcore-runtime-custom-baz': 'qux',
         },
       }
-      const mockReply = { send: vi.fn(), status: vi.fn().mockReturnThis() }
+      const mockReply = { send: vi.fn(), status: vi.fn().mockReturnThis(), type: vi.fn().mockReturnThis() }
 
       await invocationHandler(mockReq, mockReply)
 
@@ -1053,7 +1932,7 @@ describe('BedrockAgentCoreApp', () => {
           AUTHORIZATION: 'Bearer token123',
         },
       }
-      const mockReply = { send: vi.fn(), status: vi.fn().mockReturnThis() }
+      const mockReply = { send: vi.fn(), status: vi.fn().mockReturnThis(), type: vi.fn().mockReturnThis() }
 
       await invocationHandler(mockReq, mockReply)
 
@@ -1081,7 +1960,7 @@ describe('BedrockAgentCoreApp', () => {
         body: {},
         headers: { 'x-amzn-bedrock-agentcore-runtime-session-id': 'test-session' },
       }
-      const mockReply = { send: vi.fn(), status: vi.fn().mockReturnThis() }
+      const mockReply = { send: vi.fn(), status: vi.fn().mockReturnThis(), type: vi.fn().mockReturnThis() }
 
       await invocationHandler(mockReq, mockReply)
 
@@ -0,0 +1,350 @@
+import { describe, it, expect, vi, afterEach } from 'vitest'
+import { Buffer } from 'buffer'
+import { constants, createHmac, generateKeyPairSync, sign } from 'crypto'
+import type { KeyObject } from 'crypto'
+import { mkdtempSync, writeFileSync } from 'fs'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import { JwtVerifier, JwtVerificationError, extractBearerToken } from '../auth.js'
+import { BedrockAgentCoreApp } from '../app.js'
+import { createTestClient } from '../testing.js'
+import { getContext } from '../context.js'
+import type { JwtVerificationKey } from '../types.js'
+import { createApp } from './helpers.js'
+
+const rsa = generateKeyPairSync('rsa', { modulusLength: 2048 })
+const ec = generateKeyPairSync('ec', { namedCurve: 'P-256' })
+const ed = generateKeyPairSync('ed25519')
+
+const rsaJwk: JwtVerificationKey = { ...rsa.publicKey.export({ format: 'jwk' }), kid: 'rsa-key' }
+const ecJwk: JwtVerificationKey = { ...ec.publicKey.export({ format: 'jwk' }), kid: 'ec-key' }
+const edJwk: JwtVerificationKey = { ...ed.publicKey.export({ format: 'jwk' }), kid: 'ed-key' }
+
+function encode(value: object): string {
+  return Buffer.from(JSON.stringify(value)).toString('base64url')
+}
+
+function createToken(
+  claims: Record<string, unknown>,
+  options: { alg?: string; kid?: string; key?: KeyObject; secret?: Buffer } = {}
+): string {
+  const alg = options.alg ?? 'RS256'
+  const header = { alg, typ: 'JWT', ...(options.kid !== undefined ? { kid: options.kid } : { kid: 'rsa-key' }) }
+  // Tokens expire by default; pass exp: undefined to omit the claim
+  const input = `${encode(header)}.${encode({ exp: now() + 300, ...claims })}`
+  let signature: Buffer
+  switch (alg) {
+    case 'HS256':
+      signature = createHmac('sha256', options.secret!).update(input).digest()
+      break
+    case 'PS256':
+      signature = sign('sha256', Buffer.from(input), {
+        key: options.key ?? rsa.privateKey,
+        padding: constants.RSA_PKCS1_PSS_PADDING,
+        saltLength: constants.RSA_PSS_SALTLEN_DIGEST,
+      })
+      break
+    case 'ES256':
+      signature = sign('sha256', Buffer.from(input), { key: options.key ?? ec.privateKey, dsaEncoding: 'ieee-p1363' })
+      break
+    case 'EdDSA':
+      signature = sign(null, Buffer.from(input), options.key ?? ed.privateKey)
+      break
+    default:
+      signature = sign('sha256', Buffer.from(input), options.key ?? rsa.privateKey)
+  }
+  return `${input}.${signature.toString('base64url')}`
+}
+
+const now = (): number => Math.floor(Date.now() / 1000)
+
+describe('extractBearerToken', () => {
+  it('extracts the token from a bearer header', () => {
+    expect(extractBearerToken('Bearer abc.def.ghi')).toBe('abc.def.ghi')
+    expect(extractBearerToken('bearer abc.def.ghi')).toBe('abc.def.ghi')
+  })
+
+  it('returns undefined for missing or non-bearer headers', () => {
+    expect(extractBearerToken(undefined)).toBeUndefined()
+    expect(extractBearerToken('Basic dXNlcjpwYXNz')).toBeUndefined()
+    expect(extractBearerToken('Bearer')).toBeUndefined()
+  })
+})
+
+describe('JwtVerifier', () => {
+  afterEach(() => {
+    vi.restoreAllMocks()
+  })
+
+  describe('constructor', () => {
+    it('requires exactly one key source', () => {
+      expect(() => new JwtVerifier({})).toThrow('requires exactly one of jwksUrl, jwksFile or jwks')
+      expect(() => new JwtVerifier({ jwks: { keys: [] }, jwksUrl: 'https://example.com/jwks.json' })).toThrow(
+        'requires exactly one of jwksUrl, jwksFile or jwks'
+      )
+    })
+  })
+
+  describe('signature verification', () => {
+    const verifier = new JwtVerifier({ jwks: { keys: [rsaJwk, ecJwk, edJwk] } })
+
+    it.each([
+      ['RS256', 'rsa-key'],
+      ['PS256', 'rsa-key'],
+      ['ES256', 'ec-key'],
+      ['EdDSA', 'ed-key'],
+    ])('verifies %s tokens', async (alg, kid) => {
+      const token = createToken({ sub: 'user-1', exp: now() + 60 }, { alg, kid })
+
+      await expect(verifier.verify(token)).resolves.toMatchObject({ sub: 'user-1' })
+    })
+
+    it('rejects tokens signed with a different key', async () => {
+      const other = generateKeyPairSync('rsa', { modulusLength: 2048 })
+      const token = createToken({ sub: 'user-1' }, { key: other.privateKey })
+
+      await expect(verifier.verify(token)).rejects.toThrow('Invalid token signature')
+    })
+
+    it('rejects tampered payloads', async () => {
+      const [header, , signature] = createToken({ sub: 'user-1' }).split('.')
+      const token = `${header}.${encode({ sub: 'admin' })}.${signature}`
+
+      await expect(verifier.verify(token)).rejects.toThrow('Invalid token signature')
+    })
+
+    it('rejects unsigned tokens', async () => {
+      const token = `${encode({ alg: 'none' })}.${encode({ sub: 'user-1' })}.`
+
+      await expect(verifier.verify(token)).rejects.toThrow('Unsupported token algorithm: none')
+    })
+
+    it('rejects HMAC tokens unless explicitly allowed', async () => {
+      const token = createToken({ sub: 'user-1' }, { alg: 'HS256', secret: Buffer.from('secret') })
+
+      await expect(verifier.verify(token)).rejects.toThrow('Unsupported token algorithm: HS256')
+    })
+
+    it('verifies HMAC tokens with a static symmetric key when allowed', async () => {
+      const secret = Buffer.from('local-test-secret')
+      const hmacVerifier = new JwtVerifier({
+        jwks: { keys: [{ kty: 'oct', k: secret.toString('base64url'), kid: 'local' }] },
+        algorithms: ['HS256'],
+      })
+      const token = createToken({ sub: 'user-1' }, { alg: 'HS256', kid: 'local', secret })
+
+      await expect(hmacVerifier.verify(token)).resolves.toMatchObject({ sub: 'user-1' })
+    })
+
+    it('rejects tokens with an unknown key ID', async () => {
+      const token = createToken({ sub: 'user-1' }, { kid: 'unknown' })
+
+      await expect(verifier.verify(token)).rejects.toThrow('No matching key found for kid: unknown')
+    })
+
+    it('rejects malformed tokens', async () => {
+      await expect(verifier.verify('not-a-jwt')).rejects.toThrow('Malformed token')
+      await expect(verifier.verify('a.b.c')).rejects.toThrow('Malformed token')
+    })
+
+    it('throws JwtVerificationError with a 401 status code', async () => {
+      const error = await verifier.verify('not-a-jwt').catch((e) => e)
+
+      expect(error).toBeInstanceOf(JwtVerificationError)
+      expect(error.statusCode).toBe(401)
+    })
+  })
+
+  describe('claim validation', () => {
+    it('rejects expired tokens', async () => {
+      const verifier = new JwtVerifier({ jwks: { keys: [rsaJwk] } })
+
+      await expect(verifier.verify(createToken({ exp: now() - 10 }))).rejects.toThrow('Token has expired')
+    })
+
+    it('rejects tokens without an expiration unless allowed', async () => {
+      const token = createToken({ sub: 'user-1', exp: undefined })
+
+      await expect(new JwtVerifier({ jwks: { keys: [rsaJwk] } }).verify(token)).rejects.toThrow(
+        'Token has no expiration'
+      )
+      await expect(
+        new JwtVerifier({ jwks: { keys: [rsaJwk] }, allowMissingExpiration: true }).verify(token)
+      ).resolves.toEqual({ sub: 'user-1' })
+    })
+
+    it('applies clock tolerance to expiry and not-before', async () => {
+      const verifier = new JwtVerifier({ jwks: { keys: [rsaJwk] }, clockToleranceSeconds: 30 })
+
+      await expect(verifier.verify(createToken({ exp: now() - 10 }))).resolves.toBeDefined()
+      await expect(verifier.verify(createToken({ nbf: now() + 10 }))).resolves.toBeDefined()
+    })
+
+    it('rejects tokens that are not yet valid', async () => {
+      const verifier = new JwtVerifier({ jwks: { keys: [rsaJwk] } })
+
+      await expect(verifier.verify(createToken({ nbf: now() + 60 }))).rejects.toThrow('Token is not yet valid')
+    })
+
+    it('checks the issuer', async () => {
+      const verifier = new JwtVerifier({ jwks: { keys: [rsaJwk] }, issuer: ['https://a.example.com'] })
+
+      await expect(verifier.verify(createToken({ iss: 'https://a.example.com' }))).resolves.toBeDefined()
+      await expect(verifier.verify(createToken({ iss: 'https://b.example.com' }))).rejects.toThrow(
+        'Token issuer is not accepted'
+      )
+      await expect(verifier.verify(createToken({}))).rejects.toThrow('Token issuer is not accepted')
+    })
+
+    it('checks the audience', async () => {
+      const verifier = new JwtVerifier({ jwks: { keys: [rsaJwk] }, audience: 'my-app' })
+
+      await expect(verifier.verify(createToken({ aud: 'my-app' }))).resolves.toBeDefined()
+      await expect(verifier.verify(createToken({ aud: ['other', 'my-app'] }))).resolves.toBeDefined()
+      await expect(verifier.verify(createToken({ aud: 'other' }))).rejects.toThrow('Token audience is not accepted')
+      await expect(verifier.verify(createToken({}))).rejects.toThrow('Token audience is not accepted')
+    })
+  })
+
+  describe('key sources', () => {
+    it('loads keys from a JWKS file', async () => {
+      const dir = mkdtempSync(join(tmpdir(), 'jwks-'))
+      const file = join(dir, 'jwks.json')
+      writeFileSync(file, JSON.stringify({ keys: [rsaJwk] }))
+      const verifier = new JwtVerifier({ jwksFile: file })
+
+      await expect(verifier.verify(createToken({ sub: 'user-1' }))).resolves.toMatchObject({ sub: 'user-1' })
+    })
+
+    it('fetches and caches keys from a JWKS URL', async () => {
+      const fetchSpy = vi
+        .spyOn(globalThis, 'fetch')
+        .mockResolvedValue(new globalThis.Response(JSON.stringify({ keys: [rsaJwk] }), { status: 200 }))
+      const verifier = new JwtVerifier({ jwksUrl: 'https://example.com/jwks.json' })
+
+      await verifier.verify(createToken({ sub: 'user-1' }))
+      await verifier.verify(createToken({ sub: 'user-2' }))
+
+      expect(fetchSpy).toHaveBeenCalledTimes(1)
+      expect(fetchSpy).toHaveBeenCalledWith('https://example.com/jwks.json', {
+        signal: expect.any(globalThis.AbortSignal),
+      })
+    })
+
+    it('refetches the JWKS when a rotated key ID is not cached', async () => {
+      const fetchSpy = vi
+        .spyOn(globalThis, 'fetch')
+        .mockResolvedValueOnce(new globalThis.Response(JSON.stringify({ keys: [ecJwk] }), { status: 200 }))
+        .mockResolvedValueOnce(new globalThis.Response(JSON.stringify({ keys: [ecJwk, rsaJwk] }), { status: 200 }))
+      const verifier = new JwtVerifier({ jwksUrl: 'https://example.com/jwks.json', jwksCacheTtlMs: 0 })
+
+      await verifier.verify(createToken({ sub: 'user-1' }, { alg: 'ES256', kid: 'ec-key' }))
+      await expect(verifier.verify(createToken({ sub: 'user-2' }))).resolves.toMatchObject({ sub: 'user-2' })
+
+      expect(fetchSpy).toHaveBeenCalledTimes(2)
+    })
+
+    it('times out JWKS requests', async () => {
+      vi.spyOn(globalThis, 'fetch').mockImplementation(
+        (_url, init) =>
+          new Promise((_resolve, reject) => init!.signal!.addEventListener('abort', () => reject(init!.signal!.reason)))
+      )
+      const verifier = new JwtVerifier({ jwksUrl: 'https://example.com/jwks.json', jwksTimeoutMs: 10 })
+
+      await expect(verifier.verify(createToken({}))).rejects.toThrow('Failed to load JWKS: timed out after 10ms')
+    })
+
+    it('throws a plain Error when the JWKS cannot be fetched', async () => {
+      vi.spyOn(globalThis, 'fetch').mockResolvedValue(new globalThis.Response('oops', { status: 500 }))
+      const verifier = new JwtVerifier({ jwksUrl: 'https://example.com/jwks.json' })
+
+      const error = await verifier.verify(createToken({})).catch((e) => e)
+
+      expect(error).not.toBeInstanceOf(JwtVerificationError)
+      expect(error.message).toBe('Failed to load JWKS: HTTP 500')
+    })
+  })
+})
+
+describe('BedrockAgentCoreApp auth', () => {
+  const createAuthApp = (): BedrockAgentCoreApp =>
+    createApp(
+      async (_request, context) => ({ sub: context.identity?.sub, contextSub: getContext()?.identity?.sub }),
+      { auth: { jwks: { keys: [rsaJwk] }, audience: 'my-app' } },
+      async (socket, context) => {
+        socket.on('message', () => socket.send(JSON.stringify({ sub: context.identity?.sub })))
+      }
+    )
+
+  it('rejects invocations without a bearer token', async () => {
+    const client = createTestClient(createAuthApp())
+
+    const response = await client.invoke({})
+
+    expect(response.statusCode).toBe(401)
+    expect(response.headers['www-authenticate']).toBe('Bearer error="invalid_token"')
+    expect(response.json()).toEqual({
+      error: 'Unauthorized: Missing bearer token',
+      code: 'UNAUTHORIZED',
+      retryable: false,
+      requestId: expect.any(String),
+    })
+  })
+
+  it('rejects invocations with an invalid token', async () => {
+    const client = createTestClient(createAuthApp())
+
+    const response = await client.invoke(
+      {},
+      { headers: { authorization: `Bearer ${createToken({ aud: 'other-app' })}` } }
+    )
+
+    expect(response.statusCode).toBe(401)
+    expect(response.json()).toMatchObject({
+      error: 'Unauthorized: Token audience is not accepted',
+      code: 'UNAUTHORIZED',
+    })
+  })
+
+  it('exposes verified claims as context.identity', async () => {
+    const client = createTestClient(createAuthApp())
+
+    const response = await client.invoke(
+      {},
+      { headers: { authorization: `Bearer ${createToken({ sub: 'user-1', aud: 'my-app' })}` } }
+    )
+
+    expect(response.statusCode).toBe(200)
+    expect(response.json()).toEqual({ sub: 'user-1', contextSub: 'user-1' })
+  })
+
+  it('does not require a token for /ping', async () => {
+    const client = createTestClient(createAuthApp())
+
+    const response = await client.ping()
+
+    expect(response.statusCode).toBe(200)
+  })
+
+  it('closes WebSocket connections without a valid token', async () => {
+    const client = createTestClient(createAuthApp())
+
+    const ws = await client.connectWebSocket()
+    const code = await new Promise((resolve) => ws.once('close', (closeCode) => resolve(closeCode)))
+
+    expect(code).toBe(1008)
+  })
+
+  it('exposes verified claims to WebSocket handlers', async () => {
+    const client = createTestClient(createAuthApp())
+
+    const ws = await client.connectWebSocket({
+      headers: { authorization: `Bearer ${createToken({ sub: 'user-1', aud: 'my-app' })}` },
+    })
+    const reply = new Promise((resolve) => ws.once('message', (data) => resolve(JSON.parse(data.toString()))))
+    ws.send('whoami')
+
+    expect(await reply).toEqual({ sub: 'user-1' })
+    ws.terminate()
+  })
+})
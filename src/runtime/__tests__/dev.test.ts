@@ -0,0 +1,181 @@
+import { describe, it, expect, afterEach } from 'vitest'
+import { mkdtempSync, rmSync, writeFileSync } from 'fs'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import { BedrockAgentCoreApp } from '../app.js'
+import { createPrettyLogStream } from '../dev.js'
+import type { DevConfig } from '../types.js'
+
+const sleep = (ms: number): Promise<void> => new Promise((resolve) => globalThis.setTimeout(resolve, ms))
+
+function createDevApp(dev: boolean | DevConfig): BedrockAgentCoreApp {
+  return new BedrockAgentCoreApp({
+    invocationHandler: {
+      process: async (_request, context) => ({
+        sessionId: context.sessionId,
+        workloadAccessToken: context.workloadAccessToken,
+        oauth2CallbackUrl: context.oauth2CallbackUrl,
+      }),
+    },
+    config: { logging: { enabled: false }, dev },
+  })
+}
+
+describe('runtime header emulation', () => {
+  it('fills in the session ID, workload token and callback URL', async () => {
+    const response = await createDevApp({ sessionId: 'dev-session' }).inject({
+      method: 'POST',
+      url: '/invocations',
+      payload: {},
+    })
+
+    expect(response.statusCode).toBe(200)
+    expect(response.headers['x-amzn-bedrock-agentcore-runtime-session-id']).toBe('dev-session')
+    expect(response.json()).toEqual({
+      sessionId: 'dev-session',
+      workloadAccessToken: 'dev-workload-access-token',
+      oauth2CallbackUrl: 'http://localhost:8080/oauth2/callback',
+    })
+  })
+
+  it('reuses one generated session ID across requests', async () => {
+    const app = createDevApp(true)
+
+    const first = await app.inject({ method: 'POST', url: '/invocations', payload: {} })
+    const second = await app.inject({ method: 'POST', url: '/invocations', payload: {} })
+
+    expect(first.json().sessionId).toMatch(/^dev-/)
+    expect(second.json().sessionId).toBe(first.json().sessionId)
+  })
+
+  it('keeps values sent by the client', async () => {
+    const app = createDevApp({ workloadAccessToken: 'configured-token', oauth2CallbackUrl: 'http://localhost:3000/cb' })
+
+    const fromHeaders = await app.inject({
+      method: 'POST',
+      url: '/invocations',
+      headers: { 'x-amzn-bedrock-agentcore-runtime-session-id': 'client-session', workloadaccesstoken: 'client-token' },
+      payload: {},
+    })
+    const fromBody = await app.inject({ method: 'POST', url: '/invocations', payload: { sessionId: 'body-session' } })
+
+    expect(fromHeaders.headers['x-amzn-bedrock-agentcore-runtime-session-id']).toBeUndefined()
+    expect(fromHeaders.json()).toEqual({
+      sessionId: 'client-session',
+      workloadAccessToken: 'client-token',
+      oauth2CallbackUrl: 'http://localhost:3000/cb',
+    })
+    expect(fromBody.json().sessionId).toBe('body-session')
+  })
+
+  it('leaves requests untouched outside dev mode', async () => {
+    const response = await createDevApp(false).inject({ method: 'POST', url: '/invocations', payload: {} })
+
+    expect(response.statusCode).toBe(400)
+  })
+})
+
+describe('chat page', () => {
+  it('serves the chat page with the development session ID', async () => {
+    const response = await createDevApp({ sessionId: 'dev-<session>' }).inject({ method: 'GET', url: '/dev' })
+
+    expect(response.statusCode).toBe(200)
+    expect(response.headers['content-type']).toContain('text/html')
+    expect(response.body).toContain("fetch('/invocations'")
+    expect(response.body).toContain('value="dev-&#60;session&#62;"')
+  })
+
+  it('sends invocations that streaming and non-streaming handlers accept', async () => {
+    const page = (await createDevApp(true).inject({ method: 'GET', url: '/dev' })).body
+    const accept = /accept: '([^']+)'/.exec(page)?.[1]
+    const streaming = new BedrockAgentCoreApp({
+      invocationHandler: {
+        process: async function* () {
+          yield { data: { text: 'hello' } }
+        },
+      },
+      config: { logging: { enabled: false }, dev: true },
+    })
+    const invoke = (app: BedrockAgentCoreApp) =>
+      app.inject({ method: 'POST', url: '/invocations', headers: { accept: accept! }, payload: { prompt: 'hi' } })
+
+    const stream = await invoke(streaming)
+    const json = await invoke(createDevApp(true))
+
+    expect(stream.statusCode).toBe(200)
+    expect(stream.headers['content-type']).toContain('text/event-stream')
+    expect(stream.body).toContain('data: {"text":"hello"}')
+    expect(json.statusCode).toBe(200)
+    expect(json.json()).toMatchObject({ workloadAccessToken: expect.any(String) })
+  })
+
+  it('can be moved or disabled', async () => {
+    expect((await createDevApp({ chatPage: '/chat' }).inject({ method: 'GET', url: '/chat' })).statusCode).toBe(200)
+    expect((await createDevApp({ chatPage: false }).inject({ method: 'GET', url: '/dev' })).statusCode).toBe(404)
+    expect((await createDevApp(false).inject({ method: 'GET', url: '/dev' })).statusCode).toBe(404)
+  })
+})
+
+describe('createPrettyLogStream', () => {
+  it('formats JSON log lines as text', () => {
+    const lines: string[] = []
+    const stream = createPrettyLogStream({ write: (line: string) => lines.push(line) })
+
+    stream.write(
+      JSON.stringify({
+        level: 30,
+        time: Date.UTC(2024, 0, 1, 12, 30, 5, 42),
+        pid: 1,
+        hostname: 'host',
+        reqId: 'req-1',
+        msg: 'Invocation finished',
+        durationMs: 12,
+      })
+    )
+    stream.write(JSON.stringify({ level: 50, time: 0, msg: 'Failed', err: { message: 'boom', stack: 'Error: boom' } }))
+    stream.write('not json\n')
+
+    expect(lines).toEqual([
+      '12:30:05.042 INFO  [req-1] Invocation finished {"durationMs":12}\n',
+      '00:00:00.000 ERROR Failed\nError: boom\n',
+      'not json\n',
+    ])
+  })
+})
+
+describe('handler reload', () => {
+  let directory: string | undefined
+  let app: BedrockAgentCoreApp | undefined
+
+  afterEach(async () => {
+    await app?.close()
+    if (directory) {
+      rmSync(directory, { recursive: true, force: true })
+    }
+    app = undefined
+    directory = undefined
+  })
+
+  it('re-imports the handler module when it changes', async () => {
+    directory = mkdtempSync(join(tmpdir(), 'agentcore-dev-'))
+    const module = join(directory, 'agent.mjs')
+    writeFileSync(module, "export const handler = async () => 'v1'\n")
+    app = new BedrockAgentCoreApp({
+      invocationHandler: { process: async () => 'v1' },
+      config: { logging: { enabled: false }, dev: { reload: { module, export: 'handler' } } },
+    })
+    const invoke = async (): Promise<string> =>
+      (await app!.inject({ method: 'POST', url: '/invocations', payload: {} })).json()
+
+    expect(await invoke()).toBe('v1')
+
+    writeFileSync(module, "export const handler = { process: async () => 'v2' }\n")
+    let body = await invoke()
+    for (let attempt = 0; body !== 'v2' && attempt < 50; attempt++) {
+      await sleep(50)
+      body = await invoke()
+    }
+
+    expect(body).toBe('v2')
+  })
+})
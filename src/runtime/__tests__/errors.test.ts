@@ -0,0 +1,159 @@
+import { describe, it, expect } from 'vitest'
+import {
+  AgentCoreError,
+  AuthError,
+  ConcurrencyLimitError,
+  HandlerError,
+  InvocationTimeoutError,
+  UpstreamError,
+  ValidationError,
+  toAgentCoreError,
+} from '../errors.js'
+import { JwtVerificationError } from '../auth.js'
+import { createApp } from './helpers.js'
+
+describe('AgentCoreError', () => {
+  it('defaults to a non-retryable HANDLER_ERROR with status 500', () => {
+    const error = new AgentCoreError('boom')
+
+    expect(error).toMatchObject({ code: 'HANDLER_ERROR', statusCode: 500, retryable: false, details: undefined })
+  })
+
+  it('derives the code and retryability from the status', () => {
+    expect(new AgentCoreError('gone', { statusCode: 404 })).toMatchObject({ code: 'NOT_FOUND', retryable: false })
+    expect(new AgentCoreError('busy', { statusCode: 503 })).toMatchObject({
+      code: 'SERVICE_UNAVAILABLE',
+      retryable: true,
+    })
+  })
+
+  it('serializes to the error envelope', () => {
+    const error = new AgentCoreError('Quota exceeded', { code: 'QUOTA_EXCEEDED', details: { limit: 100 } })
+
+    expect(error.toJSON()).toEqual({
+      error: 'Quota exceeded',
+      code: 'QUOTA_EXCEEDED',
+      retryable: false,
+      details: { limit: 100 },
+    })
+    expect(JSON.parse(JSON.stringify(new AgentCoreError('boom')))).toEqual({
+      error: 'boom',
+      code: 'HANDLER_ERROR',
+      retryable: false,
+    })
+  })
+
+  it('keeps the cause without serializing it', () => {
+    const cause = new Error('socket hang up')
+    const error = new UpstreamError('Search failed', { cause })
+
+    expect(error.cause).toBe(cause)
+    expect(error.toJSON()).not.toHaveProperty('cause')
+  })
+})
+
+describe('error categories', () => {
+  it.each([
+    [new ValidationError('bad'), 'VALIDATION_ERROR', 400, false],
+    [new AuthError('who?'), 'UNAUTHORIZED', 401, false],
+    [new JwtVerificationError('Token has expired'), 'UNAUTHORIZED', 401, false],
+    [new ConcurrencyLimitError('busy', 1), 'CONCURRENCY_LIMIT', 429, true],
+    [new HandlerError('boom'), 'HANDLER_ERROR', 500, false],
+    [new UpstreamError('down'), 'UPSTREAM_ERROR', 502, true],
+    [new InvocationTimeoutError(250), 'TIMEOUT', 504, true],
+  ])('%s maps to %s / %i', (error, code, statusCode, retryable) => {
+    expect(error).toBeInstanceOf(AgentCoreError)
+    expect(error).toMatchObject({ code, statusCode, retryable })
+  })
+
+  it('lets upstream errors opt out of retries', () => {
+    expect(new UpstreamError('Bad API key', { retryable: false }).retryable).toBe(false)
+  })
+
+  it('gives InvocationTimeoutError the TimeoutError name and timeout details', () => {
+    const error = new InvocationTimeoutError(250)
+
+    expect(error).toMatchObject({
+      name: 'TimeoutError',
+      message: 'Invocation timed out after 250ms',
+      timeoutMs: 250,
+      details: { timeoutMs: 250 },
+    })
+  })
+})
+
+describe('toAgentCoreError', () => {
+  it('returns AgentCoreErrors unchanged', () => {
+    const error = new ValidationError('bad')
+
+    expect(toAgentCoreError(error)).toBe(error)
+  })
+
+  it('keeps the status of errors carrying a statusCode', () => {
+    const error = Object.assign(new Error('Forbidden'), { statusCode: 403 })
+
+    expect(toAgentCoreError(error)).toMatchObject({ message: 'Forbidden', code: 'FORBIDDEN', statusCode: 403 })
+  })
+
+  it('ignores statusCodes outside the 4xx/5xx range', () => {
+    const error = Object.assign(new Error('odd'), { statusCode: 200 })
+
+    expect(toAgentCoreError(error)).toMatchObject({ code: 'HANDLER_ERROR', statusCode: 500, cause: error })
+  })
+
+  it('wraps other errors and thrown values as HandlerError', () => {
+    const error = new Error('boom')
+
+    expect(toAgentCoreError(error)).toBeInstanceOf(HandlerError)
+    expect(toAgentCoreError(error)).toMatchObject({ message: 'boom', cause: error })
+    expect(toAgentCoreError('boom')).toMatchObject({ message: 'Unknown error', code: 'HANDLER_ERROR' })
+  })
+})
+
+describe('errors raised before the handler', () => {
+  const headers = {
+    'content-type': 'application/json',
+    'x-amzn-bedrock-agentcore-runtime-session-id': 'session-1',
+    'x-amzn-bedrock-agentcore-runtime-request-id': 'request-1',
+  }
+
+  it('sends the error envelope for invalid JSON bodies', async () => {
+    const response = await createApp(async () => 'ok').inject({
+      method: 'POST',
+      url: '/invocations',
+      headers,
+      payload: '{"broken',
+    })
+
+    expect(response.statusCode).toBe(400)
+    expect(response.json()).toEqual({
+      error: expect.stringContaining('JSON'),
+      code: 'VALIDATION_ERROR',
+      retryable: false,
+      requestId: 'request-1',
+    })
+  })
+
+  it('sends the error envelope for bodies over the limit', async () => {
+    const response = await createApp(async () => 'ok', { bodyLimit: 16 }).inject({
+      method: 'POST',
+      url: '/invocations',
+      headers,
+      payload: JSON.stringify({ prompt: 'a'.repeat(64) }),
+    })
+
+    expect(response.statusCode).toBe(413)
+    expect(response.json()).toMatchObject({ code: 'PAYLOAD_TOO_LARGE', retryable: false, requestId: 'request-1' })
+  })
+
+  it('applies serializeError', async () => {
+    const app = createApp(async () => 'ok', {
+      serializeError: (error, { transport }) => ({ message: error.message, transport }),
+    })
+
+    const response = await app.inject({ method: 'POST', url: '/invocations', headers, payload: '{"broken' })
+
+    expect(response.statusCode).toBe(400)
+    expect(response.json()).toEqual({ message: expect.stringContaining('JSON'), transport: 'http' })
+  })
+})
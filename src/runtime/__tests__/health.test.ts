@@ -0,0 +1,253 @@
+import { describe, it, expect, vi } from 'vitest'
+import { HealthMonitor } from '../health.js'
+import { BedrockAgentCoreApp } from '../app.js'
+import type { HealthStatus } from '../types.js'
+
+const sleep = (ms: number): Promise<void> => new Promise((resolve) => globalThis.setTimeout(resolve, ms))
+
+describe('HealthMonitor', () => {
+  it('is disabled without an async ping handler or checks', () => {
+    expect(new HealthMonitor({}, undefined, () => {}).enabled).toBe(false)
+    expect(
+      new HealthMonitor(
+        {},
+        () => 'Healthy',
+        () => {}
+      ).enabled
+    ).toBe(false)
+    expect(
+      new HealthMonitor(
+        {},
+        async (): Promise<HealthStatus> => 'Healthy',
+        () => {}
+      ).enabled
+    ).toBe(true)
+    expect(new HealthMonitor({ checks: { db: () => true } }, undefined, () => {}).enabled).toBe(true)
+  })
+
+  it('caches the async ping handler status and evaluation time', async () => {
+    const monitor = new HealthMonitor(
+      {},
+      async (): Promise<HealthStatus> => 'HealthyBusy',
+      () => {}
+    )
+    expect(monitor.pingHandlerStatus).toBeUndefined()
+    expect(monitor.isStale).toBe(true)
+
+    const before = Date.now()
+    await monitor.evaluate()
+
+    expect(monitor.pingHandlerStatus).toBe('HealthyBusy')
+    expect(monitor.evaluatedAt).toBeGreaterThanOrEqual(before)
+    expect(monitor.isStale).toBe(false)
+  })
+
+  it('reports a failing or slow ping handler and clears its status', async () => {
+    const onError = vi.fn()
+    let slow = false
+    const monitor = new HealthMonitor(
+      { timeoutMs: 20 },
+      async (): Promise<HealthStatus> => {
+        if (slow) {
+          await sleep(1000)
+        }
+        return 'Healthy'
+      },
+      onError
+    )
+    await monitor.evaluate()
+    expect(monitor.pingHandlerStatus).toBe('Healthy')
+
+    slow = true
+    await monitor.evaluate()
+
+    expect(monitor.pingHandlerStatus).toBeUndefined()
+    expect(onError).toHaveBeenCalledWith(expect.objectContaining({ name: 'TimeoutError' }))
+  })
+
+  it('shares one evaluation between concurrent callers', async () => {
+    const check = vi.fn(async () => {
+      await sleep(10)
+      return true
+    })
+    const monitor = new HealthMonitor({ checks: { db: check } }, undefined, () => {})
+
+    await Promise.all([monitor.evaluate(), monitor.evaluate(), monitor.evaluate()])
+
+    expect(check).toHaveBeenCalledTimes(1)
+  })
+
+  it('reports passing, failing, throwing and timed out checks', async () => {
+    let signal: globalThis.AbortSignal | undefined
+    const monitor = new HealthMonitor(
+      {
+        timeoutMs: 20,
+        checks: {
+          identity: () => true,
+          browser: async () => ({ healthy: false, message: 'No sessions available', details: { sessions: 0 } }),
+          memory: () => {
+            throw new Error('Connection refused')
+          },
+          slow: {
+            check: async (checkSignal) => {
+              signal = checkSignal
+              await sleep(1000)
+              return true
+            },
+            critical: true,
+          },
+        },
+      },
+      undefined,
+      () => {}
+    )
+
+    await monitor.evaluate()
+
+    expect(monitor.reports).toEqual({
+      identity: { status: 'pass', critical: false, durationMs: expect.any(Number) },
+      browser: {
+        status: 'fail',
+        critical: false,
+        durationMs: expect.any(Number),
+        message: 'No sessions available',
+        details: { sessions: 0 },
+      },
+      memory: { status: 'fail', critical: false, durationMs: expect.any(Number), message: 'Connection refused' },
+      slow: {
+        status: 'fail',
+        critical: true,
+        durationMs: expect.any(Number),
+        message: 'Health check timed out after 20ms',
+      },
+    })
+    expect(signal?.aborted).toBe(true)
+    expect(monitor.hasCriticalFailure).toBe(true)
+  })
+
+  it('rejects duplicate and invalid checks', () => {
+    const monitor = new HealthMonitor({ checks: { db: () => true } }, undefined, () => {})
+
+    expect(() => monitor.add('db', () => true)).toThrow('Health check "db" is already registered')
+    expect(() => monitor.add('cache', {} as never)).toThrow('Health check "cache" must be a function')
+  })
+
+  it('re-evaluates on an interval until stopped', async () => {
+    const check = vi.fn(() => true)
+    const monitor = new HealthMonitor({ intervalMs: 10, checks: { db: check } }, undefined, () => {})
+
+    monitor.start()
+    await sleep(55)
+    monitor.stop()
+    const calls = check.mock.calls.length
+    await sleep(30)
+
+    expect(calls).toBeGreaterThanOrEqual(2)
+    expect(check).toHaveBeenCalledTimes(calls)
+  })
+})
+
+describe('BedrockAgentCoreApp health checks', () => {
+  const handler = async (): Promise<string> => 'ok'
+
+  it('uses the status returned by an async ping handler', async () => {
+    const app = new BedrockAgentCoreApp({
+      invocationHandler: { process: handler },
+      pingHandler: async (): Promise<HealthStatus> => 'HealthyBusy',
+      config: { logging: { enabled: false } },
+    })
+
+    const response = await app.inject({ method: 'GET', url: '/ping' })
+
+    expect(response.statusCode).toBe(200)
+    expect(response.json()).toEqual({ status: 'HealthyBusy', time_of_last_update: expect.any(String) })
+    expect(app.getCurrentPingStatus()).toBe('HealthyBusy')
+  })
+
+  it('adopts promises returned by a ping handler declared without async', async () => {
+    const pingHandler = vi.fn(() => Promise.resolve('HealthyBusy' as const))
+    const app = new BedrockAgentCoreApp({
+      invocationHandler: { process: handler },
+      pingHandler,
+      config: { logging: { enabled: false } },
+    })
+
+    // Falls back to automatic until the first evaluation completes
+    expect(app.getCurrentPingStatus()).toBe('Healthy')
+    await sleep(0)
+
+    expect(app.getCurrentPingStatus()).toBe('HealthyBusy')
+    expect(pingHandler).toHaveBeenCalledTimes(1)
+  })
+
+  it('falls back to automatic status when the async ping handler times out', async () => {
+    const app = new BedrockAgentCoreApp({
+      invocationHandler: { process: handler },
+      pingHandler: async (): Promise<HealthStatus> => {
+        await sleep(1000)
+        return 'HealthyBusy'
+      },
+      config: { logging: { enabled: false }, health: { timeoutMs: 20 } },
+    })
+
+    const response = await app.inject({ method: 'GET', url: '/ping' })
+
+    expect(response.json()).toMatchObject({ status: 'Healthy' })
+  })
+
+  it('reports named checks and the evaluation time in the /ping body', async () => {
+    const app = new BedrockAgentCoreApp({
+      invocationHandler: { process: handler },
+      config: { logging: { enabled: false }, health: { checks: { identity: async () => true } } },
+    })
+    app.addHealthCheck('browser', () => ({ healthy: false, message: 'Unreachable' }))
+
+    const before = Date.now()
+    const response = await app.inject({ method: 'GET', url: '/ping' })
+
+    // Non-critical failures are reported without failing the health check
+    expect(response.statusCode).toBe(200)
+    const body = response.json()
+    expect(body).toEqual({
+      status: 'Healthy',
+      time_of_last_update: expect.any(String),
+      checks: {
+        identity: { status: 'pass', critical: false, durationMs: expect.any(Number) },
+        browser: { status: 'fail', critical: false, durationMs: expect.any(Number), message: 'Unreachable' },
+      },
+    })
+    expect(Date.parse(body.time_of_last_update)).toBeGreaterThanOrEqual(before - 1)
+  })
+
+  it('serves cached results until they are stale', async () => {
+    const check = vi.fn(() => true)
+    const app = new BedrockAgentCoreApp({
+      invocationHandler: { process: handler },
+      config: { logging: { enabled: false }, health: { intervalMs: 60_000, checks: { db: check } } },
+    })
+
+    const first = await app.inject({ method: 'GET', url: '/ping' })
+    const second = await app.inject({ method: 'GET', url: '/ping' })
+
+    expect(check).toHaveBeenCalledTimes(1)
+    expect(second.json().time_of_last_update).toBe(first.json().time_of_last_update)
+  })
+
+  it('responds with 503 when a critical check fails', async () => {
+    const app = new BedrockAgentCoreApp({
+      invocationHandler: { process: handler },
+      config: {
+        logging: { enabled: false },
+        health: { checks: { identity: { check: () => false, critical: true } } },
+      },
+    })
+
+    const response = await app.inject({ method: 'GET', url: '/ping' })
+
+    expect(response.statusCode).toBe(503)
+    expect(response.json()).toMatchObject({
+      status: 'Healthy',
+      checks: { identity: { status: 'fail', critical: true } },
+    })
+  })
+})
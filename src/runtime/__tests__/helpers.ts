@@ -0,0 +1,22 @@
+import { BedrockAgentCoreApp } from '../app.js'
+import type { BedrockAgentCoreAppConfig, InvocationHandler, WebSocketHandler } from '../types.js'
+
+/**
+ * Creates an app with logging disabled for tests.
+ *
+ * @param process - Invocation handler
+ * @param config - App configuration, merged over the test defaults
+ * @param websocketHandler - Handler for /ws connections
+ * @returns The app
+ */
+export function createApp(
+  process: InvocationHandler,
+  config: BedrockAgentCoreAppConfig = {},
+  websocketHandler?: WebSocketHandler
+): BedrockAgentCoreApp {
+  return new BedrockAgentCoreApp({
+    invocationHandler: { process },
+    ...(websocketHandler && { websocketHandler }),
+    config: { logging: { enabled: false }, ...config },
+  })
+}
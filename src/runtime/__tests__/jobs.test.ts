@@ -0,0 +1,230 @@
+import { describe, it, expect, vi } from 'vitest'
+import { JobManager } from '../jobs.js'
+import { BedrockAgentCoreApp } from '../app.js'
+import { getContext } from '../context.js'
+import { UpstreamError } from '../errors.js'
+
+const settle = (): Promise<void> => new Promise((resolve) => globalThis.setTimeout(resolve, 0))
+
+const deferred = <T>(): { promise: Promise<T>; resolve: (value: T) => void } => {
+  let resolve!: (value: T) => void
+  const promise = new Promise<T>((r) => (resolve = r))
+  return { promise, resolve }
+}
+
+describe('JobManager', () => {
+  it('records the result and timestamps of a successful job', async () => {
+    const onSettled = vi.fn()
+    const manager = new JobManager({}, onSettled)
+
+    const jobId = manager.enqueue(
+      async function summarize() {
+        return { summary: 'done' }
+      },
+      {},
+      undefined
+    )
+    expect(manager.get(jobId)).toMatchObject({ jobId, name: 'summarize', state: 'running' })
+    await settle()
+
+    const status = manager.get(jobId)!
+    expect(status).toMatchObject({ state: 'succeeded', result: { summary: 'done' } })
+    expect(Date.parse(status.completedAt!)).toBeGreaterThanOrEqual(Date.parse(status.startedAt!))
+    expect(onSettled).toHaveBeenCalledWith(expect.objectContaining({ jobId, state: 'succeeded' }))
+    expect(manager.activeCount).toBe(0)
+  })
+
+  it('records failures as an error envelope', async () => {
+    const manager = new JobManager({}, () => {})
+
+    const jobId = manager.enqueue(
+      async () => {
+        throw new UpstreamError('Search API unavailable')
+      },
+      { name: 'search', metadata: { query: 'x' } },
+      undefined
+    )
+    await settle()
+
+    expect(manager.get(jobId)).toMatchObject({
+      name: 'search',
+      metadata: { query: 'x' },
+      state: 'failed',
+      error: { error: 'Search API unavailable', code: 'UPSTREAM_ERROR', retryable: true },
+    })
+  })
+
+  it('records progress while running', async () => {
+    const manager = new JobManager({}, () => {})
+    const gate = deferred<void>()
+
+    const jobId = manager.enqueue(
+      async (job) => {
+        job.reportProgress({ percent: 50, message: 'Halfway' })
+        await gate.promise
+      },
+      {},
+      undefined
+    )
+
+    expect(manager.get(jobId)!.progress).toEqual({ percent: 50, message: 'Halfway' })
+    gate.resolve()
+  })
+
+  it('keeps jobs pending beyond maxConcurrentJobs', async () => {
+    const manager = new JobManager({ maxConcurrentJobs: 1 }, () => {})
+    const gate = deferred<void>()
+
+    const first = manager.enqueue(() => gate.promise, {}, undefined)
+    const second = manager.enqueue(async () => 'second', {}, undefined)
+    expect(manager.get(second)!.state).toBe('pending')
+    expect(manager.activeCount).toBe(2)
+
+    gate.resolve()
+    await settle()
+
+    expect(manager.get(first)!.state).toBe('succeeded')
+    expect(manager.get(second)).toMatchObject({ state: 'succeeded', result: 'second' })
+  })
+
+  it('cancels pending and running jobs', async () => {
+    const manager = new JobManager({ maxConcurrentJobs: 1 }, () => {})
+
+    const running = manager.enqueue(
+      (job) => new Promise((_resolve, reject) => job.signal.addEventListener('abort', () => reject(job.signal.reason))),
+      {},
+      undefined
+    )
+    const pending = manager.enqueue(async () => 'never', {}, undefined)
+
+    expect(manager.cancel(pending)).toBe(true)
+    expect(manager.get(pending)).toMatchObject({ state: 'cancelled', error: { code: 'CANCELLED' } })
+
+    expect(manager.cancel(running)).toBe(true)
+    await settle()
+    expect(manager.get(running)).toMatchObject({ state: 'cancelled', error: { code: 'CANCELLED' } })
+    expect(manager.cancel(running)).toBe(false)
+  })
+
+  it('discards finished jobs beyond maxRetainedJobs and after retentionMs', async () => {
+    const manager = new JobManager({ maxRetainedJobs: 1, retentionMs: 1000 }, () => {})
+
+    const first = manager.enqueue(async () => 1, {}, undefined)
+    const second = manager.enqueue(async () => 2, {}, undefined)
+    await settle()
+
+    expect(manager.get(first)).toBeUndefined()
+    expect(manager.get(second)).toBeDefined()
+
+    vi.spyOn(Date, 'now').mockReturnValue(Date.now() + 2000)
+    expect(manager.get(second)).toBeUndefined()
+    vi.restoreAllMocks()
+  })
+})
+
+describe('BedrockAgentCoreApp jobs', () => {
+  const sessionHeaders = { 'x-amzn-bedrock-agentcore-runtime-session-id': 'session-1' }
+
+  it('runs jobs enqueued by a handler with the invocation context and serves their status', async () => {
+    const gate = deferred<void>()
+    const app: BedrockAgentCoreApp = new BedrockAgentCoreApp({
+      invocationHandler: {
+        process: async () => {
+          const jobId = app.enqueueJob(
+            async (job) => {
+              await gate.promise
+              return { sessionId: getContext()?.sessionId, sameSignal: getContext()?.signal === job.signal }
+            },
+            { name: 'report' }
+          )
+          return { jobId }
+        },
+      },
+      config: { logging: { enabled: false } },
+    })
+
+    const invocation = await app.inject({ method: 'POST', url: '/invocations', headers: sessionHeaders, payload: {} })
+    const { jobId } = invocation.json()
+
+    expect(app.getCurrentPingStatus()).toBe('HealthyBusy')
+    expect(app.getAsyncTaskInfo()).toMatchObject({
+      activeCount: 1,
+      runningJobs: [{ name: 'report', state: 'running', jobId }],
+    })
+    const running = await app.inject({ url: `/jobs/${jobId}`, headers: sessionHeaders })
+    expect(running.json()).toMatchObject({ jobId, state: 'running', sessionId: 'session-1' })
+
+    gate.resolve()
+    await settle()
+
+    const finished = await app.inject({ url: `/jobs/${jobId}`, headers: sessionHeaders })
+    expect(finished.statusCode).toBe(200)
+    expect(finished.json()).toMatchObject({
+      state: 'succeeded',
+      result: { sessionId: 'session-1', sameSignal: true },
+    })
+    expect(app.getCurrentPingStatus()).toBe('Healthy')
+    expect(app.getAsyncTaskInfo().jobs).toEqual([expect.objectContaining({ jobId, state: 'succeeded' })])
+  })
+
+  it('hides jobs from other sessions and unknown IDs', async () => {
+    const app: BedrockAgentCoreApp = new BedrockAgentCoreApp({
+      invocationHandler: { process: async () => ({ jobId: app.enqueueJob(async () => 'secret') }) },
+      config: { logging: { enabled: false } },
+    })
+    const { jobId } = (
+      await app.inject({ method: 'POST', url: '/invocations', headers: sessionHeaders, payload: {} })
+    ).json()
+
+    const otherSession = await app.inject({
+      url: `/jobs/${jobId}`,
+      headers: { 'x-amzn-bedrock-agentcore-runtime-session-id': 'session-2' },
+    })
+    const unknown = await app.inject({ url: '/jobs/missing', headers: sessionHeaders })
+
+    expect(otherSession.statusCode).toBe(404)
+    expect(unknown.statusCode).toBe(404)
+    expect(unknown.json()).toMatchObject({ error: 'Job not found', code: 'NOT_FOUND' })
+  })
+
+  it('serves jobs at a custom path', async () => {
+    const app = new BedrockAgentCoreApp({
+      invocationHandler: { process: async () => 'ok' },
+      config: { logging: { enabled: false }, jobs: { path: '/tasks' } },
+    })
+    const jobId = app.enqueueJob(async () => 'done')
+    await settle()
+
+    const response = await app.inject(`/tasks/${jobId}`)
+
+    expect(response.json()).toMatchObject({ jobId, state: 'succeeded', result: 'done' })
+  })
+
+  it('waits for running jobs on close and rejects new jobs while shutting down', async () => {
+    const gate = deferred<void>()
+    const app = new BedrockAgentCoreApp({
+      invocationHandler: { process: async () => 'ok' },
+      config: { logging: { enabled: false }, shutdown: { handleSignals: false } },
+    })
+    const jobId = app.enqueueJob(() => gate.promise)
+
+    const closing = app.close()
+    expect(() => app.enqueueJob(async () => 'late')).toThrow('Server is shutting down')
+    gate.resolve()
+    await closing
+
+    expect(app.getJob(jobId)!.state).toBe('succeeded')
+  })
+
+  it('cancels jobs through cancelJob', async () => {
+    const app = new BedrockAgentCoreApp({ invocationHandler: { process: async () => 'ok' } })
+    const jobId = app.enqueueJob(
+      (job) => new Promise((_resolve, reject) => job.signal.addEventListener('abort', () => reject(job.signal.reason)))
+    )
+
+    expect(app.cancelJob(jobId)).toBe(true)
+    await settle()
+
+    expect(app.getJob(jobId)!.state).toBe('cancelled')
+  })
+})
@@ -0,0 +1,206 @@
+import { describe, it, expect } from 'vitest'
+import { BedrockAgentCoreApp } from '../app.js'
+import { createTestClient } from '../testing.js'
+import { createApp } from './helpers.js'
+
+const sleep = (ms: number): Promise<void> => new Promise((resolve) => globalThis.setTimeout(resolve, ms))
+
+describe('app lifecycle hooks', () => {
+  it('runs onStartup once before the first request', async () => {
+    const events: string[] = []
+    const client = createTestClient(
+      createApp(
+        async () => {
+          events.push('invocation')
+          return 'ok'
+        },
+        { lifecycle: { onStartup: async () => void events.push('startup') } }
+      )
+    )
+
+    await client.invoke({})
+    await client.invoke({})
+
+    expect(events).toEqual(['startup', 'invocation', 'invocation'])
+  })
+
+  it('does not start when onStartup throws', async () => {
+    const app = createApp(async () => 'ok', {
+      lifecycle: {
+        onStartup: () => {
+          throw new Error('Model not found')
+        },
+      },
+    })
+
+    await expect(app.inject({ method: 'GET', url: '/ping' })).rejects.toThrow('Model not found')
+  })
+
+  it('ends open sessions, then runs onShutdown on close', async () => {
+    const events: string[] = []
+    const app = createApp(async () => 'ok', {
+      lifecycle: {
+        onSessionEnd: (sessionId, reason) => void events.push(`end ${sessionId} ${reason}`),
+        onShutdown: () => void events.push('shutdown'),
+      },
+    })
+
+    await createTestClient(app, { sessionId: 'session-1' }).invoke({})
+    await app.close()
+
+    expect(events).toEqual(['end session-1 shutdown', 'shutdown'])
+  })
+})
+
+describe('session lifecycle hooks', () => {
+  it('starts each session once, before its first invocation is handled', async () => {
+    const resources = new Map<string, string>()
+    const starts: string[] = []
+    const app = createApp(async (_request, context) => resources.get(context.sessionId), {
+      lifecycle: {
+        onSessionStart: async (sessionId, context) => {
+          starts.push(`${sessionId} ${context.requestId}`)
+          await sleep(10)
+          resources.set(sessionId, `interpreter-${sessionId}`)
+        },
+      },
+    })
+    const client = createTestClient(app, { sessionId: 'session-1' })
+
+    const responses = await Promise.all([
+      client.invoke({}, { requestId: 'request-1' }),
+      client.invoke({}, { requestId: 'request-2' }),
+      client.invoke({}, { sessionId: 'session-2', requestId: 'request-3' }),
+    ])
+
+    expect(responses.map((response) => response.json())).toEqual([
+      'interpreter-session-1',
+      'interpreter-session-1',
+      'interpreter-session-2',
+    ])
+    expect(starts).toEqual(['session-1 request-1', 'session-2 request-3'])
+  })
+
+  it('ends a session after the idle timeout and starts it again on the next invocation', async () => {
+    const events: string[] = []
+    const client = createTestClient(
+      createApp(async () => 'ok', {
+        lifecycle: {
+          sessionIdleTimeoutMs: 30,
+          onSessionStart: (sessionId) => void events.push(`start ${sessionId}`),
+          onSessionEnd: (sessionId, reason) => void events.push(`end ${sessionId} ${reason}`),
+        },
+      }),
+      { sessionId: 'session-1' }
+    )
+
+    await client.invoke({})
+    await sleep(10)
+    await client.invoke({})
+    expect(events).toEqual(['start session-1'])
+
+    await sleep(60)
+    expect(events).toEqual(['start session-1', 'end session-1 idle'])
+
+    await client.invoke({})
+    expect(events).toEqual(['start session-1', 'end session-1 idle', 'start session-1'])
+  })
+
+  it('keeps a session active while an invocation runs longer than the idle timeout', async () => {
+    const events: string[] = []
+    const client = createTestClient(
+      createApp(
+        async function* () {
+          await sleep(40)
+          yield 'done'
+        },
+        {
+          lifecycle: {
+            sessionIdleTimeoutMs: 10,
+            onSessionEnd: () => void events.push('end'),
+          },
+        }
+      )
+    )
+
+    for await (const _event of client.stream({})) {
+      expect(events).toEqual([])
+    }
+    await sleep(30)
+
+    expect(events).toEqual(['end'])
+  })
+
+  it('fails the invocation when onSessionStart throws, and retries on the next one', async () => {
+    let attempts = 0
+    const client = createTestClient(
+      createApp(async () => 'ok', {
+        lifecycle: {
+          onSessionStart: () => {
+            attempts++
+            if (attempts === 1) {
+              throw new Error('Sandbox unavailable')
+            }
+          },
+        },
+      })
+    )
+
+    const failed = await client.invoke({})
+    const succeeded = await client.invoke({})
+
+    expect(failed.statusCode).toBe(500)
+    expect(succeeded.statusCode).toBe(200)
+    expect(attempts).toBe(2)
+  })
+
+  it('logs errors thrown by onSessionEnd', async () => {
+    const lines: string[] = []
+    const app = new BedrockAgentCoreApp({
+      invocationHandler: { process: async () => 'ok' },
+      config: {
+        logging: { enabled: true, options: { level: 'error', stream: { write: (line: string) => lines.push(line) } } },
+        lifecycle: {
+          onSessionEnd: () => {
+            throw new Error('Cleanup failed')
+          },
+        },
+      },
+    })
+
+    await createTestClient(app, { sessionId: 'session-1' }).invoke({})
+    await app.close()
+
+    const entry = lines.map((line) => JSON.parse(line)).find((line) => line.msg === 'Session end hook failed')
+    expect(entry).toMatchObject({ sessionId: 'session-1', err: { message: 'Cleanup failed' } })
+  })
+
+  it('keeps a session active while its WebSocket connection is open', async () => {
+    const events: string[] = []
+    const app = new BedrockAgentCoreApp({
+      invocationHandler: { process: async () => 'ok' },
+      websocketHandler: async (socket) => {
+        socket.on('message', () => socket.send('pong'))
+      },
+      config: {
+        logging: { enabled: false },
+        lifecycle: {
+          sessionIdleTimeoutMs: 10,
+          onSessionStart: (sessionId) => void events.push(`start ${sessionId}`),
+          onSessionEnd: (sessionId) => void events.push(`end ${sessionId}`),
+        },
+      },
+    })
+
+    const ws = await createTestClient(app, { sessionId: 'session-ws' }).connectWebSocket()
+    const reply = new Promise((resolve) => ws.once('message', resolve))
+    ws.send('ping')
+    await reply
+    await sleep(30)
+    expect(events).toEqual(['start session-ws'])
+
+    ws.terminate()
+    await sleep(50)
+    expect(events).toEqual(['start session-ws', 'end session-ws'])
+  })
+})
@@ -0,0 +1,111 @@
+import { describe, it, expect } from 'vitest'
+import { ConcurrencyLimiter } from '../limits.js'
+import { ConcurrencyLimitError } from '../errors.js'
+
+describe('ConcurrencyLimiter', () => {
+  it('allows invocations up to the global limit', async () => {
+    const limiter = new ConcurrencyLimiter({ maxConcurrentInvocations: 2 })
+
+    await limiter.acquire('a')
+    await limiter.acquire('b')
+
+    expect(limiter.active).toBe(2)
+    expect(limiter.isSaturated).toBe(true)
+    await expect(limiter.acquire('c')).rejects.toBeInstanceOf(ConcurrencyLimitError)
+  })
+
+  it('is unlimited when no limits are configured', async () => {
+    const limiter = new ConcurrencyLimiter({})
+
+    await Promise.all([limiter.acquire('a'), limiter.acquire('a'), limiter.acquire('a')])
+
+    expect(limiter.active).toBe(3)
+    expect(limiter.isSaturated).toBe(false)
+  })
+
+  it('enforces the per-session limit independently of other sessions', async () => {
+    const limiter = new ConcurrencyLimiter({ maxConcurrentInvocationsPerSession: 1 })
+
+    await limiter.acquire('a')
+    await limiter.acquire('b')
+
+    await expect(limiter.acquire('a')).rejects.toThrow('Too many concurrent invocations')
+  })
+
+  it('uses the configured Retry-After hint', async () => {
+    const limiter = new ConcurrencyLimiter({ maxConcurrentInvocations: 0, retryAfterSeconds: 30 })
+
+    const error = await limiter.acquire('a').catch((e: unknown) => e)
+
+    expect(error).toMatchObject({ statusCode: 429, retryAfterSeconds: 30 })
+  })
+
+  it('queues up to maxQueueDepth and starts queued invocations in FIFO order', async () => {
+    const limiter = new ConcurrencyLimiter({ maxConcurrentInvocations: 1, maxQueueDepth: 2 })
+    const order: string[] = []
+
+    const release = await limiter.acquire('a')
+    const second = limiter.acquire('b').then((r) => (order.push('b'), r))
+    const third = limiter.acquire('c').then((r) => (order.push('c'), r))
+    expect(limiter.queued).toBe(2)
+    await expect(limiter.acquire('d')).rejects.toBeInstanceOf(ConcurrencyLimitError)
+
+    release()
+    const releaseSecond = await second
+    releaseSecond()
+    await third
+
+    expect(order).toEqual(['b', 'c'])
+    expect(limiter.queued).toBe(0)
+    expect(limiter.active).toBe(1)
+  })
+
+  it('does not let a session-blocked entry hold up other sessions', async () => {
+    const limiter = new ConcurrencyLimiter({
+      maxConcurrentInvocations: 2,
+      maxConcurrentInvocationsPerSession: 1,
+      maxQueueDepth: 2,
+    })
+
+    await limiter.acquire('a')
+    const releaseB = await limiter.acquire('b')
+    void limiter.acquire('a')
+    const queuedC = limiter.acquire('c')
+
+    releaseB()
+    await queuedC
+
+    expect(limiter.queued).toBe(1)
+  })
+
+  it('ignores repeated release calls', async () => {
+    const limiter = new ConcurrencyLimiter({ maxConcurrentInvocations: 1 })
+
+    const release = await limiter.acquire('a')
+    release()
+    release()
+
+    expect(limiter.active).toBe(0)
+  })
+
+  it('rejects queued invocations after the queue timeout', async () => {
+    const limiter = new ConcurrencyLimiter({ maxConcurrentInvocations: 1, maxQueueDepth: 1, queueTimeoutMs: 10 })
+
+    await limiter.acquire('a')
+
+    await expect(limiter.acquire('b')).rejects.toThrow('Invocation waited more than 10ms in the queue')
+    expect(limiter.queued).toBe(0)
+  })
+
+  it('removes queued invocations when their signal aborts', async () => {
+    const limiter = new ConcurrencyLimiter({ maxConcurrentInvocations: 1, maxQueueDepth: 1 })
+    const controller = new globalThis.AbortController()
+
+    await limiter.acquire('a')
+    const queued = limiter.acquire('b', controller.signal)
+    controller.abort(new Error('Client disconnected'))
+
+    await expect(queued).rejects.toThrow('Client disconnected')
+    expect(limiter.queued).toBe(0)
+  })
+})
@@ -0,0 +1,121 @@
+import { describe, it, expect, vi } from 'vitest'
+import { composeMiddleware } from '../middleware.js'
+import type { InvocationMiddleware, RequestContext } from '../types.js'
+
+const context = { sessionId: 'session-123', headers: {}, log: {} } as RequestContext
+
+describe('composeMiddleware', () => {
+  it('calls the handler directly when there is no middleware', async () => {
+    const handler = vi.fn(async (request: unknown) => ({ echo: request }))
+
+    const result = await composeMiddleware([], handler)({ message: 'hi' }, context)
+
+    expect(result).toEqual({ echo: { message: 'hi' } })
+    expect(handler).toHaveBeenCalledWith({ message: 'hi' }, context)
+  })
+
+  it('runs middleware in registration order around the handler', async () => {
+    const calls: string[] = []
+    const outer: InvocationMiddleware = async (_request, _context, next) => {
+      calls.push('outer:before')
+      const result = await next()
+      calls.push('outer:after')
+      return result
+    }
+    const inner: InvocationMiddleware = async (_request, _context, next) => {
+      calls.push('inner:before')
+      const result = await next()
+      calls.push('inner:after')
+      return result
+    }
+    const handler = vi.fn(async () => {
+      calls.push('handler')
+      return 'done'
+    })
+
+    const result = await composeMiddleware([outer, inner], handler)({}, context)
+
+    expect(result).toBe('done')
+    expect(calls).toEqual(['outer:before', 'inner:before', 'handler', 'inner:after', 'outer:after'])
+  })
+
+  it('passes the context to middleware', async () => {
+    const middleware = vi.fn(async (_request, _context, next) => next())
+
+    await composeMiddleware([middleware], async () => 'ok')({}, context)
+
+    expect(middleware).toHaveBeenCalledWith({}, context, expect.any(Function))
+  })
+
+  it('allows middleware to replace the request', async () => {
+    const middleware: InvocationMiddleware<{ message: string }> = (request, _context, next) =>
+      next({ message: request.message.toUpperCase() })
+    const handler = vi.fn(async (request: { message: string }) => request.message)
+
+    const result = await composeMiddleware([middleware], handler)({ message: 'hi' }, context)
+
+    expect(result).toBe('HI')
+  })
+
+  it('allows middleware to transform the result', async () => {
+    const redact: InvocationMiddleware = async (_request, _context, next) => {
+      const result = (await next()) as { secret: string; value: number }
+      return { ...result, secret: '[REDACTED]' }
+    }
+
+    const result = await composeMiddleware([redact], async () => ({ secret: 'abc', value: 1 }))({}, context)
+
+    expect(result).toEqual({ secret: '[REDACTED]', value: 1 })
+  })
+
+  it('allows middleware to wrap streaming generators', async () => {
+    const upper: InvocationMiddleware = async (_request, _context, next) => {
+      const stream = (await next()) as AsyncGenerator<{ data: string }>
+      return (async function* () {
+        for await (const chunk of stream) {
+          yield { data: chunk.data.toUpperCase() }
+        }
+      })()
+    }
+    const handler = async function* (): AsyncGenerator<{ data: string }> {
+      yield { data: 'a' }
+      yield { data: 'b' }
+    }
+
+    const result = (await composeMiddleware([upper], handler)({}, context)) as AsyncGenerator<{ data: string }>
+    const chunks = []
+    for await (const chunk of result) {
+      chunks.push(chunk)
+    }
+
+    expect(chunks).toEqual([{ data: 'A' }, { data: 'B' }])
+  })
+
+  it('short-circuits when middleware does not call next', async () => {
+    const handler = vi.fn(async () => 'handler result')
+
+    const result = await composeMiddleware([() => 'cached'], handler)({}, context)
+
+    expect(result).toBe('cached')
+    expect(handler).not.toHaveBeenCalled()
+  })
+
+  it('propagates errors thrown by middleware', async () => {
+    const deny: InvocationMiddleware = () => {
+      throw Object.assign(new Error('Forbidden'), { statusCode: 403 })
+    }
+
+    await expect(composeMiddleware([deny], async () => 'ok')({}, context)).rejects.toThrow('Forbidden')
+  })
+
+  it('rejects when next is called more than once', async () => {
+    const twice: InvocationMiddleware = async (_request, _context, next) => {
+      await next()
+      return next()
+    }
+
+    await expect(composeMiddleware([twice], async () => 'ok')({}, context)).rejects.toThrow(
+      'next() called multiple times in invocation middleware'
+    )
+  })
+})
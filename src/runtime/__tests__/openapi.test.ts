@@ -0,0 +1,245 @@
+import { describe, it, expect } from 'vitest'
+import { z } from 'zod'
+import { buildOpenApiDocument } from '../openapi.js'
+import { BedrockAgentCoreApp } from '../app.js'
+
+const getInvoke = (document: ReturnType<typeof buildOpenApiDocument>): any => document.paths['/invocations']!.post
+
+describe('buildOpenApiDocument', () => {
+  it('describes /ping and /invocations with default info', () => {
+    const document = buildOpenApiDocument({})
+
+    expect(document.openapi).toBe('3.1.0')
+    expect(document.info).toEqual({ title: 'Bedrock AgentCore Runtime', version: '1.0.0' })
+    expect(Object.keys(document.paths)).toEqual(['/ping', '/invocations'])
+    expect(getInvoke(document).requestBody.content['application/json'].schema).toEqual({})
+  })
+
+  it('uses custom document info', () => {
+    const document = buildOpenApiDocument({ info: { title: 'My Agent', version: '2.1.0', description: 'Does things' } })
+
+    expect(document.info).toEqual({ title: 'My Agent', version: '2.1.0', description: 'Does things' })
+  })
+
+  it('includes the session and request ID headers', () => {
+    const names = getInvoke(buildOpenApiDocument({})).parameters.map((parameter: { name: string }) => parameter.name)
+
+    expect(names).toEqual([
+      'x-amzn-bedrock-agentcore-runtime-session-id',
+      'x-amzn-bedrock-agentcore-runtime-request-id',
+      'workloadaccesstoken',
+      'oauth2callbackurl',
+    ])
+  })
+
+  it('derives request, response and stream event schemas from Zod', () => {
+    const document = buildOpenApiDocument({
+      requestSchema: z.object({ message: z.string(), count: z.number().default(1) }),
+      responseSchema: z.object({ reply: z.string() }),
+      streamEventSchema: z.object({ data: z.object({ text: z.string() }) }),
+    })
+    const invoke = getInvoke(document)
+
+    expect(invoke.requestBody.content['application/json'].schema).toEqual({
+      type: 'object',
+      properties: { message: { type: 'string' }, count: { type: 'number', default: 1 } },
+      required: ['message'],
+    })
+    expect(invoke.responses['200'].content['application/json'].schema).toMatchObject({
+      type: 'object',
+      properties: { reply: { type: 'string' } },
+      required: ['reply'],
+    })
+    expect(invoke.responses['200'].content['text/event-stream']['x-stream-event-schema']).toMatchObject({
+      properties: { data: { properties: { text: { type: 'string' } } } },
+    })
+  })
+
+  it('describes multipart request bodies and NDJSON and multipart responses', () => {
+    const document = buildOpenApiDocument({
+      requestSchema: z.object({ prompt: z.string() }),
+      responseSchema: z.object({ reply: z.string() }),
+      streamEventSchema: z.object({ text: z.string() }),
+      multipart: true,
+    })
+    const invoke = getInvoke(document)
+    const content = invoke.responses['200'].content
+
+    expect(invoke.requestBody.content['multipart/form-data'].schema).toEqual(
+      invoke.requestBody.content['application/json'].schema
+    )
+    expect(Object.keys(content)).toEqual([
+      'application/json',
+      'multipart/mixed',
+      'text/event-stream',
+      'application/x-ndjson',
+    ])
+    expect(content['multipart/mixed']['x-json-part-schema']).toEqual(content['application/json'].schema)
+    expect(content['application/x-ndjson']['x-stream-event-schema']).toEqual(
+      content['text/event-stream']['x-stream-event-schema']
+    )
+    expect(getInvoke(buildOpenApiDocument({})).requestBody.content['multipart/form-data']).toBeUndefined()
+  })
+
+  it('adds bearer security when auth is enabled', () => {
+    const document = buildOpenApiDocument({ auth: true })
+
+    expect(getInvoke(document).security).toEqual([{ bearerAuth: [] }])
+    expect(getInvoke(document).responses['401']).toBeDefined()
+    expect(document.components!.securitySchemes).toEqual({
+      bearerAuth: { type: 'http', scheme: 'bearer', bearerFormat: 'JWT' },
+    })
+  })
+
+  it('documents 429 and 504 when concurrency limits and timeouts are enabled', () => {
+    const responses = getInvoke(buildOpenApiDocument({ concurrency: true, timeout: true })).responses
+
+    expect(responses['429'].headers['Retry-After']).toBeDefined()
+    expect(responses['504']).toBeDefined()
+    expect(getInvoke(buildOpenApiDocument({})).responses['429']).toBeUndefined()
+  })
+
+  it('describes the jobs route when a jobs path is given', () => {
+    const document = buildOpenApiDocument({ jobsPath: '/jobs' })
+
+    expect(document.paths['/jobs/{jobId}']!.get).toMatchObject({ operationId: 'getJob' })
+    expect(document.components!.schemas!.JobStatus).toBeDefined()
+  })
+
+  it('describes /ws when a WebSocket handler is configured', () => {
+    const document = buildOpenApiDocument({ websocket: true })
+
+    expect(document.paths['/ws']).toBeDefined()
+  })
+
+  it('moves reused and recursive schema definitions to the component schemas', () => {
+    const User = z.object({ name: z.string() }).meta({ id: 'User' })
+    const Node = z.object({
+      value: z.number(),
+      get children() {
+        return z.array(Node)
+      },
+    })
+    const document = buildOpenApiDocument({
+      requestSchema: z.object({ from: User, to: User }),
+      responseSchema: Node,
+    })
+    const invoke = getInvoke(document)
+
+    expect(invoke.requestBody.content['application/json'].schema).toEqual({
+      type: 'object',
+      properties: { from: { $ref: '#/components/schemas/User' }, to: { $ref: '#/components/schemas/User' } },
+      required: ['from', 'to'],
+    })
+    expect(invoke.responses['200'].content['application/json'].schema).toEqual({
+      $ref: '#/components/schemas/InvocationResponse',
+    })
+    expect(document.components?.schemas).toMatchObject({
+      User: { type: 'object', properties: { name: { type: 'string' } } },
+      InvocationResponse: {
+        properties: { children: { type: 'array', items: { $ref: '#/components/schemas/InvocationResponse' } } },
+      },
+    })
+    expect(JSON.stringify(document)).not.toContain('$defs')
+  })
+
+  it('renames definitions whose name is taken by a different schema', () => {
+    const document = buildOpenApiDocument({
+      requestSchema: z.object({ user: z.object({ name: z.string() }).meta({ id: 'User' }) }),
+      responseSchema: z.object({ user: z.object({ id: z.number() }).meta({ id: 'User' }) }),
+      streamEventSchema: z.object({ error: z.object({ message: z.string() }).meta({ id: 'Error' }) }),
+    })
+    const invoke = getInvoke(document)
+
+    expect(invoke.requestBody.content['application/json'].schema.properties.user).toEqual({
+      $ref: '#/components/schemas/User',
+    })
+    expect(invoke.responses['200'].content['application/json'].schema.properties.user).toEqual({
+      $ref: '#/components/schemas/User2',
+    })
+    expect(invoke.responses['200'].content['text/event-stream']['x-stream-event-schema'].properties.error).toEqual({
+      $ref: '#/components/schemas/Error2',
+    })
+    expect(document.components?.schemas).toMatchObject({
+      User: { properties: { name: { type: 'string' } } },
+      User2: { properties: { id: { type: 'number' } } },
+      Error: { required: ['error', 'code', 'retryable'] },
+      Error2: { properties: { message: { type: 'string' } } },
+    })
+  })
+
+  it('replaces characters not allowed in component names', () => {
+    const Node = z.object({
+      value: z.number(),
+      get children() {
+        return z.array(Node)
+      },
+    })
+    const document = buildOpenApiDocument({
+      requestSchema: z.object({ user: z.object({ name: z.string() }).meta({ id: 'users/User profile' }) }),
+      operations: { header: 'x-operation', field: 'operation', schemas: { 'tree walk': { responseSchema: Node } } },
+    })
+    const names = Object.keys(document.components!.schemas!)
+
+    expect(names).toContain('users_User_profile')
+    expect(names).toContain('tree_walkResponse')
+    expect(names.every((name) => /^[a-zA-Z0-9._-]+$/.test(name))).toBe(true)
+    expect(getInvoke(document).requestBody.content['application/json'].schema.properties.user).toEqual({
+      $ref: '#/components/schemas/users_User_profile',
+    })
+    expect(getInvoke(document)['x-operations']['tree walk'].response).toEqual({
+      $ref: '#/components/schemas/tree_walkResponse',
+    })
+  })
+})
+
+describe('BedrockAgentCoreApp OpenAPI route', () => {
+  const invocationHandler = {
+    requestSchema: z.object({ message: z.string() }),
+    process: async (request: { message: string }): Promise<string> => request.message,
+  }
+
+  it('is not served by default', async () => {
+    const app = new BedrockAgentCoreApp({ invocationHandler, config: { logging: { enabled: false } } })
+
+    const response = await app.inject('/openapi.json')
+
+    expect(response.statusCode).toBe(404)
+  })
+
+  it('serves the document at /openapi.json when enabled', async () => {
+    const app = new BedrockAgentCoreApp({ invocationHandler, config: { logging: { enabled: false }, openapi: true } })
+
+    const response = await app.inject('/openapi.json')
+
+    expect(response.statusCode).toBe(200)
+    expect(response.json()).toEqual(app.getOpenApiDocument())
+    expect(response.json().paths['/invocations'].post.requestBody.content['application/json'].schema).toMatchObject({
+      properties: { message: { type: 'string' } },
+    })
+  })
+
+  it('includes operations added after the document was first served', async () => {
+    const app = new BedrockAgentCoreApp({ invocationHandler, config: { logging: { enabled: false }, openapi: true } })
+
+    await app.inject('/openapi.json')
+    app.addOperation('summarize', { requestSchema: z.object({ text: z.string() }), process: async () => 'summary' })
+    const response = await app.inject('/openapi.json')
+
+    expect(response.json().paths['/invocations'].post['x-operations']).toMatchObject({
+      summarize: { requestBody: { properties: { text: { type: 'string' } } } },
+    })
+  })
+
+  it('serves the document at a custom path with custom info', async () => {
+    const app = new BedrockAgentCoreApp({
+      invocationHandler,
+      config: { logging: { enabled: false }, openapi: { path: '/docs/openapi.json', title: 'Echo Agent' } },
+    })
+
+    const response = await app.inject('/docs/openapi.json')
+
+    expect(response.statusCode).toBe(200)
+    expect(response.json().info.title).toBe('Echo Agent')
+  })
+})
@@ -0,0 +1,150 @@
+import { describe, it, expect } from 'vitest'
+import { z } from 'zod'
+import { BedrockAgentCoreApp } from '../app.js'
+import { createTestClient } from '../testing.js'
+import type { BedrockAgentCoreAppConfig, InvocationMiddleware } from '../types.js'
+import { createApp } from './helpers.js'
+
+const OPERATION_HEADER = 'x-amzn-bedrock-agentcore-runtime-custom-operation'
+
+function createOperationsApp(config: BedrockAgentCoreAppConfig = {}): BedrockAgentCoreApp {
+  return createApp(async () => ({ handler: 'default' }), config)
+    .addOperation('summarize', {
+      requestSchema: z.object({ text: z.string() }),
+      process: async (request) => ({ summary: request.text.slice(0, 5) }),
+    })
+    .addOperation('translate', {
+      requestSchema: z.object({ text: z.string(), language: z.string() }),
+      process: async (request) => ({ translated: `${request.text} (${request.language})` }),
+    })
+}
+
+describe('operations', () => {
+  it('routes by the operation header and validates with the operation schema', async () => {
+    const client = createTestClient(createOperationsApp())
+
+    const response = await client.invoke({ text: 'hello world' }, { headers: { [OPERATION_HEADER]: 'summarize' } })
+    const invalid = await client.invoke({ text: 'hello' }, { headers: { [OPERATION_HEADER]: 'translate' } })
+
+    expect(response.json()).toEqual({ summary: 'hello' })
+    expect(invalid.statusCode).toBe(400)
+    expect(invalid.json()).toMatchObject({
+      code: 'VALIDATION_ERROR',
+      details: [expect.objectContaining({ path: ['language'] })],
+    })
+  })
+
+  it('routes by the operation body field when the header is absent', async () => {
+    const client = createTestClient(createOperationsApp())
+
+    const response = await client.invoke({ operation: 'translate', text: 'hello', language: 'fr' })
+
+    expect(response.json()).toEqual({ translated: 'hello (fr)' })
+  })
+
+  it('prefers the header over the body field', async () => {
+    const client = createTestClient(createOperationsApp())
+
+    const response = await client.invoke(
+      { operation: 'translate', text: 'hello world' },
+      { headers: { [OPERATION_HEADER]: 'summarize' } }
+    )
+
+    expect(response.json()).toEqual({ summary: 'hello' })
+  })
+
+  it('sends invocations without an operation to invocationHandler', async () => {
+    const response = await createTestClient(createOperationsApp()).invoke({ text: 'hello' })
+
+    expect(response.json()).toEqual({ handler: 'default' })
+  })
+
+  it('rejects unknown operations with 404', async () => {
+    const response = await createTestClient(createOperationsApp()).invoke(
+      { operation: 'classify' },
+      { requestId: 'request-1' }
+    )
+
+    expect(response.statusCode).toBe(404)
+    expect(response.json()).toEqual({
+      error: "Unknown operation 'classify'",
+      code: 'NOT_FOUND',
+      retryable: false,
+      details: { operation: 'classify', operations: ['summarize', 'translate'] },
+      requestId: 'request-1',
+    })
+  })
+
+  it('ignores the operation field when no operations are registered', async () => {
+    const app = new BedrockAgentCoreApp({
+      invocationHandler: { process: async (request) => request },
+      config: { logging: { enabled: false } },
+    })
+
+    const response = await createTestClient(app).invoke({ operation: 'anything' })
+
+    expect(response.json()).toEqual({ operation: 'anything' })
+  })
+
+  it('uses the configured header and field', async () => {
+    const client = createTestClient(createOperationsApp({ operations: { header: 'x-operation', field: 'action' } }))
+
+    const byHeader = await client.invoke({ text: 'hello world' }, { headers: { 'x-operation': 'summarize' } })
+    const byField = await client.invoke({ action: 'summarize', text: 'hello world' })
+    const defaultField = await client.invoke({ operation: 'summarize', text: 'hello world' })
+
+    expect(byHeader.json()).toEqual({ summary: 'hello' })
+    expect(byField.json()).toEqual({ summary: 'hello' })
+    expect(defaultField.json()).toEqual({ handler: 'default' })
+  })
+
+  it('runs operation middleware after app middleware, only for that operation', async () => {
+    const calls: string[] = []
+    const app = new BedrockAgentCoreApp({
+      invocationHandler: { process: async () => 'default' },
+      config: { logging: { enabled: false } },
+    })
+    app.use(async (_request, context, next) => {
+      calls.push(`app:${context.operation ?? 'default'}`)
+      return next()
+    })
+    const redact: InvocationMiddleware<{ text: string }> = async (request, _context, next) => {
+      calls.push('operation')
+      return next({ text: request.text.replace(/secret/g, '***') })
+    }
+    app.addOperation('echo', {
+      requestSchema: z.object({ text: z.string() }),
+      middleware: [redact],
+      process: async (request) => ({ text: request.text }),
+    })
+    const client = createTestClient(app)
+
+    const echoed = await client.invoke({ operation: 'echo', text: 'my secret' })
+    await client.invoke({})
+
+    expect(echoed.json()).toEqual({ text: 'my ***' })
+    expect(calls).toEqual(['app:echo', 'operation', 'app:default'])
+  })
+
+  it('rejects duplicate operations and definitions without a process function', () => {
+    const app = createOperationsApp()
+
+    expect(() => app.addOperation('summarize', { process: async () => 'again' })).toThrow(
+      "Operation 'summarize' is already registered"
+    )
+    expect(() => app.addOperation('broken', {} as never)).toThrow("Operation 'broken' requires a process function")
+  })
+
+  it('describes operations in the OpenAPI document', () => {
+    const invoke = createOperationsApp().getOpenApiDocument().paths['/invocations']!.post as Record<string, any>
+
+    expect(invoke.parameters).toContainEqual(
+      expect.objectContaining({ name: OPERATION_HEADER, schema: { type: 'string', enum: ['summarize', 'translate'] } })
+    )
+    expect(invoke.responses['404']).toBeDefined()
+    expect(invoke['x-operations'].translate.requestBody).toMatchObject({
+      type: 'object',
+      required: ['text', 'language'],
+    })
+  })
+})
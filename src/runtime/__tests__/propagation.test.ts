@@ -0,0 +1,104 @@
+import { describe, it, expect, vi } from 'vitest'
+import { Readable } from 'stream'
+import { BedrockAgentCoreClient, GetResourceApiKeyCommand } from '@aws-sdk/client-bedrock-agentcore'
+import { HttpResponse, type HttpRequest } from '@smithy/protocol-http'
+import { getContextPropagationPlugin } from '../propagation.js'
+import { runWithContext } from '../context.js'
+import type { RequestContext } from '../types.js'
+
+const TRACEPARENT = '00-0af7651916cd43dd8448eb211c80319c-b7ad6b7169203331-01'
+
+function createClient(statusCode = 200): { client: BedrockAgentCoreClient; requests: HttpRequest[] } {
+  const requests: HttpRequest[] = []
+  const client = new BedrockAgentCoreClient({
+    region: 'us-east-1',
+    credentials: { accessKeyId: 'AKIDEXAMPLE', secretAccessKey: 'secret' },
+    requestHandler: {
+      handle: async (request: HttpRequest) => {
+        requests.push(request)
+        const body = statusCode === 200 ? { apiKey: 'key' } : { message: 'Denied' }
+        return {
+          response: new HttpResponse({
+            statusCode,
+            headers: {
+              'content-type': 'application/json',
+              'x-amzn-requestid': 'aws-request-1',
+              ...(statusCode !== 200 && { 'x-amzn-errortype': 'AccessDeniedException' }),
+            },
+            body: Readable.from([Buffer.from(JSON.stringify(body))]),
+          }),
+        }
+      },
+    },
+  })
+  client.middlewareStack.use(getContextPropagationPlugin())
+  return { client, requests }
+}
+
+function createContext(overrides: Partial<RequestContext> = {}): RequestContext {
+  return {
+    sessionId: 'session 1',
+    requestId: 'request-1',
+    headers: {},
+    log: { debug: vi.fn() } as unknown as RequestContext['log'],
+    ...overrides,
+  }
+}
+
+const command = new GetResourceApiKeyCommand({ workloadIdentityToken: 'token', resourceCredentialProviderName: 'api' })
+
+describe('getContextPropagationPlugin', () => {
+  it('adds trace and baggage headers from the current invocation', async () => {
+    const { client, requests } = createClient()
+    const context = createContext({
+      trace: { traceId: '0af7651916cd43dd8448eb211c80319c', spanId: 'b7ad6b7169203331', traceparent: TRACEPARENT },
+    })
+
+    await runWithContext(context, () => client.send(command))
+
+    expect(requests[0]!.headers).toMatchObject({
+      traceparent: TRACEPARENT,
+      'X-Amzn-Trace-Id': 'Root=1-0af76519-16cd43dd8448eb211c80319c;Parent=b7ad6b7169203331;Sampled=1',
+      baggage: 'agentcore.session_id=session%201,agentcore.request_id=request-1',
+    })
+  })
+
+  it('logs the operation and AWS request ID', async () => {
+    const { client } = createClient()
+    const context = createContext()
+
+    await runWithContext(context, () => client.send(command))
+
+    expect(context.log.debug).toHaveBeenCalledWith(
+      expect.objectContaining({
+        service: 'BedrockAgentCoreClient',
+        operation: 'GetResourceApiKeyCommand',
+        sessionId: 'session 1',
+        requestId: 'request-1',
+        awsRequestId: 'aws-request-1',
+      }),
+      'AWS SDK request completed'
+    )
+  })
+
+  it('logs failed requests', async () => {
+    const { client } = createClient(403)
+    const context = createContext()
+
+    await expect(runWithContext(context, () => client.send(command))).rejects.toThrow('Denied')
+
+    expect(context.log.debug).toHaveBeenCalledWith(
+      expect.objectContaining({ awsRequestId: 'aws-request-1', error: 'AccessDeniedException' }),
+      'AWS SDK request failed'
+    )
+  })
+
+  it('does not add headers outside an invocation', async () => {
+    const { client, requests } = createClient()
+
+    await client.send(command)
+
+    expect(requests[0]!.headers).not.toHaveProperty('baggage')
+    expect(requests[0]!.headers).not.toHaveProperty('traceparent')
+  })
+})
@@ -0,0 +1,187 @@
+import { describe, it, expect } from 'vitest'
+import { BedrockAgentCoreApp } from '../app.js'
+import { createTestClient } from '../testing.js'
+import { getContext } from '../context.js'
+import { AuthError } from '../errors.js'
+import type { BedrockAgentCoreAppConfig, InvocationContext } from '../types.js'
+
+const sleep = (ms: number): Promise<void> => new Promise((resolve) => globalThis.setTimeout(resolve, ms))
+
+function createHeadersApp(config: BedrockAgentCoreAppConfig): BedrockAgentCoreApp {
+  return new BedrockAgentCoreApp({
+    invocationHandler: { process: async (_request, context) => context.headers },
+    config: { logging: { enabled: false }, ...config },
+  })
+}
+
+describe('header passthrough', () => {
+  it('copies allowed headers and prefixes into context.headers', async () => {
+    const client = createTestClient(createHeadersApp({ headers: { allow: ['X-Tenant-Id', 'x-feature-*'] } }))
+
+    const response = await client.invoke(
+      {},
+      {
+        headers: {
+          authorization: 'Bearer token',
+          'x-tenant-id': 'tenant-1',
+          'x-feature-beta': 'on',
+          'x-other': 'dropped',
+        },
+      }
+    )
+
+    expect(response.json()).toEqual({
+      authorization: 'Bearer token',
+      'x-tenant-id': 'tenant-1',
+      'x-feature-beta': 'on',
+    })
+  })
+
+  it('never copies denied headers, including the default ones', async () => {
+    const client = createTestClient(
+      createHeadersApp({
+        headers: { allow: ['x-feature-*'], deny: ['authorization', 'x-feature-internal'] },
+      })
+    )
+
+    const response = await client.invoke(
+      {},
+      {
+        headers: {
+          authorization: 'Bearer token',
+          'x-amzn-bedrock-agentcore-runtime-custom-user': 'user-1',
+          'x-feature-beta': 'on',
+          'x-feature-internal': 'on',
+        },
+      }
+    )
+
+    expect(response.json()).toEqual({
+      'x-amzn-bedrock-agentcore-runtime-custom-user': 'user-1',
+      'x-feature-beta': 'on',
+    })
+  })
+
+  it('redacts header values in logs', async () => {
+    const lines: string[] = []
+    const app = new BedrockAgentCoreApp({
+      invocationHandler: {
+        process: async (_request, context) => {
+          context.log.info({ headers: context.headers }, 'Invocation headers')
+          return 'ok'
+        },
+      },
+      config: {
+        logging: { enabled: true, options: { level: 'info', stream: { write: (line: string) => lines.push(line) } } },
+        headers: { allow: ['x-api-key'], redact: ['Authorization', 'x-api-key'] },
+      },
+    })
+
+    await createTestClient(app).invoke(
+      {},
+      {
+        headers: {
+          authorization: 'Bearer secret',
+          'x-api-key': 'key-secret',
+          'x-amzn-bedrock-agentcore-runtime-custom-a': 'b',
+        },
+      }
+    )
+
+    const entry = lines.map((line) => JSON.parse(line)).find((line) => line.msg === 'Invocation headers')
+    expect(entry.headers).toEqual({
+      authorization: '[Redacted]',
+      'x-api-key': '[Redacted]',
+      'x-amzn-bedrock-agentcore-runtime-custom-a': 'b',
+    })
+  })
+})
+
+function createTenantApp() {
+  return new BedrockAgentCoreApp({
+    config: {
+      logging: { enabled: false },
+      headers: { allow: ['x-tenant-id'] },
+      contextFactory: async (_request, context) => {
+        const tenantId = context.headers['x-tenant-id']
+        if (!tenantId) {
+          throw new AuthError('Missing tenant')
+        }
+        return { tenantId, flags: { beta: tenantId === 'tenant-beta' } }
+      },
+    },
+    invocationHandler: {
+      process: async (_request, context) => {
+        await sleep(1)
+        return {
+          tenantId: context.tenantId,
+          beta: context.flags.beta,
+          fromGetContext: tenantFromContext(),
+          operation: context.operation ?? null,
+        }
+      },
+    },
+  })
+}
+
+function tenantFromContext(): string | undefined {
+  return getContext<InvocationContext<ReturnType<typeof createTenantApp>>>()?.tenantId
+}
+
+describe('contextFactory', () => {
+  it('adds the derived fields to the handler context and getContext()', async () => {
+    const response = await createTestClient(createTenantApp()).invoke({}, { headers: { 'x-tenant-id': 'tenant-beta' } })
+
+    expect(response.json()).toEqual({
+      tenantId: 'tenant-beta',
+      beta: true,
+      fromGetContext: 'tenant-beta',
+      operation: null,
+    })
+  })
+
+  it('exposes the fields to middleware and operations', async () => {
+    const seen: string[] = []
+    const app = createTenantApp()
+    app.use(async (_request, context, next) => {
+      seen.push(context.tenantId)
+      return next()
+    })
+    app.addOperation('whoami', { process: async (_request, context) => ({ tenantId: context.tenantId }) })
+
+    const response = await createTestClient(app).invoke(
+      { operation: 'whoami' },
+      { headers: { 'x-tenant-id': 'tenant-1' } }
+    )
+
+    expect(response.json()).toEqual({ tenantId: 'tenant-1' })
+    expect(seen).toEqual(['tenant-1'])
+  })
+
+  it('rejects the invocation with the error thrown by the factory', async () => {
+    const response = await createTestClient(createTenantApp()).invoke({})
+
+    expect(response.statusCode).toBe(401)
+    expect(response.json()).toMatchObject({ error: 'Missing tenant', code: 'UNAUTHORIZED' })
+  })
+
+  it('adds the fields to the WebSocket handler context', async () => {
+    const app = new BedrockAgentCoreApp({
+      config: {
+        logging: { enabled: false },
+        contextFactory: (request) => ({ userAgent: String(request.headers['user-agent']) }),
+      },
+      invocationHandler: { process: async () => 'ok' },
+      websocketHandler: async (socket, context) => {
+        socket.on('message', () => socket.send(context.userAgent))
+      },
+    })
+
+    const ws = await createTestClient(app).connectWebSocket({ headers: { 'user-agent': 'test-agent' } })
+    const message = new Promise<string>((resolve) => ws.once('message', (data) => resolve(data.toString())))
+    ws.send('hello')
+
+    expect(await message).toBe('test-agent')
+    ws.terminate()
+  })
+})
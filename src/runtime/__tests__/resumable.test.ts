@@ -0,0 +1,181 @@
+import { describe, it, expect, vi } from 'vitest'
+import type { SSESource } from '@fastify/sse'
+import { createTestClient } from '../testing.js'
+import { StreamBuffer } from '../resumable.js'
+import { UpstreamError } from '../errors.js'
+import type { TestSSEEvent } from '../types.js'
+import { createApp } from './helpers.js'
+
+const sleep = (ms: number): Promise<void> => new Promise((resolve) => globalThis.setTimeout(resolve, ms))
+
+async function collect(events: AsyncIterable<TestSSEEvent>): Promise<TestSSEEvent[]> {
+  const collected: TestSSEEvent[] = []
+  for await (const event of events) {
+    collected.push(event)
+  }
+  return collected
+}
+
+async function* iterate(chunks: SSESource[]): AsyncGenerator<SSESource> {
+  yield* chunks
+}
+
+describe('resumable streams', () => {
+  it('replays the events after Last-Event-ID without invoking the handler again', async () => {
+    const process = vi.fn(async function* () {
+      yield { data: 'a' }
+      yield { data: 'b' }
+      yield { id: 'custom', data: 'c' }
+    })
+    const client = createTestClient(createApp(process, { resumableStreams: true }))
+
+    const first = await collect(client.stream({}, { requestId: 'request-1' }))
+    const resumed = await collect(client.stream({}, { requestId: 'request-1', headers: { 'last-event-id': '1' } }))
+
+    expect(first.map((event) => event.id)).toEqual(['1', '2', 'custom'])
+    expect(resumed).toMatchObject([
+      { id: '2', data: 'b' },
+      { id: 'custom', data: 'c' },
+    ])
+    expect(process).toHaveBeenCalledTimes(1)
+  })
+
+  it('keeps the generator running after the client disconnects', async () => {
+    let release!: () => void
+    const released = new Promise<void>((resolve) => (release = resolve))
+    let finished = false
+    let signal: globalThis.AbortSignal | undefined
+    const client = createTestClient(
+      createApp(
+        async function* (_request, context) {
+          signal = context.signal
+          yield { data: 'before' }
+          await released
+          yield { data: 'after' }
+          finished = true
+        },
+        { resumableStreams: true }
+      )
+    )
+
+    for await (const event of client.stream({}, { requestId: 'request-1' })) {
+      expect(event.data).toBe('before')
+      break
+    }
+    release()
+    await sleep(10)
+
+    expect(finished).toBe(true)
+    expect(signal?.aborted).toBe(false)
+    const resumed = await collect(client.stream({}, { requestId: 'request-1', headers: { 'last-event-id': '1' } }))
+    expect(resumed).toMatchObject([{ id: '2', data: 'after' }])
+  })
+
+  it('follows a stream that is still running', async () => {
+    let release!: () => void
+    const released = new Promise<void>((resolve) => (release = resolve))
+    const client = createTestClient(
+      createApp(
+        async function* () {
+          yield { data: 'a' }
+          yield { data: 'b' }
+          await released
+          yield { data: 'c' }
+        },
+        { resumableStreams: true }
+      )
+    )
+
+    const first = collect(client.stream({}, { requestId: 'request-1' }))
+    await sleep(10)
+    const resumed = collect(client.stream({}, { requestId: 'request-1', headers: { 'last-event-id': '1' } }))
+    await sleep(10)
+    release()
+
+    expect((await first).map((event) => event.data)).toEqual(['a', 'b', 'c'])
+    expect((await resumed).map((event) => event.data)).toEqual(['b', 'c'])
+  })
+
+  it('replays the error event of a failed stream', async () => {
+    const client = createTestClient(
+      createApp(
+        async function* () {
+          yield { data: 'a' }
+          throw new UpstreamError('Model unavailable')
+        },
+        { resumableStreams: true }
+      )
+    )
+
+    await collect(client.stream({}, { requestId: 'request-1' }))
+    const resumed = await collect(client.stream({}, { requestId: 'request-1', headers: { 'last-event-id': '1' } }))
+
+    expect(resumed).toMatchObject([
+      { event: 'error', data: { error: 'Model unavailable', code: 'UPSTREAM_ERROR', requestId: 'request-1' } },
+    ])
+  })
+
+  it('does not resume streams of another session', async () => {
+    const process = vi.fn(async function* () {
+      yield { data: 'a' }
+    })
+    const app = createApp(process, { resumableStreams: true })
+
+    await collect(createTestClient(app, { sessionId: 'session-1' }).stream({}, { requestId: 'request-1' }))
+    await collect(
+      createTestClient(app, { sessionId: 'session-2' }).stream(
+        {},
+        { requestId: 'request-1', headers: { 'last-event-id': '1' } }
+      )
+    )
+
+    expect(process).toHaveBeenCalledTimes(2)
+  })
+
+  it('returns the request ID in a response header', async () => {
+    const app = createApp(
+      async function* () {
+        yield { data: 'a' }
+      },
+      { resumableStreams: true }
+    )
+
+    const response = await app.inject({
+      method: 'POST',
+      url: '/invocations',
+      headers: { accept: 'text/event-stream', 'x-amzn-bedrock-agentcore-runtime-session-id': 'session-1' },
+      payload: {},
+    })
+
+    expect(response.headers['x-amzn-bedrock-agentcore-runtime-request-id']).toEqual(expect.any(String))
+  })
+})
+
+describe('StreamBuffer', () => {
+  it('discards the oldest events beyond maxEvents and replays from the oldest kept event', async () => {
+    const buffer = new StreamBuffer({ maxEvents: 2 })
+    const { stream, completed } = buffer.record('request-1', 'session-1', iterate(['a', 'b', 'c']), () => 'error')
+    await completed
+
+    const replayed: SSESource[] = []
+    for await (const chunk of buffer.follow(stream, 'unknown')) {
+      replayed.push(chunk)
+    }
+
+    expect(replayed).toEqual(['b', 'c'])
+  })
+
+  it('forgets finished streams after retentionMs', async () => {
+    vi.useFakeTimers()
+    try {
+      const buffer = new StreamBuffer({ retentionMs: 1000 })
+      await buffer.record('request-1', 'session-1', iterate([{ data: 'a' }]), () => 'error').completed
+
+      expect(buffer.get('request-1', 'session-1')).toBeDefined()
+      vi.advanceTimersByTime(1000)
+      expect(buffer.get('request-1', 'session-1')).toBeUndefined()
+    } finally {
+      vi.useRealTimers()
+    }
+  })
+})
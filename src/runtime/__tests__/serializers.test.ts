@@ -0,0 +1,200 @@
+import { describe, it, expect } from 'vitest'
+import { Buffer } from 'buffer'
+import { z } from 'zod'
+import { BedrockAgentCoreApp } from '../app.js'
+import { createTestClient } from '../testing.js'
+import { MultipartResponse, negotiate } from '../serializers.js'
+import { UpstreamError } from '../errors.js'
+import { createApp } from './helpers.js'
+
+describe('negotiate', () => {
+  const offered = ['application/json', 'text/plain', 'application/octet-stream']
+
+  it('selects the offer with the highest quality value', () => {
+    expect(negotiate('application/json;q=0.5, text/plain', offered)).toEqual({
+      contentType: 'text/plain',
+      explicit: true,
+    })
+    expect(negotiate('text/*;q=0.2, application/octet-stream;q=0.9', offered)?.contentType).toBe(
+      'application/octet-stream'
+    )
+  })
+
+  it('lets the most specific range set the quality of an offer', () => {
+    expect(negotiate('text/*, text/plain;q=0, application/json;q=0.1', offered)?.contentType).toBe('application/json')
+  })
+
+  it('reports wildcard-only and absent headers as not explicit', () => {
+    expect(negotiate('*/*', offered)).toEqual({ contentType: 'application/json', explicit: false })
+    expect(negotiate(undefined, offered)).toEqual({ contentType: 'application/json', explicit: false })
+  })
+
+  it('returns undefined when nothing offered is acceptable', () => {
+    expect(negotiate('application/xml', offered)).toBeUndefined()
+    expect(negotiate('application/json;q=0', ['application/json'])).toBeUndefined()
+  })
+})
+
+describe('response serializers', () => {
+  it('uses custom serializers and passes the invocation context', async () => {
+    const client = createTestClient(
+      createApp(async () => ({ city: 'Seattle' }), {
+        responseSerializers: [
+          {
+            contentType: 'application/xml',
+            serializer: (result, context) =>
+              `<result session="${context.sessionId}">${(result as { city: string }).city}</result>`,
+          },
+        ],
+      }),
+      { sessionId: 'session-1' }
+    )
+
+    const response = await client.invoke({}, { headers: { accept: 'application/json;q=0.5, application/xml' } })
+
+    expect(response.headers['content-type']).toContain('application/xml')
+    expect(response.body).toBe('<result session="session-1">Seattle</result>')
+  })
+
+  it('replaces the built-in serializer of the same content type', async () => {
+    const client = createTestClient(
+      createApp(async () => ({ a: 1 }), {
+        responseSerializers: [
+          { contentType: 'text/plain', serializer: (result) => `custom ${JSON.stringify(result)}` },
+        ],
+      })
+    )
+
+    const response = await client.invoke({}, { headers: { accept: 'text/plain' } })
+
+    expect(response.body).toBe('custom {"a":1}')
+  })
+
+  it('keeps string results valid JSON when JSON is requested', async () => {
+    const response = await createTestClient(createApp(async () => 'hello')).invoke(
+      {},
+      { headers: { accept: 'application/json' } }
+    )
+
+    expect(response.headers['content-type']).toContain('application/json')
+    expect(response.json()).toBe('hello')
+  })
+
+  it('sends the same JSON body whether the client accepts JSON explicitly, anything, or nothing', async () => {
+    const client = createTestClient(createApp(async () => 'hello'))
+
+    const responses = await Promise.all(
+      [undefined, '*/*', 'application/json', 'text/event-stream'].map((accept) =>
+        client.invoke({}, { headers: accept ? { accept } : {} })
+      )
+    )
+
+    for (const response of responses) {
+      expect(response.headers['content-type']).toContain('application/json')
+      expect(response.body).toBe('"hello"')
+    }
+  })
+})
+
+describe('NDJSON streaming', () => {
+  it('streams chunks as JSON lines when the client prefers NDJSON', async () => {
+    const client = createTestClient(
+      createApp(async function* () {
+        yield { text: 'a' }
+        yield 'b'
+      })
+    )
+
+    const response = await client.invoke({}, { headers: { accept: 'text/event-stream;q=0.5, application/x-ndjson' } })
+
+    expect(response.statusCode).toBe(200)
+    expect(response.headers['content-type']).toContain('application/x-ndjson')
+    expect(response.body).toBe('{"text":"a"}\n"b"\n')
+  })
+
+  it('ends the stream with an error line', async () => {
+    const client = createTestClient(
+      createApp(async function* () {
+        yield { text: 'a' }
+        throw new UpstreamError('Model unavailable')
+      })
+    )
+
+    const response = await client.invoke({}, { headers: { accept: 'application/x-ndjson' }, requestId: 'request-1' })
+
+    const lines = response.body
+      .trim()
+      .split('\n')
+      .map((line) => JSON.parse(line))
+    expect(lines).toEqual([
+      { text: 'a' },
+      {
+        event: 'error',
+        data: { error: 'Model unavailable', code: 'UPSTREAM_ERROR', retryable: true, requestId: 'request-1' },
+      },
+    ])
+  })
+
+  it('still rejects streams when neither SSE nor NDJSON is accepted', async () => {
+    const client = createTestClient(
+      createApp(async function* () {
+        yield { text: 'a' }
+      })
+    )
+
+    const response = await client.invoke({}, { headers: { accept: 'application/json' } })
+
+    expect(response.statusCode).toBe(406)
+  })
+})
+
+describe('MultipartResponse', () => {
+  const report = async (): Promise<MultipartResponse> =>
+    new MultipartResponse({ summary: 'Sales are up' }, [
+      { filename: 'chart.png', contentType: 'image/png', data: Buffer.from([0x89, 0x50, 0x4e, 0x47]) },
+      { filename: 'notes.txt', data: 'plain notes' },
+    ])
+
+  it('sends a JSON part followed by the files', async () => {
+    const response = await createTestClient(createApp(report)).invoke({})
+
+    const contentType = String(response.headers['content-type'])
+    expect(contentType).toMatch(/^multipart\/mixed; boundary=/)
+    const boundary = contentType.split('boundary=')[1]!
+    const parts = response.rawPayload.toString('latin1').split(`--${boundary}`)
+    expect(parts).toHaveLength(5)
+    expect(parts[1]).toContain('content-type: application/json')
+    expect(parts[1]).toContain('{"summary":"Sales are up"}')
+    expect(parts[2]).toContain('content-disposition: attachment; filename="chart.png"')
+    expect(parts[2]).toContain('\r\n\r\n\x89PNG\r\n')
+    expect(parts[3]).toContain('content-type: application/octet-stream')
+    expect(parts[3]).toContain('plain notes')
+    expect(parts[4]).toBe('--\r\n')
+  })
+
+  it('sends JSON with base64 files when the client prefers JSON', async () => {
+    const response = await createTestClient(createApp(report)).invoke({}, { headers: { accept: 'application/json' } })
+
+    expect(response.json()).toEqual({
+      json: { summary: 'Sales are up' },
+      files: [
+        { filename: 'chart.png', contentType: 'image/png', data: 'iVBORw==' },
+        { filename: 'notes.txt', contentType: 'application/octet-stream', data: 'cGxhaW4gbm90ZXM=' },
+      ],
+    })
+  })
+
+  it('validates the JSON part against the response schema', async () => {
+    const app = new BedrockAgentCoreApp({
+      invocationHandler: {
+        process: async () => new MultipartResponse({ summary: 'Sales are up' } as unknown as { summary: number }),
+        responseSchema: z.object({ summary: z.number() }),
+      },
+      config: { logging: { enabled: false } },
+    })
+
+    const response = await createTestClient(app).invoke({})
+
+    expect(response.statusCode).toBe(500)
+  })
+})
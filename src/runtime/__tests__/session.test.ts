@@ -0,0 +1,196 @@
+import { describe, it, expect, vi, afterEach } from 'vitest'
+import { mkdtempSync, readdirSync, rmSync } from 'fs'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import { FileSessionStore, MemorySessionStore, createSessionState } from '../session.js'
+
+afterEach(() => {
+  vi.useRealTimers()
+})
+
+describe('createSessionState', () => {
+  it('stores values as JSON and returns copies', async () => {
+    const session = createSessionState(new MemorySessionStore(), 'session-1')
+    const cart = { items: ['apple'], createdAt: new Date('2024-01-01T00:00:00.000Z') }
+
+    await session.set('cart', cart)
+    cart.items.push('pear')
+
+    expect(await session.get('cart')).toEqual({ items: ['apple'], createdAt: '2024-01-01T00:00:00.000Z' })
+    expect(await session.get('missing')).toBeUndefined()
+  })
+
+  it('deletes and clears values', async () => {
+    const session = createSessionState(new MemorySessionStore(), 'session-1')
+    await session.set('a', 1)
+    await session.set('b', 2)
+
+    await session.delete('a')
+    expect(await session.get('a')).toBeUndefined()
+    expect(await session.get('b')).toBe(2)
+
+    await session.clear()
+    expect(await session.get('b')).toBeUndefined()
+  })
+
+  it.each([
+    ['undefined', undefined],
+    ['a function', { callback: () => {} }],
+    ['a bigint', { count: 1n }],
+    ['a Map', { lookup: new Map() }],
+    [
+      'a cycle',
+      ((): unknown => {
+        const node: Record<string, unknown> = {}
+        node.self = node
+        return node
+      })(),
+    ],
+  ])('rejects %s', async (_description, value) => {
+    const session = createSessionState(new MemorySessionStore(), 'session-1')
+
+    await expect(session.set('value', value)).rejects.toThrow(/Session value for "value" is not JSON-serializable/)
+  })
+})
+
+describe('MemorySessionStore', () => {
+  it('keeps sessions separate', async () => {
+    const store = new MemorySessionStore()
+
+    await store.set('session-1', 'key', '"one"')
+    await store.set('session-2', 'key', '"two"')
+
+    expect(await store.get('session-1', 'key')).toBe('"one"')
+    expect(await store.get('session-2', 'key')).toBe('"two"')
+  })
+
+  it('expires sessions after the idle TTL and extends it on access', async () => {
+    vi.useFakeTimers()
+    const store = new MemorySessionStore({ ttlMs: 1000 })
+    await store.set('session-1', 'key', '1')
+
+    vi.advanceTimersByTime(800)
+    await store.touch('session-1')
+    vi.advanceTimersByTime(800)
+    expect(await store.get('session-1', 'key')).toBe('1')
+
+    vi.advanceTimersByTime(1000)
+    expect(await store.get('session-1', 'key')).toBeUndefined()
+  })
+
+  it('evicts the least recently used session beyond maxSessions', async () => {
+    const store = new MemorySessionStore({ maxSessions: 2 })
+    await store.set('session-1', 'key', '1')
+    await store.set('session-2', 'key', '2')
+
+    await store.get('session-1', 'key')
+    await store.set('session-3', 'key', '3')
+
+    expect(store.size).toBe(2)
+    expect(await store.get('session-1', 'key')).toBe('1')
+    expect(await store.get('session-2', 'key')).toBeUndefined()
+  })
+
+  it('does not create sessions on touch', async () => {
+    const store = new MemorySessionStore()
+
+    await store.touch('session-1')
+
+    expect(store.size).toBe(0)
+  })
+})
+
+describe('FileSessionStore', () => {
+  const createDirectory = (): string => mkdtempSync(join(tmpdir(), 'sessions-'))
+  let directory: string | undefined
+
+  afterEach(() => {
+    if (directory) {
+      rmSync(directory, { recursive: true, force: true })
+      directory = undefined
+    }
+  })
+
+  it('persists values across store instances', async () => {
+    directory = createDirectory()
+    await new FileSessionStore({ directory }).set('session-1', 'key', '"value"')
+
+    expect(await new FileSessionStore({ directory }).get('session-1', 'key')).toBe('"value"')
+  })
+
+  it('keeps session IDs inside the directory', async () => {
+    directory = createDirectory()
+    const store = new FileSessionStore({ directory })
+
+    await store.set('../escape/session', 'key', '1')
+
+    expect(readdirSync(directory)).toEqual([`${encodeURIComponent('../escape/session')}.json`])
+    expect(await store.get('../escape/session', 'key')).toBe('1')
+  })
+
+  it('does not lose concurrent writes to the same session', async () => {
+    directory = createDirectory()
+    const store = new FileSessionStore({ directory })
+
+    await Promise.all(Array.from({ length: 10 }, (_, i) => store.set('session-1', `key-${i}`, String(i))))
+
+    for (let i = 0; i < 10; i++) {
+      expect(await store.get('session-1', `key-${i}`)).toBe(String(i))
+    }
+  })
+
+  it('treats keys named like Object.prototype members as plain keys', async () => {
+    directory = createDirectory()
+    const session = createSessionState(new FileSessionStore({ directory }), 'session-1')
+
+    expect(await session.get('constructor')).toBeUndefined()
+    expect(await session.get('toString')).toBeUndefined()
+
+    await session.set('__proto__', { polluted: true })
+    await session.set('constructor', 'value')
+    const reopened = createSessionState(new FileSessionStore({ directory }), 'session-1')
+
+    expect(await reopened.get('__proto__')).toEqual({ polluted: true })
+    expect(await reopened.get('constructor')).toBe('value')
+    expect(await reopened.get('toString')).toBeUndefined()
+    expect(({} as Record<string, unknown>).polluted).toBeUndefined()
+  })
+
+  it('deletes values and clears sessions', async () => {
+    directory = createDirectory()
+    const store = new FileSessionStore({ directory })
+    await store.set('session-1', 'a', '1')
+    await store.set('session-1', 'b', '2')
+
+    await store.delete('session-1', 'a')
+    expect(await store.get('session-1', 'a')).toBeUndefined()
+
+    await store.clear('session-1')
+    expect(readdirSync(directory)).toEqual([])
+  })
+
+  it('expires sessions and prunes expired files', async () => {
+    directory = createDirectory()
+    const store = new FileSessionStore({ directory, ttlMs: 1000 })
+    const now = Date.now()
+    vi.spyOn(Date, 'now').mockReturnValue(now)
+    await store.set('session-1', 'key', '1')
+    await store.set('session-2', 'key', '2')
+
+    vi.spyOn(Date, 'now').mockReturnValue(now + 900)
+    await store.touch('session-1')
+    vi.spyOn(Date, 'now').mockReturnValue(now + 1500)
+
+    expect(await store.get('session-1', 'key')).toBe('1')
+    expect(await store.prune()).toBe(1)
+    expect(readdirSync(directory)).toEqual(['session-1.json'])
+    vi.restoreAllMocks()
+  })
+
+  it('returns nothing for a missing directory', async () => {
+    const store = new FileSessionStore({ directory: join(tmpdir(), 'missing-sessions-dir') })
+
+    expect(await store.get('session-1', 'key')).toBeUndefined()
+    expect(await store.prune()).toBe(0)
+  })
+})
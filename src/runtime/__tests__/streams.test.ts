@@ -0,0 +1,204 @@
+import { describe, it, expect } from 'vitest'
+import { z } from 'zod'
+import { streamText, tool } from 'ai'
+import { MockLanguageModelV3, convertArrayToReadableStream } from 'ai/test'
+import { BedrockAgentCoreApp } from '../app.js'
+import { createTestClient } from '../testing.js'
+import { fromAiSdkStream, fromConverseStream, fromStrandsStream } from '../streams.js'
+import { UpstreamError } from '../errors.js'
+import type { StreamAdapterEvent } from '../types.js'
+
+async function collect(events: AsyncIterable<StreamAdapterEvent>): Promise<StreamAdapterEvent[]> {
+  const collected: StreamAdapterEvent[] = []
+  for await (const event of events) {
+    collected.push(event)
+  }
+  return collected
+}
+
+async function* iterate<T>(items: T[]): AsyncGenerator<T> {
+  yield* items
+}
+
+const usage = {
+  inputTokens: { total: 10, noCache: 10, cacheRead: undefined, cacheWrite: undefined },
+  outputTokens: { total: 5, text: 5, reasoning: undefined },
+}
+
+function createModel(): MockLanguageModelV3 {
+  return new MockLanguageModelV3({
+    doStream: async () => ({
+      stream: convertArrayToReadableStream([
+        { type: 'text-start', id: 't1' },
+        { type: 'text-delta', id: 't1', delta: 'Checking ' },
+        { type: 'text-delta', id: 't1', delta: 'the weather' },
+        { type: 'text-end', id: 't1' },
+        { type: 'tool-call', toolCallId: 'call-1', toolName: 'weather', input: '{"city":"Seattle"}' },
+        { type: 'finish', finishReason: { unified: 'tool-calls', raw: 'tool_use' }, usage },
+      ]),
+    }),
+  })
+}
+
+describe('fromAiSdkStream', () => {
+  it('converts a streamText result into text, tool, usage and message events', async () => {
+    const result = streamText({
+      model: createModel(),
+      prompt: 'Weather in Seattle?',
+      tools: {
+        weather: tool({
+          inputSchema: z.object({ city: z.string() }),
+          execute: async ({ city }) => ({ city, forecast: 'rain' }),
+        }),
+      },
+    })
+
+    expect(await collect(fromAiSdkStream(result))).toEqual([
+      { id: '1', event: 'text', data: { text: 'Checking ' } },
+      { id: '2', event: 'text', data: { text: 'the weather' } },
+      { id: '3', event: 'tool-call', data: { id: 'call-1', name: 'weather', input: { city: 'Seattle' } } },
+      { id: '4', event: 'tool-result', data: { id: 'call-1', output: { city: 'Seattle', forecast: 'rain' } } },
+      { id: '5', event: 'usage', data: { inputTokens: 10, outputTokens: 5, totalTokens: 15 } },
+      { id: '6', event: 'message', data: { text: 'Checking the weather', stopReason: 'tool-calls' } },
+    ])
+  })
+
+  it('ends the stream with an UpstreamError on error parts', async () => {
+    const parts = iterate([
+      { type: 'text-delta', text: 'Hi' },
+      { type: 'error', error: new Error('Rate limited') },
+    ])
+
+    const events: StreamAdapterEvent[] = []
+    await expect(async () => {
+      for await (const event of fromAiSdkStream(parts)) {
+        events.push(event)
+      }
+    }).rejects.toThrow(UpstreamError)
+    expect(events).toHaveLength(1)
+  })
+})
+
+describe('fromStrandsStream', () => {
+  it('converts agent events and ignores hook events', async () => {
+    const stream = iterate([
+      { type: 'beforeInvocationEvent' },
+      { type: 'modelMessageStartEvent', role: 'assistant' },
+      { type: 'modelStreamEventHook', event: { type: 'modelContentBlockDeltaEvent' } },
+      { type: 'modelContentBlockDeltaEvent', delta: { type: 'textDelta', text: 'Let me check' } },
+      { type: 'toolUseBlock', toolUseId: 'tool-1', name: 'weather', input: { city: 'Seattle' } },
+      { type: 'modelMetadataEvent', usage: { inputTokens: 10, outputTokens: 5, totalTokens: 15 } },
+      { type: 'toolResultBlock', toolUseId: 'tool-1', status: 'error', content: [{ type: 'textBlock', text: 'down' }] },
+      { type: 'modelMessageStartEvent', role: 'assistant' },
+      { type: 'modelContentBlockDeltaEvent', delta: { type: 'textDelta', text: 'It is raining' } },
+      { type: 'agentResult', stopReason: 'endTurn' },
+    ])
+
+    expect(await collect(fromStrandsStream(stream))).toEqual([
+      { id: '1', event: 'text', data: { text: 'Let me check' } },
+      { id: '2', event: 'tool-call', data: { id: 'tool-1', name: 'weather', input: { city: 'Seattle' } } },
+      { id: '3', event: 'usage', data: { inputTokens: 10, outputTokens: 5, totalTokens: 15 } },
+      {
+        id: '4',
+        event: 'tool-result',
+        data: { id: 'tool-1', output: [{ type: 'textBlock', text: 'down' }], isError: true },
+      },
+      { id: '5', event: 'text', data: { text: 'It is raining' } },
+      { id: '6', event: 'message', data: { text: 'It is raining', stopReason: 'endTurn' } },
+    ])
+  })
+})
+
+describe('fromConverseStream', () => {
+  it('accumulates tool use input and reports usage and the stop reason', async () => {
+    const response = {
+      stream: iterate([
+        { messageStart: { role: 'assistant' } },
+        { contentBlockDelta: { contentBlockIndex: 0, delta: { text: 'Hello' } } },
+        { contentBlockStop: { contentBlockIndex: 0 } },
+        { contentBlockStart: { contentBlockIndex: 1, start: { toolUse: { toolUseId: 'tool-1', name: 'weather' } } } },
+        { contentBlockDelta: { contentBlockIndex: 1, delta: { toolUse: { input: '{"city":' } } } },
+        { contentBlockDelta: { contentBlockIndex: 1, delta: { toolUse: { input: '"Seattle"}' } } } },
+        { contentBlockStop: { contentBlockIndex: 1 } },
+        { messageStop: { stopReason: 'tool_use' } },
+        { metadata: { usage: { inputTokens: 10, outputTokens: 5, totalTokens: 15 }, metrics: { latencyMs: 100 } } },
+      ]),
+    }
+
+    expect(await collect(fromConverseStream(response))).toEqual([
+      { id: '1', event: 'text', data: { text: 'Hello' } },
+      { id: '2', event: 'tool-call', data: { id: 'tool-1', name: 'weather', input: { city: 'Seattle' } } },
+      { id: '3', event: 'usage', data: { inputTokens: 10, outputTokens: 5, totalTokens: 15 } },
+      { id: '4', event: 'message', data: { text: 'Hello', stopReason: 'tool_use' } },
+    ])
+  })
+
+  it('throws an UpstreamError for stream exceptions', async () => {
+    const stream = iterate([{ throttlingException: { message: 'Too many requests' } }])
+
+    await expect(collect(fromConverseStream(stream))).rejects.toMatchObject({
+      code: 'UPSTREAM_ERROR',
+      message: 'Too many requests',
+      retryable: true,
+      details: { exception: 'throttlingException' },
+    })
+  })
+})
+
+describe('Last-Event-ID resumption', () => {
+  const stream = (): AsyncGenerator<{ contentBlockDelta: { delta: { text: string } } }> =>
+    iterate(['a', 'b', 'c'].map((text) => ({ contentBlockDelta: { delta: { text } } })))
+
+  it('skips events up to lastEventId', async () => {
+    const events = await collect(fromConverseStream(stream(), { lastEventId: '2' }))
+
+    expect(events.map((event) => event.id)).toEqual(['3', '4'])
+  })
+
+  it('does not skip events for the Last-Event-ID header of the invocation', async () => {
+    const app = new BedrockAgentCoreApp({
+      invocationHandler: {
+        process: async function* () {
+          yield* fromConverseStream(stream())
+        },
+      },
+      config: { logging: { enabled: false } },
+    })
+
+    const events = []
+    for await (const event of createTestClient(app).stream({}, { headers: { 'last-event-id': '1' } })) {
+      events.push(event)
+    }
+
+    expect(events.map((event) => event.id)).toEqual(['1', '2', '3', '4'])
+  })
+
+  it('resumes from the stream buffer with resumableStreams', async () => {
+    let calls = 0
+    const app = new BedrockAgentCoreApp({
+      invocationHandler: {
+        process: async function* () {
+          calls++
+          yield* fromConverseStream(stream())
+        },
+      },
+      config: { logging: { enabled: false }, resumableStreams: true },
+    })
+    const client = createTestClient(app)
+
+    for await (const _event of client.stream({}, { requestId: 'request-1' })) {
+      // Drain the stream
+    }
+    const events = []
+    for await (const event of client.stream({}, { requestId: 'request-1', headers: { 'last-event-id': '1' } })) {
+      events.push(event)
+    }
+
+    expect(events).toMatchObject([
+      { id: '2', event: 'text', data: { text: 'b' } },
+      { id: '3', event: 'text', data: { text: 'c' } },
+      { id: '4', event: 'message', data: { text: 'abc' } },
+    ])
+    expect(calls).toBe(1)
+  })
+})
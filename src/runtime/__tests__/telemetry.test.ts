@@ -0,0 +1,207 @@
+import { describe, it, expect } from 'vitest'
+import { SpanKind, SpanStatusCode } from '@opentelemetry/api'
+import { BasicTracerProvider, InMemorySpanExporter, SimpleSpanProcessor } from '@opentelemetry/sdk-trace-base'
+import {
+  AggregationTemporality,
+  InMemoryMetricExporter,
+  MeterProvider,
+  PeriodicExportingMetricReader,
+  type DataPoint,
+} from '@opentelemetry/sdk-metrics'
+import { BedrockAgentCoreApp } from '../app.js'
+import { createTestClient } from '../testing.js'
+import { getContext } from '../context.js'
+import { UpstreamError } from '../errors.js'
+import type { TelemetryConfig } from '../types.js'
+import { createApp } from './helpers.js'
+
+const TRACE_ID = '0af7651916cd43dd8448eb211c80319c'
+const PARENT_SPAN_ID = 'b7ad6b7169203331'
+
+function createTelemetry(): {
+  config: TelemetryConfig
+  spans: InMemorySpanExporter
+  metric: (name: string) => Promise<DataPoint<unknown>[]>
+} {
+  const spans = new InMemorySpanExporter()
+  const reader = new PeriodicExportingMetricReader({
+    exporter: new InMemoryMetricExporter(AggregationTemporality.CUMULATIVE),
+    exportIntervalMillis: 60_000,
+  })
+  const config: TelemetryConfig = {
+    tracerProvider: new BasicTracerProvider({ spanProcessors: [new SimpleSpanProcessor(spans)] }),
+    meterProvider: new MeterProvider({ readers: [reader] }),
+  }
+  const metric = async (name: string): Promise<DataPoint<unknown>[]> => {
+    const { resourceMetrics } = await reader.collect()
+    const metrics = resourceMetrics.scopeMetrics.flatMap((scope) => scope.metrics)
+    return (metrics.find((m) => m.descriptor.name === name)?.dataPoints ?? []) as DataPoint<unknown>[]
+  }
+  return { config, spans, metric }
+}
+
+describe('telemetry', () => {
+  it('creates a server span per invocation keyed on the session and request IDs', async () => {
+    const { config, spans } = createTelemetry()
+    const app = createApp(async () => 'ok', { telemetry: config })
+
+    const response = await createTestClient(app, { sessionId: 'session-1' }).invoke({}, { requestId: 'request-1' })
+
+    expect(response.statusCode).toBe(200)
+    const [span] = spans.getFinishedSpans()
+    expect(span).toMatchObject({
+      name: 'POST /invocations',
+      kind: SpanKind.SERVER,
+      attributes: {
+        'agentcore.transport': 'http',
+        'agentcore.session_id': 'session-1',
+        'agentcore.request_id': 'request-1',
+        'http.response.status_code': 200,
+      },
+    })
+    expect(span!.status.code).toBe(SpanStatusCode.UNSET)
+  })
+
+  it('continues the incoming W3C trace context and exposes the span in getContext()', async () => {
+    const { config, spans } = createTelemetry()
+    let trace: unknown
+    const app = createApp(
+      async () => {
+        trace = getContext()?.trace
+        return 'ok'
+      },
+      { telemetry: config }
+    )
+
+    await createTestClient(app).invoke(
+      {},
+      { headers: { traceparent: `00-${TRACE_ID}-${PARENT_SPAN_ID}-01`, tracestate: 'vendor=value' } }
+    )
+
+    const [span] = spans.getFinishedSpans()
+    const spanContext = span!.spanContext()
+    expect(spanContext.traceId).toBe(TRACE_ID)
+    expect(span!.parentSpanContext?.spanId).toBe(PARENT_SPAN_ID)
+    expect(trace).toEqual({
+      traceId: TRACE_ID,
+      spanId: spanContext.spanId,
+      traceparent: `00-${TRACE_ID}-${spanContext.spanId}-01`,
+      tracestate: 'vendor=value',
+    })
+  })
+
+  it('starts a new trace when traceparent is invalid', async () => {
+    const { config, spans } = createTelemetry()
+    const app = createApp(async () => 'ok', { telemetry: config })
+
+    await createTestClient(app).invoke({}, { headers: { traceparent: `00-${'0'.repeat(32)}-${PARENT_SPAN_ID}-01` } })
+
+    const [span] = spans.getFinishedSpans()
+    expect(span!.parentSpanContext).toBeUndefined()
+    expect(span!.spanContext().traceId).not.toBe('0'.repeat(32))
+  })
+
+  it('records handler errors on the span and in the error counter', async () => {
+    const { config, spans, metric } = createTelemetry()
+    const app = createApp(
+      async () => {
+        throw new UpstreamError('Model unavailable')
+      },
+      { telemetry: config }
+    )
+
+    const response = await createTestClient(app).invoke({})
+
+    expect(response.statusCode).toBe(502)
+    const [span] = spans.getFinishedSpans()
+    expect(span!.status).toEqual({ code: SpanStatusCode.ERROR, message: 'Model unavailable' })
+    expect(span!.attributes['error.type']).toBe('UPSTREAM_ERROR')
+    expect(span!.events[0]).toMatchObject({ name: 'exception' })
+    expect(await metric('agentcore.runtime.errors')).toMatchObject([
+      { attributes: { transport: 'http', 'error.type': 'UPSTREAM_ERROR' }, value: 1 },
+    ])
+  })
+
+  it('ends the span after the stream and counts chunks', async () => {
+    const { config, spans, metric } = createTelemetry()
+    const app = createApp(
+      async function* () {
+        yield { data: 'a' }
+        yield { data: 'b' }
+        yield { data: 'c' }
+      },
+      { telemetry: config }
+    )
+
+    const events = []
+    for await (const event of createTestClient(app).stream({})) {
+      events.push(event)
+    }
+
+    expect(events).toHaveLength(3)
+    expect(spans.getFinishedSpans()).toHaveLength(1)
+    expect(await metric('agentcore.runtime.stream.chunks')).toMatchObject([
+      { attributes: { transport: 'http' }, value: 3 },
+    ])
+  })
+
+  it('records invocation counts, durations and active async tasks', async () => {
+    const { config, metric } = createTelemetry()
+    const app = createApp(async () => 'ok', { telemetry: config })
+    const client = createTestClient(app)
+
+    await client.invoke({})
+    await client.invoke({})
+    app.addAsyncTask('indexing')
+
+    expect(await metric('agentcore.runtime.invocations')).toMatchObject([
+      { attributes: { transport: 'http' }, value: 2 },
+    ])
+    expect(await metric('agentcore.runtime.invocation.duration')).toMatchObject([
+      { attributes: { transport: 'http', 'http.response.status_code': 200 }, value: { count: 2 } },
+    ])
+    expect(await metric('agentcore.runtime.async_tasks.active')).toMatchObject([{ value: 1 }])
+  })
+
+  it('creates a span per WebSocket connection that ends when the socket closes', async () => {
+    const { config, spans } = createTelemetry()
+    const app = createApp(
+      async () => 'ok',
+      { telemetry: config },
+      async (socket, context) => {
+        socket.on('message', () => socket.send(JSON.stringify(context.trace)))
+      }
+    )
+
+    const ws = await createTestClient(app, { sessionId: 'ws-session' }).connectWebSocket()
+    const reply = new Promise((resolve) => ws.once('message', (data) => resolve(JSON.parse(data.toString()))))
+    ws.send('trace')
+    const trace = await reply
+    ws.terminate()
+    await new Promise((resolve) => globalThis.setTimeout(resolve, 10))
+
+    const [span] = spans.getFinishedSpans()
+    expect(span).toMatchObject({
+      name: 'GET /ws',
+      attributes: { 'agentcore.transport': 'websocket', 'agentcore.session_id': 'ws-session' },
+    })
+    expect(trace).toMatchObject({ spanId: span!.spanContext().spanId })
+  })
+
+  it('leaves context.trace unset when telemetry is disabled', async () => {
+    let trace: unknown = 'unset'
+    const app = new BedrockAgentCoreApp({
+      invocationHandler: {
+        process: async () => {
+          trace = getContext()?.trace
+          return 'ok'
+        },
+      },
+      config: { logging: { enabled: false } },
+    })
+
+    await createTestClient(app).invoke({}, { headers: { traceparent: `00-${TRACE_ID}-${PARENT_SPAN_ID}-01` } })
+
+    expect(trace).toBeUndefined()
+  })
+})
@@ -0,0 +1,160 @@
+import { describe, it, expect, vi } from 'vitest'
+import { z } from 'zod'
+import { BedrockAgentCoreApp } from '../app.js'
+import { TestClient, createTestClient } from '../testing.js'
+import { getContext } from '../context.js'
+
+const quietConfig = { logging: { enabled: false } }
+
+describe('createTestClient', () => {
+  it('returns a TestClient with a generated session ID', () => {
+    const app = new BedrockAgentCoreApp({ invocationHandler: { process: async () => 'ok' }, config: quietConfig })
+    const client = createTestClient(app)
+
+    expect(client).toBeInstanceOf(TestClient)
+    expect(client.sessionId).toMatch(/^[0-9a-f-]{36}$/)
+  })
+
+  it('uses the provided session ID', () => {
+    const app = new BedrockAgentCoreApp({ invocationHandler: { process: async () => 'ok' }, config: quietConfig })
+    const client = createTestClient(app, { sessionId: 'my-session' })
+
+    expect(client.sessionId).toBe('my-session')
+  })
+})
+
+describe('TestClient', () => {
+  describe('ping', () => {
+    it('returns the health status', async () => {
+      const app = new BedrockAgentCoreApp({ invocationHandler: { process: async () => 'ok' }, config: quietConfig })
+      const client = createTestClient(app)
+
+      const response = await client.ping()
+
+      expect(response.statusCode).toBe(200)
+      expect(response.json()).toEqual({ status: 'Healthy', time_of_last_update: expect.any(String) })
+    })
+  })
+
+  describe('invoke', () => {
+    it('sends the session and request ID headers', async () => {
+      const handler = vi.fn(async (_request, context) => ({
+        sessionId: context.sessionId,
+        requestId: context.requestId,
+        contextRequestId: getContext()?.requestId,
+      }))
+      const app = new BedrockAgentCoreApp({ invocationHandler: { process: handler }, config: quietConfig })
+      const client = createTestClient(app, { sessionId: 'session-abc' })
+
+      const response = await client.invoke({ message: 'hello' }, { requestId: 'request-123' })
+
+      expect(response.statusCode).toBe(200)
+      expect(response.json()).toEqual({
+        sessionId: 'session-abc',
+        requestId: 'request-123',
+        contextRequestId: 'request-123',
+      })
+      expect(handler).toHaveBeenCalledWith({ message: 'hello' }, expect.any(Object))
+    })
+
+    it('allows overriding the session ID and adding headers per request', async () => {
+      const app = new BedrockAgentCoreApp({
+        invocationHandler: { process: async (_request, context) => ({ ...context.headers, id: context.sessionId }) },
+        config: quietConfig,
+      })
+      const client = createTestClient(app)
+
+      const response = await client.invoke(
+        {},
+        { sessionId: 'other-session', headers: { 'x-amzn-bedrock-agentcore-runtime-custom-tenant': 'acme' } }
+      )
+
+      expect(response.json()).toEqual({ 'x-amzn-bedrock-agentcore-runtime-custom-tenant': 'acme', id: 'other-session' })
+    })
+
+    it('returns validation errors from the request schema', async () => {
+      const app = new BedrockAgentCoreApp({
+        invocationHandler: { requestSchema: z.object({ message: z.string() }), process: async () => 'ok' },
+        config: quietConfig,
+      })
+      const client = createTestClient(app)
+
+      const response = await client.invoke({ message: 42 })
+
+      expect(response.statusCode).toBe(400)
+      expect(response.json().error).toBe('Invalid request body format')
+    })
+  })
+
+  describe('stream', () => {
+    it('yields parsed SSE events', async () => {
+      const app = new BedrockAgentCoreApp({
+        invocationHandler: {
+          process: async function* (_request, context) {
+            yield { event: 'start', data: { sessionId: context.sessionId } }
+            yield { data: 'plain text' }
+            yield { id: '3', event: 'end', data: { done: true } }
+          },
+        },
+        config: quietConfig,
+      })
+      const client = createTestClient(app, { sessionId: 'stream-session' })
+
+      const events = []
+      for await (const event of client.stream({})) {
+        events.push(event)
+      }
+
+      expect(events).toEqual([
+        { event: 'start', data: { sessionId: 'stream-session' } },
+        { data: 'plain text' },
+        { id: '3', event: 'end', data: { done: true } },
+      ])
+    })
+
+    it('throws when the response is not an SSE stream', async () => {
+      const app = new BedrockAgentCoreApp({
+        invocationHandler: { process: async () => ({ ok: true }) },
+        config: quietConfig,
+      })
+      const client = createTestClient(app)
+
+      const consume = async (): Promise<void> => {
+        for await (const _event of client.stream({})) {
+          // drain
+        }
+      }
+
+      await expect(consume()).rejects.toThrow('Expected an SSE stream but received status 200: {"ok":true}')
+    })
+  })
+
+  describe('connectWebSocket', () => {
+    it('opens a simulated WebSocket connection with request context', async () => {
+      const app = new BedrockAgentCoreApp({
+        invocationHandler: { process: async () => 'ok' },
+        websocketHandler: async (socket, context) => {
+          socket.on('message', (message) => {
+            socket.send(JSON.stringify({ echo: message.toString(), sessionId: context.sessionId }))
+          })
+        },
+        config: quietConfig,
+      })
+      const client = createTestClient(app, { sessionId: 'ws-session' })
+
+      const ws = await client.connectWebSocket()
+      const reply = new Promise((resolve) => ws.once('message', (data) => resolve(JSON.parse(data.toString()))))
+      ws.send('hello')
+
+      expect(await reply).toEqual({ echo: 'hello', sessionId: 'ws-session' })
+      ws.terminate()
+    })
+
+    it('throws when no websocket handler is configured', async () => {
+      const app = new BedrockAgentCoreApp({ invocationHandler: { process: async () => 'ok' }, config: quietConfig })
+      const client = createTestClient(app)
+
+      await expect(client.connectWebSocket()).rejects.toThrow('no websocketHandler is configured')
+    })
+  })
+})
@@ -0,0 +1,152 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { BedrockAgentCoreApp } from '../app.js'
+import { getContext } from '../context.js'
+import { createTestClient } from '../testing.js'
+import type { InvocationHandler } from '../types.js'
+import { createApp } from './helpers.js'
+
+const { events } = vi.hoisted(() => ({ events: [] as string[] }))
+
+vi.mock('../../tools/code-interpreter/client.js', () => {
+  let count = 0
+  return {
+    CodeInterpreter: class MockCodeInterpreter {
+      readonly name = `interpreter-${++count}`
+      constructor(readonly config: { region?: string }) {}
+      async stopSession(): Promise<void> {
+        events.push(`stop ${this.name}`)
+        if (this.config.region === 'failing') {
+          throw new Error('Stop failed')
+        }
+      }
+    },
+  }
+})
+
+vi.mock('../../tools/browser/integrations/playwright/client.js', () => {
+  let count = 0
+  return {
+    PlaywrightBrowser: class MockPlaywrightBrowser {
+      readonly name = `browser-${++count}`
+      async stopSession(): Promise<void> {
+        events.push(`stop ${this.name}`)
+      }
+    },
+  }
+})
+
+type MockClient = { name: string; config: { region?: string } }
+
+const useTool: InvocationHandler = async (request) => {
+  const tools = getContext()!.tools!
+  const client = (
+    (request as { tool?: string }).tool === 'browser' ? tools.browser() : tools.codeInterpreter()
+  ) as unknown
+  return { name: (client as MockClient).name, region: (client as MockClient).config?.region }
+}
+
+const sleep = (ms: number): Promise<void> => new Promise((resolve) => globalThis.setTimeout(resolve, ms))
+
+describe('session tool pool', () => {
+  beforeEach(() => {
+    events.length = 0
+  })
+
+  it('creates one client per session and reuses it across invocations', async () => {
+    const client = createTestClient(createApp(useTool, { tools: { codeInterpreter: { region: 'eu-west-1' } } }))
+
+    const first = await client.invoke({}, { sessionId: 'session-1' })
+    const second = await client.invoke({}, { sessionId: 'session-1' })
+    const other = await client.invoke({}, { sessionId: 'session-2' })
+
+    expect(first.json()).toEqual(second.json())
+    expect(first.json()).toMatchObject({ region: 'eu-west-1' })
+    expect(other.json()).not.toEqual(first.json())
+  })
+
+  it('stops the clients of a session after onSessionEnd when it goes idle', async () => {
+    const app = createApp(useTool, {
+      tools: {},
+      lifecycle: {
+        sessionIdleTimeoutMs: 20,
+        onSessionEnd: (sessionId) => void events.push(`end ${sessionId}`),
+      },
+    })
+    const client = createTestClient(app, { sessionId: 'session-1' })
+
+    const interpreter = (await client.invoke({})).json() as MockClient
+    const browser = (await client.invoke({ tool: 'browser' })).json() as MockClient
+    await sleep(50)
+
+    expect(events).toEqual(['end session-1', `stop ${interpreter.name}`, `stop ${browser.name}`])
+
+    const next = (await client.invoke({})).json() as MockClient
+    expect(next.name).not.toBe(interpreter.name)
+    await app.close()
+  })
+
+  it('keeps the clients of a session until its background jobs finish', async () => {
+    let finish: () => void = () => {}
+    const finished = new Promise<void>((resolve) => (finish = resolve))
+    const app: BedrockAgentCoreApp = createApp(
+      async () => {
+        const jobId = app.enqueueJob(async () => {
+          await finished
+          return (getContext()!.tools!.codeInterpreter() as unknown as MockClient).name
+        })
+        return { jobId }
+      },
+      {
+        tools: {},
+        lifecycle: {
+          sessionIdleTimeoutMs: 20,
+          onSessionEnd: (sessionId) => void events.push(`end ${sessionId}`),
+        },
+      }
+    )
+
+    const { jobId } = (await createTestClient(app, { sessionId: 'session-1' }).invoke({})).json() as { jobId: string }
+    await sleep(50)
+    expect(events).toEqual([])
+
+    finish()
+    await sleep(50)
+    const name = app.getJob(jobId)!.result
+    expect(events).toEqual(['end session-1', `stop ${name}`])
+    await app.close()
+  })
+
+  it('stops the clients of open sessions on close and logs errors', async () => {
+    const lines: string[] = []
+    const app = createApp(useTool, {
+      logging: { enabled: true, options: { level: 'error', stream: { write: (line: string) => lines.push(line) } } },
+      tools: { codeInterpreter: { region: 'failing' } },
+    })
+    const client = createTestClient(app)
+
+    const first = (await client.invoke({}, { sessionId: 'session-1' })).json() as MockClient
+    const second = (await client.invoke({}, { sessionId: 'session-2' })).json() as MockClient
+    await app.close()
+
+    expect(events.sort()).toEqual([`stop ${first.name}`, `stop ${second.name}`].sort())
+    const errors = lines.map((line) => JSON.parse(line)).filter((line) => line.msg === 'Failed to stop session tool')
+    expect(errors).toHaveLength(2)
+    expect(errors[0]).toMatchObject({ tool: 'codeInterpreter', err: { message: 'Stop failed' } })
+  })
+
+  it('does not create clients for sessions that never use them', async () => {
+    const app = createApp(async (_request, context) => Object.keys(context.tools!), { tools: {} })
+
+    const response = await createTestClient(app).invoke({})
+    await app.close()
+
+    expect(response.json()).toEqual(['codeInterpreter', 'browser'])
+    expect(events).toEqual([])
+  })
+
+  it('leaves context.tools unset when config.tools is not set', async () => {
+    const app = createApp(async (_request, context) => ({ tools: context.tools === undefined }), {})
+
+    expect((await createTestClient(app).invoke({})).json()).toEqual({ tools: true })
+  })
+})
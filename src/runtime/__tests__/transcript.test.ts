@@ -0,0 +1,191 @@
+import { describe, it, expect, afterEach } from 'vitest'
+import { mkdtempSync, rmSync } from 'fs'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import { z } from 'zod'
+import { BedrockAgentCoreApp } from '../app.js'
+import { createTestClient } from '../testing.js'
+import { diffRecords, readTranscript } from '../transcript.js'
+import { UpstreamError } from '../errors.js'
+import type { BedrockAgentCoreAppConfig, InvocationHandler, TranscriptRecord } from '../types.js'
+import { createApp } from './helpers.js'
+
+function recordInto(records: TranscriptRecord[]): BedrockAgentCoreAppConfig {
+  return { transcripts: { sink: { write: (record) => void records.push(record) } } }
+}
+
+const answer: InvocationHandler = async (request) => ({ answer: `Hello ${(request as { name: string }).name}` })
+
+describe('transcript recording', () => {
+  let directory: string | undefined
+
+  afterEach(() => {
+    if (directory) {
+      rmSync(directory, { recursive: true, force: true })
+    }
+    directory = undefined
+  })
+
+  it('appends JSONL records with redacted headers', async () => {
+    directory = mkdtempSync(join(tmpdir(), 'agentcore-transcripts-'))
+    const path = join(directory, 'nested', 'transcript.jsonl')
+    const app = createApp(answer, {
+      headers: { allow: ['x-api-key', 'x-tenant-id'], redact: ['x-api-key'] },
+      transcripts: { sink: path },
+    })
+    const client = createTestClient(app, { sessionId: 'session-1' })
+
+    await client.invoke(
+      { name: 'Ada' },
+      {
+        requestId: 'request-1',
+        headers: { authorization: 'Bearer secret', 'x-api-key': 'key', 'x-tenant-id': 'tenant-1' },
+      }
+    )
+    await app.close()
+
+    const records = await readTranscript(path)
+    expect(records).toEqual([
+      {
+        timestamp: expect.any(String),
+        durationMs: expect.any(Number),
+        requestId: 'request-1',
+        sessionId: 'session-1',
+        headers: { authorization: '[Redacted]', 'x-api-key': '[Redacted]', 'x-tenant-id': 'tenant-1' },
+        request: { name: 'Ada' },
+        status: 'completed',
+        result: { answer: 'Hello Ada' },
+      },
+    ])
+  })
+
+  it('records stream chunks and failures', async () => {
+    const records: TranscriptRecord[] = []
+    const client = createTestClient(
+      createApp(async function* () {
+        yield { data: { text: 'a' } }
+        yield 'b'
+        throw new UpstreamError('Model unavailable')
+      }, recordInto(records))
+    )
+
+    const events = []
+    for await (const event of client.stream({})) {
+      events.push(event)
+    }
+
+    expect(events).toHaveLength(3)
+    expect(records).toHaveLength(1)
+    expect(records[0]).toMatchObject({
+      status: 'failed',
+      chunks: [{ data: { text: 'a' } }, 'b'],
+      error: { message: 'Model unavailable', code: 'UPSTREAM_ERROR' },
+    })
+  })
+
+  it('only records invocations accepted by the filter', async () => {
+    const records: TranscriptRecord[] = []
+    const client = createTestClient(
+      createApp(answer, {
+        transcripts: {
+          sink: { write: (record) => void records.push(record) },
+          filter: (context) => context.sessionId === 'kept',
+        },
+      })
+    )
+
+    await client.invoke({ name: 'Ada' }, { sessionId: 'kept' })
+    await client.invoke({ name: 'Bob' }, { sessionId: 'dropped' })
+
+    expect(records.map((record) => record.request)).toEqual([{ name: 'Ada' }])
+  })
+})
+
+describe('app.replay', () => {
+  async function record(): Promise<TranscriptRecord[]> {
+    const records: TranscriptRecord[] = []
+    const client = createTestClient(createApp(answer, recordInto(records)))
+    await client.invoke({ name: 'Ada' })
+    await client.invoke({ name: 'Bob' })
+    return records
+  }
+
+  it('passes when the handler produces the recorded results', async () => {
+    const results = await createApp(answer).replay(await record())
+
+    expect(results.map((result) => result.passed)).toEqual([true, true])
+    expect(results[0]!.actual).toMatchObject({ request: { name: 'Ada' }, result: { answer: 'Hello Ada' } })
+  })
+
+  it('replays streaming invocations', async () => {
+    const stream: InvocationHandler = async function* (request) {
+      yield { data: { name: (request as { name: string }).name } }
+      yield 'done'
+    }
+    const records: TranscriptRecord[] = []
+    for await (const _event of createTestClient(createApp(stream, recordInto(records))).stream({ name: 'Ada' })) {
+      // Drain the stream
+    }
+
+    const [result] = await createApp(stream).replay(records)
+
+    expect(result!.passed).toBe(true)
+    expect(result!.actual!.chunks).toEqual([{ data: { name: 'Ada' } }, 'done'])
+  })
+
+  it('reports the differing values', async () => {
+    const changed = createApp(async (request) => {
+      const { name } = request as { name: string }
+      return name === 'Bob' ? { answer: 'Hi Bob', extra: true } : { answer: `Hello ${name}` }
+    })
+
+    const results = await changed.replay(await record())
+
+    expect(results[0]!.passed).toBe(true)
+    expect(results[1]!.differences).toEqual([
+      { path: 'result.answer', expected: 'Hello Bob', actual: 'Hi Bob' },
+      { path: 'result.extra', expected: undefined, actual: true },
+    ])
+    expect((await changed.replay(await record(), { ignore: ['result'] }))[1]!.passed).toBe(true)
+  })
+
+  it('reports invocations rejected before the handler', async () => {
+    const strict = new BedrockAgentCoreApp({
+      invocationHandler: { requestSchema: z.object({ name: z.number() }), process: async () => 'ok' },
+      config: { logging: { enabled: false } },
+    })
+
+    const [result] = await strict.replay((await record()).slice(0, 1))
+
+    expect(result!.actual).toBeUndefined()
+    expect(result!.differences).toEqual([{ path: 'status', expected: 'completed', actual: 'rejected with HTTP 400' }])
+  })
+})
+
+describe('diffRecords', () => {
+  const base: TranscriptRecord = {
+    timestamp: '2024-01-01T00:00:00.000Z',
+    durationMs: 1,
+    requestId: 'request-1',
+    sessionId: 'session-1',
+    headers: {},
+    request: {},
+    status: 'completed',
+  }
+
+  it('compares array elements and ignores wildcard paths', () => {
+    const expected = {
+      ...base,
+      chunks: [
+        { id: 1, text: 'a' },
+        { id: 2, text: 'b' },
+      ],
+    }
+    const actual = { ...base, durationMs: 5, chunks: [{ id: 3, text: 'a' }, { id: 4, text: 'c' }, 'extra'] }
+
+    expect(diffRecords(expected, actual, ['chunks[*].id'])).toEqual([
+      { path: 'chunks[1].text', expected: 'b', actual: 'c' },
+      { path: 'chunks[2]', expected: undefined, actual: 'extra' },
+    ])
+  })
+})
@@ -0,0 +1,366 @@
+import { describe, it, expect } from 'vitest'
+import { Buffer } from 'buffer'
+import { existsSync, readdirSync, statSync } from 'fs'
+import { tmpdir } from 'os'
+import { Readable } from 'stream'
+import { brotliCompressSync, brotliDecompressSync, gunzipSync, gzipSync } from 'zlib'
+import { z } from 'zod'
+import { BedrockAgentCoreApp } from '../app.js'
+import { negotiateEncoding } from '../compression.js'
+import { UploadedFileSchema, UploadedFileStreamSchema } from '../multipart.js'
+import type { InvocationHandler } from '../types.js'
+import { createApp } from './helpers.js'
+
+const SESSION_HEADER = { 'x-amzn-bedrock-agentcore-runtime-session-id': 'session-1' }
+const BOUNDARY = 'test-boundary'
+
+function multipartBody(parts: Array<{ headers: string[]; content: string | Buffer }>): Buffer {
+  return Buffer.concat([
+    Buffer.from('preamble\r\n'),
+    ...parts.flatMap((part) => [
+      Buffer.from(`--${BOUNDARY}\r\n${part.headers.join('\r\n')}\r\n\r\n`),
+      Buffer.from(part.content),
+      Buffer.from('\r\n'),
+    ]),
+    Buffer.from(`--${BOUNDARY}--\r\n`),
+  ])
+}
+
+// Contains the boundary, but not preceded by a line break
+const DOCUMENT = `line one --${BOUNDARY}\r\nline two`
+
+const formParts = [
+  { headers: ['Content-Disposition: form-data; name="prompt"'], content: 'Summarize' },
+  {
+    headers: ['Content-Disposition: form-data; name="options"', 'Content-Type: application/json'],
+    content: '{"short":true}',
+  },
+  {
+    headers: ['Content-Disposition: form-data; name="document"; filename="notes.txt"', 'Content-Type: text/plain'],
+    content: DOCUMENT,
+  },
+  { headers: ['Content-Disposition: form-data; name="tag"'], content: 'a' },
+  { headers: ['Content-Disposition: form-data; name="tag"'], content: 'b' },
+]
+
+function postForm(app: BedrockAgentCoreApp, body: Buffer, headers: Record<string, string> = {}) {
+  return app.inject({
+    method: 'POST',
+    url: '/invocations',
+    headers: { ...SESSION_HEADER, 'content-type': `multipart/form-data; boundary=${BOUNDARY}`, ...headers },
+    payload: body,
+  })
+}
+
+describe('multipart/form-data', () => {
+  it('parses fields, JSON parts and files, validated by requestSchema', async () => {
+    const app = new BedrockAgentCoreApp({
+      invocationHandler: {
+        requestSchema: z.object({
+          prompt: z.string(),
+          options: z.object({ short: z.boolean() }),
+          document: UploadedFileSchema,
+          tag: z.array(z.string()),
+        }),
+        process: async (request) => ({
+          prompt: request.prompt,
+          short: request.options.short,
+          file: { ...request.document, data: request.document.data.toString() },
+          tag: request.tag,
+        }),
+      },
+      config: { logging: { enabled: false }, multipart: true },
+    })
+
+    const response = await postForm(app, multipartBody(formParts))
+
+    expect(response.statusCode).toBe(200)
+    expect(response.json()).toEqual({
+      prompt: 'Summarize',
+      short: true,
+      file: {
+        fieldname: 'document',
+        filename: 'notes.txt',
+        contentType: 'text/plain',
+        size: DOCUMENT.length,
+        data: DOCUMENT,
+      },
+      tag: ['a', 'b'],
+    })
+  })
+
+  it('parses bodies split across many chunks', async () => {
+    let received: unknown
+    const app = createApp(
+      async (request) => {
+        received = request
+        return 'ok'
+      },
+      { multipart: true }
+    )
+    const body = multipartBody(formParts)
+
+    const response = await app.inject({
+      method: 'POST',
+      url: '/invocations',
+      headers: { ...SESSION_HEADER, 'content-type': `multipart/form-data; boundary="${BOUNDARY}"` },
+      payload: Readable.from(
+        Array.from({ length: Math.ceil(body.length / 7) }, (_, i) => body.subarray(i * 7, i * 7 + 7))
+      ),
+    })
+
+    expect(response.statusCode).toBe(200)
+    expect(received).toMatchObject({ prompt: 'Summarize', tag: ['a', 'b'], document: { size: DOCUMENT.length } })
+  })
+
+  it('provides files as streams and removes them after the response', async () => {
+    let path: string | undefined
+    let mode: number | undefined
+    const app = new BedrockAgentCoreApp({
+      invocationHandler: {
+        requestSchema: z.object({ document: UploadedFileStreamSchema }),
+        process: async (request) => {
+          path = (request.document.stream as Readable & { path: string }).path
+          mode = statSync(path).mode & 0o777
+          let content = ''
+          for await (const chunk of request.document.stream) {
+            content += chunk
+          }
+          return { content, size: request.document.size }
+        },
+      },
+      config: { logging: { enabled: false }, multipart: { files: 'stream' } },
+    })
+
+    const response = await postForm(
+      app,
+      multipartBody([
+        { headers: ['Content-Disposition: form-data; name="document"; filename="a.bin"'], content: 'streamed' },
+      ])
+    )
+
+    expect(response.json()).toEqual({ content: 'streamed', size: 8 })
+    expect(path).toBeDefined()
+    expect(mode).toBe(0o600)
+    await new Promise((resolve) => globalThis.setTimeout(resolve, 20))
+    expect(existsSync(path!)).toBe(false)
+  })
+
+  it('removes streamed files when parsing fails', async () => {
+    const listUploads = (): string[] => readdirSync(tmpdir()).filter((name) => name.startsWith('agentcore-upload-'))
+    const before = listUploads()
+    const body = multipartBody([
+      { headers: ['Content-Disposition: form-data; name="document"; filename="a.bin"'], content: 'x'.repeat(100) },
+    ])
+
+    const response = await postForm(
+      createApp(async () => 'ok', { multipart: { files: 'stream' } }),
+      body.subarray(0, body.length - 10)
+    )
+
+    expect(response.statusCode).toBe(400)
+    expect(listUploads()).toEqual(before)
+  })
+
+  it('rejects files and bodies over the limits with 413', async () => {
+    const file = { headers: ['Content-Disposition: form-data; name="f"; filename="f.txt"'], content: 'x'.repeat(100) }
+
+    const tooBig = await postForm(
+      createApp(async () => 'ok', { multipart: { fileSizeLimit: 50 } }),
+      multipartBody([file])
+    )
+    const tooMany = await postForm(
+      createApp(async () => 'ok', { multipart: { maxFiles: 1 } }),
+      multipartBody([file, file])
+    )
+    const bodyTooBig = await postForm(
+      createApp(async () => 'ok', { multipart: { bodyLimit: 64 } }),
+      multipartBody([file])
+    )
+
+    expect(tooBig.statusCode).toBe(413)
+    expect(tooBig.json()).toMatchObject({ code: 'PAYLOAD_TOO_LARGE' })
+    expect(tooMany.statusCode).toBe(413)
+    expect(bodyTooBig.statusCode).toBe(413)
+  })
+
+  it('rejects malformed bodies with 400', async () => {
+    const body = multipartBody(formParts)
+
+    const response = await postForm(
+      createApp(async () => 'ok', { multipart: true }),
+      body.subarray(0, body.length - 10)
+    )
+
+    expect(response.statusCode).toBe(400)
+    expect(response.json()).toEqual({
+      error: 'Multipart body ended before the closing boundary',
+      code: 'VALIDATION_ERROR',
+      retryable: false,
+    })
+
+    const unbounded = await postForm(
+      createApp(async () => 'ok', { multipart: true }),
+      body,
+      {
+        'content-type': 'multipart/form-data',
+      }
+    )
+    expect(unbounded.statusCode).toBe(400)
+    expect(unbounded.json()).toEqual({
+      error: 'Missing multipart boundary',
+      code: 'VALIDATION_ERROR',
+      retryable: false,
+    })
+  })
+
+  it('keeps a field named __proto__ as a field', async () => {
+    const response = await postForm(
+      createApp(async (request) => Object.entries(request as object), { multipart: true }),
+      multipartBody([
+        { headers: ['Content-Disposition: form-data; name="__proto__"'], content: 'polluted' },
+        { headers: ['Content-Disposition: form-data; name="prompt"'], content: 'hello' },
+      ])
+    )
+
+    expect(response.json()).toEqual([
+      ['__proto__', 'polluted'],
+      ['prompt', 'hello'],
+    ])
+  })
+
+  it('is not parsed unless enabled', async () => {
+    const response = await postForm(
+      createApp(async () => 'ok'),
+      multipartBody(formParts)
+    )
+
+    expect(response.statusCode).toBe(415)
+  })
+})
+
+describe('bodyLimit', () => {
+  it('rejects JSON bodies over the app-level limit', async () => {
+    const app = createApp(async () => 'ok', { bodyLimit: 32 })
+
+    const small = await app.inject({ method: 'POST', url: '/invocations', headers: SESSION_HEADER, payload: { a: 1 } })
+    const large = await app.inject({
+      method: 'POST',
+      url: '/invocations',
+      headers: SESSION_HEADER,
+      payload: { text: 'x'.repeat(64) },
+    })
+
+    expect(small.statusCode).toBe(200)
+    expect(large.statusCode).toBe(413)
+  })
+})
+
+describe('compression', () => {
+  const echo: InvocationHandler = async (request) => request
+
+  it('decompresses gzip and br request bodies', async () => {
+    const app = createApp(echo, { compression: true })
+    const payload = JSON.stringify({ text: 'hello' })
+
+    for (const [encoding, body] of [
+      ['gzip', gzipSync(payload)],
+      ['br', brotliCompressSync(payload)],
+    ] as const) {
+      const response = await app.inject({
+        method: 'POST',
+        url: '/invocations',
+        headers: { ...SESSION_HEADER, 'content-type': 'application/json', 'content-encoding': encoding },
+        payload: body,
+      })
+      expect(response.json()).toEqual({ text: 'hello' })
+    }
+  })
+
+  it('applies the body limit to the decompressed size', async () => {
+    const app = createApp(echo, { compression: true, bodyLimit: 1024 })
+
+    const response = await app.inject({
+      method: 'POST',
+      url: '/invocations',
+      headers: { ...SESSION_HEADER, 'content-type': 'application/json', 'content-encoding': 'gzip' },
+      payload: gzipSync(JSON.stringify({ text: 'x'.repeat(10000) })),
+    })
+
+    expect(response.statusCode).toBe(413)
+  })
+
+  it('rejects unsupported and corrupt encodings', async () => {
+    const app = createApp(echo, { compression: true })
+    const send = (encoding: string, payload: Buffer) =>
+      app.inject({
+        method: 'POST',
+        url: '/invocations',
+        headers: { ...SESSION_HEADER, 'content-type': 'application/json', 'content-encoding': encoding },
+        payload,
+      })
+
+    const unsupported = await send('compress', Buffer.from('{}'))
+    expect(unsupported.statusCode).toBe(415)
+    expect(unsupported.json()).toEqual({
+      error: 'Unsupported Content-Encoding: compress',
+      code: 'UNSUPPORTED_MEDIA_TYPE',
+      retryable: false,
+    })
+    expect((await send('gzip', Buffer.from('not gzip'))).statusCode).toBe(400)
+  })
+
+  it('compresses large non-streaming responses with the preferred encoding', async () => {
+    const app = createApp(async () => ({ text: 'x'.repeat(2000) }), { compression: true })
+    const invoke = (acceptEncoding?: string) =>
+      app.inject({
+        method: 'POST',
+        url: '/invocations',
+        headers: { ...SESSION_HEADER, ...(acceptEncoding && { 'accept-encoding': acceptEncoding }) },
+        payload: {},
+      })
+
+    const gzipped = await invoke('gzip, deflate')
+    const brotli = await invoke('gzip;q=0.5, br')
+    const plain = await invoke()
+
+    expect(gzipped.headers['content-encoding']).toBe('gzip')
+    expect(gzipped.headers.vary).toBe('Accept-Encoding')
+    expect(JSON.parse(gunzipSync(gzipped.rawPayload).toString())).toEqual({ text: 'x'.repeat(2000) })
+    expect(brotli.headers['content-encoding']).toBe('br')
+    expect(JSON.parse(brotliDecompressSync(brotli.rawPayload).toString()).text).toHaveLength(2000)
+    expect(plain.headers['content-encoding']).toBeUndefined()
+    expect(plain.json().text).toHaveLength(2000)
+  })
+
+  it('leaves small responses and streams uncompressed', async () => {
+    const small = await createApp(async () => 'ok', { compression: true }).inject({
+      method: 'POST',
+      url: '/invocations',
+      headers: { ...SESSION_HEADER, 'accept-encoding': 'gzip' },
+      payload: {},
+    })
+    const stream = await createApp(
+      async function* () {
+        yield 'x'.repeat(2000)
+      },
+      { compression: { threshold: 0 } }
+    ).inject({
+      method: 'POST',
+      url: '/invocations',
+      headers: { ...SESSION_HEADER, accept: 'text/event-stream', 'accept-encoding': 'gzip' },
+      payload: {},
+    })
+
+    expect(small.headers['content-encoding']).toBeUndefined()
+    expect(stream.headers['content-encoding']).toBeUndefined()
+    expect(stream.body).toContain('x'.repeat(2000))
+  })
+
+  it('negotiates encodings with quality values and wildcards', () => {
+    expect(negotiateEncoding('gzip;q=0.8, br;q=0.9', ['br', 'gzip'])).toBe('br')
+    expect(negotiateEncoding('*', ['br', 'gzip'])).toBe('br')
+    expect(negotiateEncoding('*, br;q=0', ['br', 'gzip'])).toBe('gzip')
+    expect(negotiateEncoding('identity', ['br', 'gzip'])).toBeUndefined()
+  })
+})
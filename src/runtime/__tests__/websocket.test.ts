@@ -0,0 +1,287 @@
+import { describe, it, expect, vi } from 'vitest'
+import { EventEmitter } from 'events'
+import { z } from 'zod'
+import type { WebSocket } from '@fastify/websocket'
+import { BedrockAgentCoreApp } from '../app.js'
+import { createTestClient } from '../testing.js'
+import { TypedWebSocket, createWebSocketHandler } from '../websocket.js'
+import type { WebSocketHandler } from '../types.js'
+
+const sleep = (ms: number): Promise<void> => new Promise((resolve) => globalThis.setTimeout(resolve, ms))
+
+async function connect(websocketHandler: WebSocketHandler): Promise<{ ws: WebSocket; frames: unknown[] }> {
+  const app = new BedrockAgentCoreApp({
+    invocationHandler: { process: async () => 'ok' },
+    websocketHandler,
+    config: { logging: { enabled: false } },
+  })
+  const ws = await createTestClient(app, { sessionId: 'ws-session' }).connectWebSocket({ requestId: 'request-1' })
+  const frames: unknown[] = []
+  ws.on('message', (data) => frames.push(JSON.parse(data.toString())))
+  return { ws, frames }
+}
+
+async function waitFor(condition: () => boolean): Promise<void> {
+  for (let i = 0; i < 100 && !condition(); i++) {
+    await sleep(5)
+  }
+}
+
+const inboundSchema = z.object({ prompt: z.string() })
+const outboundSchema = z.object({ reply: z.string(), sessionId: z.string() })
+
+describe('createWebSocketHandler', () => {
+  it('delivers validated messages and sends typed JSON frames', async () => {
+    const { ws, frames } = await connect(
+      createWebSocketHandler({
+        inboundSchema,
+        outboundSchema,
+        keepAliveIntervalMs: false,
+        process: async (connection, context) => {
+          for await (const message of connection) {
+            connection.send({ reply: message.prompt.toUpperCase(), sessionId: context.sessionId })
+          }
+        },
+      })
+    )
+
+    ws.send(JSON.stringify({ prompt: 'hello' }))
+    ws.send(Buffer.from(JSON.stringify({ prompt: 'binary' })))
+    await waitFor(() => frames.length === 2)
+
+    expect(frames).toEqual([
+      { reply: 'HELLO', sessionId: 'ws-session' },
+      { reply: 'BINARY', sessionId: 'ws-session' },
+    ])
+    ws.terminate()
+  })
+
+  it('answers invalid messages with error frames and keeps the connection open', async () => {
+    const { ws, frames } = await connect(
+      createWebSocketHandler({
+        inboundSchema,
+        keepAliveIntervalMs: false,
+        process: async (connection) => {
+          for await (const message of connection) {
+            connection.send(message)
+          }
+        },
+      })
+    )
+
+    ws.send('not json')
+    ws.send(JSON.stringify({ prompt: 42 }))
+    ws.send(JSON.stringify({ prompt: 'valid' }))
+    await waitFor(() => frames.length === 3)
+
+    expect(frames).toEqual([
+      {
+        error: 'WebSocket message is not valid JSON',
+        code: 'VALIDATION_ERROR',
+        retryable: false,
+        requestId: 'request-1',
+      },
+      {
+        error: 'Invalid WebSocket message format',
+        code: 'VALIDATION_ERROR',
+        retryable: false,
+        details: [expect.objectContaining({ path: ['prompt'] })],
+        requestId: 'request-1',
+      },
+      { prompt: 'valid' },
+    ])
+    ws.terminate()
+  })
+
+  it('answers messages whose validation throws with an error frame and keeps receiving', async () => {
+    const { ws, frames } = await connect(
+      createWebSocketHandler({
+        inboundSchema: inboundSchema.refine((message) => {
+          if (message.prompt === 'boom') {
+            throw new Error('Refinement failed')
+          }
+          return true
+        }),
+        keepAliveIntervalMs: false,
+        process: async (connection) => {
+          for await (const message of connection) {
+            connection.send(message)
+          }
+        },
+      })
+    )
+
+    ws.send(JSON.stringify({ prompt: 'boom' }))
+    ws.send(JSON.stringify({ prompt: 'valid' }))
+    await waitFor(() => frames.length === 2)
+
+    expect(frames).toEqual([
+      { error: 'Refinement failed', code: 'HANDLER_ERROR', retryable: false, requestId: 'request-1' },
+      { prompt: 'valid' },
+    ])
+    ws.terminate()
+  })
+
+  it('does not send error frames for messages that fail validation after the connection closed', async () => {
+    const socket = Object.assign(new EventEmitter(), { readyState: 1, send: vi.fn() })
+    new TypedWebSocket(socket as unknown as WebSocket, {
+      inboundSchema: inboundSchema.refine(async (message) => {
+        await sleep(10)
+        return message.prompt !== 'invalid'
+      }),
+      keepAliveIntervalMs: false,
+    })
+
+    socket.emit('message', Buffer.from(JSON.stringify({ prompt: 'invalid' })))
+    socket.readyState = 3
+    socket.emit('close')
+    await sleep(20)
+
+    expect(socket.send).not.toHaveBeenCalled()
+  })
+
+  it('closes the connection with 1008 when more than maxBufferedMessages are waiting', async () => {
+    const socket = Object.assign(new EventEmitter(), { readyState: 1, send: vi.fn(), close: vi.fn() })
+    const connection = new TypedWebSocket(socket as unknown as WebSocket, {
+      inboundSchema,
+      keepAliveIntervalMs: false,
+      maxBufferedMessages: 2,
+    })
+    const message = Buffer.from(JSON.stringify({ prompt: 'hello' }))
+
+    socket.emit('message', message)
+    socket.emit('message', message)
+    await sleep(0)
+    expect(socket.close).not.toHaveBeenCalled()
+
+    socket.emit('message', message)
+    expect(socket.close).toHaveBeenCalledWith(1008, 'Too many unprocessed messages')
+    expect(connection.isOpen).toBe(false)
+  })
+
+  it('fails the connection when an outbound message does not match the schema', async () => {
+    const { ws, frames } = await connect(
+      createWebSocketHandler({
+        inboundSchema,
+        outboundSchema,
+        keepAliveIntervalMs: false,
+        process: async (connection) => {
+          for await (const _message of connection) {
+            connection.send({ reply: 1 } as never)
+          }
+        },
+      })
+    )
+    const closed = new Promise((resolve) => ws.once('close', (code) => resolve(code)))
+
+    ws.send(JSON.stringify({ prompt: 'hello' }))
+
+    expect(await closed).toBe(1011)
+    expect(frames).toMatchObject([
+      { error: 'Outbound WebSocket message failed schema validation', code: 'RESPONSE_VALIDATION_ERROR' },
+    ])
+  })
+
+  it('closes the connection normally when process returns', async () => {
+    const { ws, frames } = await connect(
+      createWebSocketHandler({
+        inboundSchema,
+        keepAliveIntervalMs: false,
+        process: async (connection) => {
+          for await (const message of connection) {
+            connection.send({ done: message.prompt })
+            return
+          }
+        },
+      })
+    )
+    const closed = new Promise((resolve) => ws.once('close', (code) => resolve(code)))
+
+    ws.send(JSON.stringify({ prompt: 'bye' }))
+
+    expect(await closed).toBe(1000)
+    expect(frames).toEqual([{ done: 'bye' }])
+  })
+
+  it('closes idle connections with a timeout error frame', async () => {
+    const { ws, frames } = await connect(
+      createWebSocketHandler({
+        inboundSchema,
+        keepAliveIntervalMs: false,
+        idleTimeoutMs: 30,
+        process: async (connection) => {
+          for await (const _message of connection) {
+            // Consume until the connection closes
+          }
+        },
+      })
+    )
+    const closed = new Promise((resolve) => ws.once('close', (code) => resolve(code)))
+
+    expect(await closed).toBe(1000)
+    expect(frames).toEqual([
+      { error: 'No message received for 30ms', code: 'TIMEOUT', retryable: true, requestId: 'request-1' },
+    ])
+  })
+
+  it('sends pings and terminates connections that stop answering them', () => {
+    vi.useFakeTimers()
+    try {
+      const socket = Object.assign(new EventEmitter(), { readyState: 1, ping: vi.fn(), terminate: vi.fn() })
+      new TypedWebSocket(socket as unknown as WebSocket, { inboundSchema, keepAliveIntervalMs: 1000 })
+
+      vi.advanceTimersByTime(1000)
+      expect(socket.ping).toHaveBeenCalledTimes(1)
+      socket.emit('pong')
+      vi.advanceTimersByTime(1000)
+      expect(socket.ping).toHaveBeenCalledTimes(2)
+      expect(socket.terminate).not.toHaveBeenCalled()
+
+      vi.advanceTimersByTime(1000)
+      expect(socket.terminate).toHaveBeenCalledTimes(1)
+    } finally {
+      vi.useRealTimers()
+    }
+  })
+
+  it('delivers messages sent while the connection is being set up', async () => {
+    const app = new BedrockAgentCoreApp({
+      invocationHandler: { process: async () => 'ok' },
+      websocketHandler: createWebSocketHandler({
+        inboundSchema,
+        keepAliveIntervalMs: false,
+        process: async (connection, context) => {
+          for await (const message of connection) {
+            connection.send({ reply: message.prompt, tenant: (context as { tenant?: string }).tenant })
+          }
+        },
+      }),
+      config: {
+        logging: { enabled: false },
+        contextFactory: async () => {
+          await sleep(20)
+          return { tenant: 'tenant-1' }
+        },
+      },
+    })
+    const ws = await createTestClient(app, { sessionId: 'ws-session' }).connectWebSocket()
+    const frames: unknown[] = []
+    ws.on('message', (data) => frames.push(JSON.parse(data.toString())))
+
+    ws.send(JSON.stringify({ prompt: 'first' }))
+    ws.send(JSON.stringify({ prompt: 'second' }))
+    await waitFor(() => frames.length === 2)
+
+    expect(frames).toEqual([
+      { reply: 'first', tenant: 'tenant-1' },
+      { reply: 'second', tenant: 'tenant-1' },
+    ])
+    ws.terminate()
+  })
+
+  it('requires an inbound schema and a process function', () => {
+    expect(() => createWebSocketHandler({ process: async () => {} } as never)).toThrow(
+      'createWebSocketHandler requires an object with inboundSchema and process properties'
+    )
+  })
+})
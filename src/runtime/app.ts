@@ -1,41 +1,167 @@
 import { Buffer } from 'buffer'
+import { PassThrough, type Readable } from 'stream'
 import { createRequire } from 'module'
 import { randomUUID } from 'crypto'
 import Fastify from 'fastify'
 import { z } from 'zod'
 import type {
   FastifyInstance,
-  FastifyLoggerOptions,
+  FastifyServerOptions,
   FastifyRequest,
+  RouteShorthandOptions,
   FastifyReply,
   FastifyBodyParser,
   FastifyContentTypeParser,
+  InjectOptions,
+  LightMyRequestResponse,
 } from 'fastify'
 // Import SSE types to ensure module augmentation is applied
 import type { SSESource } from '@fastify/sse'
 import type { WebSocket } from '@fastify/websocket'
+import { WebSocket as WsWebSocket, type RawData } from 'ws'
 import type {
   BedrockAgentCoreAppParams,
   BedrockAgentCoreAppConfig,
-  InvocationHandler,
+  InvocationMiddleware,
+  OperationDefinition,
   WebSocketHandler,
   RequestContext,
+  ResponseSerializerConfig,
   HealthCheckResponse,
   AsyncTaskInfo,
   AsyncTaskStatus,
   HealthStatus,
+  JwtClaims,
+  OpenApiDocument,
+  RunOptions,
+  ErrorTransport,
+  SessionStore,
+  EnqueueJobOptions,
+  JobFunction,
+  JobStatus,
+  HealthCheck,
+  HealthCheckDefinition,
+  ReplayOptions,
+  ReplayResult,
+  TranscriptRecord,
 } from './types.js'
-import { runWithContext } from './context.js'
+import { getContext, runWithContext } from './context.js'
+import { composeMiddleware } from './middleware.js'
+import { JwtVerifier, JwtVerificationError, extractBearerToken } from './auth.js'
+import { buildOpenApiDocument } from './openapi.js'
+import { ConcurrencyLimiter } from './limits.js'
+import { MemorySessionStore, createSessionState } from './session.js'
+import { JobManager } from './jobs.js'
+import { StreamBuffer, type BufferedStream } from './resumable.js'
+import {
+  BUILT_IN_SERIALIZERS,
+  MULTIPART_CONTENT_TYPE,
+  MultipartResponse,
+  NDJSON_CONTENT_TYPE,
+  negotiate,
+  toNdjsonLine,
+} from './serializers.js'
+import { HealthMonitor } from './health.js'
+import { DevMode, createPrettyLogStream } from './dev.js'
+import { createCompressionHook, decompressRequest } from './compression.js'
+import { createMultipartParser, removeUploads } from './multipart.js'
+import { DEFAULT_SESSION_IDLE_TIMEOUT_MS, SessionTracker } from './lifecycle.js'
+import { SessionToolPool } from './tools.js'
+import { REDACTED, TranscriptRecorder, diffRecords, readTranscript, type TranscriptEntry } from './transcript.js'
+import { RuntimeTelemetry, type InvocationSpan } from './telemetry.js'
+import {
+  AgentCoreError,
+  AuthError,
+  ConcurrencyLimitError,
+  HandlerError,
+  InvocationTimeoutError,
+  ValidationError,
+  toAgentCoreError,
+} from './errors.js'
 
 const require = createRequire(import.meta.url)
 const fastifySse = require('@fastify/sse')
 const fastifyWebsocket = require('@fastify/websocket')
 
+const DEFAULT_PORT = 8080
+const DEFAULT_HOST = '0.0.0.0'
+const DEFAULT_SHUTDOWN_GRACE_PERIOD_MS = 30000
+const SHUTDOWN_SIGNALS = ['SIGTERM', 'SIGINT'] as const
+const DEFAULT_OPENAPI_PATH = '/openapi.json'
+const DEFAULT_JOBS_PATH = '/jobs'
+const DEFAULT_OPERATION_HEADER = 'x-amzn-bedrock-agentcore-runtime-custom-operation'
+const DEFAULT_OPERATION_FIELD = 'operation'
+// Headers copied into context.headers unless denied by config.headers.deny
+const DEFAULT_PASSTHROUGH_HEADERS = ['authorization', 'x-amzn-bedrock-agentcore-runtime-custom-*']
+// Log entry fields that hold request headers, redacted by config.headers.redact
+const HEADER_LOG_PATHS = ['req.headers', 'headers', 'context.headers']
+
+// Operation definitions are stored without their schema types
+type AnyOperationDefinition = OperationDefinition<z.ZodSchema, z.ZodSchema, z.ZodSchema>
+// Fastify logger options, including the pino options such as redact
+type LoggerOptions = Exclude<FastifyServerOptions['logger'], boolean | undefined>
+
+/**
+ * Creates the reason passed to AbortController.abort() for an invocation.
+ * Timeouts use InvocationTimeoutError instead.
+ *
+ * @param message - Description of why the invocation was aborted
+ * @returns Error describing the abort
+ */
+function createAbortReason(message: string): Error {
+  return Object.assign(new Error(message), { name: 'AbortError' })
+}
+
+/**
+ * Checks a header name against header patterns, where a trailing `*` matches a prefix.
+ *
+ * @param name - Lowercase header name
+ * @param patterns - Header names or prefixes, matched case-insensitively
+ * @returns True if any pattern matches
+ */
+function matchesHeader(name: string, patterns: string[]): boolean {
+  return patterns.some((pattern) => {
+    const lowerPattern = pattern.toLowerCase()
+    return lowerPattern.endsWith('*') ? name.startsWith(lowerPattern.slice(0, -1)) : name === lowerPattern
+  })
+}
+
+/**
+ * Runs a function with the invocation span active, if telemetry is enabled.
+ *
+ * @param span - Span of the invocation
+ * @param fn - Function to run
+ * @returns The function's result
+ */
+function runInSpan<T>(span: InvocationSpan | undefined, fn: () => T): T {
+  return span ? span.run(fn) : fn()
+}
+
+/**
+ * Raised when a handler result or stream event does not match its response schema.
+ */
+class ResponseValidationError extends HandlerError {
+  /**
+   * @param zodError - The Zod validation error
+   * @param exposeIssues - Include the Zod issues as details; only in dev mode to avoid leaking handler internals
+   */
+  constructor(
+    readonly zodError: z.ZodError,
+    exposeIssues: boolean
+  ) {
+    super('Handler response failed schema validation', {
+      code: 'RESPONSE_VALIDATION_ERROR',
+      ...(exposeIssues && { details: zodError.issues }),
+    })
+    this.name = 'ResponseValidationError'
+  }
+}
+
 /**
  * Fastify-based HTTP server for hosting agents on AWS Bedrock AgentCore Runtime.
  *
  * This class provides an HTTP server that implements the AgentCore Runtime protocol
- * with health check and invocation endpoints. The server runs on port 8080 and
+ * with health check and invocation endpoints. The server runs on port 8080 by default and
  * handles both JSON responses and Server-Sent Events (SSE) streaming.
  *
  * @example
@@ -50,27 +176,60 @@ const fastifyWebsocket = require('@fastify/websocket')
  *   }
  * })
  *
- * app.run()
+ * const address = await app.run()
  * ```
  */
-export class BedrockAgentCoreApp<TSchema extends z.ZodSchema = z.ZodSchema<unknown>> {
+export class BedrockAgentCoreApp<
+  TSchema extends z.ZodSchema = z.ZodSchema<unknown>,
+  TResponseSchema extends z.ZodSchema = z.ZodSchema<unknown>,
+  TStreamEventSchema extends z.ZodSchema = z.ZodSchema<SSESource>,
+  TContext extends object = object,
+> {
   private readonly _app: FastifyInstance
-  private readonly _config: BedrockAgentCoreAppConfig
-  private readonly _handler: { process: InvocationHandler<z.infer<TSchema>>; requestSchema?: TSchema }
-  private _websocketHandler: WebSocketHandler | undefined
+  private readonly _config: BedrockAgentCoreAppConfig<TContext>
+  private _handler: BedrockAgentCoreAppParams<
+    TSchema,
+    TResponseSchema,
+    TStreamEventSchema,
+    TContext
+  >['invocationHandler']
+  private _websocketHandler: WebSocketHandler<TContext> | undefined
+  private readonly _middleware: InvocationMiddleware<z.infer<TSchema>, TContext>[] = []
+  private readonly _operations: Map<string, AnyOperationDefinition> = new Map()
+  private readonly _jwtVerifier: JwtVerifier | undefined
+  private readonly _limiter: ConcurrencyLimiter | undefined
+  private readonly _sessionStore: SessionStore
+  private readonly _sessionTracker: SessionTracker
+  private readonly _tools: SessionToolPool | undefined
+  private readonly _jobs: JobManager
+  private readonly _streamBuffer: StreamBuffer | undefined
+  private readonly _serializers: ResponseSerializerConfig[]
+  private readonly _health: HealthMonitor
+  private readonly _dev: DevMode | undefined
+  private readonly _transcripts: TranscriptRecorder
+  private _telemetry: RuntimeTelemetry | undefined
   private readonly _activeTasksMap: Map<number, AsyncTaskInfo> = new Map()
   private _taskCounter: number = 0
   private _pingHandler: (() => HealthStatus | Promise<HealthStatus>) | undefined
   private _forcedPingStatus?: HealthStatus
   private _lastStatusUpdateTime: number = Date.now()
   private _lastKnownStatus?: HealthStatus
+  private _initPromise: Promise<void> | undefined
+  private _closePromise: Promise<void> | undefined
+  private _draining: boolean = false
+  private _inFlightInvocations: number = 0
+  private readonly _openSockets: Set<WebSocket> = new Set()
+  private _drainWaiters: Array<() => void> = []
+  private _signalHandler: (() => void) | undefined
+  private _openApiDocument: OpenApiDocument | undefined
+  private readonly _abortControllers: Set<globalThis.AbortController> = new Set()
 
   /**
    * Creates a new BedrockAgentCoreApp instance.
    *
    * @param params - Configuration including handler and optional settings
    */
-  constructor(params: BedrockAgentCoreAppParams<TSchema>) {
+  constructor(params: BedrockAgentCoreAppParams<TSchema, TResponseSchema, TStreamEventSchema, TContext>) {
     if (
       !params ||
       typeof params !== 'object' ||
@@ -86,36 +245,307 @@ export class BedrockAgentCoreApp<TSchema extends z.ZodSchema = z.ZodSchema<unkno
     this._websocketHandler = params.websocketHandler ?? undefined
     this._config = params.config ?? {}
     this._pingHandler = params.pingHandler ?? undefined
+    this._jwtVerifier = this._config.auth ? new JwtVerifier(this._config.auth) : undefined
+    this._limiter = this._config.concurrency ? new ConcurrencyLimiter(this._config.concurrency) : undefined
+    this._sessionStore = this._config.sessionStore ?? new MemorySessionStore()
+    const lifecycle = this._config.lifecycle
+    this._sessionTracker = new SessionTracker(
+      lifecycle?.sessionIdleTimeoutMs ?? DEFAULT_SESSION_IDLE_TIMEOUT_MS,
+      (error, sessionId) => this._app.log.error({ err: error, sessionId }, 'Session end hook failed')
+    )
+    this._tools = this._config.tools
+      ? new SessionToolPool(this._config.tools, (error, sessionId, tool) =>
+          this._app.log.error({ err: error, sessionId, tool }, 'Failed to stop session tool')
+        )
+      : undefined
+    if (this._tools) {
+      // Registered first so that its end listener runs after onSessionEnd, which may still use the tools
+      const tools = this._tools
+      this._sessionTracker.addListener({ end: (sessionId) => tools.release(sessionId) })
+    }
+    if (lifecycle?.onSessionStart || lifecycle?.onSessionEnd) {
+      this._sessionTracker.addListener({ start: lifecycle.onSessionStart, end: lifecycle.onSessionEnd })
+    }
+    this._jobs = new JobManager(this._config.jobs ?? {}, (status) => {
+      if (status.state === 'failed') {
+        this._app.log.error({ jobId: status.jobId, name: status.name, error: status.error }, 'Background job failed')
+      }
+      this._notifyIfDrained()
+    })
+    const resumableStreams = this._config.resumableStreams
+    this._streamBuffer = resumableStreams
+      ? new StreamBuffer(resumableStreams === true ? {} : resumableStreams)
+      : undefined
+    this._transcripts = new TranscriptRecorder(
+      this._config.transcripts,
+      this._config.headers?.redact ?? [],
+      (error) => {
+        this._app.log.warn({ err: error }, 'Failed to write invocation transcript')
+      }
+    )
+    const dev = this._config.dev
+    this._dev = dev ? new DevMode(dev === true ? {} : dev) : undefined
+    // Custom serializers take precedence over the built-in ones for the same content type
+    this._serializers = [...(this._config.responseSerializers ?? []), ...BUILT_IN_SERIALIZERS]
+    this._health = new HealthMonitor(this._config.health ?? {}, this._pingHandler, (error) => {
+      this._app.log.warn({ err: error }, 'Custom ping handler failed, falling back to automatic')
+    })
 
     // Configure Fastify logger based on BedrockAgentCoreAppConfig
     const loggerConfig = this._getLoggerConfig()
 
     this._app = Fastify({
       logger: loggerConfig,
+      ...(this._config.bodyLimit !== undefined && { bodyLimit: this._config.bodyLimit }),
       disableRequestLogging: this._config.logging?.disableRequestLogging ?? ((req): boolean => req.url === '/ping'),
     })
   }
 
   /**
-   * Starts the Fastify server on port 8080.
+   * Starts the Fastify server.
+   *
+   * The port is resolved from options, then the PORT environment variable, then 8080.
+   * Unless disabled via config.shutdown.handleSignals, SIGTERM and SIGINT trigger close().
+   *
+   * @param options - Optional port and host overrides
+   * @returns The address the server is bound to (e.g. 'http://127.0.0.1:8080')
+   * @throws Error if the server fails to start
    */
-  run(): void {
-    const PORT = 8080
+  async run(options?: RunOptions): Promise<string> {
+    try {
+      const port = options?.port ?? this._getPortFromEnv() ?? DEFAULT_PORT
+      const host = options?.host ?? DEFAULT_HOST
 
-    // Wait for Fastify to be ready (all plugins registered), setup routes, and start the server
-    Promise.resolve(this._registerPlugins())
-      .then(() => {
-        this._setupContentTypeParsers()
-        this._setupRoutes()
-        return this._app.listen({ port: PORT, host: '0.0.0.0' })
-      })
-      .then(() => {
-        this._app.log.info(`Server listening on port ${PORT}`)
-      })
-      .catch((error: Error) => {
-        this._app.log.error(error)
-        process.exit(1)
-      })
+      // Wait for Fastify to be ready (all plugins registered), setup routes, and start the server
+      await this._initialize()
+      const address = await this._app.listen({ port, host })
+      this._app.log.info(`Server listening on ${address}`)
+      this._health.start()
+
+      this._registerSignalHandlers()
+      return address
+    } catch (error) {
+      this._app.log.error(error)
+      throw error
+    }
+  }
+
+  /**
+   * Gracefully shuts down the server.
+   *
+   * While draining, /ping responds with 503 and new invocations and WebSocket
+   * connections are rejected. In-flight invocations and open WebSocket connections
+   * are given the configured grace period to finish before being closed forcibly.
+   * Calling close() more than once returns the same promise.
+   *
+   * @returns Promise that resolves once the server has stopped
+   */
+  close(): Promise<void> {
+    if (!this._closePromise) {
+      this._closePromise = this._shutdown()
+    }
+    return this._closePromise
+  }
+
+  /**
+   * Registers middleware that wraps every invocation.
+   *
+   * Middleware runs in registration order after request validation and can inspect or
+   * replace the request, short-circuit the handler, or transform the result (including
+   * wrapping streaming async generators).
+   *
+   * @param middleware - Middleware function to add to the chain
+   * @returns This app instance for chaining
+   * @throws Error if middleware is not a function
+   *
+   * @example
+   * ```typescript
+   * app.use(async (request, context, next) => {
+   *   const started = Date.now()
+   *   const result = await next()
+   *   context.log.info({ durationMs: Date.now() - started }, 'Invocation finished')
+   *   return result
+   * })
+   * ```
+   */
+  use(middleware: InvocationMiddleware<z.infer<TSchema>, TContext>): this {
+    if (typeof middleware !== 'function') {
+      throw new Error('Middleware must be a function')
+    }
+    this._middleware.push(middleware)
+    return this
+  }
+
+  /**
+   * Registers a named invocation handler with its own schemas and middleware.
+   *
+   * Invocations name the operation in the `x-amzn-bedrock-agentcore-runtime-custom-operation`
+   * header or the `operation` field of the request body (see config.operations). Invocations
+   * without an operation are handled by `invocationHandler`; unknown operations are rejected
+   * with 404. Middleware registered with use() runs before the operation's middleware.
+   *
+   * @param name - Operation name
+   * @param definition - Handler, schemas and middleware for the operation
+   * @returns This app instance for chaining
+   * @throws Error if the definition has no process function or the name is already registered
+   *
+   * @example
+   * ```typescript
+   * app.addOperation('summarize', {
+   *   requestSchema: z.object({ text: z.string() }),
+   *   process: async (request) => ({ summary: await summarize(request.text) }),
+   * })
+   * ```
+   */
+  addOperation<
+    TOperationSchema extends z.ZodSchema = z.ZodSchema<unknown>,
+    TOperationResponseSchema extends z.ZodSchema = z.ZodSchema<unknown>,
+    TOperationStreamEventSchema extends z.ZodSchema = z.ZodSchema<SSESource>,
+  >(
+    name: string,
+    definition: OperationDefinition<TOperationSchema, TOperationResponseSchema, TOperationStreamEventSchema, TContext>
+  ): this {
+    if (typeof name !== 'string' || !name) {
+      throw new Error('Operation name must be a non-empty string')
+    }
+    if (!definition || typeof definition.process !== 'function') {
+      throw new Error(`Operation '${name}' requires a process function`)
+    }
+    if (this._operations.has(name)) {
+      throw new Error(`Operation '${name}' is already registered`)
+    }
+    if (definition.middleware?.some((middleware) => typeof middleware !== 'function')) {
+      throw new Error('Middleware must be a function')
+    }
+    this._operations.set(name, definition as unknown as AnyOperationDefinition)
+    // Operations may be added after the server started, so the served document is rebuilt
+    this._openApiDocument = undefined
+    return this
+  }
+
+  /**
+   * Builds an OpenAPI 3.1 document describing /ping, /invocations and /ws.
+   *
+   * Request and response bodies are derived from the handler's Zod schemas. The document
+   * is served at the route configured by config.openapi, and can also be written to disk
+   * at build time to generate clients.
+   *
+   * @returns The OpenAPI document
+   */
+  getOpenApiDocument(): OpenApiDocument {
+    const openapi = this._config.openapi
+    return buildOpenApiDocument({
+      ...(typeof openapi === 'object' && { info: openapi }),
+      requestSchema: this._handler.requestSchema,
+      responseSchema: this._handler.responseSchema,
+      streamEventSchema: this._handler.streamEventSchema,
+      auth: this._jwtVerifier !== undefined,
+      websocket: this._websocketHandler !== undefined,
+      concurrency: this._limiter !== undefined,
+      timeout: this._config.invocationTimeoutMs !== undefined,
+      multipart: Boolean(this._config.multipart),
+      jobsPath: this._config.jobs?.path ?? DEFAULT_JOBS_PATH,
+      operations: {
+        header: this._config.operations?.header ?? DEFAULT_OPERATION_HEADER,
+        field: this._config.operations?.field ?? DEFAULT_OPERATION_FIELD,
+        schemas: Object.fromEntries(this._operations),
+      },
+    })
+  }
+
+  /**
+   * Injects a request into the server without binding a socket.
+   * Plugins and routes are registered on first use. Intended for tests.
+   *
+   * @param options - Fastify inject options or a URL path
+   * @returns The simulated HTTP response
+   *
+   * @example
+   * ```typescript
+   * const response = await app.inject({
+   *   method: 'POST',
+   *   url: '/invocations',
+   *   headers: { 'x-amzn-bedrock-agentcore-runtime-session-id': 'test-session' },
+   *   payload: { message: 'hello' },
+   * })
+   * ```
+   */
+  async inject(options: InjectOptions | string): Promise<LightMyRequestResponse> {
+    await this._initialize()
+    return this._app.inject(options)
+  }
+
+  /**
+   * Replays recorded invocations through the app, in order, and compares their status,
+   * result, stream chunks and error with the recorded ones. Each invocation is sent with its
+   * recorded session ID, headers and request, so it passes through authentication, middleware
+   * and the handler; redacted headers are not sent.
+   *
+   * @param source - Path of a JSONL transcript, or the records to replay
+   * @param options - Extra headers and paths excluded from the comparison
+   * @returns One result per record
+   *
+   * @example
+   * ```typescript
+   * const results = await app.replay('transcripts/prod.jsonl', { ignore: ['result.createdAt'] })
+   * expect(results.filter((result) => !result.passed)).toEqual([])
+   * ```
+   */
+  async replay(source: string | TranscriptRecord[], options: ReplayOptions = {}): Promise<ReplayResult[]> {
+    const records = typeof source === 'string' ? await readTranscript(source) : source
+    const operationHeader = (this._config.operations?.header ?? DEFAULT_OPERATION_HEADER).toLowerCase()
+
+    const results: ReplayResult[] = []
+    for (const expected of records) {
+      const requestId = `replay-${randomUUID()}`
+      const headers = Object.fromEntries(Object.entries(expected.headers).filter(([, value]) => value !== REDACTED))
+      if (expected.operation !== undefined) {
+        headers[operationHeader] = expected.operation
+      }
+
+      this._transcripts.capture(requestId)
+      let response: LightMyRequestResponse
+      let actual: TranscriptRecord | undefined
+      try {
+        response = await this.inject({
+          method: 'POST',
+          url: '/invocations',
+          headers: {
+            ...headers,
+            ...options.headers,
+            ...(expected.chunks && { accept: 'text/event-stream' }),
+            'x-amzn-bedrock-agentcore-runtime-session-id': expected.sessionId,
+            'x-amzn-bedrock-agentcore-runtime-request-id': requestId,
+          },
+          ...(expected.request !== undefined && { payload: expected.request as NonNullable<InjectOptions['payload']> }),
+        })
+      } finally {
+        actual = this._transcripts.takeCapture(requestId)
+      }
+
+      const differences = actual
+        ? diffRecords(expected, actual, options.ignore)
+        : [{ path: 'status', expected: expected.status, actual: `rejected with HTTP ${response.statusCode}` }]
+      results.push({ expected, actual, differences, passed: differences.length === 0 })
+    }
+    return results
+  }
+
+  /**
+   * Opens a simulated WebSocket connection to the /ws endpoint without binding a socket.
+   * Intended for tests.
+   *
+   * @param headers - Headers to send with the upgrade request
+   * @returns The client side of the WebSocket connection
+   * @throws Error if no websocketHandler is configured
+   */
+  async injectWebSocket(headers?: Record<string, string>): Promise<WebSocket> {
+    if (!this._websocketHandler) {
+      throw new Error('Cannot open a WebSocket connection: no websocketHandler is configured')
+    }
+    await this._initialize()
+    await this._app.ready()
+    return this._app.injectWS('/ws', { headers: headers ?? {} })
   }
 
   /**
@@ -148,31 +578,125 @@ export class BedrockAgentCoreApp<TSchema extends z.ZodSchema = z.ZodSchema<unkno
     return this._activeTasksMap.delete(taskId)
   }
 
+  /**
+   * Runs work in the background and returns a job ID right away.
+   *
+   * The job's status, progress and result can be read with getJob(), and by clients through
+   * the jobs route (`GET /jobs/:jobId`). When called inside an invocation, the job runs with
+   * that invocation's context (but its own signal) and is only visible to the same session.
+   * The session does not end while the job runs, so its `context.tools` clients stay usable.
+   * Unfinished jobs keep /ping at HealthyBusy and are drained on shutdown.
+   *
+   * @example
+   * ```typescript
+   * process: async (request, context) => {
+   *   const jobId = app.enqueueJob(async (job) => {
+   *     job.reportProgress({ percent: 0, message: 'Indexing' })
+   *     return await buildIndex(request.documents, { signal: job.signal })
+   *   }, { name: 'build-index' })
+   *   return { jobId }
+   * }
+   * ```
+   *
+   * @param fn - Work to run
+   * @param options - Job name and metadata
+   * @returns The job ID
+   * @throws AgentCoreError if the server is shutting down
+   */
+  public enqueueJob<TResult>(fn: JobFunction<TResult>, options: EnqueueJobOptions = {}): string {
+    if (this._draining) {
+      throw new AgentCoreError('Server is shutting down', { statusCode: 503 })
+    }
+    const context = getContext()
+    // The session, and with it context.tools, stays open until the job finishes
+    const release = context?.sessionId ? this._sessionTracker.hold(context.sessionId) : undefined
+    return this._jobs.enqueue(fn, options, context, release)
+  }
+
+  /**
+   * Gets the status of a background job.
+   *
+   * @param jobId - Job ID from enqueueJob
+   * @returns The job status, or undefined if the job does not exist or is no longer retained
+   */
+  public getJob<TResult = unknown>(jobId: string): JobStatus<TResult> | undefined {
+    return this._jobs.get(jobId) as JobStatus<TResult> | undefined
+  }
+
+  /**
+   * Cancels a pending or running background job by aborting its signal.
+   *
+   * @param jobId - Job ID from enqueueJob
+   * @returns True if the job was pending or running
+   */
+  public cancelJob(jobId: string): boolean {
+    return this._jobs.cancel(jobId)
+  }
+
+  /**
+   * Registers a named health check, reported in the `checks` field of the /ping body.
+   * Checks run in the background every config.health.intervalMs; /ping serves the cached results.
+   *
+   * @param name - Name reported in the /ping body
+   * @param check - Check function, or a definition with options
+   * @returns This app instance for chaining
+   * @throws Error if a check with the same name exists
+   *
+   * @example
+   * ```typescript
+   * app.addHealthCheck('identity', async (signal) => {
+   *   const response = await fetch(identityEndpoint, { signal })
+   *   return response.ok
+   * })
+   * ```
+   */
+  public addHealthCheck(name: string, check: HealthCheck | HealthCheckDefinition): this {
+    this._health.add(name, check)
+    return this
+  }
+
   /**
    * Get current ping status based on priority system.
    * Priority: Forced \> Custom Handler \> Automatic
    *
+   * Synchronous ping handlers are called directly. Async ping handlers contribute the
+   * status cached by their last evaluation, and fall through to automatic until then.
+   *
    * @returns Current health status
    */
   public getCurrentPingStatus(): HealthStatus {
+    // Draining overrides everything while shutting down. The runtime only knows Healthy and
+    // HealthyBusy, so the 503 from /ping is what tells it to stop routing to this instance
+    if (this._draining) {
+      return 'HealthyBusy'
+    }
+
     // Priority 1: Forced status
     if (this._forcedPingStatus) {
       return this._forcedPingStatus
     }
 
     // Priority 2: Custom handler
-    if (this._pingHandler) {
+    if (this._pingHandler && this._health.asyncPingHandler) {
+      const cached = this._health.pingHandlerStatus
+      if (cached) {
+        return cached
+      }
+    } else if (this._pingHandler) {
       try {
         const result = this._pingHandler()
-        // Handle both sync and async handlers
-        return result instanceof Promise ? 'Healthy' : result
+        if (!(result instanceof Promise)) {
+          return result
+        }
+        void this._health.evaluate(result)
       } catch {
         this._app.log.warn('Custom ping handler failed, falling back to automatic')
       }
     }
 
-    // Priority 3: Automatic based on active tasks
-    const status: HealthStatus = this._activeTasksMap.size > 0 ? 'HealthyBusy' : 'Healthy'
+    // Priority 3: Automatic based on active tasks, background jobs and concurrency saturation
+    const busy = this._activeTasksMap.size > 0 || this._jobs.activeCount > 0 || this._limiter?.isSaturated === true
+    const status: HealthStatus = busy ? 'HealthyBusy' : 'Healthy'
 
     // Track status changes
     if (!this._lastKnownStatus || this._lastKnownStatus !== status) {
@@ -212,43 +736,310 @@ export class BedrockAgentCoreApp<TSchema extends z.ZodSchema = z.ZodSchema<unkno
   }
 
   /**
-   * Get information about currently running async tasks.
+   * Get information about currently running async tasks and background jobs.
    *
-   * @returns Task status with count and details
+   * @returns Task status with count, unfinished work and all retained jobs
    */
   public getAsyncTaskInfo(): AsyncTaskStatus {
     const now = Date.now()
-    const runningJobs = Array.from(this._activeTasksMap.values()).map((task) => ({
+    const jobs = this._jobs.list()
+    const runningJobs: AsyncTaskStatus['runningJobs'] = Array.from(this._activeTasksMap.values()).map((task) => ({
       name: task.name,
       duration: (now - task.startTime) / 1000, // Convert to seconds
+      state: 'running',
     }))
+    for (const job of jobs) {
+      if (job.state === 'pending' || job.state === 'running') {
+        runningJobs.push({
+          name: job.name,
+          duration: (now - Date.parse(job.startedAt ?? job.createdAt)) / 1000,
+          state: job.state,
+          jobId: job.jobId,
+          ...(job.progress && { progress: job.progress }),
+        })
+      }
+    }
 
     return {
-      activeCount: this._activeTasksMap.size,
+      activeCount: this._activeTasksMap.size + this._jobs.activeCount,
       runningJobs,
+      jobs,
+    }
+  }
+
+  /**
+   * Registers plugins, content type parsers and routes, then runs the startup hook, exactly once.
+   */
+  private _initialize(): Promise<void> {
+    if (!this._initPromise) {
+      this._initPromise = Promise.all([this._registerPlugins(), this._setupTelemetry()]).then(() => {
+        this._setupContentTypeParsers()
+        this._setupRoutes()
+        this._dev?.startReload(
+          (exported) => {
+            this._handler =
+              typeof exported === 'function'
+                ? { ...this._handler, process: exported as typeof this._handler.process }
+                : { ...this._handler, ...(exported as typeof this._handler) }
+            this._app.log.info('Reloaded handler module')
+          },
+          (error) => this._app.log.error({ err: error }, 'Failed to reload handler module')
+        )
+        return this._config.lifecycle?.onStartup?.()
+      })
+    }
+    return this._initPromise
+  }
+
+  /**
+   * Loads the OpenTelemetry instrumentation when config.telemetry is enabled.
+   */
+  private async _setupTelemetry(): Promise<void> {
+    const telemetry = this._config.telemetry
+    if (telemetry) {
+      this._telemetry = await RuntimeTelemetry.create(
+        telemetry === true ? {} : telemetry,
+        () => this._activeTasksMap.size + this._jobs.activeCount
+      )
+    }
+  }
+
+  /**
+   * Reads the port from the PORT environment variable.
+   *
+   * @returns The port, or undefined when PORT is not set
+   * @throws Error if PORT is not a valid port number
+   */
+  private _getPortFromEnv(): number | undefined {
+    const value = process.env.PORT
+    if (value === undefined || value === '') {
+      return undefined
+    }
+
+    const port = Number(value)
+    if (!Number.isInteger(port) || port < 0 || port > 65535) {
+      throw new Error(`Invalid PORT environment variable: ${value}`)
+    }
+    return port
+  }
+
+  /**
+   * Registers process signal handlers that trigger a graceful shutdown.
+   */
+  private _registerSignalHandlers(): void {
+    if (this._config.shutdown?.handleSignals === false || this._signalHandler) {
+      return
+    }
+
+    this._signalHandler = (): void => {
+      this.close().then(
+        () => process.exit(0),
+        (error: unknown) => {
+          this._app.log.error(error, 'Error during graceful shutdown')
+          process.exit(1)
+        }
+      )
+    }
+    for (const signal of SHUTDOWN_SIGNALS) {
+      process.once(signal, this._signalHandler)
     }
   }
 
+  /**
+   * Removes process signal handlers registered by run().
+   */
+  private _removeSignalHandlers(): void {
+    if (!this._signalHandler) {
+      return
+    }
+    for (const signal of SHUTDOWN_SIGNALS) {
+      process.removeListener(signal, this._signalHandler)
+    }
+    this._signalHandler = undefined
+  }
+
+  /**
+   * Drains in-flight work and closes the Fastify server.
+   */
+  private async _shutdown(): Promise<void> {
+    this._draining = true
+    this._lastStatusUpdateTime = Date.now()
+    this._removeSignalHandlers()
+    this._health.stop()
+    this._dev?.stopReload()
+
+    const gracePeriodMs = this._config.shutdown?.gracePeriodMs ?? DEFAULT_SHUTDOWN_GRACE_PERIOD_MS
+    this._app.log.info(
+      { inFlightInvocations: this._inFlightInvocations, openWebSockets: this._openSockets.size },
+      'Shutting down, draining in-flight work'
+    )
+
+    const drained = await this._waitForDrain(gracePeriodMs)
+    if (!drained) {
+      this._app.log.warn(
+        { inFlightInvocations: this._inFlightInvocations, openWebSockets: this._openSockets.size },
+        `Grace period of ${gracePeriodMs}ms elapsed, closing remaining connections`
+      )
+      for (const controller of this._abortControllers) {
+        controller.abort(createAbortReason('Server is shutting down'))
+      }
+      this._jobs.abortAll(createAbortReason('Server is shutting down'))
+      this._app.server.closeAllConnections()
+    }
+
+    for (const socket of this._openSockets) {
+      socket.close(1001, 'Server shutting down')
+    }
+    this._openSockets.clear()
+
+    await this._sessionTracker.endAll('shutdown')
+    // The startup hook only ran if the app was started or injected
+    if (this._initPromise) {
+      try {
+        await this._config.lifecycle?.onShutdown?.()
+      } catch (error) {
+        this._app.log.error({ err: error }, 'Shutdown hook failed')
+      }
+    }
+
+    await this._app.close()
+    await this._sessionStore.close?.()
+    await this._transcripts.close()
+    this._telemetry?.shutdown()
+  }
+
+  /**
+   * Waits until there are no in-flight invocations or open WebSocket connections.
+   *
+   * @param timeoutMs - Maximum time to wait in milliseconds
+   * @returns True if everything drained before the timeout
+   */
+  private _waitForDrain(timeoutMs: number): Promise<boolean> {
+    if (this._isDrained()) {
+      return Promise.resolve(true)
+    }
+
+    return new Promise((resolve) => {
+      const waiter = (): void => {
+        globalThis.clearTimeout(timer)
+        resolve(true)
+      }
+      const timer = globalThis.setTimeout(() => {
+        this._drainWaiters = this._drainWaiters.filter((w) => w !== waiter)
+        resolve(false)
+      }, timeoutMs)
+      this._drainWaiters.push(waiter)
+    })
+  }
+
+  /**
+   * Checks whether all in-flight work has finished.
+   *
+   * @returns True if there are no in-flight invocations or open WebSocket connections
+   */
+  private _isDrained(): boolean {
+    return this._inFlightInvocations === 0 && this._openSockets.size === 0 && this._jobs.activeCount === 0
+  }
+
+  /**
+   * Resolves pending drain waiters once all in-flight work has finished.
+   */
+  private _notifyIfDrained(): void {
+    if (!this._isDrained()) {
+      return
+    }
+    const waiters = this._drainWaiters
+    this._drainWaiters = []
+    waiters.forEach((waiter) => waiter())
+  }
+
   /**
    * Sets up HTTP routes for the server.
    */
   private _setupRoutes(): void {
+    // Errors raised outside the route handlers, e.g. by body parsing, get the same error body
+    this._app.setErrorHandler(async (error, request, reply) => {
+      const agentCoreError = toAgentCoreError(error)
+      if (agentCoreError.statusCode >= 500) {
+        request.log.error({ err: error }, 'Request failed')
+      } else {
+        request.log.info({ err: error }, 'Request rejected')
+      }
+      const requestId = request.headers['x-amzn-bedrock-agentcore-runtime-request-id'] as string | undefined
+      await this._sendError(reply, agentCoreError, requestId)
+    })
+
     // Health check endpoint
     this._app.get('/ping', this._handlePing.bind(this))
 
     // Invocation endpoint
-    this._app.post('/invocations', { sse: true }, this._handleInvocation.bind(this))
+    this._app.post('/invocations', { sse: true, ...this._getInvocationHooks() }, this._handleInvocation.bind(this))
 
     // WebSocket endpoint (only if handler exists)
     if (this._websocketHandler) {
       this._app.get('/ws', { websocket: true }, this._handleWebSocket.bind(this))
     }
+
+    // Background job status endpoint
+    this._app.get(`${this._config.jobs?.path ?? DEFAULT_JOBS_PATH}/:jobId`, this._handleGetJob.bind(this))
+
+    // OpenAPI discovery endpoint (only if enabled)
+    const openapi = this._config.openapi
+    if (openapi) {
+      const path = (typeof openapi === 'object' && openapi.path) || DEFAULT_OPENAPI_PATH
+      this._app.get(path, this._handleOpenApi.bind(this))
+    }
+
+    // Development chat page (only in dev mode)
+    const chatPagePath = this._dev?.chatPagePath
+    if (chatPagePath) {
+      this._app.get(chatPagePath, async (_request, reply) => {
+        await reply.type('text/html; charset=utf-8').send(this._dev!.renderChatPage())
+      })
+    }
+  }
+
+  /**
+   * Builds the /invocations route hooks for request decompression, response compression
+   * and removal of uploaded files, after the response or when the client aborts the request.
+   *
+   * @returns Route options with the hooks that are enabled
+   */
+  private _getInvocationHooks(): Pick<
+    RouteShorthandOptions,
+    'preParsing' | 'onSend' | 'onResponse' | 'onRequestAbort'
+  > {
+    const compression = this._config.compression
+    const compressionConfig = compression === true ? {} : compression || undefined
+    const multipart = this._config.multipart
+
+    return {
+      ...(compressionConfig &&
+        compressionConfig.decompressRequests !== false && {
+          preParsing: async (request: FastifyRequest, _reply: FastifyReply, payload: Readable) =>
+            decompressRequest(request, payload),
+        }),
+      ...(compressionConfig && { onSend: createCompressionHook(compressionConfig) }),
+      ...(typeof multipart === 'object' &&
+        multipart.files === 'stream' && {
+          onResponse: async (request: FastifyRequest) => removeUploads(request),
+          onRequestAbort: async (request: FastifyRequest) => removeUploads(request),
+        }),
+    }
   }
 
   /**
    * Register custom content type parsers using Fastify's native addContentTypeParser.
    */
   private _setupContentTypeParsers(): void {
+    const multipart = this._config.multipart
+    if (multipart) {
+      this._app.addContentTypeParser(
+        'multipart/form-data',
+        createMultipartParser(multipart === true ? {} : multipart, this._config.bodyLimit)
+      )
+    }
+
     this._config.contentTypeParsers?.forEach((parserConfig) => {
       const { contentType, parser, parseAs, bodyLimit } = parserConfig
 
@@ -282,12 +1073,12 @@ export class BedrockAgentCoreApp<TSchema extends z.ZodSchema = z.ZodSchema<unkno
    *
    * @returns Fastify logger configuration
    */
-  private _getLoggerConfig(): boolean | FastifyLoggerOptions {
+  private _getLoggerConfig(): boolean | LoggerOptions {
     const loggingConfig = this._config.logging
 
     // If no logging config provided, use default (enabled with info level)
     if (!loggingConfig) {
-      return true
+      return this._redactHeaders(this._prettyLogs(true))
     }
 
     // If logging is explicitly disabled, return false
@@ -297,11 +1088,50 @@ export class BedrockAgentCoreApp<TSchema extends z.ZodSchema = z.ZodSchema<unkno
 
     // If no options provided, use default level
     if (!loggingConfig.options) {
-      return { level: 'info' }
+      return this._redactHeaders(this._prettyLogs({ level: 'info' }))
     }
 
     // Return FastifyLoggerOptions directly
-    return loggingConfig.options
+    return this._redactHeaders(this._prettyLogs(loggingConfig.options))
+  }
+
+  /**
+   * Prints logs as readable lines in dev mode, unless a destination is configured.
+   *
+   * @param options - Logger configuration; true for the default logger
+   * @returns The configuration, unchanged outside dev mode
+   */
+  private _prettyLogs(options: true | LoggerOptions): true | LoggerOptions {
+    if (!this._dev?.prettyLogs || (options !== true && (options.stream || options.transport))) {
+      return options
+    }
+    return { ...(options === true ? { level: 'info' } : options), stream: createPrettyLogStream() }
+  }
+
+  /**
+   * Adds the headers listed in config.headers.redact to the logger's redaction paths.
+   *
+   * @param options - Logger configuration; true for the default logger
+   * @returns The configuration, unchanged when no headers are redacted
+   */
+  private _redactHeaders(options: true | LoggerOptions): true | LoggerOptions {
+    const headers = this._config.headers?.redact
+    if (!headers?.length) {
+      return options
+    }
+
+    const paths = headers.flatMap((name) =>
+      HEADER_LOG_PATHS.map((path) => `${path}[${JSON.stringify(name.toLowerCase())}]`)
+    )
+    const { redact, ...rest } = options === true ? {} : options
+    return {
+      ...rest,
+      redact: !redact
+        ? paths
+        : Array.isArray(redact)
+          ? [...redact, ...paths]
+          : { ...redact, paths: [...redact.paths, ...paths] },
+    }
   }
 
   /**
@@ -311,14 +1141,76 @@ export class BedrockAgentCoreApp<TSchema extends z.ZodSchema = z.ZodSchema<unkno
    * @param reply - Fastify reply object
    */
   private async _handlePing(request: FastifyRequest, reply: FastifyReply): Promise<void> {
+    if (this._health.enabled && !this._draining) {
+      if (this._health.evaluatedAt === undefined) {
+        // Nothing cached yet, so wait for the first evaluation (bounded by the health timeouts)
+        await this._health.evaluate()
+      } else if (this._health.isStale) {
+        void this._health.evaluate()
+      }
+    }
+
     const status = this.getCurrentPingStatus()
+    const evaluatedAt = this._health.evaluatedAt
     const response: HealthCheckResponse = {
       status,
-      time_of_last_update: new Date(this._lastStatusUpdateTime).toISOString(),
+      time_of_last_update: new Date(
+        evaluatedAt !== undefined && !this._draining ? evaluatedAt : this._lastStatusUpdateTime
+      ).toISOString(),
+    }
+    const checks = this._health.reports
+    if (Object.keys(checks).length > 0) {
+      response.checks = checks
+    }
+    // Signal load balancers to stop routing traffic to this instance
+    if (this._draining || this._health.hasCriticalFailure) {
+      await reply.status(503).send(response)
+      return
     }
     await reply.send(response)
   }
 
+  /**
+   * Serves the OpenAPI document. The document is built on first request and rebuilt after
+   * addOperation() registers another operation.
+   *
+   * @param request - Fastify request object
+   * @param reply - Fastify reply object
+   */
+  private async _handleOpenApi(request: FastifyRequest, reply: FastifyReply): Promise<void> {
+    this._openApiDocument ??= this.getOpenApiDocument()
+    await reply.send(this._openApiDocument)
+  }
+
+  /**
+   * Serves the status of a background job. Jobs enqueued during an invocation are only
+   * returned to requests carrying the same session ID.
+   *
+   * @param request - Fastify request object
+   * @param reply - Fastify reply object
+   */
+  private async _handleGetJob(request: FastifyRequest, reply: FastifyReply): Promise<void> {
+    this._dev?.emulateHeaders(request)
+    const context = this._extractContext(request)
+
+    if (this._jwtVerifier) {
+      const identity = await this._authenticate(request)
+      if (typeof identity === 'string') {
+        reply.header('www-authenticate', 'Bearer error="invalid_token"')
+        await this._sendError(reply, new AuthError(`Unauthorized: ${identity}`), context.requestId)
+        return
+      }
+    }
+
+    const { jobId } = request.params as { jobId: string }
+    const job = this._jobs.get(jobId)
+    if (!job || (job.sessionId !== undefined && job.sessionId !== context.sessionId)) {
+      await this._sendError(reply, new AgentCoreError('Job not found', { statusCode: 404 }), context.requestId)
+      return
+    }
+    await reply.send(job)
+  }
+
   /**
    * Handles agent invocation requests.
    *
@@ -326,83 +1218,397 @@ export class BedrockAgentCoreApp<TSchema extends z.ZodSchema = z.ZodSchema<unkno
    * @param reply - Fastify reply object
    */
   private async _handleInvocation(request: FastifyRequest, reply: FastifyReply): Promise<void> {
+    if (this._draining) {
+      const requestId = (request.headers['x-amzn-bedrock-agentcore-runtime-request-id'] as string) || randomUUID()
+      await this._sendError(reply, new AgentCoreError('Server is shutting down', { statusCode: 503 }), requestId)
+      return
+    }
+
+    this._inFlightInvocations++
+    const abort = this._createInvocationAbort(reply)
+    let releaseSlot: (() => void) | undefined
+    let releaseSession: (() => void) | undefined
+    let requestId: string | undefined
+    let span: InvocationSpan | undefined
+    let transcript: TranscriptEntry | undefined
     try {
       // Extract context
+      if (this._dev?.emulateHeaders(request)) {
+        reply.header('x-amzn-bedrock-agentcore-runtime-session-id', this._dev.sessionId)
+      }
       const context = this._extractContext(request)
+      context.signal = abort.signal
+      requestId = context.requestId
+      span = this._telemetry?.startInvocation('http', 'POST /invocations', request.headers, context)
+      context.trace = span?.traceContext
+
+      // Verify the bearer token before any other processing
+      if (this._jwtVerifier) {
+        const identity = await this._authenticate(request)
+        if (typeof identity === 'string') {
+          reply.header('www-authenticate', 'Bearer error="invalid_token"')
+          await this._sendError(reply, new AuthError(`Unauthorized: ${identity}`), requestId)
+          return
+        }
+        context.identity = identity
+      }
 
       // Validate sessionId
       if (!context.sessionId) {
-        await reply.status(400).send({
-          error: 'Missing sessionId. Provide via x-amzn-bedrock-agentcore-runtime-session-id header or request body.',
-        })
+        const message =
+          'Missing sessionId. Provide via x-amzn-bedrock-agentcore-runtime-session-id header or request body.'
+        await this._sendError(reply, new ValidationError(message), requestId)
+        return
+      }
+
+      // Resume a buffered stream instead of invoking the handler again
+      const buffered =
+        requestId && context.lastEventId ? this._streamBuffer?.get(requestId, context.sessionId) : undefined
+      if (buffered && reply.sse) {
+        await this._sendBufferedStream(reply, buffered, requestId!, context.lastEventId)
         return
       }
 
+      // Route to a named operation, or to invocationHandler
+      const route = this._resolveOperation(request)
+      if (route instanceof AgentCoreError) {
+        await this._sendError(reply, route, requestId)
+        return
+      }
+      const handler = route.definition
+      context.operation = route.name
+
+      await this._attachSession(context)
+      await this._enrichContext(request, context)
+
       // Validate request body with schema if provided
-      let handlerRequest: z.infer<TSchema>
-      if (this._handler.requestSchema) {
+      let handlerRequest: unknown
+      if (handler.requestSchema) {
         try {
-          handlerRequest = await this._handler.requestSchema.parseAsync(request.body)
+          handlerRequest = await handler.requestSchema.parseAsync(request.body)
         } catch (error) {
           if (error instanceof z.ZodError) {
-            await reply.status(400).send({
-              error: 'Invalid request body format',
-              details: error.issues,
-            })
+            const validationError = new ValidationError('Invalid request body format', { details: error.issues })
+            await this._sendError(reply, validationError, requestId)
             return
           }
           throw error
         }
       } else {
-        handlerRequest = request.body as z.infer<TSchema>
+        handlerRequest = request.body
       }
+      transcript = this._transcripts.start(context, handlerRequest)
 
-      // Invoke handler with context
-      const result = await runWithContext(context, async () => {
-        return await this._handler.process(handlerRequest, context)
-      })
+      // Start the session on its first invocation; it stays active until the invocation ends
+      releaseSession = await this._sessionTracker.acquire(context.sessionId, context)
+      context.tools = this._tools?.forSession(context.sessionId)
+
+      // Wait for a slot when concurrency limits are configured
+      if (this._limiter) {
+        releaseSlot = await this._limiter.acquire(context.sessionId, abort.signal)
+      }
+
+      // Invoke handler through the middleware chain with context
+      const pipeline = composeMiddleware(
+        [...(this._middleware as InvocationMiddleware[]), ...(handler.middleware ?? [])],
+        handler.process
+      )
+      const invocation = runInSpan(span, () =>
+        runWithContext(context, async () => {
+          return await pipeline(handlerRequest, context)
+        })
+      )
+      // Stop waiting on a handler that ignores context.signal once the timeout elapses
+      let result = abort.timedOut ? await Promise.race([invocation, abort.timedOut]) : await invocation
+
+      // Validate the handler output with the response schemas if provided
+      if (this._isAsyncGenerator(result)) {
+        let stream = result
+        if (handler.streamEventSchema) {
+          stream = this._validateStreamEvents(stream, handler.streamEventSchema)
+        }
+        if (abort.timedOut) {
+          stream = this._raceStreamWithTimeout(stream, abort.timedOut)
+        }
+        result = transcript ? transcript.recordStream(stream) : stream
+      } else if (handler.responseSchema) {
+        // The schema of a multipart response applies to its JSON part
+        const multipart = result instanceof MultipartResponse ? result : undefined
+        const parsed = await handler.responseSchema.safeParseAsync(multipart ? multipart.json : result)
+        if (!parsed.success) {
+          this._app.log.error({ issues: parsed.error.issues }, 'Handler response failed schema validation')
+          throw new ResponseValidationError(parsed.error, this._dev !== undefined)
+        }
+        result = multipart ? new MultipartResponse(parsed.data, multipart.files) : parsed.data
+      }
+      if (!this._isAsyncGenerator(result)) {
+        transcript?.complete(result)
+      }
 
       // Check if result is an async generator (streaming response)
       if (this._isAsyncGenerator(result)) {
-        if (reply.sse) {
+        const streamType = negotiate(request.headers.accept, ['text/event-stream', NDJSON_CONTENT_TYPE])
+        if (streamType?.contentType === NDJSON_CONTENT_TYPE && streamType.explicit) {
+          const generator = result
+          await runInSpan(span, () => runWithContext(context, () => this._handleNdjsonResponse(reply, generator, span)))
+        } else if (reply.sse) {
           // Wrap streaming in context so getContext() works during iteration
-          await runWithContext(context, async () => {
-            await this._handleStreamingResponse(reply, result)
-          })
+          await runInSpan(span, () =>
+            runWithContext(context, async () => {
+              if (this._streamBuffer) {
+                // The generator keeps running when the client disconnects, so it can resume
+                abort.detachFromClient()
+                await this._handleResumableStream(reply, result, context, span)
+              } else {
+                await this._handleStreamingResponse(reply, result, span)
+              }
+            })
+          )
         } else {
-          await reply.status(406).send({
-            error:
-              'Streaming response requires Accept: text/event-stream header. Please include this header in your request to receive streaming data.',
-          })
+          const message =
+            'Streaming response requires Accept: text/event-stream header. Please include this header in your request to receive streaming data.'
+          await this._sendError(reply, new AgentCoreError(message, { statusCode: 406 }), requestId)
         }
       } else {
         // Return non-streaming response
-        if (reply.sse) {
-          // SSE mode active but not streaming - respond based on client's Accept header
-          const acceptHeader = request.headers.accept || 'application/json'
-
-          if (acceptHeader.includes('application/json') || acceptHeader.includes('*/*')) {
-            await reply.type('application/json').send(result)
-          } else if (acceptHeader.includes('text/plain')) {
-            const text = typeof result === 'string' ? result : JSON.stringify(result)
-            await reply.type('text/plain').send(text)
-          } else if (acceptHeader.includes('application/octet-stream')) {
-            const buffer = Buffer.isBuffer(result) ? result : Buffer.from(JSON.stringify(result))
-            await reply.type('application/octet-stream').send(buffer)
-          } else {
-            // Default to JSON
-            await reply.type('application/json').send(result)
-          }
-        } else {
-          await reply.send(result)
-        }
+        await this._sendResponse(request, reply, result, context)
       }
     } catch (error) {
-      // Handle errors
-      const errorMessage = error instanceof Error ? error.message : 'Unknown error'
-      await reply.status(500).send({
-        error: errorMessage,
+      span?.recordError(error)
+      transcript?.fail(error)
+      await this._sendError(reply, error, requestId)
+    } finally {
+      span?.end(reply.statusCode)
+      releaseSlot?.()
+      releaseSession?.()
+      abort.release()
+      this._inFlightInvocations--
+      this._notifyIfDrained()
+    }
+  }
+
+  /**
+   * Sends a non-streaming result with the serializer negotiated from the Accept header.
+   * When the client states no preference beyond the any-type wildcard, MultipartResponse
+   * results are sent as multipart, Buffers as they are, and other results with the
+   * application/json serializer.
+   *
+   * @param request - Fastify request object
+   * @param reply - Fastify reply object
+   * @param result - Result returned by the handler
+   * @param context - Context of the invocation
+   */
+  private async _sendResponse(
+    request: FastifyRequest,
+    reply: FastifyReply,
+    result: unknown,
+    context: RequestContext
+  ): Promise<void> {
+    const offered = this._serializers.map((serializer) => serializer.contentType)
+    if (result instanceof MultipartResponse) {
+      offered.unshift(MULTIPART_CONTENT_TYPE)
+    }
+    const negotiated = negotiate(request.headers.accept, offered)
+
+    if (
+      result instanceof MultipartResponse &&
+      (!negotiated?.explicit || negotiated.contentType === MULTIPART_CONTENT_TYPE)
+    ) {
+      await reply.type(result.contentType).send(result.toBuffer())
+    } else if (!negotiated?.explicit && Buffer.isBuffer(result)) {
+      await reply.send(result)
+    } else if (!negotiated?.explicit) {
+      // Same body as for an explicit application/json, whether the client sent no Accept, */*
+      // or only text/event-stream for a result that is not a stream
+      const { serializer } = this._serializers.find((entry) => entry.contentType === 'application/json')!
+      await reply.type('application/json').send(await serializer(result, context))
+    } else {
+      const { serializer } = this._serializers.find((entry) => entry.contentType === negotiated.contentType)!
+      await reply.type(negotiated.contentType).send(await serializer(result, context))
+    }
+  }
+
+  /**
+   * Selects the handler for an invocation from the operation header or body field.
+   * Without registered operations every invocation goes to invocationHandler.
+   *
+   * @param request - Fastify request object
+   * @returns The operation name (undefined for invocationHandler) and its definition,
+   *          or a 404 error when the operation is not registered
+   */
+  private _resolveOperation(
+    request: FastifyRequest
+  ): { name: string | undefined; definition: AnyOperationDefinition } | AgentCoreError {
+    const defaultRoute = { name: undefined, definition: this._handler as unknown as AnyOperationDefinition }
+    if (this._operations.size === 0) {
+      return defaultRoute
+    }
+
+    const config = this._config.operations ?? {}
+    const header = request.headers[(config.header ?? DEFAULT_OPERATION_HEADER).toLowerCase()]
+    const body = request.body as Record<string, unknown> | null | undefined
+    const field = typeof body === 'object' && body !== null ? body[config.field ?? DEFAULT_OPERATION_FIELD] : undefined
+    const name = typeof header === 'string' && header ? header : typeof field === 'string' && field ? field : undefined
+    if (name === undefined) {
+      return defaultRoute
+    }
+
+    const definition = this._operations.get(name)
+    if (!definition) {
+      return new AgentCoreError(`Unknown operation '${name}'`, {
+        statusCode: 404,
+        details: { operation: name, operations: [...this._operations.keys()] },
+      })
+    }
+    return { name, definition }
+  }
+
+  /**
+   * Creates the abort signal for an invocation. It is aborted when the client disconnects,
+   * when config.invocationTimeoutMs elapses, or when shutdown closes connections forcibly.
+   *
+   * @param reply - Fastify reply object
+   * @returns The signal, a promise that rejects with InvocationTimeoutError when the timeout is
+   *          configured, a function that stops aborting on client disconnect, and a function that
+   *          releases the listener and timer once the invocation ends
+   */
+  private _createInvocationAbort(reply: FastifyReply): {
+    signal: globalThis.AbortSignal
+    timedOut: Promise<never> | undefined
+    detachFromClient: () => void
+    release: () => void
+  } {
+    const controller = new globalThis.AbortController()
+    this._abortControllers.add(controller)
+
+    // The response closes before it has finished when the client goes away
+    const onClose = (): void => {
+      if (!reply.raw.writableFinished) {
+        controller.abort(createAbortReason('Client disconnected'))
+      }
+    }
+    reply.raw?.on('close', onClose)
+
+    const timeoutMs = this._config.invocationTimeoutMs
+    let timer: ReturnType<typeof globalThis.setTimeout> | undefined
+    let timedOut: Promise<never> | undefined
+    if (timeoutMs !== undefined) {
+      timedOut = new Promise<never>((_resolve, reject) => {
+        timer = globalThis.setTimeout(() => {
+          const error = new InvocationTimeoutError(timeoutMs)
+          controller.abort(error)
+          reject(error)
+        }, timeoutMs)
       })
+      // Only observed when raced against the handler; avoid unhandled rejections otherwise
+      timedOut.catch(() => {})
+    }
+
+    return {
+      signal: controller.signal,
+      timedOut,
+      detachFromClient: (): void => {
+        reply.raw?.off('close', onClose)
+      },
+      release: (): void => {
+        globalThis.clearTimeout(timer)
+        reply.raw?.off('close', onClose)
+        this._abortControllers.delete(controller)
+      },
+    }
+  }
+
+  /**
+   * Ends a stream with InvocationTimeoutError when the invocation timeout elapses, even if
+   * the handler's generator is blocked and ignores context.signal.
+   *
+   * @param generator - Async generator producing the stream
+   * @param timedOut - Promise that rejects when the timeout elapses
+   * @returns Async generator yielding the same chunks
+   */
+  private async *_raceStreamWithTimeout(
+    generator: AsyncGenerator<SSESource>,
+    timedOut: Promise<never>
+  ): AsyncGenerator<SSESource> {
+    let expired = false
+    try {
+      while (true) {
+        const next = await Promise.race([
+          generator.next(),
+          timedOut.catch((error) => {
+            expired = true
+            throw error
+          }),
+        ])
+        if (next.done) {
+          return
+        }
+        yield next.value
+      }
+    } finally {
+      if (expired) {
+        // A generator stuck in a pending step cannot complete return(), so don't wait for it
+        generator.return(undefined).catch(() => {})
+      } else {
+        await generator.return(undefined)
+      }
+    }
+  }
+
+  /**
+   * Sends the error response for a failed invocation, using the error's HTTP status
+   * (e.g. a statusCode set by middleware) or 500.
+   *
+   * @param reply - Fastify reply object
+   * @param error - The thrown error
+   * @param requestId - Request ID of the invocation, if known
+   */
+  private async _sendError(reply: FastifyReply, error: unknown, requestId?: string): Promise<void> {
+    const agentCoreError = toAgentCoreError(error)
+    if (agentCoreError instanceof ConcurrencyLimitError) {
+      reply.header('retry-after', String(agentCoreError.retryAfterSeconds))
+    }
+    await reply.status(agentCoreError.statusCode).send(this._serializeError(agentCoreError, 'http', requestId))
+  }
+
+  /**
+   * Builds the error body sent to the client, using config.serializeError when provided.
+   *
+   * @param error - The thrown error
+   * @param transport - Transport the error is sent over
+   * @param requestId - Request ID of the invocation, if known
+   * @returns Error body; the ErrorResponseBody envelope unless customized
+   */
+  private _serializeError(error: unknown, transport: ErrorTransport, requestId: string | undefined): unknown {
+    const agentCoreError = toAgentCoreError(error)
+    if (this._config.serializeError) {
+      try {
+        return this._config.serializeError(agentCoreError, { transport, requestId })
+      } catch (serializeError) {
+        this._app.log.error(serializeError, 'Error serializer failed, using the default error body')
+      }
+    }
+    return { ...agentCoreError.toJSON(), ...(requestId !== undefined && { requestId }) }
+  }
+
+  /**
+   * Validates each chunk of a streaming response against the stream event schema.
+   *
+   * @param generator - Async generator returned by the handler
+   * @param schema - Schema applied to each yielded chunk
+   * @returns Async generator yielding the parsed chunks
+   * @throws ResponseValidationError when a chunk does not match the schema
+   */
+  private async *_validateStreamEvents(
+    generator: AsyncGenerator<SSESource>,
+    schema: z.ZodSchema
+  ): AsyncGenerator<SSESource> {
+    for await (const chunk of generator) {
+      const parsed = await schema.safeParseAsync(chunk)
+      if (!parsed.success) {
+        throw new ResponseValidationError(parsed.error, this._dev !== undefined)
+      }
+      yield parsed.data as SSESource
     }
   }
 
@@ -433,8 +1639,13 @@ export class BedrockAgentCoreApp<TSchema extends z.ZodSchema = z.ZodSchema<unkno
    *
    * @param reply - Fastify reply object
    * @param generator - Async generator that yields data chunks
+   * @param span - Span of the invocation, when telemetry is enabled
    */
-  private async _handleStreamingResponse(reply: FastifyReply, generator: AsyncGenerator<SSESource>): Promise<void> {
+  private async _handleStreamingResponse(
+    reply: FastifyReply,
+    generator: AsyncGenerator<SSESource>,
+    span?: InvocationSpan
+  ): Promise<void> {
     try {
       await reply.sse.keepAlive()
       // Stream data chunks
@@ -446,14 +1657,18 @@ export class BedrockAgentCoreApp<TSchema extends z.ZodSchema = z.ZodSchema<unkno
 
         // Send SSE message
         await reply.sse.send(chunk)
+        span?.recordChunk()
       }
     } catch (error) {
+      span?.recordError(error)
       // Send error event if still connected
       if (reply.sse && reply.sse.isConnected) {
-        const errorMessage = error instanceof Error ? error.message : 'Unknown error'
+        if (error instanceof ResponseValidationError) {
+          this._app.log.error({ issues: error.zodError.issues }, 'Stream event failed schema validation')
+        }
         await reply.sse.send({
           event: 'error',
-          data: { error: errorMessage },
+          data: this._serializeError(error, 'sse', getContext()?.requestId),
         })
       } else {
         this._app.log.error(error, 'Error during streaming SSE events')
@@ -467,6 +1682,120 @@ export class BedrockAgentCoreApp<TSchema extends z.ZodSchema = z.ZodSchema<unkno
     }
   }
 
+  /**
+   * Streams a handler's generator as newline-delimited JSON, one chunk per line. An error
+   * ends the stream with an `{ event: 'error', data }` line.
+   *
+   * @param reply - Fastify reply object
+   * @param generator - Async generator that yields data chunks
+   * @param span - Span of the invocation, when telemetry is enabled
+   */
+  private async _handleNdjsonResponse(
+    reply: FastifyReply,
+    generator: AsyncGenerator<SSESource>,
+    span?: InvocationSpan
+  ): Promise<void> {
+    const body = new PassThrough()
+    void reply.type(NDJSON_CONTENT_TYPE).send(body)
+    try {
+      for await (const chunk of generator) {
+        // Fastify destroys the body when the client disconnects
+        if (body.destroyed) {
+          break
+        }
+
+        if (!body.write(toNdjsonLine(chunk))) {
+          await new Promise<void>((resolve) => {
+            const resume = (): void => {
+              body.off('drain', resume)
+              body.off('close', resume)
+              resolve()
+            }
+            body.on('drain', resume)
+            body.on('close', resume)
+          })
+        }
+        span?.recordChunk()
+      }
+    } catch (error) {
+      span?.recordError(error)
+      if (error instanceof ResponseValidationError) {
+        this._app.log.error({ issues: error.zodError.issues }, 'Stream event failed schema validation')
+      }
+      if (body.destroyed) {
+        this._app.log.error(error, 'Error during streaming NDJSON lines')
+      } else {
+        body.write(
+          toNdjsonLine({ event: 'error', data: this._serializeError(error, 'ndjson', getContext()?.requestId) })
+        )
+      }
+    } finally {
+      body.end()
+    }
+  }
+
+  /**
+   * Streams a handler's generator through the stream buffer. The generator is consumed to the
+   * end even if the client disconnects, so that it can reconnect and resume.
+   *
+   * @param reply - Fastify reply object
+   * @param generator - Async generator producing the stream
+   * @param context - Context of the invocation
+   * @param span - Invocation span, when telemetry is enabled
+   */
+  private async _handleResumableStream(
+    reply: FastifyReply,
+    generator: AsyncGenerator<SSESource>,
+    context: RequestContext,
+    span?: InvocationSpan
+  ): Promise<void> {
+    const requestId = context.requestId ?? randomUUID()
+    const { stream, completed } = this._streamBuffer!.record(requestId, context.sessionId, generator, (error) => {
+      span?.recordError(error)
+      if (error instanceof ResponseValidationError) {
+        this._app.log.error({ issues: error.zodError.issues }, 'Stream event failed schema validation')
+      }
+      return { event: 'error', data: this._serializeError(error, 'sse', requestId) }
+    })
+    await this._sendBufferedStream(reply, stream, requestId, undefined, span)
+    // Keep the invocation in flight until the generator has finished
+    await completed
+  }
+
+  /**
+   * Sends the events of a buffered stream, following it until it finishes or the client disconnects.
+   *
+   * @param reply - Fastify reply object
+   * @param stream - Buffered stream
+   * @param requestId - Request ID, returned in a header so that clients can resume the stream
+   * @param lastEventId - Send only the events after this ID
+   * @param span - Invocation span, when telemetry is enabled
+   */
+  private async _sendBufferedStream(
+    reply: FastifyReply,
+    stream: BufferedStream,
+    requestId: string,
+    lastEventId?: string,
+    span?: InvocationSpan
+  ): Promise<void> {
+    reply.header('x-amzn-bedrock-agentcore-runtime-request-id', requestId)
+    try {
+      await reply.sse.keepAlive()
+      for await (const chunk of this._streamBuffer!.follow(stream, lastEventId)) {
+        if (!reply.sse.isConnected) {
+          break
+        }
+        await reply.sse.send(chunk)
+        span?.recordChunk()
+      }
+    } catch (error) {
+      // The client went away; the stream can be resumed
+      this._app.log.debug({ err: error }, 'Resumable stream client disconnected')
+    } finally {
+      reply.sse.close()
+    }
+  }
+
   /**
    * Handles WebSocket connections at /ws endpoint.
    *
@@ -474,19 +1803,85 @@ export class BedrockAgentCoreApp<TSchema extends z.ZodSchema = z.ZodSchema<unkno
    * @param request - Fastify request object
    */
   private async _handleWebSocket(connection: WebSocket, request: FastifyRequest): Promise<void> {
+    if (this._draining) {
+      connection.close(1001, 'Server shutting down')
+      return
+    }
+
+    const controller = new globalThis.AbortController()
+    this._abortControllers.add(controller)
+    let requestId: string | undefined
+    let span: InvocationSpan | undefined
+    let releaseSession: (() => void) | undefined
+    // Messages received during the setup below, before the handler has attached its listeners
+    let pending: [RawData, boolean][] | undefined = []
+    connection.on('message', (data: RawData, isBinary: boolean) => pending?.push([data, isBinary]))
+
     try {
+      // Track the socket until it closes so shutdown can drain it
+      this._openSockets.add(connection)
+      connection.on('close', () => {
+        releaseSession?.()
+        span?.end()
+        controller.abort(createAbortReason('WebSocket connection closed'))
+        this._abortControllers.delete(controller)
+        this._openSockets.delete(connection)
+        this._notifyIfDrained()
+      })
+
       // Extract context from WebSocket request
+      this._dev?.emulateHeaders(request)
       const context = this._extractContext(request)
+      context.signal = controller.signal
+      requestId = context.requestId
+      span = this._telemetry?.startInvocation('websocket', 'GET /ws', request.headers, context)
+      context.trace = span?.traceContext
+
+      if (this._jwtVerifier) {
+        const identity = await this._authenticate(request)
+        if (typeof identity === 'string') {
+          request.log.warn({ reason: identity }, 'WebSocket connection rejected')
+          this._sendWebSocketError(connection, new AuthError(`Unauthorized: ${identity}`), requestId)
+          // 1008: Policy Violation
+          connection.close(1008, 'Unauthorized')
+          return
+        }
+        context.identity = identity
+      }
+
+      if (context.sessionId) {
+        await this._attachSession(context)
+      }
+      const enrichedContext = await this._enrichContext(request, context)
+      if (context.sessionId) {
+        releaseSession = await this._sessionTracker.acquire(context.sessionId, context)
+        context.tools = this._tools?.forSession(context.sessionId)
+        // The connection may have closed while the session was starting
+        if (connection.readyState !== connection.OPEN) {
+          releaseSession()
+        }
+      }
 
       request.log.info({ sessionId: context.sessionId }, 'WebSocket connection established')
 
       // Call the user's WebSocket handler with context (guaranteed to exist since route is conditionally registered)
-      await runWithContext(context, async () => {
-        return await this._websocketHandler!(connection, context)
-      })
+      const handled = runInSpan(span, () =>
+        runWithContext(context, async () => {
+          return await this._websocketHandler!(connection, enrichedContext)
+        })
+      )
+      // The handler attaches its listeners synchronously; replay the queued messages to them
+      const queued = pending
+      pending = undefined
+      for (const [data, isBinary] of queued) {
+        connection.emit('message', data, isBinary)
+      }
+      await handled
     } catch (error) {
+      span?.recordError(error)
       request.log.error({ error: error instanceof Error ? error.message : String(error) }, 'WebSocket handler error')
       try {
+        this._sendWebSocketError(connection, error, requestId)
         connection.close(1011, 'Internal server error')
       } catch (closeError) {
         request.log.error(
@@ -497,6 +1892,70 @@ export class BedrockAgentCoreApp<TSchema extends z.ZodSchema = z.ZodSchema<unkno
     }
   }
 
+  /**
+   * Extends the session's expiry in the session store and exposes its state as `context.session`.
+   *
+   * @param context - Request context with a session ID
+   */
+  private async _attachSession(context: RequestContext): Promise<void> {
+    await this._sessionStore.touch(context.sessionId)
+    context.session = createSessionState(this._sessionStore, context.sessionId)
+  }
+
+  /**
+   * Adds the fields returned by config.contextFactory to the context.
+   *
+   * @param request - Fastify request object
+   * @param context - Context of the request; modified in place
+   * @returns The same context, typed with the added fields
+   */
+  private async _enrichContext(request: FastifyRequest, context: RequestContext): Promise<RequestContext & TContext> {
+    const contextFactory = this._config.contextFactory
+    if (contextFactory) {
+      Object.assign(context, await contextFactory(request, context))
+    }
+    return context as RequestContext & TContext
+  }
+
+  /**
+   * Sends the error envelope as a text message if the socket is still open,
+   * so clients can read the error before the connection closes.
+   *
+   * @param connection - WebSocket connection
+   * @param error - The thrown error
+   * @param requestId - Request ID of the connection, if known
+   */
+  private _sendWebSocketError(connection: WebSocket, error: unknown, requestId: string | undefined): void {
+    if (connection.readyState === WsWebSocket.OPEN) {
+      connection.send(JSON.stringify(this._serializeError(error, 'websocket', requestId)))
+    }
+  }
+
+  /**
+   * Verifies the bearer token on a request.
+   *
+   * @param request - Fastify request object
+   * @returns The verified claims, or a reason string when authentication fails
+   * @throws Error if the verification keys cannot be loaded
+   */
+  private async _authenticate(request: FastifyRequest): Promise<JwtClaims | string> {
+    const token = extractBearerToken(request.headers.authorization)
+    if (!token) {
+      return 'Missing bearer token'
+    }
+
+    try {
+      return await this._jwtVerifier!.verify(token)
+    } catch (error) {
+      // Failures to load keys are server errors, not authentication failures
+      if (!(error instanceof JwtVerificationError)) {
+        throw error
+      }
+      request.log.info({ reason: error.message }, 'Bearer token verification failed')
+      return error.message
+    }
+  }
+
   /**
    * Extracts request context from the incoming request.
    *
@@ -516,33 +1975,32 @@ export class BedrockAgentCoreApp<TSchema extends z.ZodSchema = z.ZodSchema<unkno
     // Extract OAuth2 callback URL
     const oauth2CallbackUrl = request.headers['oauth2callbackurl'] as string | undefined
 
-    // Filter headers to include only Authorization and Custom-* headers
+    // Filter headers to include only Authorization, Custom-* and config.headers.allow headers
+    const allow = [...DEFAULT_PASSTHROUGH_HEADERS, ...(this._config.headers?.allow ?? [])]
+    const deny = this._config.headers?.deny ?? []
     const filteredHeaders: Record<string, string> = {}
     for (const [key, value] of Object.entries(request.headers)) {
       const lowerKey = key.toLowerCase()
       const stringValue = typeof value === 'string' ? value : Array.isArray(value) ? value.join(', ') : undefined
 
-      if (stringValue) {
-        // Include Authorization header
-        if (lowerKey === 'authorization') {
-          filteredHeaders[key] = stringValue
-        }
-        // Include Custom-* headers
-        else if (lowerKey.startsWith('x-amzn-bedrock-agentcore-runtime-custom-')) {
-          filteredHeaders[key] = stringValue
-        }
+      if (stringValue && matchesHeader(lowerKey, allow) && !matchesHeader(lowerKey, deny)) {
+        filteredHeaders[key] = stringValue
       }
     }
 
     // Extract workload token from header (if present)
     const workloadAccessToken = request.headers['workloadaccesstoken'] as string | undefined
 
+    // Sent by SSE clients when they reconnect
+    const lastEventId = request.headers['last-event-id'] as string | undefined
+
     return {
       sessionId,
       headers: filteredHeaders,
       workloadAccessToken,
       requestId,
       oauth2CallbackUrl,
+      ...(lastEventId && { lastEventId }),
       log: request.log,
     }
   }
@@ -0,0 +1,349 @@
+import { Buffer } from 'buffer'
+import { constants, createHmac, createPublicKey, createSecretKey, timingSafeEqual, verify } from 'crypto'
+import type { KeyObject } from 'crypto'
+import { readFile } from 'fs/promises'
+import type { JsonWebKeySet, JwtAlgorithm, JwtAuthConfig, JwtClaims, JwtVerificationKey } from './types.js'
+import { AuthError } from './errors.js'
+
+const DEFAULT_ALGORITHMS: JwtAlgorithm[] = [
+  'RS256',
+  'RS384',
+  'RS512',
+  'PS256',
+  'PS384',
+  'PS512',
+  'ES256',
+  'ES384',
+  'ES512',
+  'EdDSA',
+]
+const DEFAULT_JWKS_CACHE_TTL_MS = 600000
+const DEFAULT_JWKS_TIMEOUT_MS = 5000
+// Minimum time between JWKS refetches triggered by unknown key IDs
+const JWKS_REFETCH_COOLDOWN_MS = 30000
+
+/**
+ * Key type, digest and (for ECDSA) curve required by each supported algorithm.
+ */
+const ALGORITHM_PARAMS: Record<JwtAlgorithm, { kty: string; digest: string | null; crv?: string }> = {
+  RS256: { kty: 'RSA', digest: 'sha256' },
+  RS384: { kty: 'RSA', digest: 'sha384' },
+  RS512: { kty: 'RSA', digest: 'sha512' },
+  PS256: { kty: 'RSA', digest: 'sha256' },
+  PS384: { kty: 'RSA', digest: 'sha384' },
+  PS512: { kty: 'RSA', digest: 'sha512' },
+  ES256: { kty: 'EC', digest: 'sha256', crv: 'P-256' },
+  ES384: { kty: 'EC', digest: 'sha384', crv: 'P-384' },
+  ES512: { kty: 'EC', digest: 'sha512', crv: 'P-521' },
+  EdDSA: { kty: 'OKP', digest: null },
+  HS256: { kty: 'oct', digest: 'sha256' },
+  HS384: { kty: 'oct', digest: 'sha384' },
+  HS512: { kty: 'oct', digest: 'sha512' },
+}
+
+/**
+ * Error thrown when a bearer token fails verification.
+ */
+export class JwtVerificationError extends AuthError {
+  constructor(message: string) {
+    super(message)
+    this.name = 'JwtVerificationError'
+  }
+}
+
+/**
+ * Verifies bearer JWTs against a JSON Web Key Set.
+ *
+ * Checks the signature, expiry (required unless allowMissingExpiration is set), not-before,
+ * issuer and audience. Keys may come from a JWKS URL (cached, refetched on unknown key IDs,
+ * fetched with a timeout), a local JWKS file, or a static JWKS.
+ *
+ * @example
+ * ```typescript
+ * const verifier = new JwtVerifier({ jwksUrl: 'https://example.com/.well-known/jwks.json', audience: 'my-app' })
+ * const claims = await verifier.verify(token)
+ * ```
+ */
+export class JwtVerifier {
+  private readonly _config: JwtAuthConfig
+  private readonly _algorithms: ReadonlySet<string>
+  private _keys: JwtVerificationKey[] | undefined
+  private _keysFetchedAt: number = 0
+  private _keysPromise: Promise<JwtVerificationKey[]> | undefined
+
+  /**
+   * Creates a new JwtVerifier instance.
+   *
+   * @param config - JWT authentication configuration
+   * @throws Error if not exactly one key source is configured
+   */
+  constructor(config: JwtAuthConfig) {
+    const sources = [config.jwksUrl, config.jwksFile, config.jwks].filter((source) => source !== undefined)
+    if (sources.length !== 1) {
+      throw new Error('JWT auth config requires exactly one of jwksUrl, jwksFile or jwks')
+    }
+    this._config = config
+    this._algorithms = new Set(config.algorithms ?? DEFAULT_ALGORITHMS)
+    if (config.jwks) {
+      this._keys = config.jwks.keys
+    }
+  }
+
+  /**
+   * Verifies a JWT and returns its claims.
+   *
+   * @param token - Compact-serialized JWT
+   * @returns The verified claims
+   * @throws JwtVerificationError if the token is malformed, has an invalid signature, or fails claim checks
+   */
+  async verify(token: string): Promise<JwtClaims> {
+    const parts = token.split('.')
+    if (parts.length !== 3) {
+      throw new JwtVerificationError('Malformed token')
+    }
+    const [encodedHeader, encodedPayload, encodedSignature] = parts as [string, string, string]
+
+    const header = decodeSegment(encodedHeader)
+    const claims = decodeSegment(encodedPayload) as JwtClaims
+    const alg = header.alg
+    if (typeof alg !== 'string' || !this._algorithms.has(alg) || !(alg in ALGORITHM_PARAMS)) {
+      throw new JwtVerificationError(`Unsupported token algorithm: ${String(alg)}`)
+    }
+
+    const kid = typeof header.kid === 'string' ? header.kid : undefined
+    const key = await this._findKey(alg as JwtAlgorithm, kid)
+    const signingInput = Buffer.from(`${encodedHeader}.${encodedPayload}`)
+    const signature = Buffer.from(encodedSignature, 'base64url')
+    if (!verifySignature(alg as JwtAlgorithm, key, signingInput, signature)) {
+      throw new JwtVerificationError('Invalid token signature')
+    }
+
+    this._validateClaims(claims)
+    return claims
+  }
+
+  /**
+   * Checks time-based, issuer and audience claims.
+   *
+   * @param claims - Decoded token claims
+   */
+  private _validateClaims(claims: JwtClaims): void {
+    const now = Math.floor(Date.now() / 1000)
+    const tolerance = this._config.clockToleranceSeconds ?? 0
+
+    if (claims.exp === undefined) {
+      if (!this._config.allowMissingExpiration) {
+        throw new JwtVerificationError('Token has no expiration')
+      }
+    } else if (typeof claims.exp !== 'number' || now - tolerance >= claims.exp) {
+      throw new JwtVerificationError('Token has expired')
+    }
+    if (claims.nbf !== undefined && (typeof claims.nbf !== 'number' || now + tolerance < claims.nbf)) {
+      throw new JwtVerificationError('Token is not yet valid')
+    }
+
+    if (this._config.issuer !== undefined) {
+      const issuers = toArray(this._config.issuer)
+      if (typeof claims.iss !== 'string' || !issuers.includes(claims.iss)) {
+        throw new JwtVerificationError('Token issuer is not accepted')
+      }
+    }
+
+    if (this._config.audience !== undefined) {
+      const audiences = toArray(this._config.audience)
+      const tokenAudiences = claims.aud === undefined ? [] : toArray(claims.aud)
+      if (!tokenAudiences.some((aud) => audiences.includes(aud))) {
+        throw new JwtVerificationError('Token audience is not accepted')
+      }
+    }
+  }
+
+  /**
+   * Finds the verification key for a token, refetching the JWKS once if the key ID is unknown.
+   *
+   * @param alg - Token algorithm
+   * @param kid - Token key ID, if any
+   * @returns Key object to verify the signature with
+   */
+  private async _findKey(alg: JwtAlgorithm, kid: string | undefined): Promise<KeyObject> {
+    let jwk = selectKey(await this._getKeys(), alg, kid)
+
+    // Keys may have been rotated since the JWKS was fetched
+    if (!jwk && this._config.jwksUrl && Date.now() - this._keysFetchedAt >= JWKS_REFETCH_COOLDOWN_MS) {
+      jwk = selectKey(await this._getKeys(true), alg, kid)
+    }
+
+    if (!jwk) {
+      throw new JwtVerificationError(kid ? `No matching key found for kid: ${kid}` : 'No matching key found')
+    }
+
+    try {
+      if (jwk.kty === 'oct') {
+        return createSecretKey(Buffer.from(jwk.k ?? '', 'base64url'))
+      }
+      return createPublicKey({ key: jwk, format: 'jwk' })
+    } catch {
+      throw new JwtVerificationError('Invalid verification key')
+    }
+  }
+
+  /**
+   * Loads the configured keys, caching keys fetched from a URL.
+   *
+   * @param forceRefresh - Refetch from jwksUrl even if the cache is fresh
+   * @returns The available keys
+   */
+  private async _getKeys(forceRefresh = false): Promise<JwtVerificationKey[]> {
+    const ttl = this._config.jwksCacheTtlMs ?? DEFAULT_JWKS_CACHE_TTL_MS
+    const isFresh = this._keys && (!this._config.jwksUrl || Date.now() - this._keysFetchedAt < ttl)
+    if (isFresh && !forceRefresh) {
+      return this._keys!
+    }
+
+    if (!this._keysPromise) {
+      this._keysPromise = this._loadKeys()
+        .then((keys) => {
+          this._keys = keys
+          this._keysFetchedAt = Date.now()
+          return keys
+        })
+        .finally(() => {
+          this._keysPromise = undefined
+        })
+    }
+    return this._keysPromise
+  }
+
+  /**
+   * Reads the JWKS from the configured file or URL.
+   *
+   * @returns Keys from the JWKS document
+   */
+  private async _loadKeys(): Promise<JwtVerificationKey[]> {
+    let jwks: JsonWebKeySet
+    try {
+      if (this._config.jwksFile) {
+        jwks = JSON.parse(await readFile(this._config.jwksFile, 'utf-8'))
+      } else {
+        // A hung issuer endpoint would otherwise stall every authenticated request
+        const timeoutMs = this._config.jwksTimeoutMs ?? DEFAULT_JWKS_TIMEOUT_MS
+        const response = await globalThis
+          .fetch(this._config.jwksUrl!, { signal: globalThis.AbortSignal.timeout(timeoutMs) })
+          .catch((error: unknown) => {
+            throw (error as { name?: unknown } | null)?.name === 'TimeoutError'
+              ? new Error(`timed out after ${timeoutMs}ms`)
+              : error
+          })
+        if (!response.ok) {
+          throw new Error(`HTTP ${response.status}`)
+        }
+        jwks = (await response.json()) as JsonWebKeySet
+      }
+    } catch (error) {
+      throw new Error(`Failed to load JWKS: ${error instanceof Error ? error.message : String(error)}`)
+    }
+
+    if (!jwks || !Array.isArray(jwks.keys)) {
+      throw new Error('Failed to load JWKS: document has no keys array')
+    }
+    return jwks.keys
+  }
+}
+
+/**
+ * Extracts the token from an `Authorization: Bearer <token>` header value.
+ *
+ * @param authorization - Authorization header value
+ * @returns The token, or undefined if the header is missing or not a bearer token
+ */
+export function extractBearerToken(authorization: string | undefined): string | undefined {
+  const match = authorization?.match(/^Bearer\s+(\S+)\s*$/i)
+  return match?.[1]
+}
+
+/**
+ * Decodes a base64url-encoded JSON segment of a JWT.
+ *
+ * @param segment - Encoded header or payload
+ * @returns The decoded JSON object
+ */
+function decodeSegment(segment: string): Record<string, unknown> {
+  try {
+    const value = JSON.parse(Buffer.from(segment, 'base64url').toString('utf-8'))
+    if (value === null || typeof value !== 'object' || Array.isArray(value)) {
+      throw new Error('not an object')
+    }
+    return value
+  } catch {
+    throw new JwtVerificationError('Malformed token')
+  }
+}
+
+/**
+ * Selects the key matching a token's algorithm and key ID.
+ *
+ * @param keys - Candidate keys
+ * @param alg - Token algorithm
+ * @param kid - Token key ID, if any
+ * @returns The matching key, or undefined
+ */
+function selectKey(
+  keys: JwtVerificationKey[],
+  alg: JwtAlgorithm,
+  kid: string | undefined
+): JwtVerificationKey | undefined {
+  const { kty, crv } = ALGORITHM_PARAMS[alg]
+  return keys.find(
+    (key) =>
+      key.kty === kty &&
+      (crv === undefined || key.crv === crv) &&
+      (key.use === undefined || key.use === 'sig') &&
+      (key.alg === undefined || key.alg === alg) &&
+      (kid === undefined || key.kid === kid)
+  )
+}
+
+/**
+ * Verifies a JWS signature.
+ *
+ * @param alg - Signing algorithm
+ * @param key - Verification key
+ * @param data - Signing input (`header.payload`)
+ * @param signature - Decoded signature
+ * @returns True if the signature is valid
+ */
+function verifySignature(alg: JwtAlgorithm, key: KeyObject, data: Buffer, signature: Buffer): boolean {
+  const { digest } = ALGORITHM_PARAMS[alg]
+  try {
+    switch (alg.slice(0, 2)) {
+      case 'HS': {
+        const expected = createHmac(digest!, key).update(data).digest()
+        return expected.length === signature.length && timingSafeEqual(expected, signature)
+      }
+      case 'PS':
+        return verify(
+          digest,
+          data,
+          { key, padding: constants.RSA_PKCS1_PSS_PADDING, saltLength: constants.RSA_PSS_SALTLEN_DIGEST },
+          signature
+        )
+      case 'ES':
+        // JWS encodes ECDSA signatures as raw r || s
+        return verify(digest, data, { key, dsaEncoding: 'ieee-p1363' }, signature)
+      default:
+        return verify(digest, data, key, signature)
+    }
+  } catch {
+    return false
+  }
+}
+
+/**
+ * Normalizes a value that may be a single item or an array.
+ *
+ * @param value - Single value or array
+ * @returns Array of values
+ */
+function toArray<T>(value: T | T[]): T[] {
+  return Array.isArray(value) ? value : [value]
+}
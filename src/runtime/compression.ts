@@ -0,0 +1,138 @@
+import { Buffer } from 'buffer'
+import type { Readable, Transform } from 'stream'
+import { promisify } from 'util'
+import { brotliCompress, constants, createBrotliDecompress, createGunzip, createInflate, deflate, gzip } from 'zlib'
+import type { FastifyReply, FastifyRequest } from 'fastify'
+import type { CompressionConfig } from './types.js'
+import { AgentCoreError } from './errors.js'
+
+type Encoding = NonNullable<CompressionConfig['encodings']>[number]
+
+const DEFAULT_ENCODINGS: Encoding[] = ['br', 'gzip', 'deflate']
+const DEFAULT_THRESHOLD = 1024
+// Streams are written as they are produced and never compressed
+const STREAMING_CONTENT_TYPES = ['text/event-stream', 'application/x-ndjson']
+
+const brotliCompressAsync = promisify(brotliCompress)
+const gzipAsync = promisify(gzip)
+const deflateAsync = promisify(deflate)
+
+const COMPRESSORS: Record<Encoding, (body: Buffer) => Promise<Buffer>> = {
+  // The default quality of 11 is too slow for responses compressed on the fly
+  br: (body) => brotliCompressAsync(body, { params: { [constants.BROTLI_PARAM_QUALITY]: 4 } }),
+  gzip: (body) => gzipAsync(body),
+  deflate: (body) => deflateAsync(body),
+}
+
+/**
+ * Selects the response encoding the client prefers among those supported, using the
+ * quality values of the `Accept-Encoding` header. Ties go to the earlier supported encoding.
+ *
+ * @param acceptEncoding - `Accept-Encoding` header of the request
+ * @param supported - Encodings the response can be compressed with, in order of preference
+ * @returns The selected encoding, or undefined to send the response uncompressed
+ */
+export function negotiateEncoding(acceptEncoding: string | undefined, supported: Encoding[]): Encoding | undefined {
+  if (!acceptEncoding) {
+    return undefined
+  }
+
+  const qualities = new Map<string, number>()
+  for (const entry of acceptEncoding.split(',')) {
+    const [name = '', ...params] = entry.split(';').map((part) => part.trim().toLowerCase())
+    const q = params.find((param) => param.startsWith('q='))
+    const parsed = q ? Number(q.slice(2)) : 1
+    if (name) {
+      qualities.set(name, Number.isFinite(parsed) ? parsed : 1)
+    }
+  }
+
+  let best: { encoding: Encoding; q: number } | undefined
+  for (const encoding of supported) {
+    const q = qualities.get(encoding) ?? qualities.get('*') ?? 0
+    if (q > 0 && (!best || q > best.q)) {
+      best = { encoding, q }
+    }
+  }
+  return best?.encoding
+}
+
+/**
+ * Decompresses a request body according to its `Content-Encoding` header. Used as a
+ * preParsing hook, so that body limits apply to the decompressed size.
+ *
+ * @param request - Fastify request object
+ * @param payload - Raw request body
+ * @returns The decompressed body
+ * @throws AgentCoreError with status 415 for unsupported encodings
+ */
+export function decompressRequest(request: FastifyRequest, payload: Readable): Readable {
+  const encoding = String(request.headers['content-encoding'] ?? 'identity')
+    .trim()
+    .toLowerCase()
+  if (encoding === 'identity') {
+    return payload
+  }
+
+  const decompressor =
+    encoding === 'gzip' || encoding === 'x-gzip'
+      ? createGunzip()
+      : encoding === 'deflate'
+        ? createInflate()
+        : encoding === 'br'
+          ? createBrotliDecompress()
+          : undefined
+  if (!decompressor) {
+    throw new AgentCoreError(`Unsupported Content-Encoding: ${encoding}`, {
+      code: 'UNSUPPORTED_MEDIA_TYPE',
+      statusCode: 415,
+    })
+  }
+
+  // Fastify checks the Content-Length header against the bytes received before decompression
+  const stream: Transform & { receivedEncodedLength?: number } = decompressor
+  stream.receivedEncodedLength = 0
+  payload.on('data', (chunk: Buffer) => {
+    stream.receivedEncodedLength! += chunk.length
+  })
+  payload.on('error', (error) => stream.destroy(error))
+  return payload.pipe(stream)
+}
+
+/**
+ * Creates an onSend hook compressing non-streaming response bodies with the encoding
+ * negotiated from the `Accept-Encoding` header.
+ *
+ * @param config - Compression settings
+ * @returns The hook
+ */
+export function createCompressionHook(
+  config: CompressionConfig
+): (request: FastifyRequest, reply: FastifyReply, payload: unknown) => Promise<unknown> {
+  const encodings = config.encodings ?? DEFAULT_ENCODINGS
+  const threshold = config.threshold ?? DEFAULT_THRESHOLD
+
+  return async (request, reply, payload) => {
+    if ((typeof payload !== 'string' && !Buffer.isBuffer(payload)) || reply.hasHeader('content-encoding')) {
+      return payload
+    }
+    const contentType = String(reply.getHeader('content-type') ?? '')
+    if (STREAMING_CONTENT_TYPES.some((type) => contentType.startsWith(type))) {
+      return payload
+    }
+    const body = typeof payload === 'string' ? Buffer.from(payload) : payload
+    if (body.length < threshold) {
+      return payload
+    }
+
+    const vary = reply.getHeader('vary')
+    reply.header('vary', vary ? `${String(vary)}, Accept-Encoding` : 'Accept-Encoding')
+    const encoding = negotiateEncoding(request.headers['accept-encoding'], encodings)
+    if (!encoding) {
+      return payload
+    }
+    reply.header('content-encoding', encoding)
+    reply.removeHeader('content-length')
+    return COMPRESSORS[encoding](body)
+  }
+}
@@ -15,12 +15,15 @@ const requestContextStorage = new AsyncLocalStorage<RequestContext>()
 /**
  * Get the current request context.
  *
+ * Pass `InvocationContext<typeof app>` as the type argument to type the fields added by
+ * `config.contextFactory`.
+ *
  * @returns The RequestContext if called within a request scope (inside runWithContext),
  *          undefined otherwise (e.g., during app initialization or outside request handlers)
  *
  * @example
  * ```typescript
- * import { getContext } from 'bedrock-agentcore/context'
+ * import { getContext } from 'bedrock-agentcore/runtime'
  *
  * const handler = async (request, context) => {
  *   const ctx = getContext()
@@ -29,8 +32,8 @@ const requestContextStorage = new AsyncLocalStorage<RequestContext>()
  * }
  * ```
  */
-export function getContext(): RequestContext | undefined {
-  return requestContextStorage.getStore()
+export function getContext<TContext extends RequestContext = RequestContext>(): TContext | undefined {
+  return requestContextStorage.getStore() as TContext | undefined
 }
 
 /**
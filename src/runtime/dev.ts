@@ -0,0 +1,274 @@
+import { watch, type FSWatcher } from 'fs'
+import { basename, dirname } from 'path'
+import { fileURLToPath, pathToFileURL } from 'url'
+import { randomUUID } from 'crypto'
+import type { FastifyRequest } from 'fastify'
+import type { DevConfig } from './types.js'
+
+const SESSION_ID_HEADER = 'x-amzn-bedrock-agentcore-runtime-session-id'
+const DEFAULT_WORKLOAD_ACCESS_TOKEN = 'dev-workload-access-token'
+const DEFAULT_OAUTH2_CALLBACK_URL = 'http://localhost:8080/oauth2/callback'
+const DEFAULT_CHAT_PAGE_PATH = '/dev'
+// Editors often write a file in several steps; wait for them to finish before re-importing
+const RELOAD_DEBOUNCE_MS = 100
+
+const LEVEL_LABELS: Record<number, string> = {
+  10: 'TRACE',
+  20: 'DEBUG',
+  30: 'INFO',
+  40: 'WARN',
+  50: 'ERROR',
+  60: 'FATAL',
+}
+
+// Fields printed in the line prefix, or not useful locally
+const OMITTED_LOG_FIELDS = new Set(['level', 'time', 'pid', 'hostname', 'msg', 'reqId'])
+
+/**
+ * Local development mode: emulates the headers added by AgentCore Runtime, serves the chat
+ * page and reloads the handler module.
+ */
+export class DevMode {
+  readonly sessionId: string
+  readonly chatPagePath: string | undefined
+  private readonly _config: DevConfig
+  private _watcher: FSWatcher | undefined
+  private _reloadTimer: ReturnType<typeof globalThis.setTimeout> | undefined
+  private _version: number = 0
+
+  /**
+   * Creates a new DevMode instance.
+   *
+   * @param config - Development mode settings
+   */
+  constructor(config: DevConfig) {
+    this._config = config
+    this.sessionId = config.sessionId ?? `dev-${randomUUID()}`
+    this.chatPagePath = config.chatPage === false ? undefined : (config.chatPage ?? DEFAULT_CHAT_PAGE_PATH)
+  }
+
+  /**
+   * Whether logs should be printed as readable lines.
+   */
+  get prettyLogs(): boolean {
+    return this._config.prettyLogs !== false
+  }
+
+  /**
+   * Adds the runtime headers missing from a request. The session header is only added when
+   * the body does not carry a sessionId either.
+   *
+   * @param request - Fastify request object, after body parsing
+   * @returns True if the development session ID was assigned to the request
+   */
+  emulateHeaders(request: FastifyRequest): boolean {
+    const headers = request.headers
+    headers['workloadaccesstoken'] ??= this._config.workloadAccessToken ?? DEFAULT_WORKLOAD_ACCESS_TOKEN
+    headers['oauth2callbackurl'] ??= this._config.oauth2CallbackUrl ?? DEFAULT_OAUTH2_CALLBACK_URL
+
+    const body = request.body as Record<string, unknown> | null | undefined
+    if (headers[SESSION_ID_HEADER] || body?.sessionId) {
+      return false
+    }
+    headers[SESSION_ID_HEADER] = this.sessionId
+    return true
+  }
+
+  /**
+   * Renders the chat page, which posts JSON payloads to /invocations and prints the
+   * response, event by event for streams.
+   *
+   * @returns HTML document
+   */
+  renderChatPage(): string {
+    return CHAT_PAGE_HTML.replace('{{sessionId}}', escapeHtml(this.sessionId))
+  }
+
+  /**
+   * Watches the handler module configured in reload and re-imports it on change.
+   * Only the module itself is re-evaluated; modules it imports stay cached.
+   *
+   * @param onLoad - Receives the reloaded export
+   * @param onError - Receives import errors and invalid exports
+   */
+  startReload(onLoad: (exported: unknown) => void, onError: (error: unknown) => void): void {
+    const reload = this._config.reload
+    if (!reload || this._watcher) {
+      return
+    }
+
+    const url = reload.module instanceof URL ? reload.module : pathToFileURL(reload.module)
+    const path = fileURLToPath(url)
+    const exportName = reload.export ?? 'default'
+
+    const load = async (): Promise<void> => {
+      try {
+        // The query string bypasses the module cache
+        const module = (await import(/* @vite-ignore */ `${url.href}?v=${++this._version}`)) as Record<string, unknown>
+        const exported = module[exportName]
+        if (typeof exported !== 'function' && typeof (exported as { process?: unknown })?.process !== 'function') {
+          throw new Error(`Export '${exportName}' of ${path} is not a handler function or an object with process()`)
+        }
+        onLoad(exported)
+      } catch (error) {
+        onError(error)
+      }
+    }
+
+    // Watch the directory so that editors replacing the file do not end the watch
+    this._watcher = watch(dirname(path), (_event, filename) => {
+      if (filename !== basename(path)) {
+        return
+      }
+      globalThis.clearTimeout(this._reloadTimer)
+      this._reloadTimer = globalThis.setTimeout(() => void load(), RELOAD_DEBOUNCE_MS)
+    })
+    this._watcher.unref()
+  }
+
+  /**
+   * Stops watching the handler module.
+   */
+  stopReload(): void {
+    globalThis.clearTimeout(this._reloadTimer)
+    this._watcher?.close()
+    this._watcher = undefined
+  }
+}
+
+/**
+ * Creates a logger destination that prints pino JSON lines as readable text, e.g.
+ * `12:00:00.000 INFO  [req-1] Invocation finished {"durationMs":12}`.
+ *
+ * @param output - Where formatted lines are written; defaults to stdout
+ * @returns Stream to pass as the logger's `stream` option
+ */
+export function createPrettyLogStream(output: { write(line: string): unknown } = process.stdout): {
+  write(line: string): void
+} {
+  return {
+    write(line: string): void {
+      let entry: Record<string, unknown>
+      try {
+        entry = JSON.parse(line) as Record<string, unknown>
+      } catch {
+        output.write(line)
+        return
+      }
+
+      const time = new Date(typeof entry.time === 'number' ? entry.time : Date.now()).toISOString().slice(11, 23)
+      const level = (LEVEL_LABELS[entry.level as number] ?? String(entry.level)).padEnd(5)
+      const reqId = entry.reqId ? ` [${String(entry.reqId)}]` : ''
+      const fields = Object.fromEntries(Object.entries(entry).filter(([key]) => !OMITTED_LOG_FIELDS.has(key)))
+      const stack = (fields.err as { stack?: unknown } | undefined)?.stack
+      if (typeof stack === 'string') {
+        delete fields.err
+      }
+
+      let formatted = `${time} ${level}${reqId} ${String(entry.msg ?? '')}`
+      if (Object.keys(fields).length > 0) {
+        formatted += ` ${JSON.stringify(fields)}`
+      }
+      if (typeof stack === 'string') {
+        formatted += `\n${stack}`
+      }
+      output.write(`${formatted}\n`)
+    },
+  }
+}
+
+/**
+ * @param value - Text to embed in HTML
+ * @returns The text with HTML special characters escaped
+ */
+function escapeHtml(value: string): string {
+  return value.replace(/[&<>"']/g, (char) => `&#${char.charCodeAt(0)};`)
+}
+
+const CHAT_PAGE_HTML = `<!doctype html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>AgentCore dev</title>
+<style>
+  body { font-family: system-ui, sans-serif; max-width: 48rem; margin: 2rem auto; padding: 0 1rem; }
+  label { display: block; margin-bottom: 0.5rem; }
+  input, textarea { width: 100%; box-sizing: border-box; font-family: monospace; }
+  textarea { height: 8rem; }
+  pre { background: #f4f4f4; padding: 1rem; white-space: pre-wrap; min-height: 4rem; }
+</style>
+</head>
+<body>
+<h1>AgentCore dev</h1>
+<label>Session ID <input id="session" value="{{sessionId}}"></label>
+<label>Payload <textarea id="payload">{ "prompt": "Hello" }</textarea></label>
+<button id="send">Send</button>
+<p id="status"></p>
+<pre id="output"></pre>
+<script>
+  const output = document.getElementById('output')
+  const status = document.getElementById('status')
+
+  function print(text) {
+    output.textContent += text + '\\n'
+  }
+
+  function printEvent(block) {
+    let event = 'message'
+    const data = []
+    for (const line of block.split('\\n')) {
+      if (line.startsWith('event:')) event = line.slice(6).trim()
+      else if (line.startsWith('data:')) data.push(line.slice(5).trimStart())
+    }
+    if (data.length > 0) print(event === 'message' ? data.join('\\n') : '[' + event + '] ' + data.join('\\n'))
+  }
+
+  document.getElementById('send').addEventListener('click', async () => {
+    output.textContent = ''
+    let payload
+    try {
+      payload = JSON.parse(document.getElementById('payload').value)
+    } catch (error) {
+      status.textContent = 'Invalid JSON: ' + error.message
+      return
+    }
+
+    status.textContent = 'Sending...'
+    const response = await fetch('/invocations', {
+      method: 'POST',
+      headers: {
+        'content-type': 'application/json',
+        // Streaming handlers answer 406 unless the client accepts SSE
+        accept: 'text/event-stream, application/json',
+        'x-amzn-bedrock-agentcore-runtime-session-id': document.getElementById('session').value,
+      },
+      body: JSON.stringify(payload),
+    })
+    status.textContent = response.status + ' ' + response.statusText
+
+    if (!(response.headers.get('content-type') || '').includes('text/event-stream')) {
+      const text = await response.text()
+      try {
+        print(JSON.stringify(JSON.parse(text), null, 2))
+      } catch {
+        print(text)
+      }
+      return
+    }
+
+    const reader = response.body.pipeThrough(new TextDecoderStream()).getReader()
+    let buffer = ''
+    for (;;) {
+      const { done, value } = await reader.read()
+      if (done) break
+      buffer += value.replace(/\\r\\n/g, '\\n')
+      const blocks = buffer.split('\\n\\n')
+      buffer = blocks.pop()
+      blocks.forEach(printEvent)
+    }
+    if (buffer.trim()) printEvent(buffer)
+  })
+</script>
+</body>
+</html>
+`
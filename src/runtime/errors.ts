@@ -0,0 +1,177 @@
+import type { AgentCoreErrorCode, AgentCoreErrorOptions, ErrorResponseBody } from './types.js'
+
+/**
+ * Error codes used for errors that only carry an HTTP status, e.g. `{ statusCode: 404 }` thrown by middleware.
+ */
+const STATUS_CODE_ERROR_CODES: Record<number, AgentCoreErrorCode> = {
+  400: 'VALIDATION_ERROR',
+  401: 'UNAUTHORIZED',
+  403: 'FORBIDDEN',
+  404: 'NOT_FOUND',
+  406: 'NOT_ACCEPTABLE',
+  413: 'PAYLOAD_TOO_LARGE',
+  415: 'UNSUPPORTED_MEDIA_TYPE',
+  429: 'CONCURRENCY_LIMIT',
+  502: 'UPSTREAM_ERROR',
+  503: 'SERVICE_UNAVAILABLE',
+  504: 'TIMEOUT',
+}
+
+/**
+ * Statuses that indicate the same request may succeed if retried later.
+ */
+const RETRYABLE_STATUS_CODES = new Set([408, 429, 502, 503, 504])
+
+/**
+ * Base class for errors returned by the runtime server.
+ *
+ * Carries a stable machine-readable `code`, the HTTP status used for JSON responses,
+ * whether the client may retry, and optional details. Throw it (or a subclass) from
+ * a handler or middleware to control the error response.
+ *
+ * @example
+ * ```typescript
+ * throw new AgentCoreError('Quota exceeded', { code: 'QUOTA_EXCEEDED', statusCode: 429, retryable: true })
+ * ```
+ */
+export class AgentCoreError extends Error {
+  readonly code: AgentCoreErrorCode
+  readonly statusCode: number
+  readonly retryable: boolean
+  readonly details: unknown
+
+  /**
+   * @param message - Human-readable description, returned to the client
+   * @param options - Code, status, retryability, details and cause
+   */
+  constructor(message: string, options: AgentCoreErrorOptions = {}) {
+    super(message, options.cause !== undefined ? { cause: options.cause } : undefined)
+    this.name = 'AgentCoreError'
+    this.statusCode = options.statusCode ?? 500
+    this.code = options.code ?? STATUS_CODE_ERROR_CODES[this.statusCode] ?? 'HANDLER_ERROR'
+    this.retryable = options.retryable ?? RETRYABLE_STATUS_CODES.has(this.statusCode)
+    this.details = options.details
+  }
+
+  /**
+   * Builds the default error envelope for this error. The server adds `requestId` when known.
+   *
+   * @returns Error response body
+   */
+  toJSON(): ErrorResponseBody {
+    return {
+      error: this.message,
+      code: this.code,
+      retryable: this.retryable,
+      ...(this.details !== undefined && { details: this.details }),
+    }
+  }
+}
+
+/**
+ * The request is malformed or does not match the request schema. Status 400.
+ */
+export class ValidationError extends AgentCoreError {
+  constructor(message: string, options: Omit<AgentCoreErrorOptions, 'code' | 'statusCode'> = {}) {
+    super(message, { ...options, code: 'VALIDATION_ERROR', statusCode: 400 })
+    this.name = 'ValidationError'
+  }
+}
+
+/**
+ * The caller is not authenticated. Status 401.
+ */
+export class AuthError extends AgentCoreError {
+  constructor(message: string, options: Omit<AgentCoreErrorOptions, 'code' | 'statusCode'> = {}) {
+    super(message, { ...options, code: 'UNAUTHORIZED', statusCode: 401 })
+    this.name = 'AuthError'
+  }
+}
+
+/**
+ * The invocation exceeded config.invocationTimeoutMs. Status 504, retryable.
+ * Used as the abort reason of `context.signal` on timeout.
+ */
+export class InvocationTimeoutError extends AgentCoreError {
+  /**
+   * @param timeoutMs - The timeout that elapsed
+   */
+  constructor(readonly timeoutMs: number) {
+    super(`Invocation timed out after ${timeoutMs}ms`, {
+      code: 'TIMEOUT',
+      statusCode: 504,
+      retryable: true,
+      details: { timeoutMs },
+    })
+    // Matches the name used by AbortSignal.timeout() so `reason.name === 'TimeoutError'` checks work
+    this.name = 'TimeoutError'
+  }
+}
+
+/**
+ * A service the handler depends on failed. Status 502, retryable unless stated otherwise.
+ *
+ * @example
+ * ```typescript
+ * const response = await fetch(url)
+ * if (!response.ok) {
+ *   throw new UpstreamError(`Search API returned ${response.status}`, { retryable: response.status >= 500 })
+ * }
+ * ```
+ */
+export class UpstreamError extends AgentCoreError {
+  constructor(message: string, options: Omit<AgentCoreErrorOptions, 'code' | 'statusCode'> = {}) {
+    super(message, { retryable: true, ...options, code: 'UPSTREAM_ERROR', statusCode: 502 })
+    this.name = 'UpstreamError'
+  }
+}
+
+/**
+ * The handler failed. Status 500. Other errors thrown by a handler are wrapped in this class.
+ */
+export class HandlerError extends AgentCoreError {
+  constructor(message: string, options: Omit<AgentCoreErrorOptions, 'statusCode'> = {}) {
+    super(message, { code: 'HANDLER_ERROR', ...options, statusCode: 500 })
+    this.name = 'HandlerError'
+  }
+}
+
+/**
+ * An invocation could not start because the concurrency limits are reached and the
+ * queue is full, or it waited in the queue for too long. Status 429, retryable.
+ */
+export class ConcurrencyLimitError extends AgentCoreError {
+  /**
+   * @param message - Description of the limit that was hit
+   * @param retryAfterSeconds - Suggested delay before retrying, sent as the Retry-After header
+   */
+  constructor(
+    message: string,
+    readonly retryAfterSeconds: number
+  ) {
+    super(message, { code: 'CONCURRENCY_LIMIT', statusCode: 429, retryable: true })
+    this.name = 'ConcurrencyLimitError'
+  }
+}
+
+/**
+ * Converts any thrown value to an AgentCoreError.
+ *
+ * Errors carrying a numeric 4xx/5xx `statusCode` keep their status and message; everything
+ * else becomes a HandlerError with the original error as its cause.
+ *
+ * @param error - The thrown value
+ * @returns The error itself if it is already an AgentCoreError, otherwise a wrapping AgentCoreError
+ */
+export function toAgentCoreError(error: unknown): AgentCoreError {
+  if (error instanceof AgentCoreError) {
+    return error
+  }
+
+  const message = error instanceof Error ? error.message : 'Unknown error'
+  const statusCode = (error as { statusCode?: unknown } | null)?.statusCode
+  if (typeof statusCode === 'number' && Number.isInteger(statusCode) && statusCode >= 400 && statusCode < 600) {
+    return new AgentCoreError(message, { statusCode, cause: error })
+  }
+  return new HandlerError(message, { cause: error })
+}
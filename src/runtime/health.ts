@@ -0,0 +1,275 @@
+import type {
+  HealthCheck,
+  HealthCheckDefinition,
+  HealthCheckReport,
+  HealthCheckResult,
+  HealthConfig,
+  HealthStatus,
+} from './types.js'
+
+const DEFAULT_HEALTH_TIMEOUT_MS = 2000
+const DEFAULT_HEALTH_INTERVAL_MS = 10000
+
+type PingHandler = () => HealthStatus | Promise<HealthStatus>
+
+/**
+ * Evaluates async ping handlers and named health checks in the background and caches the
+ * results, so /ping can answer without waiting on slow dependencies.
+ */
+export class HealthMonitor {
+  private readonly _config: HealthConfig
+  private readonly _pingHandler: PingHandler | undefined
+  private readonly _onPingHandlerError: (error: unknown) => void
+  private readonly _checks: Map<string, HealthCheckDefinition> = new Map()
+  private _asyncPingHandler: boolean
+  private _pingHandlerStatus: HealthStatus | undefined
+  private _reports: Record<string, HealthCheckReport> = {}
+  private _evaluatedAt: number | undefined
+  private _evaluation: Promise<void> | undefined
+  private _timer: ReturnType<typeof globalThis.setInterval> | undefined
+
+  /**
+   * Creates a new HealthMonitor instance.
+   *
+   * @param config - Checks, timeout and refresh interval
+   * @param pingHandler - Custom ping handler; only async handlers are evaluated by the monitor
+   * @param onPingHandlerError - Called when the async ping handler fails or times out
+   */
+  constructor(
+    config: HealthConfig,
+    pingHandler: PingHandler | undefined,
+    onPingHandlerError: (error: unknown) => void
+  ) {
+    this._config = config
+    this._pingHandler = pingHandler
+    this._onPingHandlerError = onPingHandlerError
+    this._asyncPingHandler = pingHandler?.constructor.name === 'AsyncFunction'
+    for (const [name, check] of Object.entries(config.checks ?? {})) {
+      this.add(name, check)
+    }
+  }
+
+  /**
+   * True when there is an async ping handler or at least one health check to evaluate.
+   */
+  get enabled(): boolean {
+    return this._asyncPingHandler || this._checks.size > 0
+  }
+
+  /**
+   * True when the ping handler is evaluated by the monitor rather than called on every ping.
+   */
+  get asyncPingHandler(): boolean {
+    return this._asyncPingHandler
+  }
+
+  /**
+   * Status returned by the ping handler in the last evaluation, or undefined if it has not
+   * been evaluated yet or failed.
+   */
+  get pingHandlerStatus(): HealthStatus | undefined {
+    return this._pingHandlerStatus
+  }
+
+  /**
+   * Time in milliseconds of the last completed evaluation.
+   */
+  get evaluatedAt(): number | undefined {
+    return this._evaluatedAt
+  }
+
+  /**
+   * True when the last evaluation is older than config.intervalMs, or there has been none.
+   */
+  get isStale(): boolean {
+    return this._evaluatedAt === undefined || Date.now() - this._evaluatedAt >= this._intervalMs
+  }
+
+  /**
+   * Health check results from the last evaluation.
+   */
+  get reports(): Record<string, HealthCheckReport> {
+    return { ...this._reports }
+  }
+
+  /**
+   * True when a critical health check failed in the last evaluation.
+   */
+  get hasCriticalFailure(): boolean {
+    return Object.values(this._reports).some((report) => report.critical && report.status === 'fail')
+  }
+
+  /**
+   * Registers a named health check. It is included from the next evaluation on.
+   *
+   * @param name - Name reported in the /ping body
+   * @param check - Check function, or a definition with options
+   * @throws Error if a check with the same name exists or the check is not a function
+   */
+  add(name: string, check: HealthCheck | HealthCheckDefinition): void {
+    const definition = typeof check === 'function' ? { check } : check
+    if (typeof definition?.check !== 'function') {
+      throw new Error(`Health check "${name}" must be a function`)
+    }
+    if (this._checks.has(name)) {
+      throw new Error(`Health check "${name}" is already registered`)
+    }
+    this._checks.set(name, definition)
+  }
+
+  /**
+   * Evaluates the ping handler and all health checks. Concurrent calls share one evaluation.
+   *
+   * @param pending - Result of a ping handler call already in progress, used instead of calling it again
+   * @returns Promise that resolves once the evaluation has finished; it never rejects
+   */
+  evaluate(pending?: Promise<HealthStatus>): Promise<void> {
+    if (pending) {
+      // A handler declared without `async` returned a promise; evaluate it from now on
+      this._asyncPingHandler = true
+    }
+    if (!this._evaluation) {
+      this._evaluation = this._evaluate(pending).finally(() => {
+        this._evaluation = undefined
+      })
+    } else {
+      pending?.catch(() => {})
+    }
+    return this._evaluation
+  }
+
+  /**
+   * Re-evaluates every config.intervalMs until stop() is called. The timer does not keep the process alive.
+   */
+  start(): void {
+    if (this._timer || !this.enabled) {
+      return
+    }
+    this._timer = globalThis.setInterval(() => void this.evaluate(), this._intervalMs)
+    this._timer.unref()
+  }
+
+  /**
+   * Stops periodic evaluation.
+   */
+  stop(): void {
+    globalThis.clearInterval(this._timer)
+    this._timer = undefined
+  }
+
+  private get _intervalMs(): number {
+    return this._config.intervalMs ?? DEFAULT_HEALTH_INTERVAL_MS
+  }
+
+  private get _timeoutMs(): number {
+    return this._config.timeoutMs ?? DEFAULT_HEALTH_TIMEOUT_MS
+  }
+
+  /**
+   * Runs the ping handler and the health checks in parallel and stores the results.
+   *
+   * @param pending - Ping handler result already in progress
+   */
+  private async _evaluate(pending: Promise<HealthStatus> | undefined): Promise<void> {
+    const [pingHandlerStatus, reports] = await Promise.all([
+      this._evaluatePingHandler(pending),
+      Promise.all(
+        Array.from(this._checks, async ([name, definition]) => [name, await this._runCheck(definition)] as const)
+      ),
+    ])
+    this._pingHandlerStatus = pingHandlerStatus
+    this._reports = Object.fromEntries(reports)
+    this._evaluatedAt = Date.now()
+  }
+
+  /**
+   * Calls the async ping handler with the configured timeout.
+   *
+   * @param pending - Ping handler result already in progress
+   * @returns The handler's status, or undefined if there is no async handler or it failed
+   */
+  private async _evaluatePingHandler(pending: Promise<HealthStatus> | undefined): Promise<HealthStatus | undefined> {
+    if (!this._asyncPingHandler || !this._pingHandler) {
+      return undefined
+    }
+    const controller = new globalThis.AbortController()
+    try {
+      return await withTimeout(
+        pending ?? Promise.resolve().then(this._pingHandler),
+        this._timeoutMs,
+        controller,
+        'Ping handler'
+      )
+    } catch (error) {
+      this._onPingHandlerError(error)
+      return undefined
+    }
+  }
+
+  /**
+   * Runs a health check with its timeout.
+   *
+   * @param definition - Check to run
+   * @returns Report for the /ping body
+   */
+  private async _runCheck(definition: HealthCheckDefinition): Promise<HealthCheckReport> {
+    const started = Date.now()
+    const critical = definition.critical ?? false
+    const controller = new globalThis.AbortController()
+    try {
+      const outcome = await withTimeout(
+        Promise.resolve().then(() => definition.check(controller.signal)),
+        definition.timeoutMs ?? this._timeoutMs,
+        controller,
+        'Health check'
+      )
+      const result: HealthCheckResult = typeof outcome === 'boolean' ? { healthy: outcome } : outcome
+      return {
+        status: result.healthy ? 'pass' : 'fail',
+        critical,
+        durationMs: Date.now() - started,
+        ...(result.message !== undefined && { message: result.message }),
+        ...(result.details !== undefined && { details: result.details }),
+      }
+    } catch (error) {
+      return {
+        status: 'fail',
+        critical,
+        durationMs: Date.now() - started,
+        message: error instanceof Error ? error.message : String(error),
+      }
+    }
+  }
+}
+
+/**
+ * Rejects if a promise does not settle in time, aborting the controller so the work can stop.
+ *
+ * @param promise - Work to wait for
+ * @param timeoutMs - Timeout in milliseconds
+ * @param controller - Aborted with a TimeoutError when the timeout elapses
+ * @param label - Subject of the timeout error message
+ * @returns The promise's result
+ */
+async function withTimeout<T>(
+  promise: Promise<T>,
+  timeoutMs: number,
+  controller: globalThis.AbortController,
+  label: string
+): Promise<T> {
+  let timer: ReturnType<typeof globalThis.setTimeout> | undefined
+  const timedOut = new Promise<never>((_resolve, reject) => {
+    timer = globalThis.setTimeout(() => {
+      const reason = Object.assign(new Error(`${label} timed out after ${timeoutMs}ms`), { name: 'TimeoutError' })
+      controller.abort(reason)
+      reject(reason)
+    }, timeoutMs)
+  })
+  try {
+    return await Promise.race([promise, timedOut])
+  } finally {
+    globalThis.clearTimeout(timer)
+    // The work may still settle after the timeout
+    promise.catch(() => {})
+  }
+}
@@ -4,20 +4,108 @@
 
 export { BedrockAgentCoreApp } from './app.js'
 export { RuntimeClient } from './client.js'
+export { TestClient, createTestClient } from './testing.js'
+export { JwtVerifier, JwtVerificationError } from './auth.js'
+export { MemorySessionStore, FileSessionStore } from './session.js'
+export { FileTranscriptSink, readTranscript } from './transcript.js'
+export { createWebSocketHandler, TypedWebSocket } from './websocket.js'
+export { fromAiSdkStream, fromStrandsStream, fromConverseStream } from './streams.js'
+export { MultipartResponse } from './serializers.js'
+export { UploadedFileSchema, UploadedFileStreamSchema } from './multipart.js'
+export { getContext } from './context.js'
+export { getContextPropagationPlugin, CONTEXT_PROPAGATION_MIDDLEWARE_NAME } from './propagation.js'
+export {
+  AgentCoreError,
+  ValidationError,
+  AuthError,
+  InvocationTimeoutError,
+  UpstreamError,
+  HandlerError,
+  ConcurrencyLimitError,
+  toAgentCoreError,
+} from './errors.js'
 export type {
   BedrockAgentCoreAppConfig,
+  RunOptions,
+  ConcurrencyConfig,
+  TelemetryConfig,
+  TraceContext,
+  SessionState,
+  SessionStore,
+  LifecycleConfig,
+  SessionEndReason,
+  SessionToolsConfig,
+  SessionTools,
+  TranscriptConfig,
+  TranscriptSink,
+  TranscriptRecord,
+  TranscriptDifference,
+  ReplayOptions,
+  ReplayResult,
+  MemorySessionStoreOptions,
+  FileSessionStoreOptions,
+  AgentCoreErrorCode,
+  AgentCoreErrorOptions,
+  ErrorResponseBody,
+  ErrorSerializer,
+  ErrorTransport,
+  OpenApiConfig,
+  OpenApiDocument,
+  JwtAuthConfig,
+  JwtAlgorithm,
+  JwtClaims,
+  JwtVerificationKey,
+  JsonWebKeySet,
   ContentTypeParserConfig,
+  CompressionConfig,
+  MultipartConfig,
+  UploadedFile,
+  UploadedFileStream,
+  DevConfig,
+  DevReloadConfig,
+  ResponseSerializerConfig,
+  ResponseFile,
   InvocationHandler as Handler,
+  InvocationMiddleware,
+  InvocationNext,
+  InvocationRequest,
+  InvocationResponse,
+  InvocationStreamEvent,
+  StreamAdapterEvent,
+  StreamAdapterOptions,
+  StreamUsage,
   RequestContext,
+  ContextFactory,
+  HeadersConfig,
+  InvocationContext,
+  TypedWebSocketHandlerConfig,
   HealthStatus,
   HealthCheckResponse,
+  HealthCheck,
+  HealthCheckDefinition,
+  HealthCheckResult,
+  HealthCheckReport,
+  HealthConfig,
   AsyncTaskInfo,
   AsyncTaskStatus,
+  JobState,
+  JobStatus,
+  JobProgress,
+  JobContext,
+  JobFunction,
+  EnqueueJobOptions,
+  JobsConfig,
+  OperationDefinition,
+  OperationsConfig,
+  ResumableStreamsConfig,
   RuntimeClientConfig,
   GenerateWsConnectionParams,
   GeneratePresignedUrlParams,
   GenerateWsConnectionOAuthParams,
   WebSocketConnection,
   ParsedRuntimeArn,
+  TestClientOptions,
+  TestRequestOptions,
+  TestSSEEvent,
 } from './types.js'
 export { DEFAULT_PRESIGNED_URL_TIMEOUT, MAX_PRESIGNED_URL_TIMEOUT, DEFAULT_REGION, RuntimeArnSchema } from './types.js'
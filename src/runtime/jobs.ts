@@ -0,0 +1,267 @@
+import { randomUUID } from 'crypto'
+import { runWithContext } from './context.js'
+import { AgentCoreError, toAgentCoreError } from './errors.js'
+import type {
+  EnqueueJobOptions,
+  JobContext,
+  JobFunction,
+  JobProgress,
+  JobStatus,
+  JobsConfig,
+  RequestContext,
+} from './types.js'
+
+const DEFAULT_RETENTION_MS = 60 * 60 * 1000
+const DEFAULT_MAX_RETAINED_JOBS = 1000
+
+interface JobRecord {
+  status: JobStatus
+  fn: JobFunction
+  controller: globalThis.AbortController
+  context: RequestContext | undefined
+  release: (() => void) | undefined
+}
+
+/**
+ * Runs background jobs and keeps their status, progress and results for retrieval.
+ */
+export class JobManager {
+  private readonly _config: JobsConfig
+  private readonly _onSettled: (status: JobStatus) => void
+  // Insertion order is creation order
+  private readonly _jobs: Map<string, JobRecord> = new Map()
+  private readonly _pending: JobRecord[] = []
+  private _running: number = 0
+
+  /**
+   * Creates a new JobManager instance.
+   *
+   * @param config - Concurrency and retention settings
+   * @param onSettled - Called with the final status whenever a job finishes
+   */
+  constructor(config: JobsConfig, onSettled: (status: JobStatus) => void) {
+    this._config = config
+    this._onSettled = onSettled
+  }
+
+  /**
+   * Number of pending and running jobs.
+   */
+  get activeCount(): number {
+    return this._running + this._pending.length
+  }
+
+  /**
+   * Enqueues a job. It starts immediately unless config.maxConcurrentJobs is reached.
+   *
+   * @param fn - Work to run
+   * @param options - Job name and metadata
+   * @param context - Context of the invocation enqueuing the job; the job runs with a copy of it
+   * @param release - Called once the job has finished, e.g. to let its session end
+   * @returns The job ID
+   */
+  enqueue(
+    fn: JobFunction,
+    options: EnqueueJobOptions,
+    context: RequestContext | undefined,
+    release?: () => void
+  ): string {
+    this._prune()
+
+    const jobId = randomUUID()
+    const status: JobStatus = {
+      jobId,
+      name: options.name ?? (fn.name || 'job'),
+      state: 'pending',
+      createdAt: new Date().toISOString(),
+    }
+    if (context?.sessionId) {
+      status.sessionId = context.sessionId
+    }
+    if (options.metadata) {
+      status.metadata = options.metadata
+    }
+
+    const record: JobRecord = { status, fn, controller: new globalThis.AbortController(), context, release }
+    this._jobs.set(jobId, record)
+    this._pending.push(record)
+    this._startPending()
+    return jobId
+  }
+
+  /**
+   * Gets a snapshot of a job.
+   *
+   * @param jobId - Job ID from enqueue
+   * @returns The job status, or undefined if the job does not exist or is no longer retained
+   */
+  get(jobId: string): JobStatus | undefined {
+    this._prune()
+    const record = this._jobs.get(jobId)
+    return record && snapshot(record.status)
+  }
+
+  /**
+   * Lists all retained jobs.
+   *
+   * @returns Job snapshots, most recently created first
+   */
+  list(): JobStatus[] {
+    this._prune()
+    return Array.from(this._jobs.values(), (record) => snapshot(record.status)).reverse()
+  }
+
+  /**
+   * Cancels a job. Pending jobs are cancelled immediately; running jobs have their signal
+   * aborted and are marked cancelled once the job function settles.
+   *
+   * @param jobId - Job ID from enqueue
+   * @returns True if the job was pending or running
+   */
+  cancel(jobId: string): boolean {
+    const record = this._jobs.get(jobId)
+    if (!record || (record.status.state !== 'pending' && record.status.state !== 'running')) {
+      return false
+    }
+    this._abort(record, new AgentCoreError('Job was cancelled', { code: 'CANCELLED', statusCode: 409 }))
+    return true
+  }
+
+  /**
+   * Aborts all pending and running jobs.
+   *
+   * @param reason - Abort reason passed to the job signals
+   */
+  abortAll(reason: Error): void {
+    for (const record of this._jobs.values()) {
+      if (record.status.state === 'pending' || record.status.state === 'running') {
+        this._abort(record, reason)
+      }
+    }
+  }
+
+  /**
+   * Aborts a job's signal, finishing it right away if it has not started.
+   *
+   * @param record - Job to abort
+   * @param reason - Abort reason
+   */
+  private _abort(record: JobRecord, reason: Error): void {
+    record.controller.abort(reason)
+    const index = this._pending.indexOf(record)
+    if (index !== -1) {
+      this._pending.splice(index, 1)
+      this._finish(record, 'cancelled', undefined, reason)
+    }
+  }
+
+  /**
+   * Starts pending jobs while below config.maxConcurrentJobs.
+   */
+  private _startPending(): void {
+    const maxConcurrentJobs = this._config.maxConcurrentJobs ?? Infinity
+    while (this._running < maxConcurrentJobs && this._pending.length > 0) {
+      void this._run(this._pending.shift()!)
+    }
+  }
+
+  /**
+   * Runs a job function and records its outcome.
+   *
+   * @param record - Job to run
+   */
+  private async _run(record: JobRecord): Promise<void> {
+    this._running++
+    record.status.state = 'running'
+    record.status.startedAt = new Date().toISOString()
+
+    const signal = record.controller.signal
+    const job: JobContext = {
+      jobId: record.status.jobId,
+      signal,
+      reportProgress: (progress: JobProgress): void => {
+        if (record.status.state === 'running') {
+          record.status.progress = { ...progress }
+        }
+      },
+    }
+
+    let outcome: { result: unknown } | { error: unknown }
+    try {
+      // Run with the enqueuing invocation's context so getContext() works, but with the job's own signal
+      const result = record.context
+        ? await runWithContext({ ...record.context, signal }, () => record.fn(job))
+        : await record.fn(job)
+      outcome = { result }
+    } catch (error) {
+      outcome = { error }
+    }
+
+    // Free the slot before reporting so onSettled sees an accurate activeCount
+    this._running--
+    if (signal.aborted) {
+      this._finish(record, 'cancelled', undefined, signal.reason)
+    } else if ('error' in outcome) {
+      this._finish(record, 'failed', undefined, outcome.error)
+    } else {
+      this._finish(record, 'succeeded', outcome.result)
+    }
+    this._startPending()
+  }
+
+  /**
+   * Records the final state of a job.
+   *
+   * @param record - Finished job
+   * @param state - Final state
+   * @param result - Job result when it succeeded
+   * @param error - Failure or abort reason
+   */
+  private _finish(
+    record: JobRecord,
+    state: 'succeeded' | 'failed' | 'cancelled',
+    result?: unknown,
+    error?: unknown
+  ): void {
+    const status = record.status
+    status.state = state
+    status.completedAt = new Date().toISOString()
+    if (state === 'succeeded') {
+      status.result = result
+    } else {
+      status.error = toAgentCoreError(error).toJSON()
+    }
+    // The context may hold large request-scoped objects; it is no longer needed
+    record.context = undefined
+    record.release?.()
+    record.release = undefined
+    this._onSettled(snapshot(status))
+  }
+
+  /**
+   * Discards finished jobs older than config.retentionMs and beyond config.maxRetainedJobs.
+   */
+  private _prune(): void {
+    const cutoff = Date.now() - (this._config.retentionMs ?? DEFAULT_RETENTION_MS)
+    const maxRetained = this._config.maxRetainedJobs ?? DEFAULT_MAX_RETAINED_JOBS
+    const finished = Array.from(this._jobs.values()).filter((record) => record.status.completedAt !== undefined)
+
+    let excess = finished.length - maxRetained
+    for (const record of finished) {
+      if (excess > 0 || Date.parse(record.status.completedAt!) < cutoff) {
+        this._jobs.delete(record.status.jobId)
+        excess--
+      }
+    }
+  }
+}
+
+/**
+ * Copies a job status so callers cannot mutate the stored record.
+ *
+ * @param status - Stored status
+ * @returns Shallow copy with a copied progress object
+ */
+function snapshot(status: JobStatus): JobStatus {
+  return { ...status, ...(status.progress && { progress: { ...status.progress } }) }
+}
@@ -0,0 +1,204 @@
+import type { RequestContext, SessionEndReason } from './types.js'
+
+/**
+ * Default inactivity before a session ends, matching the runtime's idle session timeout.
+ */
+export const DEFAULT_SESSION_IDLE_TIMEOUT_MS = 15 * 60 * 1000
+
+/**
+ * Receives the start and end of runtime sessions.
+ */
+export interface SessionListener {
+  start?: ((sessionId: string, context: RequestContext) => void | Promise<void>) | undefined
+  end?: ((sessionId: string, reason: SessionEndReason) => void | Promise<void>) | undefined
+}
+
+/**
+ * Session known to the tracker.
+ */
+interface TrackedSession {
+  // Invocations, WebSocket connections and background jobs in progress
+  active: number
+  timer: ReturnType<typeof globalThis.setTimeout> | undefined
+  started: Promise<void>
+}
+
+/**
+ * Infers the start and end of runtime sessions: a session starts with its first invocation
+ * or WebSocket connection, and ends once it has had nothing in progress for the idle timeout,
+ * or when the app shuts down.
+ */
+export class SessionTracker {
+  private readonly _idleTimeoutMs: number
+  private readonly _listeners: SessionListener[] = []
+  private readonly _onError: (error: unknown, sessionId: string) => void
+  private readonly _sessions: Map<string, TrackedSession> = new Map()
+  // Sessions whose end listeners are still running
+  private readonly _ending: Map<string, Promise<void>> = new Map()
+
+  /**
+   * Creates a new SessionTracker instance.
+   *
+   * @param idleTimeoutMs - Inactivity in milliseconds before a session ends
+   * @param onError - Receives errors thrown by end listeners
+   */
+  constructor(idleTimeoutMs: number, onError: (error: unknown, sessionId: string) => void) {
+    this._idleTimeoutMs = idleTimeoutMs
+    this._onError = onError
+  }
+
+  /**
+   * IDs of the sessions that have started and not ended.
+   */
+  get sessionIds(): string[] {
+    return [...this._sessions.keys()]
+  }
+
+  /**
+   * Adds a listener. Start listeners run in registration order, end listeners in reverse.
+   *
+   * @param listener - Listener to add
+   */
+  addListener(listener: SessionListener): void {
+    this._listeners.push(listener)
+  }
+
+  /**
+   * Marks work in progress for a session, starting the session if needed. Resolves once the
+   * start listeners have finished.
+   *
+   * @param sessionId - Session of the invocation or connection
+   * @param context - Context of the invocation or connection that starts the session
+   * @returns Function to call when the work is done
+   * @throws The error of a start listener; the next invocation starts the session again
+   */
+  async acquire(sessionId: string, context: RequestContext): Promise<() => void> {
+    if (this._listeners.length === 0) {
+      return () => {}
+    }
+
+    // A session that is ending starts again once its end listeners have finished
+    await this._ending.get(sessionId)
+
+    let session = this._sessions.get(sessionId)
+    if (!session) {
+      session = { active: 0, timer: undefined, started: this._start(sessionId, context) }
+      this._sessions.set(sessionId, session)
+    }
+    const current = session
+    const release = this._hold(sessionId, current)
+
+    try {
+      await current.started
+    } catch (error) {
+      current.active--
+      if (this._sessions.get(sessionId) === current) {
+        this._sessions.delete(sessionId)
+      }
+      throw error
+    }
+    return release
+  }
+
+  /**
+   * Marks work in progress for a session that has already started, such as a background job
+   * enqueued by one of its invocations.
+   *
+   * @param sessionId - Session of the work
+   * @returns Function to call when the work is done, or undefined if the session is not active
+   */
+  hold(sessionId: string): (() => void) | undefined {
+    if (this._listeners.length === 0) {
+      return () => {}
+    }
+    const session = this._sessions.get(sessionId)
+    return session && this._hold(sessionId, session)
+  }
+
+  /**
+   * Ends every session, whether or not work is still in progress.
+   *
+   * @param reason - Reason passed to the end listeners
+   */
+  async endAll(reason: SessionEndReason): Promise<void> {
+    await Promise.all([
+      ...this.sessionIds.map((sessionId) => this._end(sessionId, reason, true)),
+      ...this._ending.values(),
+    ])
+  }
+
+  /**
+   * Counts work in progress for a session and stops its idle timer.
+   *
+   * @param sessionId - Session of the work
+   * @param session - Tracked session
+   * @returns Function to call when the work is done; later calls are ignored
+   */
+  private _hold(sessionId: string, session: TrackedSession): () => void {
+    session.active++
+    globalThis.clearTimeout(session.timer)
+
+    let released = false
+    return (): void => {
+      if (released) {
+        return
+      }
+      released = true
+      session.active--
+      if (session.active === 0 && this._sessions.get(sessionId) === session) {
+        session.timer = globalThis.setTimeout(() => void this._end(sessionId, 'idle'), this._idleTimeoutMs)
+        session.timer.unref?.()
+      }
+    }
+  }
+
+  /**
+   * Runs the start listeners of a session.
+   *
+   * @param sessionId - Session that starts
+   * @param context - Context of the invocation or connection that starts the session
+   */
+  private async _start(sessionId: string, context: RequestContext): Promise<void> {
+    for (const listener of this._listeners) {
+      await listener.start?.(sessionId, context)
+    }
+  }
+
+  /**
+   * Removes a session and runs its end listeners.
+   *
+   * @param sessionId - Session to end
+   * @param reason - Reason passed to the end listeners
+   * @param force - End the session even if work is in progress
+   */
+  private _end(sessionId: string, reason: SessionEndReason, force = false): Promise<void> {
+    const session = this._sessions.get(sessionId)
+    if (!session || (session.active > 0 && !force)) {
+      return Promise.resolve()
+    }
+    globalThis.clearTimeout(session.timer)
+    this._sessions.delete(sessionId)
+
+    const ending = (async (): Promise<void> => {
+      // A session whose start failed has nothing to clean up
+      try {
+        await session.started
+      } catch {
+        return
+      }
+      for (const listener of [...this._listeners].reverse()) {
+        try {
+          await listener.end?.(sessionId, reason)
+        } catch (error) {
+          this._onError(error, sessionId)
+        }
+      }
+    })().finally(() => {
+      if (this._ending.get(sessionId) === ending) {
+        this._ending.delete(sessionId)
+      }
+    })
+    this._ending.set(sessionId, ending)
+    return ending
+  }
+}
@@ -0,0 +1,177 @@
+import type { ConcurrencyConfig } from './types.js'
+import { ConcurrencyLimitError } from './errors.js'
+
+const DEFAULT_RETRY_AFTER_SECONDS = 1
+
+interface QueuedInvocation {
+  sessionId: string
+  resolve: (release: () => void) => void
+  reject: (error: unknown) => void
+  cleanup: () => void
+}
+
+/**
+ * Limits concurrent invocations globally and per session, queueing excess
+ * invocations up to a configurable depth.
+ */
+export class ConcurrencyLimiter {
+  private readonly _config: ConcurrencyConfig
+  private readonly _activeBySession: Map<string, number> = new Map()
+  private readonly _queue: QueuedInvocation[] = []
+  private _active: number = 0
+
+  /**
+   * Creates a new ConcurrencyLimiter instance.
+   *
+   * @param config - Concurrency limits
+   */
+  constructor(config: ConcurrencyConfig) {
+    this._config = config
+  }
+
+  /**
+   * Number of invocations currently running.
+   */
+  get active(): number {
+    return this._active
+  }
+
+  /**
+   * Number of invocations waiting for a slot.
+   */
+  get queued(): number {
+    return this._queue.length
+  }
+
+  /**
+   * True when the global limit is reached, so new invocations would be queued or rejected.
+   */
+  get isSaturated(): boolean {
+    const max = this._config.maxConcurrentInvocations
+    return max !== undefined && this._active >= max
+  }
+
+  /**
+   * Waits for a slot to run an invocation for the given session.
+   *
+   * @param sessionId - Session the invocation belongs to
+   * @param signal - Aborts waiting in the queue (e.g. on client disconnect)
+   * @returns A function that releases the slot; call it exactly once when the invocation ends
+   * @throws ConcurrencyLimitError if the queue is full or the queue timeout elapses
+   */
+  acquire(sessionId: string, signal?: globalThis.AbortSignal): Promise<() => void> {
+    if (this._canRun(sessionId)) {
+      return Promise.resolve(this._start(sessionId))
+    }
+
+    if (this._queue.length >= (this._config.maxQueueDepth ?? 0)) {
+      return Promise.reject(this._limitError('Too many concurrent invocations'))
+    }
+
+    if (signal?.aborted) {
+      return Promise.reject(signal.reason)
+    }
+    return new Promise((resolve, reject) => {
+      const entry: QueuedInvocation = {
+        sessionId,
+        resolve,
+        reject,
+        cleanup: () => {
+          globalThis.clearTimeout(timer)
+          signal?.removeEventListener('abort', onAbort)
+        },
+      }
+      const remove = (error: unknown): void => {
+        const index = this._queue.indexOf(entry)
+        if (index !== -1) {
+          this._queue.splice(index, 1)
+          entry.cleanup()
+          reject(error)
+        }
+      }
+      const onAbort = (): void => remove(signal!.reason)
+      const queueTimeoutMs = this._config.queueTimeoutMs
+      const timer =
+        queueTimeoutMs !== undefined
+          ? globalThis.setTimeout(
+              () => remove(this._limitError(`Invocation waited more than ${queueTimeoutMs}ms in the queue`)),
+              queueTimeoutMs
+            )
+          : undefined
+      signal?.addEventListener('abort', onAbort, { once: true })
+      this._queue.push(entry)
+    })
+  }
+
+  /**
+   * Checks whether an invocation for the session may start now.
+   *
+   * @param sessionId - Session the invocation belongs to
+   * @returns True if both the global and per-session limits allow it
+   */
+  private _canRun(sessionId: string): boolean {
+    const { maxConcurrentInvocations, maxConcurrentInvocationsPerSession } = this._config
+    if (maxConcurrentInvocations !== undefined && this._active >= maxConcurrentInvocations) {
+      return false
+    }
+    const sessionActive = this._activeBySession.get(sessionId) ?? 0
+    return maxConcurrentInvocationsPerSession === undefined || sessionActive < maxConcurrentInvocationsPerSession
+  }
+
+  /**
+   * Marks an invocation as running.
+   *
+   * @param sessionId - Session the invocation belongs to
+   * @returns Idempotent release function
+   */
+  private _start(sessionId: string): () => void {
+    this._active++
+    this._activeBySession.set(sessionId, (this._activeBySession.get(sessionId) ?? 0) + 1)
+
+    let released = false
+    return () => {
+      if (released) {
+        return
+      }
+      released = true
+      this._active--
+      const sessionActive = this._activeBySession.get(sessionId)! - 1
+      if (sessionActive === 0) {
+        this._activeBySession.delete(sessionId)
+      } else {
+        this._activeBySession.set(sessionId, sessionActive)
+      }
+      this._dequeue()
+    }
+  }
+
+  /**
+   * Starts queued invocations that now fit within the limits, in FIFO order.
+   * Invocations blocked only by their session's limit do not hold up other sessions.
+   */
+  private _dequeue(): void {
+    for (let i = 0; i < this._queue.length;) {
+      const entry = this._queue[i]!
+      if (!this._canRun(entry.sessionId)) {
+        if (this.isSaturated) {
+          return
+        }
+        i++
+        continue
+      }
+      this._queue.splice(i, 1)
+      entry.cleanup()
+      entry.resolve(this._start(entry.sessionId))
+    }
+  }
+
+  /**
+   * Creates the error returned when an invocation is rejected.
+   *
+   * @param message - Description of the limit that was hit
+   * @returns Error carrying the Retry-After hint
+   */
+  private _limitError(message: string): ConcurrencyLimitError {
+    return new ConcurrencyLimitError(message, this._config.retryAfterSeconds ?? DEFAULT_RETRY_AFTER_SECONDS)
+  }
+}
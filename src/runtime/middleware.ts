@@ -0,0 +1,36 @@
+import type { InvocationHandler, InvocationMiddleware, RequestContext } from './types.js'
+
+/**
+ * Composes middleware around an invocation handler into a single function.
+ *
+ * Middleware is executed in array order; each receives a `next` function that
+ * invokes the remaining middleware and finally the handler.
+ *
+ * @param middleware - Middleware in execution order
+ * @param handler - The invocation handler at the end of the chain
+ * @returns A function that runs the full chain for one invocation
+ */
+export function composeMiddleware<TRequest>(
+  middleware: readonly InvocationMiddleware<TRequest>[],
+  handler: InvocationHandler<TRequest, unknown, unknown>
+): (request: TRequest, context: RequestContext) => Promise<unknown> {
+  return (request, context) => {
+    const dispatch = async (index: number, currentRequest: TRequest): Promise<unknown> => {
+      const current = middleware[index]
+      if (!current) {
+        return await handler(currentRequest, context)
+      }
+
+      let nextCalled = false
+      return await current(currentRequest, context, (nextRequest?: TRequest) => {
+        if (nextCalled) {
+          return Promise.reject(new Error('next() called multiple times in invocation middleware'))
+        }
+        nextCalled = true
+        return dispatch(index + 1, nextRequest === undefined ? currentRequest : nextRequest)
+      })
+    }
+
+    return dispatch(0, request)
+  }
+}
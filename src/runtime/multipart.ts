@@ -0,0 +1,358 @@
+import { Buffer } from 'buffer'
+import { createReadStream, createWriteStream, type WriteStream } from 'fs'
+import { unlink } from 'fs/promises'
+import { once } from 'events'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import { randomUUID } from 'crypto'
+import { Readable } from 'stream'
+import { z } from 'zod'
+import type { FastifyRequest } from 'fastify'
+import type { MultipartConfig, UploadedFile, UploadedFileStream } from './types.js'
+import { AgentCoreError, ValidationError } from './errors.js'
+
+const DEFAULT_BODY_LIMIT = 1024 * 1024
+const DEFAULT_MAX_FILES = 10
+// Part headers are short; a larger header block is malformed
+const MAX_PART_HEADER_SIZE = 16 * 1024
+const HEADER_END = Buffer.from('\r\n\r\n')
+const CRLF = Buffer.from('\r\n')
+
+/**
+ * Schema of a file uploaded with `multipart.files` set to 'buffer', for use in requestSchema.
+ *
+ * @example
+ * ```typescript
+ * requestSchema: z.object({ prompt: z.string(), document: UploadedFileSchema })
+ * ```
+ */
+export const UploadedFileSchema = z.object({
+  fieldname: z.string(),
+  filename: z.string(),
+  contentType: z.string(),
+  size: z.number(),
+  data: z.instanceof(Buffer),
+})
+
+/**
+ * Schema of a file uploaded with `multipart.files` set to 'stream', for use in requestSchema.
+ */
+export const UploadedFileStreamSchema = z.object({
+  fieldname: z.string(),
+  filename: z.string(),
+  contentType: z.string(),
+  size: z.number(),
+  stream: z.instanceof(Readable),
+})
+
+/**
+ * Temporary file holding an upload in 'stream' mode.
+ */
+interface TemporaryUpload {
+  path: string
+  output: WriteStream
+  stream?: Readable
+}
+
+// Temporary files of each request, removed by removeUploads()
+const uploads = new WeakMap<FastifyRequest, TemporaryUpload[]>()
+
+/**
+ * Destination of the content of one part.
+ */
+interface PartSink {
+  write(chunk: Buffer): Promise<void>
+  end(): Promise<void>
+}
+
+/**
+ * Creates the content type parser for `multipart/form-data` bodies. The parsed body maps
+ * each field name to its value: a string, parsed JSON for parts sent as application/json,
+ * or an uploaded file. Repeated field names collect their values in an array.
+ *
+ * @param config - Multipart settings
+ * @param bodyLimit - Body limit of the app, used when config.bodyLimit is not set
+ * @returns Parser for addContentTypeParser
+ */
+export function createMultipartParser(
+  config: MultipartConfig,
+  bodyLimit: number | undefined
+): (request: FastifyRequest, payload: Readable) => Promise<Record<string, unknown>> {
+  return async (request, payload) => {
+    try {
+      return await parseMultipart(request, payload, config, config.bodyLimit ?? bodyLimit ?? DEFAULT_BODY_LIMIT)
+    } catch (error) {
+      await removeUploads(request)
+      throw error
+    }
+  }
+}
+
+/**
+ * Closes the streams of the files uploaded with a request and removes their temporary files.
+ *
+ * @param request - Fastify request object
+ */
+export async function removeUploads(request: FastifyRequest): Promise<void> {
+  const files = uploads.get(request)
+  uploads.delete(request)
+  await Promise.all(
+    (files ?? []).map(async (file) => {
+      file.output.destroy()
+      file.stream?.destroy()
+      await unlink(file.path).catch(() => {})
+    })
+  )
+}
+
+/**
+ * Parses a multipart body as it arrives.
+ *
+ * @param request - Fastify request object
+ * @param payload - Request body, decompressed if needed
+ * @param config - Multipart settings
+ * @param bodyLimit - Maximum body size in bytes
+ * @returns Field values by name
+ */
+async function parseMultipart(
+  request: FastifyRequest,
+  payload: Readable,
+  config: MultipartConfig,
+  bodyLimit: number
+): Promise<Record<string, unknown>> {
+  const boundary = /boundary=(?:"([^"]+)"|([^;\s]+))/i.exec(String(request.headers['content-type']))
+  if (!boundary) {
+    throw new ValidationError('Missing multipart boundary')
+  }
+  const delimiter = Buffer.from(`\r\n--${boundary[1] ?? boundary[2]}`)
+  const maxFiles = config.maxFiles ?? DEFAULT_MAX_FILES
+
+  // No prototype, so that a field named __proto__ is stored like any other
+  const body: Record<string, unknown> = Object.create(null)
+  const add = (name: string, value: unknown): void => {
+    const existing = body[name]
+    body[name] = existing === undefined ? value : Array.isArray(existing) ? [...existing, value] : [existing, value]
+  }
+
+  // The delimiter includes the CRLF ending the previous part; prepend one for the first boundary
+  let buffer: Buffer = CRLF
+  let state: 'preamble' | 'boundary' | 'headers' | 'body' | 'end' = 'preamble'
+  let part: PartSink | undefined
+  let received = 0
+  let fileCount = 0
+
+  const startPart = (headerBlock: string): PartSink => {
+    const headers = parsePartHeaders(headerBlock)
+    const disposition = parseDisposition(headers['content-disposition'] ?? '')
+    if (!disposition.name) {
+      throw new ValidationError('Multipart part without a Content-Disposition name')
+    }
+    const name = disposition.name
+    const contentType =
+      headers['content-type'] ?? (disposition.filename === undefined ? 'text/plain' : 'application/octet-stream')
+
+    if (disposition.filename === undefined) {
+      const chunks: Buffer[] = []
+      return {
+        write: async (chunk) => void chunks.push(chunk),
+        end: async (): Promise<void> => {
+          const value = Buffer.concat(chunks).toString('utf8')
+          add(name, contentType.startsWith('application/json') ? parseJsonField(name, value) : value)
+        },
+      }
+    }
+
+    if (++fileCount > maxFiles) {
+      throw tooLarge(`Too many files; at most ${maxFiles} are accepted`)
+    }
+    const file = { fieldname: name, filename: disposition.filename, contentType, size: 0 }
+    const addBytes = (chunk: Buffer): void => {
+      file.size += chunk.length
+      if (config.fileSizeLimit !== undefined && file.size > config.fileSizeLimit) {
+        throw tooLarge(`File '${file.filename}' exceeds the limit of ${config.fileSizeLimit} bytes`)
+      }
+    }
+
+    if (config.files === 'stream') {
+      return createFileSink(request, file, addBytes, add)
+    }
+    const chunks: Buffer[] = []
+    return {
+      write: async (chunk): Promise<void> => {
+        addBytes(chunk)
+        chunks.push(chunk)
+      },
+      end: async () => add(name, { ...file, data: Buffer.concat(chunks) } satisfies UploadedFile),
+    }
+  }
+
+  for await (const chunk of payload as AsyncIterable<Buffer>) {
+    received += chunk.length
+    if (received > bodyLimit) {
+      throw tooLarge(`Request body exceeds the limit of ${bodyLimit} bytes`)
+    }
+    buffer = Buffer.concat([buffer, chunk])
+
+    for (;;) {
+      if (state === 'preamble' || state === 'body') {
+        const index = buffer.indexOf(delimiter)
+        if (index === -1) {
+          // Keep the bytes that could be the start of a delimiter split across chunks
+          const safe = buffer.length - delimiter.length + 1
+          if (safe > 0) {
+            await part?.write(buffer.subarray(0, safe))
+            buffer = buffer.subarray(safe)
+          }
+          break
+        }
+        if (part) {
+          await part.write(buffer.subarray(0, index))
+          await part.end()
+          part = undefined
+        }
+        buffer = buffer.subarray(index + delimiter.length)
+        state = 'boundary'
+      } else if (state === 'boundary') {
+        if (buffer.length < 2) {
+          break
+        }
+        if (buffer[0] === 0x2d && buffer[1] === 0x2d) {
+          state = 'end'
+        } else if (buffer.subarray(0, 2).equals(CRLF)) {
+          buffer = buffer.subarray(2)
+          state = 'headers'
+        } else {
+          throw new ValidationError('Malformed multipart boundary')
+        }
+      } else if (state === 'headers') {
+        // A part without headers starts directly with the blank line
+        const index = buffer.subarray(0, 2).equals(CRLF) ? -2 : buffer.indexOf(HEADER_END)
+        if (index === -1) {
+          if (buffer.length > MAX_PART_HEADER_SIZE) {
+            throw new ValidationError('Multipart part headers are too large')
+          }
+          break
+        }
+        part = startPart(index === -2 ? '' : buffer.subarray(0, index).toString('utf8'))
+        buffer = buffer.subarray(index + HEADER_END.length)
+        state = 'body'
+      } else {
+        // Ignore the epilogue
+        break
+      }
+    }
+  }
+
+  if (state !== 'end') {
+    throw new ValidationError('Multipart body ended before the closing boundary')
+  }
+  return body
+}
+
+/**
+ * Writes an uploaded file to a temporary file, exposed as a stream once complete.
+ *
+ * @param request - Request the file is uploaded with
+ * @param file - Description of the file
+ * @param addBytes - Counts written bytes against the file size limit
+ * @param add - Adds the complete file to the parsed body
+ */
+function createFileSink(
+  request: FastifyRequest,
+  file: Omit<UploadedFileStream, 'stream'>,
+  addBytes: (chunk: Buffer) => void,
+  add: (name: string, value: unknown) => void
+): PartSink {
+  const path = join(tmpdir(), `agentcore-upload-${randomUUID()}`)
+  // Readable by the owner only; 'wx' refuses to follow a file planted at the same path
+  const output = createWriteStream(path, { flags: 'wx', mode: 0o600 })
+  // Register immediately so that removeUploads() cleans up after a failed upload too
+  const upload: TemporaryUpload = { path, output }
+  uploads.set(request, [...(uploads.get(request) ?? []), upload])
+
+  return {
+    write: async (chunk): Promise<void> => {
+      addBytes(chunk)
+      if (!output.write(chunk)) {
+        await once(output, 'drain')
+      }
+    },
+    end: async (): Promise<void> => {
+      output.end()
+      await once(output, 'finish')
+      upload.stream = createReadStream(path)
+      add(file.fieldname, { ...file, stream: upload.stream } satisfies UploadedFileStream)
+    },
+  }
+}
+
+/**
+ * Parses the header block of a part into lowercase names and values.
+ *
+ * @param block - Header lines separated by CRLF
+ */
+function parsePartHeaders(block: string): Record<string, string> {
+  const headers: Record<string, string> = {}
+  for (const line of block.split('\r\n')) {
+    const separator = line.indexOf(':')
+    if (separator > 0) {
+      headers[line.slice(0, separator).trim().toLowerCase()] = line.slice(separator + 1).trim()
+    }
+  }
+  return headers
+}
+
+/**
+ * Extracts the field name and filename of a `Content-Disposition: form-data` header.
+ *
+ * @param header - Header value
+ */
+function parseDisposition(header: string): { name?: string; filename?: string } {
+  const params: Record<string, string> = {}
+  for (const match of header.matchAll(/;\s*([^=;\s]+)\s*=\s*(?:"((?:[^"\\]|\\.)*)"|([^;]*))/g)) {
+    const value = match[2] !== undefined ? match[2].replace(/\\(.)/g, '$1') : (match[3] ?? '').trim()
+    params[match[1]!.toLowerCase()] = value
+  }
+
+  // RFC 5987 encoded filenames take precedence, e.g. filename*=UTF-8''r%C3%A9sum%C3%A9.pdf
+  const encoded = /^utf-8''(.*)$/i.exec(params['filename*'] ?? '')
+  const filename = encoded ? safeDecode(encoded[1]!) : params.filename
+  return {
+    ...(params.name !== undefined && { name: params.name }),
+    ...(filename !== undefined && { filename }),
+  }
+}
+
+/**
+ * @param value - Percent-encoded text
+ * @returns The decoded text, or the input when it is not valid percent-encoding
+ */
+function safeDecode(value: string): string {
+  try {
+    return decodeURIComponent(value)
+  } catch {
+    return value
+  }
+}
+
+/**
+ * @param name - Field name, for the error message
+ * @param value - Content of a part sent as application/json
+ * @returns The parsed value
+ * @throws ValidationError when the content is not valid JSON
+ */
+function parseJsonField(name: string, value: string): unknown {
+  try {
+    return JSON.parse(value)
+  } catch {
+    throw new ValidationError(`Multipart field '${name}' is not valid JSON`)
+  }
+}
+
+/**
+ * @param message - Error message
+ * @returns Error sent with status 413
+ */
+function tooLarge(message: string): AgentCoreError {
+  return new AgentCoreError(message, { code: 'PAYLOAD_TOO_LARGE', statusCode: 413 })
+}
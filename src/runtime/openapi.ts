@@ -0,0 +1,430 @@
+import { z } from 'zod'
+import type { OpenApiConfig, OpenApiDocument } from './types.js'
+
+const DEFAULT_TITLE = 'Bedrock AgentCore Runtime'
+const DEFAULT_VERSION = '1.0.0'
+
+// Characters allowed in the keys of components.schemas
+const INVALID_COMPONENT_NAME_CHARACTERS = /[^a-zA-Z0-9._-]/g
+
+/**
+ * Inputs used to build the OpenAPI document for a BedrockAgentCoreApp.
+ */
+export interface OpenApiDocumentOptions {
+  info?: OpenApiConfig
+  requestSchema?: z.ZodSchema | undefined
+  responseSchema?: z.ZodSchema | undefined
+  streamEventSchema?: z.ZodSchema | undefined
+  auth?: boolean
+  websocket?: boolean
+  concurrency?: boolean
+  timeout?: boolean
+  multipart?: boolean
+  jobsPath?: string
+  operations?: OpenApiOperationsOptions
+}
+
+/**
+ * Named operations registered on a BedrockAgentCoreApp and how they are selected.
+ */
+export interface OpenApiOperationsOptions {
+  header: string
+  field: string
+  schemas: Record<
+    string,
+    {
+      requestSchema?: z.ZodSchema | undefined
+      responseSchema?: z.ZodSchema | undefined
+      streamEventSchema?: z.ZodSchema | undefined
+    }
+  >
+}
+
+/**
+ * Headers read from invocation requests when building the RequestContext.
+ */
+const INVOCATION_HEADER_PARAMETERS = [
+  {
+    name: 'x-amzn-bedrock-agentcore-runtime-session-id',
+    in: 'header',
+    required: false,
+    description: 'Runtime session ID. May be provided as `sessionId` in the request body instead.',
+    schema: { type: 'string' },
+  },
+  {
+    name: 'x-amzn-bedrock-agentcore-runtime-request-id',
+    in: 'header',
+    required: false,
+    description: 'Request ID for tracing. Generated when omitted.',
+    schema: { type: 'string' },
+  },
+  {
+    name: 'workloadaccesstoken',
+    in: 'header',
+    required: false,
+    description: 'Workload access token for the Identity SDK.',
+    schema: { type: 'string' },
+  },
+  {
+    name: 'oauth2callbackurl',
+    in: 'header',
+    required: false,
+    description: 'OAuth2 callback URL for authentication flows.',
+    schema: { type: 'string' },
+  },
+]
+
+const ERROR_SCHEMA = {
+  type: 'object',
+  properties: {
+    error: { type: 'string', description: 'Human-readable error message' },
+    code: { type: 'string', description: 'Machine-readable error code, e.g. VALIDATION_ERROR or TIMEOUT' },
+    retryable: { type: 'boolean', description: 'Whether the same request may succeed if retried later' },
+    details: {},
+    requestId: { type: 'string' },
+  },
+  required: ['error', 'code', 'retryable'],
+}
+
+const JOB_STATUS_SCHEMA = {
+  type: 'object',
+  properties: {
+    jobId: { type: 'string' },
+    name: { type: 'string' },
+    state: { type: 'string', enum: ['pending', 'running', 'succeeded', 'failed', 'cancelled'] },
+    sessionId: { type: 'string' },
+    metadata: { type: 'object' },
+    progress: {
+      type: 'object',
+      properties: { percent: { type: 'number', minimum: 0, maximum: 100 }, message: { type: 'string' } },
+    },
+    result: {},
+    error: { $ref: '#/components/schemas/Error' },
+    createdAt: { type: 'string', format: 'date-time' },
+    startedAt: { type: 'string', format: 'date-time' },
+    completedAt: { type: 'string', format: 'date-time' },
+  },
+  required: ['jobId', 'name', 'state', 'createdAt'],
+}
+
+const HEALTH_CHECK_RESPONSE_SCHEMA = {
+  type: 'object',
+  properties: {
+    status: { type: 'string', enum: ['Healthy', 'HealthyBusy'] },
+    time_of_last_update: { type: 'string', format: 'date-time' },
+    checks: {
+      type: 'object',
+      additionalProperties: {
+        type: 'object',
+        properties: {
+          status: { type: 'string', enum: ['pass', 'fail'] },
+          critical: { type: 'boolean' },
+          durationMs: { type: 'number' },
+          message: { type: 'string' },
+          details: { type: 'object' },
+        },
+        required: ['status', 'critical', 'durationMs'],
+      },
+    },
+  },
+  required: ['status', 'time_of_last_update'],
+}
+
+const errorResponse = (description: string): Record<string, unknown> => ({
+  description,
+  content: { 'application/json': { schema: { $ref: '#/components/schemas/Error' } } },
+})
+
+/**
+ * Builds an OpenAPI 3.1 document for the runtime endpoints.
+ *
+ * Request, response and stream event bodies are derived from the handler's Zod schemas;
+ * endpoints without a schema accept or return any JSON value.
+ *
+ * @param options - Handler schemas, document info and enabled features
+ * @returns The OpenAPI document
+ */
+export function buildOpenApiDocument(options: OpenApiDocumentOptions): OpenApiDocument {
+  const schemas: Record<string, unknown> = {
+    Error: ERROR_SCHEMA,
+    HealthCheckResponse: HEALTH_CHECK_RESPONSE_SCHEMA,
+    ...(options.jobsPath && { JobStatus: JOB_STATUS_SCHEMA }),
+  }
+  const requestBodySchema = toJsonSchema(options.requestSchema, 'input', schemas, 'InvocationRequest')
+  const responseBodySchema = toJsonSchema(options.responseSchema, 'output', schemas, 'InvocationResponse')
+  const streamEventSchema = toJsonSchema(options.streamEventSchema, 'output', schemas, 'StreamEvent')
+
+  const operations =
+    options.operations && Object.keys(options.operations.schemas).length > 0 ? options.operations : undefined
+
+  const invocationResponses: Record<string, unknown> = {
+    '200': {
+      description:
+        'Handler result as JSON, or a stream of events when the handler streams: Server-Sent Events, or NDJSON when requested with Accept: application/x-ndjson',
+      content: {
+        'application/json': { schema: responseBodySchema },
+        'multipart/mixed': {
+          schema: {
+            type: 'string',
+            description: 'Result of a handler returning a MultipartResponse: a JSON part followed by one part per file',
+          },
+          'x-json-part-schema': responseBodySchema,
+        },
+        'text/event-stream': {
+          schema: { type: 'string', description: 'Server-Sent Events stream' },
+          'x-stream-event-schema': streamEventSchema,
+        },
+        'application/x-ndjson': {
+          schema: { type: 'string', description: 'One JSON stream event per line' },
+          'x-stream-event-schema': streamEventSchema,
+        },
+      },
+    },
+    '400': errorResponse('Missing session ID or invalid request body'),
+    ...(options.auth && { '401': errorResponse('Missing or invalid bearer token') }),
+    ...(operations && { '404': errorResponse('Unknown operation') }),
+    '406': errorResponse('Streaming response requested without Accept: text/event-stream'),
+    ...(options.concurrency && {
+      '429': {
+        ...errorResponse('Concurrency limit reached'),
+        headers: { 'Retry-After': { description: 'Seconds to wait before retrying', schema: { type: 'integer' } } },
+      },
+    }),
+    '500': errorResponse('Handler error'),
+    '503': errorResponse('Server is shutting down'),
+    ...(options.timeout && { '504': errorResponse('Invocation timed out') }),
+  }
+
+  const paths: OpenApiDocument['paths'] = {
+    '/ping': {
+      get: {
+        operationId: 'ping',
+        summary: 'Health check',
+        responses: {
+          '200': {
+            description: 'Current health status',
+            content: { 'application/json': { schema: { $ref: '#/components/schemas/HealthCheckResponse' } } },
+          },
+          '503': {
+            description: 'Server is draining or a critical health check failed',
+            content: { 'application/json': { schema: { $ref: '#/components/schemas/HealthCheckResponse' } } },
+          },
+        },
+      },
+    },
+    '/invocations': {
+      post: {
+        operationId: 'invoke',
+        summary: 'Invoke the agent',
+        parameters: operations
+          ? [...INVOCATION_HEADER_PARAMETERS, operationHeaderParameter(operations)]
+          : INVOCATION_HEADER_PARAMETERS,
+        requestBody: {
+          required: true,
+          content: {
+            'application/json': { schema: requestBodySchema },
+            ...(options.multipart && { 'multipart/form-data': { schema: requestBodySchema } }),
+          },
+        },
+        responses: invocationResponses,
+        ...(options.auth && { security: [{ bearerAuth: [] }] }),
+        ...(operations && { 'x-operations': operationSchemas(operations, schemas) }),
+      },
+    },
+  }
+
+  if (options.jobsPath) {
+    paths[`${options.jobsPath}/{jobId}`] = {
+      get: {
+        operationId: 'getJob',
+        summary: 'Get the status and result of a background job',
+        parameters: [
+          { name: 'jobId', in: 'path', required: true, schema: { type: 'string' } },
+          INVOCATION_HEADER_PARAMETERS[0],
+        ],
+        responses: {
+          '200': {
+            description: 'Job status',
+            content: { 'application/json': { schema: { $ref: '#/components/schemas/JobStatus' } } },
+          },
+          ...(options.auth && { '401': errorResponse('Missing or invalid bearer token') }),
+          '404': errorResponse('Job not found, expired, or owned by another session'),
+        },
+        ...(options.auth && { security: [{ bearerAuth: [] }] }),
+      },
+    }
+  }
+
+  if (options.websocket) {
+    paths['/ws'] = {
+      get: {
+        operationId: 'connectWebSocket',
+        summary: 'Open a WebSocket connection',
+        parameters: INVOCATION_HEADER_PARAMETERS,
+        responses: { '101': { description: 'Switching protocols to WebSocket' } },
+        ...(options.auth && { security: [{ bearerAuth: [] }] }),
+      },
+    }
+  }
+
+  const info = options.info ?? {}
+  return {
+    openapi: '3.1.0',
+    info: {
+      title: info.title ?? DEFAULT_TITLE,
+      version: info.version ?? DEFAULT_VERSION,
+      ...(info.description !== undefined && { description: info.description }),
+    },
+    paths,
+    components: {
+      schemas,
+      ...(options.auth && {
+        securitySchemes: { bearerAuth: { type: 'http', scheme: 'bearer', bearerFormat: 'JWT' } },
+      }),
+    },
+  }
+}
+
+/**
+ * Describes the header that selects a named operation.
+ *
+ * @param operations - Registered operations
+ * @returns OpenAPI header parameter
+ */
+function operationHeaderParameter(operations: OpenApiOperationsOptions): Record<string, unknown> {
+  return {
+    name: operations.header,
+    in: 'header',
+    required: false,
+    description: `Operation handling the invocation. May be provided as \`${operations.field}\` in the request body instead. Invocations without an operation use the default handler.`,
+    schema: { type: 'string', enum: Object.keys(operations.schemas) },
+  }
+}
+
+/**
+ * Converts the schemas of each named operation, for the `x-operations` extension of /invocations.
+ *
+ * @param operations - Registered operations
+ * @param components - Component schemas of the document, receiving shared definitions
+ * @returns JSON Schemas keyed by operation name
+ */
+function operationSchemas(
+  operations: OpenApiOperationsOptions,
+  components: Record<string, unknown>
+): Record<string, unknown> {
+  return Object.fromEntries(
+    Object.entries(operations.schemas).map(([name, schemas]) => [
+      name,
+      {
+        requestBody: toJsonSchema(schemas.requestSchema, 'input', components, `${name}Request`),
+        response: toJsonSchema(schemas.responseSchema, 'output', components, `${name}Response`),
+        streamEvent: toJsonSchema(schemas.streamEventSchema, 'output', components, `${name}StreamEvent`),
+      },
+    ])
+  )
+}
+
+/**
+ * Converts a Zod schema to a JSON Schema usable inside an OpenAPI 3.1 document.
+ *
+ * Definitions of reused or recursive schemas (`$defs`) are moved to the document's component
+ * schemas, since `#/$defs/...` references would otherwise resolve against the document root.
+ * A schema that references itself is stored as a component too.
+ *
+ * @param schema - Zod schema, or undefined for an unconstrained value
+ * @param io - Whether to describe the schema's input (request) or output (response) type
+ * @param components - Component schemas of the document, receiving the definitions
+ * @param name - Component name used when the schema references itself
+ * @returns JSON Schema object
+ */
+function toJsonSchema(
+  schema: z.ZodSchema | undefined,
+  io: 'input' | 'output',
+  components: Record<string, unknown>,
+  name: string
+): Record<string, unknown> {
+  if (!schema) {
+    return {}
+  }
+  // OpenAPI 3.1 uses JSON Schema 2020-12 by default, so the dialect marker is redundant
+  const {
+    $schema: _dialect,
+    $defs,
+    ...jsonSchema
+  } = z.toJSONSchema(schema, { io, unrepresentable: 'any' }) as Record<string, unknown> & {
+    $defs?: Record<string, unknown>
+  }
+
+  // Each definition is keyed by the reference that points to it, a JSON pointer in which `~`
+  // and `/` are escaped. The root is referenced as `#`
+  const definitions: [ref: string, name: string, value: unknown][] = Object.entries($defs ?? {}).map(
+    ([definition, value]) => [
+      `#/$defs/${definition.replaceAll('~', '~0').replaceAll('/', '~1')}`,
+      toComponentName(definition),
+      value,
+    ]
+  )
+  const recursive = JSON.stringify(jsonSchema).includes('"$ref":"#"')
+  if (recursive) {
+    definitions.push(['#', toComponentName(name), jsonSchema])
+  }
+
+  // Definitions keep their name unless a component with that name describes a different schema
+  const unchanged = new Map(definitions.map(([ref, definition]) => [ref, `#/components/schemas/${definition}`]))
+  const refs = new Map<string, string>()
+  const added: [string, unknown][] = []
+  for (const [ref, definition, value] of definitions) {
+    const serialized = JSON.stringify(rewriteRefs(value, unchanged))
+    let componentName = definition
+    for (let suffix = 2; componentName in components; suffix++) {
+      if (JSON.stringify(components[componentName]) === serialized) {
+        break
+      }
+      componentName = `${definition}${suffix}`
+    }
+    refs.set(ref, `#/components/schemas/${componentName}`)
+    if (!(componentName in components)) {
+      // Reserve the name; references are rewritten once every definition is named
+      components[componentName] = value
+      added.push([componentName, value])
+    }
+  }
+  for (const [componentName, value] of added) {
+    components[componentName] = rewriteRefs(value, refs)
+  }
+
+  return recursive ? { $ref: refs.get('#') } : (rewriteRefs(jsonSchema, refs) as Record<string, unknown>)
+}
+
+/**
+ * Replaces the characters that OpenAPI does not allow in component names, such as spaces
+ * or slashes in operation names and schema ids, with underscores.
+ *
+ * @param name - Operation name or schema id
+ * @returns Name matching `^[a-zA-Z0-9._-]+$`
+ */
+function toComponentName(name: string): string {
+  return name.replace(INVALID_COMPONENT_NAME_CHARACTERS, '_')
+}
+
+/**
+ * Replaces `$ref` values throughout a JSON Schema.
+ *
+ * @param value - JSON Schema or part of one
+ * @param refs - New reference for each reference to replace
+ * @returns Copy of the value with the references replaced
+ */
+function rewriteRefs(value: unknown, refs: Map<string, string>): unknown {
+  if (Array.isArray(value)) {
+    return value.map((item) => rewriteRefs(item, refs))
+  }
+  if (value === null || typeof value !== 'object') {
+    return value
+  }
+  return Object.fromEntries(
+    Object.entries(value).map(([key, item]) => [
+      key,
+      key === '$ref' && typeof item === 'string' ? (refs.get(item) ?? item) : rewriteRefs(item, refs),
+    ])
+  )
+}
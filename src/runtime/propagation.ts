@@ -0,0 +1,152 @@
+import { HttpRequest } from '@smithy/protocol-http'
+import type {
+  BuildHandler,
+  BuildHandlerOptions,
+  HandlerExecutionContext,
+  MetadataBearer,
+  Pluggable,
+} from '@aws-sdk/types'
+import { getContext } from './context.js'
+import type { RequestContext } from './types.js'
+
+/**
+ * Name of the middleware in the AWS SDK client's middleware stack.
+ */
+export const CONTEXT_PROPAGATION_MIDDLEWARE_NAME = 'agentCoreContextPropagationMiddleware'
+
+const CONTEXT_PROPAGATION_OPTIONS: BuildHandlerOptions = {
+  step: 'build',
+  name: CONTEXT_PROPAGATION_MIDDLEWARE_NAME,
+  tags: ['AGENTCORE', 'TRACE'],
+  override: true,
+}
+
+/**
+ * Creates an AWS SDK plugin that links requests made during an invocation to that invocation.
+ *
+ * Inside a handler (whenever getContext() returns a context) each request gets:
+ * - `traceparent`, `tracestate` and `X-Amzn-Trace-Id` headers from `context.trace`, so the
+ *   call joins the invocation's trace (requires config.telemetry)
+ * - a W3C `baggage` header with `agentcore.session_id` and `agentcore.request_id`
+ *
+ * and is logged at debug level to `context.log` with the operation and AWS request ID.
+ * Headers that are already set are left unchanged. Outside an invocation the plugin does nothing.
+ *
+ * CodeInterpreter, Browser and IdentityClient apply it to their clients automatically.
+ *
+ * @returns Plugin for `client.middlewareStack.use()`
+ *
+ * @example
+ * ```typescript
+ * const s3 = new S3Client({})
+ * s3.middlewareStack.use(getContextPropagationPlugin())
+ * ```
+ */
+export function getContextPropagationPlugin<
+  Input extends object = object,
+  Output extends MetadataBearer = MetadataBearer,
+>(): Pluggable<Input, Output> {
+  return {
+    applyToStack: (stack): void => {
+      stack.add(contextPropagationMiddleware<Input, Output>, CONTEXT_PROPAGATION_OPTIONS)
+    },
+  }
+}
+
+/**
+ * Build middleware adding the propagation headers and logging each request.
+ *
+ * @param next - Next handler in the stack
+ * @param handlerContext - Client and command names
+ * @returns Handler for the build step
+ */
+function contextPropagationMiddleware<Input extends object, Output extends MetadataBearer>(
+  next: BuildHandler<Input, Output>,
+  handlerContext: HandlerExecutionContext
+): BuildHandler<Input, Output> {
+  return async (args) => {
+    const context = getContext()
+    if (!context) {
+      return next(args)
+    }
+
+    if (HttpRequest.isInstance(args.request)) {
+      setPropagationHeaders(args.request.headers, context)
+    }
+
+    const fields = {
+      service: handlerContext.clientName,
+      operation: handlerContext.commandName,
+      sessionId: context.sessionId,
+      requestId: context.requestId,
+    }
+    const started = Date.now()
+    try {
+      const result = await next(args)
+      context.log.debug(
+        { ...fields, awsRequestId: result.output?.$metadata?.requestId, durationMs: Date.now() - started },
+        'AWS SDK request completed'
+      )
+      return result
+    } catch (error) {
+      const metadata = (error as { $metadata?: { requestId?: string } } | null)?.$metadata
+      context.log.debug(
+        {
+          ...fields,
+          awsRequestId: metadata?.requestId,
+          durationMs: Date.now() - started,
+          error: error instanceof Error ? error.name : String(error),
+        },
+        'AWS SDK request failed'
+      )
+      throw error
+    }
+  }
+}
+
+/**
+ * Adds trace and baggage headers for the current invocation to an outgoing request.
+ *
+ * @param headers - Request headers, modified in place
+ * @param context - Context of the current invocation
+ */
+function setPropagationHeaders(headers: Record<string, string>, context: RequestContext): void {
+  const setIfAbsent = (name: string, value: string): void => {
+    const lowerName = name.toLowerCase()
+    if (!Object.keys(headers).some((key) => key.toLowerCase() === lowerName)) {
+      headers[name] = value
+    }
+  }
+
+  if (context.trace) {
+    setIfAbsent('traceparent', context.trace.traceparent)
+    if (context.trace.tracestate) {
+      setIfAbsent('tracestate', context.trace.tracestate)
+    }
+    setIfAbsent('X-Amzn-Trace-Id', toXRayTraceHeader(context.trace.traceparent))
+  }
+
+  const baggage: string[] = []
+  if (context.sessionId) {
+    baggage.push(`agentcore.session_id=${encodeURIComponent(context.sessionId)}`)
+  }
+  if (context.requestId) {
+    baggage.push(`agentcore.request_id=${encodeURIComponent(context.requestId)}`)
+  }
+  if (baggage.length > 0) {
+    setIfAbsent('baggage', baggage.join(','))
+  }
+}
+
+/**
+ * Converts a W3C `traceparent` to the equivalent AWS X-Ray trace header. X-Ray trace IDs
+ * are W3C trace IDs split after the 8 hex character timestamp.
+ *
+ * @param traceparent - Valid `traceparent` value
+ * @returns `X-Amzn-Trace-Id` value
+ */
+function toXRayTraceHeader(traceparent: string): string {
+  const [, traceId = '', spanId = '', flags = '00'] = traceparent.split('-')
+  const sampled = parseInt(flags, 16) & 1
+  return `Root=1-${traceId.slice(0, 8)}-${traceId.slice(8)};Parent=${spanId};Sampled=${sampled}`
+}
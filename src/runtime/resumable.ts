@@ -0,0 +1,162 @@
+import type { SSEMessage, SSESource } from '@fastify/sse'
+import type { ResumableStreamsConfig } from './types.js'
+
+const DEFAULT_RETENTION_MS = 5 * 60 * 1000
+const DEFAULT_MAX_EVENTS = 1000
+
+/**
+ * Events recorded for one streaming invocation.
+ */
+export interface BufferedStream {
+  readonly sessionId: string
+  // Recorded chunks, oldest first; the oldest are discarded beyond config.maxEvents
+  readonly events: SSESource[]
+  // Number of chunks recorded, including discarded ones
+  recorded: number
+  finishedAt: number | undefined
+  readonly waiters: Set<() => void>
+}
+
+/**
+ * Records the events of streaming invocations so that a client that reconnects with
+ * `Last-Event-ID` can receive the events it missed.
+ */
+export class StreamBuffer {
+  private readonly _config: ResumableStreamsConfig
+  // Keyed by request ID; insertion order is creation order
+  private readonly _streams: Map<string, BufferedStream> = new Map()
+
+  /**
+   * Creates a new StreamBuffer instance.
+   *
+   * @param config - Retention settings
+   */
+  constructor(config: ResumableStreamsConfig) {
+    this._config = config
+  }
+
+  /**
+   * Looks up the stream of an invocation.
+   *
+   * @param requestId - Request ID of the invocation
+   * @param sessionId - Session of the client; streams of other sessions are not returned
+   * @returns The stream, or undefined when it is unknown, expired or belongs to another session
+   */
+  get(requestId: string, sessionId: string): BufferedStream | undefined {
+    this._prune()
+    const stream = this._streams.get(requestId)
+    return stream?.sessionId === sessionId ? stream : undefined
+  }
+
+  /**
+   * Consumes a generator to the end, recording its chunks. Consumption does not depend on
+   * any client being connected; follow() reads the recorded chunks.
+   *
+   * @param requestId - Request ID of the invocation
+   * @param sessionId - Session of the invocation
+   * @param generator - Stream produced by the handler
+   * @param onError - Converts an error thrown by the generator into the final chunk
+   * @returns The stream, and a promise that resolves once the generator has finished
+   */
+  record(
+    requestId: string,
+    sessionId: string,
+    generator: AsyncGenerator<SSESource>,
+    onError: (error: unknown) => SSESource
+  ): { stream: BufferedStream; completed: Promise<void> } {
+    this._prune()
+
+    const stream: BufferedStream = { sessionId, events: [], recorded: 0, finishedAt: undefined, waiters: new Set() }
+    this._streams.delete(requestId)
+    this._streams.set(requestId, stream)
+
+    const completed = (async (): Promise<void> => {
+      try {
+        for await (const chunk of generator) {
+          this._push(stream, chunk)
+        }
+      } catch (error) {
+        this._push(stream, onError(error))
+      } finally {
+        stream.finishedAt = Date.now()
+        this._notify(stream)
+      }
+    })()
+
+    return { stream, completed }
+  }
+
+  /**
+   * Iterates the chunks of a stream after the given event, then the chunks recorded
+   * later until the stream finishes.
+   *
+   * @param stream - Stream to read
+   * @param lastEventId - ID of the last event the client received; when it is no longer
+   *                      buffered, iteration starts at the oldest buffered chunk
+   */
+  async *follow(stream: BufferedStream, lastEventId?: string): AsyncGenerator<SSESource> {
+    let position = stream.recorded - stream.events.length
+    if (lastEventId !== undefined) {
+      const index = stream.events.findIndex((event) => (event as SSEMessage).id === lastEventId)
+      if (index !== -1) {
+        position += index + 1
+      }
+    }
+
+    while (true) {
+      const first = stream.recorded - stream.events.length
+      // Skip chunks discarded while the reader was behind
+      position = Math.max(position, first)
+      if (position < stream.recorded) {
+        yield stream.events[position - first]!
+        position++
+      } else if (stream.finishedAt !== undefined) {
+        return
+      } else {
+        await new Promise<void>((resolve) => stream.waiters.add(resolve))
+      }
+    }
+  }
+
+  /**
+   * Records a chunk. SSE messages without an ID are numbered by their position in the stream,
+   * starting at 1, so that clients can resume after them.
+   *
+   * @param stream - Stream to add to
+   * @param chunk - Chunk yielded by the handler
+   */
+  private _push(stream: BufferedStream, chunk: SSESource): void {
+    stream.recorded++
+    const isMessage = typeof chunk === 'object' && chunk !== null && 'data' in chunk
+    stream.events.push(isMessage && !chunk.id ? { ...chunk, id: String(stream.recorded) } : chunk)
+    if (stream.events.length > (this._config.maxEvents ?? DEFAULT_MAX_EVENTS)) {
+      stream.events.shift()
+    }
+    this._notify(stream)
+  }
+
+  /**
+   * Wakes up the readers waiting for chunks.
+   *
+   * @param stream - Stream that changed
+   */
+  private _notify(stream: BufferedStream): void {
+    const waiters = [...stream.waiters]
+    stream.waiters.clear()
+    for (const resolve of waiters) {
+      resolve()
+    }
+  }
+
+  /**
+   * Discards streams that finished more than config.retentionMs ago.
+   */
+  private _prune(): void {
+    const cutoff = Date.now() - (this._config.retentionMs ?? DEFAULT_RETENTION_MS)
+    for (const [requestId, stream] of this._streams) {
+      if (stream.finishedAt !== undefined && stream.finishedAt <= cutoff) {
+        this._streams.delete(requestId)
+      }
+    }
+  }
+}
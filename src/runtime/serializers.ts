@@ -0,0 +1,233 @@
+import { Buffer } from 'buffer'
+import { randomUUID } from 'crypto'
+import type { SSESource } from '@fastify/sse'
+import type { ResponseFile, ResponseSerializerConfig } from './types.js'
+
+/**
+ * Content type of newline-delimited JSON streams.
+ */
+export const NDJSON_CONTENT_TYPE = 'application/x-ndjson'
+
+/**
+ * Content type of multipart responses, without the boundary parameter.
+ */
+export const MULTIPART_CONTENT_TYPE = 'multipart/mixed'
+
+/**
+ * Serializers used when no custom serializer is configured for a content type.
+ */
+export const BUILT_IN_SERIALIZERS: ResponseSerializerConfig[] = [
+  {
+    contentType: 'application/json',
+    // Fastify sends strings as-is, so encode them to keep the body valid JSON
+    serializer: (result) => (typeof result === 'string' ? JSON.stringify(result) : result),
+  },
+  {
+    contentType: 'text/plain',
+    serializer: (result) => (typeof result === 'string' ? result : JSON.stringify(result)),
+  },
+  {
+    contentType: 'application/octet-stream',
+    serializer: (result) => (Buffer.isBuffer(result) ? result : Buffer.from(JSON.stringify(result))),
+  },
+]
+
+/**
+ * Media range of an `Accept` header.
+ */
+interface MediaRange {
+  type: string
+  subtype: string
+  q: number
+}
+
+/**
+ * Content type selected for a response.
+ */
+export interface NegotiatedType {
+  contentType: string
+  // False when the content type was only matched by a `*/*` range, or the header is absent
+  explicit: boolean
+}
+
+/**
+ * Selects the content type the client prefers among those offered, using the quality
+ * values of the `Accept` header. Ties go to the offer matched by the more specific media
+ * range, then to the earlier offer.
+ *
+ * @param accept - `Accept` header of the request; absent means any content type
+ * @param offered - Content types the response can be sent as, in order of preference
+ * @returns The selected content type, or undefined when the client accepts none of them
+ */
+export function negotiate(accept: string | undefined, offered: string[]): NegotiatedType | undefined {
+  const ranges = accept ? parseAccept(accept) : [{ type: '*', subtype: '*', q: 1 }]
+
+  let best: { contentType: string; q: number; specificity: number } | undefined
+  for (const contentType of offered) {
+    const [type, subtype] = contentType.toLowerCase().split('/')
+    // The most specific matching range sets the quality of an offer
+    let match: { q: number; specificity: number } | undefined
+    for (const range of ranges) {
+      const specificity =
+        range.type === type && range.subtype === subtype
+          ? 2
+          : range.type === type && range.subtype === '*'
+            ? 1
+            : range.type === '*' && range.subtype === '*'
+              ? 0
+              : -1
+      if (specificity >= 0 && (!match || specificity > match.specificity)) {
+        match = { q: range.q, specificity }
+      }
+    }
+    if (
+      match &&
+      match.q > 0 &&
+      (!best || match.q > best.q || (match.q === best.q && match.specificity > best.specificity))
+    ) {
+      best = { contentType, ...match }
+    }
+  }
+
+  return best && { contentType: best.contentType, explicit: best.specificity > 0 }
+}
+
+/**
+ * Parses the media ranges of an `Accept` header. Parameters other than `q` are ignored.
+ *
+ * @param accept - `Accept` header value
+ */
+function parseAccept(accept: string): MediaRange[] {
+  const ranges: MediaRange[] = []
+  for (const entry of accept.split(',')) {
+    const [mediaType = '', ...params] = entry.split(';').map((part) => part.trim())
+    const [type, subtype] = mediaType.toLowerCase().split('/')
+    if (!type || !subtype) {
+      continue
+    }
+    let q = 1
+    for (const param of params) {
+      const [name, value] = param.split('=').map((part) => part.trim())
+      if (name?.toLowerCase() === 'q') {
+        const parsed = Number(value)
+        q = Number.isFinite(parsed) ? Math.min(Math.max(parsed, 0), 1) : 1
+      }
+    }
+    ranges.push({ type, subtype, q })
+  }
+  return ranges
+}
+
+/**
+ * Converts a streamed chunk to a line of a newline-delimited JSON stream.
+ *
+ * @param chunk - Chunk yielded by the handler
+ */
+export function toNdjsonLine(chunk: SSESource): string {
+  return `${JSON.stringify(Buffer.isBuffer(chunk) ? chunk.toString() : chunk)}\n`
+}
+
+/**
+ * Invocation result made of JSON and files, sent as a `multipart/mixed` response: a JSON
+ * part followed by one attachment part per file.
+ *
+ * Clients that prefer `application/json` receive `{ json, files }` instead, with the file
+ * content base64 encoded.
+ *
+ * @example
+ * ```typescript
+ * process: async (request) => {
+ *   const chart = await renderChart(request.data)
+ *   return new MultipartResponse({ summary: 'Sales are up' }, [
+ *     { filename: 'chart.png', contentType: 'image/png', data: chart },
+ *   ])
+ * }
+ * ```
+ */
+export class MultipartResponse<TJson = unknown> {
+  readonly json: TJson
+  readonly files: ResponseFile[]
+  readonly boundary: string
+
+  /**
+   * Creates a new MultipartResponse instance.
+   *
+   * @param json - Value sent as the JSON part
+   * @param files - Files sent after the JSON part
+   */
+  constructor(json: TJson, files: ResponseFile[] = []) {
+    this.json = json
+    this.files = files
+    this.boundary = `agentcore-${randomUUID()}`
+  }
+
+  /**
+   * Content type of the response, including the boundary.
+   */
+  get contentType(): string {
+    return `${MULTIPART_CONTENT_TYPE}; boundary=${this.boundary}`
+  }
+
+  /**
+   * Encodes the multipart body.
+   *
+   * @returns Body of the response
+   */
+  toBuffer(): Buffer {
+    const parts: Buffer[] = [
+      this._part(
+        { 'content-type': 'application/json', 'content-disposition': 'inline' },
+        Buffer.from(JSON.stringify(this.json) ?? 'null')
+      ),
+    ]
+    for (const file of this.files) {
+      const filename = file.filename.replace(/["\\\r\n]/g, '_')
+      parts.push(
+        this._part(
+          {
+            'content-type': file.contentType ?? 'application/octet-stream',
+            'content-disposition': `attachment; filename="${filename}"`,
+          },
+          toBuffer(file.data)
+        )
+      )
+    }
+    parts.push(Buffer.from(`--${this.boundary}--\r\n`))
+    return Buffer.concat(parts)
+  }
+
+  /**
+   * JSON representation, used when the client prefers `application/json`.
+   */
+  toJSON(): { json: TJson; files: Array<{ filename: string; contentType: string; data: string }> } {
+    return {
+      json: this.json,
+      files: this.files.map((file) => ({
+        filename: file.filename,
+        contentType: file.contentType ?? 'application/octet-stream',
+        data: toBuffer(file.data).toString('base64'),
+      })),
+    }
+  }
+
+  /**
+   * Encodes one part, preceded by the boundary delimiter.
+   *
+   * @param headers - Part headers
+   * @param body - Part content
+   */
+  private _part(headers: Record<string, string>, body: Buffer): Buffer {
+    const head = Object.entries(headers)
+      .map(([name, value]) => `${name}: ${value}\r\n`)
+      .join('')
+    return Buffer.concat([Buffer.from(`--${this.boundary}\r\n${head}\r\n`), body, Buffer.from('\r\n')])
+  }
+}
+
+/**
+ * @param data - File content
+ * @returns The content as a Buffer, without copying binary data
+ */
+function toBuffer(data: ResponseFile['data']): Buffer {
+  return typeof data === 'string' ? Buffer.from(data) : Buffer.from(data.buffer, data.byteOffset, data.byteLength)
+}
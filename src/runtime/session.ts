@@ -0,0 +1,394 @@
+import { randomUUID } from 'crypto'
+import { mkdir, readFile, readdir, rename, unlink, writeFile } from 'fs/promises'
+import { join } from 'path'
+import type { FileSessionStoreOptions, MemorySessionStoreOptions, SessionState, SessionStore } from './types.js'
+
+const DEFAULT_SESSION_TTL_MS = 15 * 60 * 1000
+const DEFAULT_MAX_SESSIONS = 1000
+const SESSION_FILE_SUFFIX = '.json'
+
+/**
+ * Creates the `context.session` accessor for a session.
+ *
+ * @param store - Store holding the session state
+ * @param sessionId - Session the accessor is bound to
+ * @returns Session state accessor
+ */
+export function createSessionState(store: SessionStore, sessionId: string): SessionState {
+  return {
+    get: async <T>(key: string): Promise<T | undefined> => {
+      const serialized = await store.get(sessionId, key)
+      return serialized === undefined ? undefined : (JSON.parse(serialized) as T)
+    },
+    set: async (key: string, value: unknown): Promise<void> => {
+      await store.set(sessionId, key, serializeSessionValue(key, value))
+    },
+    delete: (key: string): Promise<void> => store.delete(sessionId, key),
+    clear: (): Promise<void> => store.clear(sessionId),
+  }
+}
+
+/**
+ * Serializes a session value, rejecting values that would not survive a JSON round trip.
+ *
+ * @param key - Key the value is stored under, for error messages
+ * @param value - Value to serialize
+ * @returns JSON string
+ * @throws TypeError if the value contains functions, symbols, bigints, Maps, Sets or cycles
+ */
+function serializeSessionValue(key: string, value: unknown): string {
+  let serialized: string | undefined
+  try {
+    serialized = JSON.stringify(value, (_key, nested: unknown) => {
+      if (typeof nested === 'function' || typeof nested === 'symbol' || typeof nested === 'bigint') {
+        throw new TypeError(`${typeof nested} values are not supported`)
+      }
+      if (nested instanceof Map || nested instanceof Set) {
+        throw new TypeError(`${nested.constructor.name} values are not supported`)
+      }
+      return nested
+    })
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : String(error)
+    throw new TypeError(`Session value for "${key}" is not JSON-serializable: ${reason}`, { cause: error })
+  }
+  if (serialized === undefined) {
+    throw new TypeError(`Session value for "${key}" is not JSON-serializable: undefined values are not supported`)
+  }
+  return serialized
+}
+
+interface MemorySession {
+  values: Map<string, string>
+  expiresAt: number
+}
+
+/**
+ * In-process session store with least-recently-used eviction and an idle TTL.
+ *
+ * Every access extends the session's expiry. State is lost when the process exits;
+ * use FileSessionStore or an external store to keep it across restarts.
+ *
+ * @example
+ * ```typescript
+ * const app = new BedrockAgentCoreApp({
+ *   invocationHandler: { process: handler },
+ *   config: { sessionStore: new MemorySessionStore({ maxSessions: 100, ttlMs: 60 * 60 * 1000 }) },
+ * })
+ * ```
+ */
+export class MemorySessionStore implements SessionStore {
+  // Map iteration order doubles as the LRU order: oldest access first
+  private readonly _sessions: Map<string, MemorySession> = new Map()
+  private readonly _maxSessions: number
+  private readonly _ttlMs: number
+
+  /**
+   * Creates a new MemorySessionStore instance.
+   *
+   * @param options - Capacity and TTL
+   */
+  constructor(options: MemorySessionStoreOptions = {}) {
+    this._maxSessions = options.maxSessions ?? DEFAULT_MAX_SESSIONS
+    this._ttlMs = options.ttlMs ?? DEFAULT_SESSION_TTL_MS
+  }
+
+  /**
+   * Number of sessions currently held, including expired sessions not yet evicted.
+   */
+  get size(): number {
+    return this._sessions.size
+  }
+
+  async get(sessionId: string, key: string): Promise<string | undefined> {
+    return this._access(sessionId, false)?.values.get(key)
+  }
+
+  async set(sessionId: string, key: string, value: string): Promise<void> {
+    this._access(sessionId, true)!.values.set(key, value)
+  }
+
+  async delete(sessionId: string, key: string): Promise<void> {
+    this._access(sessionId, false)?.values.delete(key)
+  }
+
+  async clear(sessionId: string): Promise<void> {
+    this._sessions.delete(sessionId)
+  }
+
+  async touch(sessionId: string): Promise<void> {
+    this._access(sessionId, false)
+  }
+
+  async close(): Promise<void> {
+    this._sessions.clear()
+  }
+
+  /**
+   * Looks up a session, marking it as most recently used and extending its expiry.
+   *
+   * @param sessionId - Session to look up
+   * @param create - Create the session if it does not exist
+   * @returns The session, or undefined if it does not exist (or expired) and create is false
+   */
+  private _access(sessionId: string, create: boolean): MemorySession | undefined {
+    const now = Date.now()
+    let session = this._sessions.get(sessionId)
+    this._sessions.delete(sessionId)
+    if (session && session.expiresAt <= now) {
+      session = undefined
+    }
+    if (!session) {
+      if (!create) {
+        return undefined
+      }
+      session = { values: new Map(), expiresAt: 0 }
+    }
+
+    session.expiresAt = now + this._ttlMs
+    this._sessions.set(sessionId, session)
+    this._evict(now)
+    return session
+  }
+
+  /**
+   * Removes expired sessions from the front of the LRU order and evicts beyond capacity.
+   *
+   * @param now - Current time in milliseconds
+   */
+  private _evict(now: number): void {
+    for (const [sessionId, session] of this._sessions) {
+      if (this._sessions.size <= this._maxSessions && session.expiresAt > now) {
+        return
+      }
+      this._sessions.delete(sessionId)
+    }
+  }
+}
+
+interface SessionFile {
+  expiresAt: number
+  values: Record<string, string>
+}
+
+/**
+ * Session store that keeps one JSON file per session in a directory, so state survives
+ * process restarts on the same host.
+ *
+ * Writes and touch() extend the session's expiry; expired files are removed when they are
+ * next read, or by prune(). Writes for the same session are serialized within the process
+ * and replace the file atomically.
+ *
+ * @example
+ * ```typescript
+ * const app = new BedrockAgentCoreApp({
+ *   invocationHandler: { process: handler },
+ *   config: { sessionStore: new FileSessionStore({ directory: '/tmp/agent-sessions' }) },
+ * })
+ * ```
+ */
+export class FileSessionStore implements SessionStore {
+  private readonly _directory: string
+  private readonly _ttlMs: number
+  private readonly _locks: Map<string, Promise<void>> = new Map()
+
+  /**
+   * Creates a new FileSessionStore instance.
+   *
+   * @param options - Directory and TTL
+   */
+  constructor(options: FileSessionStoreOptions) {
+    this._directory = options.directory
+    this._ttlMs = options.ttlMs ?? DEFAULT_SESSION_TTL_MS
+  }
+
+  async get(sessionId: string, key: string): Promise<string | undefined> {
+    const file = await this._read(sessionId)
+    return file && Object.hasOwn(file.values, key) ? file.values[key] : undefined
+  }
+
+  set(sessionId: string, key: string, value: string): Promise<void> {
+    return this._update(sessionId, (file) => {
+      file.values[key] = value
+    })
+  }
+
+  delete(sessionId: string, key: string): Promise<void> {
+    return this._update(sessionId, (file) => {
+      delete file.values[key]
+    })
+  }
+
+  clear(sessionId: string): Promise<void> {
+    return this._withLock(sessionId, () => this._remove(sessionId))
+  }
+
+  async touch(sessionId: string): Promise<void> {
+    // Don't create files for sessions that never store anything
+    if (await this._read(sessionId)) {
+      await this._update(sessionId, () => {})
+    }
+  }
+
+  /**
+   * Removes the files of all expired sessions.
+   *
+   * @returns Number of sessions removed
+   */
+  async prune(): Promise<number> {
+    let entries: string[]
+    try {
+      entries = await readdir(this._directory)
+    } catch (error) {
+      if (isNotFound(error)) {
+        return 0
+      }
+      throw error
+    }
+
+    let removed = 0
+    for (const entry of entries) {
+      if (!entry.endsWith(SESSION_FILE_SUFFIX)) {
+        continue
+      }
+      const sessionId = decodeURIComponent(entry.slice(0, -SESSION_FILE_SUFFIX.length))
+      if (await this._removeIfExpired(sessionId)) {
+        removed++
+      }
+    }
+    return removed
+  }
+
+  /**
+   * Reads a session file, removing it if it has expired.
+   *
+   * @param sessionId - Session to read
+   * @returns The session contents, or undefined if missing or expired
+   */
+  private async _read(sessionId: string): Promise<SessionFile | undefined> {
+    const file = await this._readFile(sessionId)
+    if (file && file.expiresAt <= Date.now()) {
+      await this._removeIfExpired(sessionId)
+      return undefined
+    }
+    return file
+  }
+
+  /**
+   * Removes a session file if it has expired, re-checking once queued writes have finished.
+   *
+   * @param sessionId - Session to check
+   * @returns True if the file was removed
+   */
+  private _removeIfExpired(sessionId: string): Promise<boolean> {
+    return this._withLock(sessionId, async () => {
+      const file = await this._readFile(sessionId)
+      if (!file || file.expiresAt > Date.now()) {
+        return false
+      }
+      await this._remove(sessionId)
+      return true
+    })
+  }
+
+  /**
+   * Applies a change to a session file and extends its expiry.
+   *
+   * @param sessionId - Session to update
+   * @param change - Mutates the session contents in place
+   */
+  private _update(sessionId: string, change: (file: SessionFile) => void): Promise<void> {
+    return this._withLock(sessionId, async () => {
+      const existing = await this._readFile(sessionId)
+      const file: SessionFile =
+        existing && existing.expiresAt > Date.now() ? existing : { expiresAt: 0, values: Object.create(null) }
+      change(file)
+      file.expiresAt = Date.now() + this._ttlMs
+
+      await mkdir(this._directory, { recursive: true })
+      // Write to a temporary file and rename so readers never see a partial file
+      const path = this._path(sessionId)
+      const temporaryPath = `${path}.${randomUUID()}.tmp`
+      await writeFile(temporaryPath, JSON.stringify(file), 'utf-8')
+      await rename(temporaryPath, path)
+    })
+  }
+
+  /**
+   * Reads and parses a session file without checking expiry.
+   *
+   * @param sessionId - Session to read
+   * @returns The session contents, or undefined if the file does not exist
+   */
+  private async _readFile(sessionId: string): Promise<SessionFile | undefined> {
+    try {
+      const file = JSON.parse(await readFile(this._path(sessionId), 'utf-8')) as SessionFile
+      // Keys such as __proto__ or constructor must stay plain keys, as in MemorySessionStore
+      file.values = Object.assign(Object.create(null), file.values)
+      return file
+    } catch (error) {
+      if (isNotFound(error)) {
+        return undefined
+      }
+      throw error
+    }
+  }
+
+  /**
+   * Deletes a session file if it exists.
+   *
+   * @param sessionId - Session to remove
+   */
+  private async _remove(sessionId: string): Promise<void> {
+    try {
+      await unlink(this._path(sessionId))
+    } catch (error) {
+      if (!isNotFound(error)) {
+        throw error
+      }
+    }
+  }
+
+  /**
+   * Runs an operation after all previously queued operations for the same session.
+   *
+   * @param sessionId - Session the operation applies to
+   * @param operation - Operation to run
+   * @returns The operation's result
+   */
+  private _withLock<T>(sessionId: string, operation: () => Promise<T>): Promise<T> {
+    const previous = this._locks.get(sessionId) ?? Promise.resolve()
+    const result = previous.then(operation)
+    const settled = result.then(
+      () => {},
+      () => {}
+    )
+    this._locks.set(sessionId, settled)
+    void settled.then(() => {
+      if (this._locks.get(sessionId) === settled) {
+        this._locks.delete(sessionId)
+      }
+    })
+    return result
+  }
+
+  /**
+   * Gets the file path for a session. The session ID is URI-encoded so it cannot escape the directory.
+   *
+   * @param sessionId - Session ID
+   * @returns Absolute or relative file path
+   */
+  private _path(sessionId: string): string {
+    return join(this._directory, `${encodeURIComponent(sessionId)}${SESSION_FILE_SUFFIX}`)
+  }
+}
+
+/**
+ * Checks whether a filesystem error means the file or directory does not exist.
+ *
+ * @param error - Error thrown by fs
+ * @returns True for ENOENT errors
+ */
+function isNotFound(error: unknown): boolean {
+  return (error as { code?: unknown } | null)?.code === 'ENOENT'
+}
@@ -0,0 +1,373 @@
+import { UpstreamError } from './errors.js'
+import type { StreamAdapterEvent, StreamAdapterOptions, StreamUsage } from './types.js'
+
+// Adapter events before they are numbered
+type WithoutId<T> = T extends unknown ? Omit<T, 'id'> : never
+type UnnumberedEvent = WithoutId<StreamAdapterEvent>
+
+/**
+ * Part of a Vercel AI SDK `fullStream`. Only the fields used by the adapter are listed.
+ */
+interface AiSdkStreamPart {
+  type: string
+  text?: unknown
+  toolCallId?: unknown
+  toolName?: unknown
+  input?: unknown
+  output?: unknown
+  error?: unknown
+  finishReason?: unknown
+  totalUsage?: unknown
+}
+
+/**
+ * Event yielded by a Strands `agent.stream()`. Only the fields used by the adapter are listed.
+ */
+interface StrandsStreamEvent {
+  type: string
+  delta?: unknown
+  usage?: unknown
+  toolUseId?: unknown
+  name?: unknown
+  input?: unknown
+  status?: unknown
+  content?: unknown
+  stopReason?: unknown
+}
+
+/**
+ * Event of a Bedrock ConverseStream response. Only the fields used by the adapter are listed.
+ */
+interface ConverseStreamEvent {
+  messageStart?: unknown
+  contentBlockStart?: { contentBlockIndex?: number | undefined; start?: unknown } | undefined
+  contentBlockDelta?: { contentBlockIndex?: number | undefined; delta?: unknown } | undefined
+  contentBlockStop?: { contentBlockIndex?: number | undefined } | undefined
+  messageStop?: { stopReason?: string | undefined } | undefined
+  metadata?: { usage?: unknown } | undefined
+  internalServerException?: unknown
+  modelStreamErrorException?: unknown
+  validationException?: unknown
+  throttlingException?: unknown
+  serviceUnavailableException?: unknown
+}
+
+/**
+ * Converts a Vercel AI SDK `streamText()` result into SSE events.
+ *
+ * Text deltas, tool calls, tool results and total usage are forwarded; the final `message`
+ * event carries the text of the last step and the finish reason. An `error` part ends the
+ * stream with an UpstreamError.
+ *
+ * @param result - `streamText()` result, or its `fullStream`
+ * @param options - Adapter options
+ * @returns Async generator to return from an invocation handler
+ *
+ * @example
+ * ```typescript
+ * process: async function* (request, context) {
+ *   const result = streamText({ model, prompt: request.prompt, abortSignal: context.signal })
+ *   yield* fromAiSdkStream(result)
+ * }
+ * ```
+ */
+export function fromAiSdkStream(
+  result: { fullStream: AsyncIterable<AiSdkStreamPart> } | AsyncIterable<AiSdkStreamPart>,
+  options: StreamAdapterOptions = {}
+): AsyncGenerator<StreamAdapterEvent, void, unknown> {
+  const parts = 'fullStream' in result ? result.fullStream : result
+  return numberEvents(convertAiSdkStream(parts), options)
+}
+
+/**
+ * Converts a Strands `agent.stream()` into SSE events.
+ *
+ * Text deltas, completed tool uses, tool results and the usage of each model call are
+ * forwarded; the final `message` event carries the text of the last model response and the
+ * agent's stop reason.
+ *
+ * @param stream - Stream returned by `agent.stream()`
+ * @param options - Adapter options
+ * @returns Async generator to return from an invocation handler
+ *
+ * @example
+ * ```typescript
+ * process: async function* (request) {
+ *   yield* fromStrandsStream(agent.stream(request.prompt))
+ * }
+ * ```
+ */
+export function fromStrandsStream(
+  stream: AsyncIterable<StrandsStreamEvent>,
+  options: StreamAdapterOptions = {}
+): AsyncGenerator<StreamAdapterEvent, void, unknown> {
+  return numberEvents(convertStrandsStream(stream), options)
+}
+
+/**
+ * Converts a Bedrock `ConverseStreamCommand` response into SSE events.
+ *
+ * Text deltas, tool uses (with their input parsed once the block completes) and usage are
+ * forwarded; the final `message` event carries the response text and stop reason. Exceptions
+ * reported in the stream end it with an UpstreamError.
+ *
+ * @param response - `ConverseStreamCommand` output, or its `stream`
+ * @param options - Adapter options
+ * @returns Async generator to return from an invocation handler
+ *
+ * @example
+ * ```typescript
+ * process: async function* (request, context) {
+ *   const response = await bedrock.send(new ConverseStreamCommand({ modelId, messages }), {
+ *     abortSignal: context.signal,
+ *   })
+ *   yield* fromConverseStream(response)
+ * }
+ * ```
+ */
+export function fromConverseStream(
+  response: { stream?: AsyncIterable<ConverseStreamEvent> | undefined } | AsyncIterable<ConverseStreamEvent>,
+  options: StreamAdapterOptions = {}
+): AsyncGenerator<StreamAdapterEvent, void, unknown> {
+  const stream = Symbol.asyncIterator in response ? response : response.stream
+  return numberEvents(convertConverseStream(stream), options)
+}
+
+/**
+ * Assigns sequential IDs to events, skipping those up to options.lastEventId when set.
+ *
+ * @param events - Events to number
+ * @param options - Adapter options
+ */
+async function* numberEvents(
+  events: AsyncIterable<UnnumberedEvent>,
+  options: StreamAdapterOptions
+): AsyncGenerator<StreamAdapterEvent, void, unknown> {
+  const lastEventId = Number(options.lastEventId ?? 0)
+  const skip = Number.isSafeInteger(lastEventId) && lastEventId > 0 ? lastEventId : 0
+
+  let id = 0
+  for await (const event of events) {
+    id++
+    if (id > skip) {
+      yield { id: String(id), ...event } as StreamAdapterEvent
+    }
+  }
+}
+
+/**
+ * Maps AI SDK stream parts to adapter events.
+ *
+ * @param parts - Parts of a `fullStream`
+ */
+async function* convertAiSdkStream(parts: AsyncIterable<AiSdkStreamPart>): AsyncGenerator<UnnumberedEvent> {
+  let text = ''
+  for await (const part of parts) {
+    switch (part.type) {
+      case 'start-step':
+        text = ''
+        break
+      case 'text-delta':
+        if (typeof part.text === 'string' && part.text) {
+          text += part.text
+          yield { event: 'text', data: { text: part.text } }
+        }
+        break
+      case 'tool-call':
+        yield {
+          event: 'tool-call',
+          data: { id: String(part.toolCallId), name: String(part.toolName), input: part.input },
+        }
+        break
+      case 'tool-result':
+        yield { event: 'tool-result', data: { id: String(part.toolCallId), output: part.output } }
+        break
+      case 'tool-error':
+        yield {
+          event: 'tool-result',
+          data: { id: String(part.toolCallId), output: errorMessage(part.error), isError: true },
+        }
+        break
+      case 'error':
+        throw new UpstreamError(errorMessage(part.error), { cause: part.error })
+      case 'finish':
+        yield { event: 'usage', data: toUsage(part.totalUsage) }
+        yield { event: 'message', data: { text, stopReason: optionalString(part.finishReason) } }
+        break
+    }
+  }
+}
+
+/**
+ * Maps Strands agent events to adapter events. Hook events, which wrap the model events, are ignored.
+ *
+ * @param stream - Events of `agent.stream()`
+ */
+async function* convertStrandsStream(stream: AsyncIterable<StrandsStreamEvent>): AsyncGenerator<UnnumberedEvent> {
+  let text = ''
+  for await (const event of stream) {
+    switch (event.type) {
+      case 'modelMessageStartEvent':
+        text = ''
+        break
+      case 'modelContentBlockDeltaEvent': {
+        const delta = event.delta as { type?: unknown; text?: unknown } | undefined
+        if (delta?.type === 'textDelta' && typeof delta.text === 'string' && delta.text) {
+          text += delta.text
+          yield { event: 'text', data: { text: delta.text } }
+        }
+        break
+      }
+      case 'toolUseBlock':
+        yield {
+          event: 'tool-call',
+          data: { id: String(event.toolUseId), name: String(event.name), input: event.input },
+        }
+        break
+      case 'toolResultBlock':
+        yield {
+          event: 'tool-result',
+          data: {
+            id: String(event.toolUseId),
+            output: event.content,
+            ...(event.status === 'error' && { isError: true }),
+          },
+        }
+        break
+      case 'modelMetadataEvent':
+        if (event.usage) {
+          yield { event: 'usage', data: toUsage(event.usage) }
+        }
+        break
+      case 'agentResult':
+        yield { event: 'message', data: { text, stopReason: optionalString(event.stopReason) } }
+        break
+    }
+  }
+}
+
+/**
+ * Maps ConverseStream events to adapter events, accumulating tool use input until each block completes.
+ *
+ * @param stream - ConverseStream events, undefined when the response has no stream
+ */
+async function* convertConverseStream(
+  stream: AsyncIterable<ConverseStreamEvent> | undefined
+): AsyncGenerator<UnnumberedEvent> {
+  if (!stream) {
+    return
+  }
+
+  let text = ''
+  let stopReason: string | undefined
+  const toolUses = new Map<number, { id: string; name: string; input: string }>()
+
+  for await (const event of stream) {
+    throwStreamException(event)
+
+    if (event.contentBlockStart) {
+      const toolUse = (event.contentBlockStart.start as { toolUse?: { toolUseId?: string; name?: string } } | undefined)
+        ?.toolUse
+      if (toolUse) {
+        toolUses.set(event.contentBlockStart.contentBlockIndex ?? 0, {
+          id: toolUse.toolUseId ?? '',
+          name: toolUse.name ?? '',
+          input: '',
+        })
+      }
+    } else if (event.contentBlockDelta) {
+      const index = event.contentBlockDelta.contentBlockIndex ?? 0
+      const delta = event.contentBlockDelta.delta as { text?: string; toolUse?: { input?: string } } | undefined
+      if (typeof delta?.text === 'string' && delta.text) {
+        text += delta.text
+        yield { event: 'text', data: { text: delta.text } }
+      } else if (delta?.toolUse) {
+        const toolUse = toolUses.get(index)
+        if (toolUse) {
+          toolUse.input += delta.toolUse.input ?? ''
+        }
+      }
+    } else if (event.contentBlockStop) {
+      const index = event.contentBlockStop.contentBlockIndex ?? 0
+      const toolUse = toolUses.get(index)
+      if (toolUse) {
+        toolUses.delete(index)
+        yield { event: 'tool-call', data: { id: toolUse.id, name: toolUse.name, input: parseToolInput(toolUse.input) } }
+      }
+    } else if (event.messageStop) {
+      stopReason = event.messageStop.stopReason
+    } else if (event.metadata?.usage) {
+      yield { event: 'usage', data: toUsage(event.metadata.usage) }
+    }
+  }
+
+  yield { event: 'message', data: { text, stopReason } }
+}
+
+/**
+ * Throws an UpstreamError for the exception members of a ConverseStream event,
+ * such as `throttlingException` or `modelStreamErrorException`.
+ *
+ * @param event - ConverseStream event
+ */
+function throwStreamException(event: ConverseStreamEvent): void {
+  for (const [key, value] of Object.entries(event)) {
+    if (key.endsWith('Exception') && value) {
+      const message = (value as { message?: unknown }).message
+      throw new UpstreamError(typeof message === 'string' ? message : `Bedrock stream reported ${key}`, {
+        retryable: key !== 'validationException',
+        details: { exception: key },
+      })
+    }
+  }
+}
+
+/**
+ * Parses the accumulated JSON input of a tool use, keeping it as a string when it is not valid JSON.
+ *
+ * @param input - Accumulated input deltas
+ */
+function parseToolInput(input: string): unknown {
+  if (!input) {
+    return {}
+  }
+  try {
+    return JSON.parse(input)
+  } catch {
+    return input
+  }
+}
+
+/**
+ * Extracts the token counts from a usage object.
+ *
+ * @param usage - Usage reported by the model or framework
+ */
+function toUsage(usage: unknown): StreamUsage {
+  const { inputTokens, outputTokens, totalTokens } = (usage ?? {}) as Record<string, unknown>
+  return {
+    ...(typeof inputTokens === 'number' && { inputTokens }),
+    ...(typeof outputTokens === 'number' && { outputTokens }),
+    ...(typeof totalTokens === 'number' && { totalTokens }),
+  }
+}
+
+/**
+ * @param value - Value that should be a string
+ * @returns The value when it is a string, otherwise undefined
+ */
+function optionalString(value: unknown): string | undefined {
+  return typeof value === 'string' ? value : undefined
+}
+
+/**
+ * @param error - Error reported by a stream, of any type
+ * @returns The error's message
+ */
+function errorMessage(error: unknown): string {
+  if (typeof error === 'string') {
+    return error
+  }
+  const message = (error as { message?: unknown } | null | undefined)?.message
+  return typeof message === 'string' ? message : String(error)
+}
@@ -0,0 +1,290 @@
+import type * as OpenTelemetry from '@opentelemetry/api'
+import type {
+  Attributes,
+  Context,
+  Counter,
+  Histogram,
+  ObservableCallback,
+  ObservableGauge,
+  Span,
+} from '@opentelemetry/api'
+import { toAgentCoreError } from './errors.js'
+import type { RequestContext, TelemetryConfig, TraceContext } from './types.js'
+
+const INSTRUMENTATION_SCOPE = 'bedrock-agentcore'
+
+// version-traceid-parentid-flags, see https://www.w3.org/TR/trace-context/#traceparent-header
+const TRACEPARENT_PATTERN = /^([\da-f]{2})-([\da-f]{32})-([\da-f]{16})-([\da-f]{2})(-.*)?$/
+
+/**
+ * Transports that get a span: one per /invocations request or /ws connection.
+ */
+export type TelemetryTransport = 'http' | 'websocket'
+
+interface Instruments {
+  invocations: Counter
+  errors: Counter
+  duration: Histogram
+  streamChunks: Counter
+  activeTasks: ObservableGauge
+}
+
+/**
+ * OpenTelemetry instrumentation for the runtime server. Loads `@opentelemetry/api` on
+ * demand so applications that do not enable telemetry do not need it installed.
+ */
+export class RuntimeTelemetry {
+  private readonly _api: typeof OpenTelemetry
+  private readonly _tracer: OpenTelemetry.Tracer
+  private readonly _instruments: Instruments
+  private readonly _observeActiveTasks: ObservableCallback
+
+  /**
+   * Creates a new RuntimeTelemetry instance. Use RuntimeTelemetry.create().
+   *
+   * @param api - The `@opentelemetry/api` module
+   * @param config - Tracer and meter providers
+   * @param getActiveTasks - Returns the number of active async tasks and background jobs
+   */
+  private constructor(api: typeof OpenTelemetry, config: TelemetryConfig, getActiveTasks: () => number) {
+    this._api = api
+    this._tracer = (config.tracerProvider ?? api.trace.getTracerProvider()).getTracer(INSTRUMENTATION_SCOPE)
+    const meter = (config.meterProvider ?? api.metrics.getMeterProvider()).getMeter(INSTRUMENTATION_SCOPE)
+    this._instruments = {
+      invocations: meter.createCounter('agentcore.runtime.invocations', {
+        description: 'Invocations received on /invocations and WebSocket connections opened on /ws',
+      }),
+      errors: meter.createCounter('agentcore.runtime.errors', {
+        description: 'Invocations and WebSocket connections that ended with an error',
+      }),
+      duration: meter.createHistogram('agentcore.runtime.invocation.duration', {
+        description: 'Duration of invocations including streaming, and of WebSocket connections',
+        unit: 'ms',
+      }),
+      streamChunks: meter.createCounter('agentcore.runtime.stream.chunks', {
+        description: 'Server-Sent Events sent by streaming invocations',
+      }),
+      activeTasks: meter.createObservableGauge('agentcore.runtime.async_tasks.active', {
+        description: 'Active async tasks and background jobs',
+      }),
+    }
+    this._observeActiveTasks = (result): void => result.observe(getActiveTasks())
+    this._instruments.activeTasks.addCallback(this._observeActiveTasks)
+  }
+
+  /**
+   * Loads `@opentelemetry/api` and creates the instruments.
+   *
+   * @param config - Tracer and meter providers
+   * @param getActiveTasks - Returns the number of active async tasks and background jobs
+   * @returns The telemetry instance
+   * @throws Error if `@opentelemetry/api` is not installed
+   */
+  static async create(config: TelemetryConfig, getActiveTasks: () => number): Promise<RuntimeTelemetry> {
+    let api: typeof OpenTelemetry
+    try {
+      api = await import('@opentelemetry/api')
+    } catch (error) {
+      throw new Error(
+        'config.telemetry requires the @opentelemetry/api package. Install it with: npm install @opentelemetry/api',
+        { cause: error }
+      )
+    }
+    return new RuntimeTelemetry(api, config, getActiveTasks)
+  }
+
+  /**
+   * Starts the span for an invocation or WebSocket connection, continuing the trace from
+   * the W3C `traceparent` and `tracestate` headers when present.
+   *
+   * @param transport - Transport the request arrived on
+   * @param name - Span name, e.g. 'POST /invocations'
+   * @param headers - Incoming request headers
+   * @param context - Request context providing the session and request IDs
+   * @returns The started span
+   */
+  startInvocation(
+    transport: TelemetryTransport,
+    name: string,
+    headers: Record<string, string | string[] | undefined>,
+    context: RequestContext
+  ): InvocationSpan {
+    const api = this._api
+    const parent = extractTraceContext(api, headers) ?? api.context.active()
+    const attributes: Attributes = { 'agentcore.transport': transport }
+    if (context.sessionId) {
+      attributes['agentcore.session_id'] = context.sessionId
+    }
+    if (context.requestId) {
+      attributes['agentcore.request_id'] = context.requestId
+    }
+
+    const span = this._tracer.startSpan(name, { kind: api.SpanKind.SERVER, attributes }, parent)
+    this._instruments.invocations.add(1, { transport })
+    return new InvocationSpan(api, span, api.trace.setSpan(parent, span), this._instruments, transport)
+  }
+
+  /**
+   * Stops reporting the active task gauge.
+   */
+  shutdown(): void {
+    this._instruments.activeTasks.removeCallback(this._observeActiveTasks)
+  }
+}
+
+/**
+ * The span and metrics of a single invocation or WebSocket connection.
+ */
+export class InvocationSpan {
+  private readonly _api: typeof OpenTelemetry
+  private readonly _span: Span
+  private readonly _context: Context
+  private readonly _instruments: Instruments
+  private readonly _transport: TelemetryTransport
+  private readonly _startedAt: number = Date.now()
+  private _errorType: string | undefined
+  private _ended: boolean = false
+
+  /**
+   * Creates a new InvocationSpan instance. Use RuntimeTelemetry.startInvocation().
+   *
+   * @param api - The `@opentelemetry/api` module
+   * @param span - The started span
+   * @param context - OpenTelemetry context with the span set as active
+   * @param instruments - Metric instruments
+   * @param transport - Transport the request arrived on
+   */
+  constructor(
+    api: typeof OpenTelemetry,
+    span: Span,
+    context: Context,
+    instruments: Instruments,
+    transport: TelemetryTransport
+  ) {
+    this._api = api
+    this._span = span
+    this._context = context
+    this._instruments = instruments
+    this._transport = transport
+  }
+
+  /**
+   * W3C trace context of the span, or undefined if the span has no valid context
+   * (e.g. no tracer provider is registered and there was no incoming `traceparent`).
+   */
+  get traceContext(): TraceContext | undefined {
+    const spanContext = this._span.spanContext()
+    if (!this._api.isSpanContextValid(spanContext)) {
+      return undefined
+    }
+    const flags = spanContext.traceFlags.toString(16).padStart(2, '0')
+    const traceContext: TraceContext = {
+      traceId: spanContext.traceId,
+      spanId: spanContext.spanId,
+      traceparent: `00-${spanContext.traceId}-${spanContext.spanId}-${flags}`,
+    }
+    const tracestate = spanContext.traceState?.serialize()
+    if (tracestate) {
+      traceContext.tracestate = tracestate
+    }
+    return traceContext
+  }
+
+  /**
+   * Runs a function with the span as the active OpenTelemetry span, so spans created by
+   * instrumented libraries in the handler become its children.
+   *
+   * @param fn - Function to run
+   * @returns The function's result
+   */
+  run<T>(fn: () => T): T {
+    return this._api.context.with(this._context, fn)
+  }
+
+  /**
+   * Counts a streamed chunk.
+   */
+  recordChunk(): void {
+    this._instruments.streamChunks.add(1, { transport: this._transport })
+  }
+
+  /**
+   * Records the error that failed the invocation. Only the first error is recorded.
+   *
+   * @param error - The thrown error
+   */
+  recordError(error: unknown): void {
+    if (this._errorType !== undefined) {
+      return
+    }
+    const agentCoreError = toAgentCoreError(error)
+    this._errorType = agentCoreError.code
+    this._span.recordException(error instanceof Error ? error : agentCoreError)
+    this._span.setStatus({ code: this._api.SpanStatusCode.ERROR, message: agentCoreError.message })
+    this._span.setAttribute('error.type', agentCoreError.code)
+  }
+
+  /**
+   * Ends the span and records the duration. Responses with a 5xx status count as errors
+   * even if no error was recorded.
+   *
+   * @param statusCode - HTTP response status, when the transport has one
+   */
+  end(statusCode?: number): void {
+    if (this._ended) {
+      return
+    }
+    this._ended = true
+
+    const attributes: Attributes = { transport: this._transport }
+    if (statusCode !== undefined) {
+      this._span.setAttribute('http.response.status_code', statusCode)
+      attributes['http.response.status_code'] = statusCode
+      if (statusCode >= 500 && this._errorType === undefined) {
+        this._errorType = String(statusCode)
+        this._span.setStatus({ code: this._api.SpanStatusCode.ERROR })
+        this._span.setAttribute('error.type', this._errorType)
+      }
+    }
+    if (this._errorType !== undefined) {
+      attributes['error.type'] = this._errorType
+      this._instruments.errors.add(1, { transport: this._transport, 'error.type': this._errorType })
+    }
+    this._instruments.duration.record(Date.now() - this._startedAt, attributes)
+    this._span.end()
+  }
+}
+
+/**
+ * Builds the parent context from W3C `traceparent` and `tracestate` headers.
+ *
+ * @param api - The `@opentelemetry/api` module
+ * @param headers - Incoming request headers
+ * @returns Context carrying the remote span, or undefined if there is no valid `traceparent`
+ */
+function extractTraceContext(
+  api: typeof OpenTelemetry,
+  headers: Record<string, string | string[] | undefined>
+): Context | undefined {
+  const traceparent = headers['traceparent']
+  const match = typeof traceparent === 'string' ? TRACEPARENT_PATTERN.exec(traceparent.trim()) : null
+  // Version ff is invalid; version 00 must not have extra fields
+  if (!match || match[1] === 'ff' || (match[1] === '00' && match[5] !== undefined)) {
+    return undefined
+  }
+
+  const tracestate = headers['tracestate']
+  const spanContext: OpenTelemetry.SpanContext = {
+    traceId: match[2]!,
+    spanId: match[3]!,
+    traceFlags: parseInt(match[4]!, 16) & api.TraceFlags.SAMPLED,
+    isRemote: true,
+  }
+  if (tracestate) {
+    spanContext.traceState = api.createTraceState(Array.isArray(tracestate) ? tracestate.join(',') : tracestate)
+  }
+  if (!api.isSpanContextValid(spanContext)) {
+    return undefined
+  }
+  return api.trace.setSpanContext(api.ROOT_CONTEXT, spanContext)
+}
@@ -0,0 +1,241 @@
+import type { Buffer } from 'buffer'
+import { randomUUID } from 'crypto'
+import { StringDecoder } from 'string_decoder'
+import type { Readable } from 'stream'
+import type { InjectOptions, LightMyRequestResponse } from 'fastify'
+import type { WebSocket } from '@fastify/websocket'
+import type { BedrockAgentCoreApp } from './app.js'
+import type { TestClientOptions, TestRequestOptions, TestSSEEvent } from './types.js'
+
+const SESSION_ID_HEADER = 'x-amzn-bedrock-agentcore-runtime-session-id'
+const REQUEST_ID_HEADER = 'x-amzn-bedrock-agentcore-runtime-request-id'
+
+/**
+ * The subset of BedrockAgentCoreApp used by TestClient.
+ */
+type InjectableApp = Pick<BedrockAgentCoreApp, 'inject' | 'injectWebSocket'>
+
+type InjectPayload = NonNullable<InjectOptions['payload']>
+
+/**
+ * In-process client for testing agents built on BedrockAgentCoreApp.
+ *
+ * Requests are dispatched through Fastify's inject mechanism, so no port is bound
+ * and no network access is required. Every request carries the AgentCore Runtime
+ * session header, mirroring how the runtime calls the agent.
+ *
+ * @example
+ * ```typescript
+ * const client = createTestClient(app)
+ *
+ * const response = await client.invoke({ message: 'hello' })
+ * expect(response.json()).toEqual({ echo: 'hello' })
+ *
+ * for await (const event of client.stream({ message: 'hello' })) {
+ *   console.log(event.event, event.data)
+ * }
+ * ```
+ */
+export class TestClient {
+  readonly sessionId: string
+
+  private readonly _app: InjectableApp
+
+  /**
+   * Creates a new TestClient instance.
+   *
+   * @param app - The app under test
+   * @param options - Optional client configuration
+   */
+  constructor(app: InjectableApp, options?: TestClientOptions) {
+    this._app = app
+    this.sessionId = options?.sessionId ?? randomUUID()
+  }
+
+  /**
+   * Calls the /ping health check endpoint.
+   *
+   * @returns The simulated HTTP response
+   */
+  async ping(): Promise<LightMyRequestResponse> {
+    return this._app.inject({ method: 'GET', url: '/ping' })
+  }
+
+  /**
+   * Posts a payload to /invocations and waits for the complete response.
+   *
+   * @param payload - Request body; objects are sent as JSON
+   * @param options - Optional per-request session, request ID and headers
+   * @returns The simulated HTTP response
+   */
+  async invoke(payload: unknown, options?: TestRequestOptions): Promise<LightMyRequestResponse> {
+    return this._app.inject({
+      method: 'POST',
+      url: '/invocations',
+      headers: this._buildHeaders(options),
+      ...(payload !== undefined && { payload: payload as InjectPayload }),
+    })
+  }
+
+  /**
+   * Posts a payload to /invocations with Accept: text/event-stream and yields
+   * each Server-Sent Event as it arrives.
+   *
+   * @param payload - Request body; objects are sent as JSON
+   * @param options - Optional per-request session, request ID and headers
+   * @returns Async generator of parsed SSE events
+   * @throws Error if the response is not an SSE stream
+   */
+  async *stream(payload: unknown, options?: TestRequestOptions): AsyncGenerator<TestSSEEvent, void, unknown> {
+    const response = await this._app.inject({
+      method: 'POST',
+      url: '/invocations',
+      headers: { ...this._buildHeaders(options), accept: 'text/event-stream' },
+      ...(payload !== undefined && { payload: payload as InjectPayload }),
+      payloadAsStream: true,
+    })
+
+    const body = response.stream()
+    const contentType = String(response.headers['content-type'] ?? '')
+    if (response.statusCode !== 200 || !contentType.includes('text/event-stream')) {
+      throw new Error(`Expected an SSE stream but received status ${response.statusCode}: ${await readStream(body)}`)
+    }
+
+    yield* parseSSEStream(body)
+  }
+
+  /**
+   * Opens a simulated WebSocket connection to /ws.
+   *
+   * @param options - Optional per-connection session, request ID and headers
+   * @returns The client side of the WebSocket connection
+   */
+  async connectWebSocket(options?: TestRequestOptions): Promise<WebSocket> {
+    return this._app.injectWebSocket(this._buildHeaders(options))
+  }
+
+  /**
+   * Builds the request headers, including the AgentCore Runtime session and request ID headers.
+   *
+   * @param options - Per-request options
+   * @returns Headers to send with the request
+   */
+  private _buildHeaders(options?: TestRequestOptions): Record<string, string> {
+    return {
+      ...options?.headers,
+      [SESSION_ID_HEADER]: options?.sessionId ?? this.sessionId,
+      ...(options?.requestId && { [REQUEST_ID_HEADER]: options.requestId }),
+    }
+  }
+}
+
+/**
+ * Creates an in-process TestClient for a BedrockAgentCoreApp.
+ *
+ * @param app - The app under test
+ * @param options - Optional client configuration
+ * @returns A TestClient bound to the app
+ */
+export function createTestClient(app: InjectableApp, options?: TestClientOptions): TestClient {
+  return new TestClient(app, options)
+}
+
+/**
+ * Reads a stream to completion as a UTF-8 string.
+ *
+ * @param stream - Stream to read
+ * @returns The stream contents
+ */
+async function readStream(stream: Readable): Promise<string> {
+  const decoder = new StringDecoder('utf8')
+  let text = ''
+  for await (const chunk of stream) {
+    text += decoder.write(chunk as Buffer)
+  }
+  return text + decoder.end()
+}
+
+/**
+ * Parses a text/event-stream body into events as they arrive.
+ *
+ * @param stream - Raw response body
+ * @returns Async generator of parsed SSE events
+ */
+async function* parseSSEStream(stream: Readable): AsyncGenerator<TestSSEEvent, void, unknown> {
+  const decoder = new StringDecoder('utf8')
+  let buffer = ''
+
+  for await (const chunk of stream) {
+    buffer += decoder.write(chunk as Buffer)
+
+    // Events are separated by a blank line
+    let boundary = buffer.indexOf('\n\n')
+    while (boundary !== -1) {
+      const event = parseSSEEvent(buffer.slice(0, boundary))
+      buffer = buffer.slice(boundary + 2)
+      if (event) {
+        yield event
+      }
+      boundary = buffer.indexOf('\n\n')
+    }
+  }
+
+  const event = parseSSEEvent(buffer + decoder.end())
+  if (event) {
+    yield event
+  }
+}
+
+/**
+ * Parses a single SSE event block.
+ *
+ * @param block - Lines of one event, without the trailing blank line
+ * @returns The parsed event, or undefined for comment-only blocks (e.g. heartbeats)
+ */
+function parseSSEEvent(block: string): TestSSEEvent | undefined {
+  const dataLines: string[] = []
+  const fields: Omit<TestSSEEvent, 'data'> = {}
+
+  for (const line of block.split('\n')) {
+    if (line === '' || line.startsWith(':')) {
+      continue
+    }
+
+    const separator = line.indexOf(':')
+    const field = separator === -1 ? line : line.slice(0, separator)
+    let value = separator === -1 ? '' : line.slice(separator + 1)
+    if (value.startsWith(' ')) {
+      value = value.slice(1)
+    }
+
+    switch (field) {
+      case 'data':
+        dataLines.push(value)
+        break
+      case 'event':
+        fields.event = value
+        break
+      case 'id':
+        fields.id = value
+        break
+      case 'retry': {
+        const retry = Number(value)
+        if (Number.isInteger(retry)) {
+          fields.retry = retry
+        }
+        break
+      }
+    }
+  }
+
+  if (dataLines.length === 0 && fields.event === undefined && fields.id === undefined) {
+    return undefined
+  }
+
+  const data = dataLines.join('\n')
+  try {
+    return { ...fields, data: JSON.parse(data) }
+  } catch {
+    return { ...fields, data }
+  }
+}
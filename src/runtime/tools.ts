@@ -0,0 +1,92 @@
+import { CodeInterpreter } from '../tools/code-interpreter/client.js'
+import { PlaywrightBrowser } from '../tools/browser/integrations/playwright/client.js'
+import type { SessionTools, SessionToolsConfig } from './types.js'
+
+type ToolName = keyof SessionTools
+
+/**
+ * Tool clients created for one session.
+ */
+interface SessionClients {
+  codeInterpreter?: CodeInterpreter
+  browser?: PlaywrightBrowser
+}
+
+/**
+ * Creates tool clients per runtime session and stops their AgentCore sessions when the
+ * runtime session ends.
+ */
+export class SessionToolPool {
+  private readonly _config: SessionToolsConfig
+  private readonly _onError: (error: unknown, sessionId: string, tool: ToolName) => void
+  private readonly _sessions: Map<string, SessionClients> = new Map()
+
+  /**
+   * Creates a new SessionToolPool instance.
+   *
+   * @param config - Tool client settings
+   * @param onError - Receives errors thrown when stopping a client
+   */
+  constructor(config: SessionToolsConfig, onError: (error: unknown, sessionId: string, tool: ToolName) => void) {
+    this._config = config
+    this._onError = onError
+  }
+
+  /**
+   * IDs of the sessions with at least one tool client.
+   */
+  get sessionIds(): string[] {
+    return [...this._sessions.keys()]
+  }
+
+  /**
+   * Returns the tool accessors of a session, exposed as `context.tools`.
+   *
+   * @param sessionId - Runtime session ID
+   * @returns Accessors creating each client on first call
+   */
+  forSession(sessionId: string): SessionTools {
+    return {
+      codeInterpreter: () =>
+        (this._clients(sessionId).codeInterpreter ??= new CodeInterpreter(this._config.codeInterpreter ?? {})),
+      browser: () => (this._clients(sessionId).browser ??= new PlaywrightBrowser(this._config.browser ?? {})),
+    }
+  }
+
+  /**
+   * Stops the AgentCore sessions of a runtime session's clients and forgets them, so that
+   * the next use creates new clients. Errors are passed to onError.
+   *
+   * @param sessionId - Runtime session that ended
+   */
+  async release(sessionId: string): Promise<void> {
+    const clients = this._sessions.get(sessionId)
+    if (!clients) {
+      return
+    }
+    this._sessions.delete(sessionId)
+
+    await Promise.all(
+      (Object.entries(clients) as [ToolName, CodeInterpreter | PlaywrightBrowser][]).map(async ([tool, client]) => {
+        try {
+          await client.stopSession()
+        } catch (error) {
+          this._onError(error, sessionId, tool)
+        }
+      })
+    )
+  }
+
+  /**
+   * @param sessionId - Runtime session ID
+   * @returns The clients of the session, registering the session if needed
+   */
+  private _clients(sessionId: string): SessionClients {
+    let clients = this._sessions.get(sessionId)
+    if (!clients) {
+      clients = {}
+      this._sessions.set(sessionId, clients)
+    }
+    return clients
+  }
+}
@@ -0,0 +1,328 @@
+import { Buffer } from 'buffer'
+import { appendFile, mkdir, readFile } from 'fs/promises'
+import { dirname } from 'path'
+import type { SSESource } from '@fastify/sse'
+import type {
+  RequestContext,
+  TranscriptConfig,
+  TranscriptDifference,
+  TranscriptRecord,
+  TranscriptSink,
+} from './types.js'
+import { toAgentCoreError } from './errors.js'
+
+/**
+ * Value recorded in place of redacted header values.
+ */
+export const REDACTED = '[Redacted]'
+
+// Compared by app.replay(); the other fields describe the invocation
+const COMPARED_FIELDS = ['status', 'result', 'chunks', 'error'] as const
+
+/**
+ * Sink appending each record as one line of a JSONL file. Writes are serialized so that
+ * lines of concurrent invocations never interleave.
+ */
+export class FileTranscriptSink implements TranscriptSink {
+  private readonly _path: string
+  private _pending: Promise<void> = Promise.resolve()
+
+  /**
+   * Creates a new FileTranscriptSink instance.
+   *
+   * @param path - JSONL file; it and its directory are created if missing
+   */
+  constructor(path: string) {
+    this._path = path
+  }
+
+  write(record: TranscriptRecord): Promise<void> {
+    const line = `${JSON.stringify(record)}\n`
+    const write = this._pending.then(async () => {
+      await mkdir(dirname(this._path), { recursive: true })
+      await appendFile(this._path, line)
+    })
+    this._pending = write.catch(() => {})
+    return write
+  }
+
+  async close(): Promise<void> {
+    await this._pending
+  }
+}
+
+/**
+ * Reads the records of a JSONL transcript.
+ *
+ * @param path - JSONL file written by FileTranscriptSink
+ * @returns Records in file order
+ */
+export async function readTranscript(path: string): Promise<TranscriptRecord[]> {
+  const content = await readFile(path, 'utf8')
+  return content
+    .split('\n')
+    .filter((line) => line.trim())
+    .map((line) => JSON.parse(line) as TranscriptRecord)
+}
+
+/**
+ * Compares the status, result, chunks and error of two records.
+ *
+ * @param expected - Recorded invocation
+ * @param actual - Replayed invocation
+ * @param ignore - Paths excluded from the comparison (see ReplayOptions.ignore)
+ * @returns Differing values, in traversal order
+ */
+export function diffRecords(
+  expected: TranscriptRecord,
+  actual: TranscriptRecord,
+  ignore: string[] = []
+): TranscriptDifference[] {
+  const patterns = ignore.map(toPathPattern)
+  const differences: TranscriptDifference[] = []
+  for (const field of COMPARED_FIELDS) {
+    collectDifferences(expected[field], actual[field], field, patterns, differences)
+  }
+  return differences
+}
+
+/**
+ * Records invocations to the configured sink, and captures the records of invocations
+ * replayed by app.replay().
+ */
+export class TranscriptRecorder {
+  private readonly _sink: TranscriptSink | undefined
+  private readonly _filter: TranscriptConfig['filter']
+  private readonly _redact: Set<string>
+  private readonly _onError: (error: unknown) => void
+  // Keyed by request ID; undefined until the replayed invocation finishes
+  private readonly _captures: Map<string, TranscriptRecord | undefined> = new Map()
+
+  /**
+   * Creates a new TranscriptRecorder instance.
+   *
+   * @param config - Recording settings; undefined when only replays are captured
+   * @param redactHeaders - Headers redacted in addition to Authorization and config.redactHeaders
+   * @param onError - Receives errors thrown by the sink
+   */
+  constructor(config: TranscriptConfig | undefined, redactHeaders: string[], onError: (error: unknown) => void) {
+    const sink = config?.sink
+    this._sink = typeof sink === 'string' ? new FileTranscriptSink(sink) : sink
+    this._filter = config?.filter
+    this._redact = new Set(
+      ['authorization', ...redactHeaders, ...(config?.redactHeaders ?? [])].map((name) => name.toLowerCase())
+    )
+    this._onError = onError
+  }
+
+  /**
+   * Starts the record of an invocation once its request has been validated.
+   *
+   * @param context - Context of the invocation
+   * @param request - Request passed to the handler
+   * @returns The record in progress, or undefined when the invocation is not recorded
+   */
+  start(context: RequestContext, request: unknown): TranscriptEntry | undefined {
+    const requestId = context.requestId ?? ''
+    const captured = this._captures.has(requestId)
+    if (!captured && (!this._sink || this._filter?.(context) === false)) {
+      return undefined
+    }
+
+    const headers: Record<string, string> = {}
+    for (const [name, value] of Object.entries(context.headers)) {
+      headers[name] = this._redact.has(name.toLowerCase()) ? REDACTED : value
+    }
+    const record: TranscriptRecord = {
+      timestamp: new Date().toISOString(),
+      durationMs: 0,
+      requestId,
+      sessionId: context.sessionId,
+      ...(context.operation !== undefined && { operation: context.operation }),
+      headers,
+      request,
+      status: 'completed',
+    }
+    return new TranscriptEntry(record, (finished) => this._finish(finished, captured))
+  }
+
+  /**
+   * Captures the record of the invocation with the given request ID instead of writing it.
+   *
+   * @param requestId - Request ID the replayed invocation is sent with
+   */
+  capture(requestId: string): void {
+    this._captures.set(requestId, undefined)
+  }
+
+  /**
+   * Removes a capture.
+   *
+   * @param requestId - Request ID passed to capture()
+   * @returns The captured record, or undefined when the invocation did not reach the handler
+   */
+  takeCapture(requestId: string): TranscriptRecord | undefined {
+    const record = this._captures.get(requestId)
+    this._captures.delete(requestId)
+    return record
+  }
+
+  /**
+   * Waits for pending writes and closes the sink.
+   */
+  async close(): Promise<void> {
+    await this._sink?.close?.()
+  }
+
+  /**
+   * Stores a finished record.
+   *
+   * @param record - Finished record
+   * @param captured - Whether the invocation is a replay
+   */
+  private _finish(record: TranscriptRecord, captured: boolean): void {
+    if (captured) {
+      // Compare the values as they would be read back from a transcript
+      if (this._captures.has(record.requestId)) {
+        this._captures.set(record.requestId, JSON.parse(JSON.stringify(record)) as TranscriptRecord)
+      }
+      return
+    }
+    try {
+      Promise.resolve(this._sink?.write(record)).catch(this._onError)
+    } catch (error) {
+      this._onError(error)
+    }
+  }
+}
+
+/**
+ * Record of an invocation in progress. Only the first outcome is recorded.
+ */
+export class TranscriptEntry {
+  private readonly _record: TranscriptRecord
+  private readonly _onFinish: (record: TranscriptRecord) => void
+  private readonly _startedAt: number = Date.now()
+  private _finished: boolean = false
+
+  /**
+   * Creates a new TranscriptEntry instance.
+   *
+   * @param record - Record with the invocation's context and request
+   * @param onFinish - Receives the record once the outcome is known
+   */
+  constructor(record: TranscriptRecord, onFinish: (record: TranscriptRecord) => void) {
+    this._record = record
+    this._onFinish = onFinish
+  }
+
+  /**
+   * Records the result of a non-streaming invocation.
+   *
+   * @param result - Result sent to the client
+   */
+  complete(result: unknown): void {
+    this._finish({ status: 'completed', result })
+  }
+
+  /**
+   * Records the error that failed the invocation.
+   *
+   * @param error - Thrown value
+   */
+  fail(error: unknown): void {
+    const { message, code } = toAgentCoreError(error)
+    this._finish({ status: 'failed', error: { message, code } })
+  }
+
+  /**
+   * Records the chunks of a stream as they are consumed.
+   *
+   * @param stream - Stream sent to the client
+   * @returns The same chunks; the record finishes when the stream ends, fails or is closed early
+   */
+  async *recordStream(stream: AsyncGenerator<SSESource>): AsyncGenerator<SSESource> {
+    const chunks: unknown[] = []
+    this._record.chunks = chunks
+    try {
+      for await (const chunk of stream) {
+        chunks.push(Buffer.isBuffer(chunk) ? chunk.toString() : chunk)
+        yield chunk
+      }
+      this._finish({ status: 'completed' })
+    } catch (error) {
+      this.fail(error)
+      throw error
+    } finally {
+      // The client disconnected before the stream ended
+      this._finish({ status: 'cancelled' })
+    }
+  }
+
+  /**
+   * @param outcome - Fields describing how the invocation ended
+   */
+  private _finish(outcome: Partial<TranscriptRecord>): void {
+    if (this._finished) {
+      return
+    }
+    this._finished = true
+    this._onFinish({ ...this._record, ...outcome, durationMs: Date.now() - this._startedAt })
+  }
+}
+
+/**
+ * @param path - Ignored path, where `*` matches one property name or index
+ * @returns Pattern matching the path and everything below it
+ */
+function toPathPattern(path: string): RegExp {
+  const escaped = path.replace(/[.+?^${}()|[\]\\]/g, '\\$&').replace(/\*/g, '[^.[\\]]+')
+  return new RegExp(`^${escaped}(?=$|[.[])`)
+}
+
+/**
+ * Walks arrays and plain objects, adding the values that differ.
+ *
+ * @param expected - Recorded value
+ * @param actual - Replayed value
+ * @param path - Location of the values
+ * @param ignore - Patterns of ignored paths
+ * @param differences - Receives the differing values
+ */
+function collectDifferences(
+  expected: unknown,
+  actual: unknown,
+  path: string,
+  ignore: RegExp[],
+  differences: TranscriptDifference[]
+): void {
+  if (ignore.some((pattern) => pattern.test(path))) {
+    return
+  }
+
+  if (Array.isArray(expected) && Array.isArray(actual)) {
+    for (let index = 0; index < Math.max(expected.length, actual.length); index++) {
+      collectDifferences(expected[index], actual[index], `${path}[${index}]`, ignore, differences)
+    }
+    return
+  }
+
+  if (isPlainObject(expected) && isPlainObject(actual)) {
+    for (const key of new Set([...Object.keys(expected), ...Object.keys(actual)])) {
+      collectDifferences(expected[key], actual[key], `${path}.${key}`, ignore, differences)
+    }
+    return
+  }
+
+  if (!Object.is(expected, actual)) {
+    differences.push({ path, expected, actual })
+  }
+}
+
+/**
+ * @param value - Value to check
+ * @returns True for objects that are not arrays or null
+ */
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
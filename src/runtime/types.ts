@@ -1,4 +1,5 @@
 import type { AwsCredentialIdentityProvider } from '@aws-sdk/types'
+import type { JsonWebKey } from 'crypto'
 import type {
   FastifyBodyParser,
   FastifyContentTypeParser,
@@ -7,6 +8,7 @@ import type {
   FastifyRequest,
 } from 'fastify'
 import { Buffer } from 'buffer'
+import type { Readable } from 'stream'
 import { z } from 'zod'
 
 // =============================================================================
@@ -14,7 +16,16 @@ import { z } from 'zod'
 // =============================================================================
 
 import type { WebSocket } from '@fastify/websocket'
+import type { MeterProvider, TracerProvider } from '@opentelemetry/api'
 import type { SSESource } from '@fastify/sse'
+import type { BedrockAgentCoreApp } from './app.js'
+import type { AgentCoreError } from './errors.js'
+import type { TypedWebSocket } from './websocket.js'
+import type { MultipartResponse } from './serializers.js'
+import type { CodeInterpreter } from '../tools/code-interpreter/client.js'
+import type { CodeInterpreterConfig } from '../tools/code-interpreter/types.js'
+import type { PlaywrightBrowser } from '../tools/browser/integrations/playwright/client.js'
+import type { BrowserClientConfig } from '../tools/browser/types.js'
 /**
  * Context provided to handler functions for each invocation request.
  */
@@ -26,7 +37,8 @@ export interface RequestContext {
 
   /**
    * HTTP headers from the incoming request.
-   * Filtered to include only Authorization and Custom-* headers.
+   * Filtered to Authorization, Custom-* and the headers matched by `config.headers.allow`,
+   * minus those matched by `config.headers.deny`.
    */
   headers: Record<string, string>
 
@@ -55,6 +67,90 @@ export interface RequestContext {
    * Handlers should use this for all logging to ensure proper request correlation.
    */
   log: FastifyBaseLogger
+
+  /**
+   * Verified claims from the bearer JWT in the Authorization header.
+   * Only set when `config.auth` is configured on BedrockAgentCoreApp.
+   */
+  identity?: JwtClaims | undefined
+
+  /**
+   * Aborted when the invocation should stop: the client disconnected, the invocation
+   * timeout elapsed, or shutdown is closing connections forcibly. For WebSocket
+   * connections it is aborted when the socket closes.
+   * Always set by BedrockAgentCoreApp; `signal.reason` describes the cause.
+   */
+  signal?: globalThis.AbortSignal | undefined
+
+  /**
+   * State scoped to this session that persists across invocations, backed by
+   * `config.sessionStore`. Set by BedrockAgentCoreApp when the request has a session ID.
+   */
+  session?: SessionState | undefined
+
+  /**
+   * W3C trace context of the span for this invocation, for propagating the trace to
+   * downstream calls. Only set when `config.telemetry` is enabled and the span is sampled
+   * or continues an incoming `traceparent`.
+   */
+  trace?: TraceContext | undefined
+
+  /**
+   * Value of the `Last-Event-ID` header, sent by SSE clients when they reconnect.
+   */
+  lastEventId?: string | undefined
+
+  /**
+   * Name of the operation handling the invocation, when it was routed to a handler
+   * registered with `app.addOperation()`.
+   */
+  operation?: string | undefined
+
+  /**
+   * Tool clients of this session, reused across its invocations and stopped when the session
+   * ends. Set by BedrockAgentCoreApp when `config.tools` is set and the request has a session ID.
+   */
+  tools?: SessionTools | undefined
+}
+
+/**
+ * W3C trace context identifying the span of an invocation.
+ */
+export interface TraceContext {
+  /**
+   * 32 hex character trace ID.
+   */
+  traceId: string
+
+  /**
+   * 16 hex character span ID of the invocation span.
+   */
+  spanId: string
+
+  /**
+   * Value for the `traceparent` header of outgoing requests, making them children of the invocation span.
+   */
+  traceparent: string
+
+  /**
+   * Value for the `tracestate` header of outgoing requests, when the incoming request had one.
+   */
+  tracestate?: string
+}
+
+/**
+ * OpenTelemetry instrumentation settings. Requires the `@opentelemetry/api` package.
+ */
+export interface TelemetryConfig {
+  /**
+   * Tracer provider for invocation spans. Defaults to the globally registered provider.
+   */
+  tracerProvider?: TracerProvider
+
+  /**
+   * Meter provider for runtime metrics. Defaults to the globally registered provider.
+   */
+  meterProvider?: MeterProvider
 }
 
 /**
@@ -63,15 +159,58 @@ export interface RequestContext {
  * The handler accepts and returns unknown types to support
  * arbitrary JSON payloads from AgentCore Runtime. The handler can also
  * return an async generator for streaming responses via Server-Sent Events.
+ * When response schemas are configured, `TResponse` and `TStreamEvent` narrow
+ * the return type to the schema outputs. `TContext` types the fields added by
+ * `config.contextFactory`.
  *
  * @param request - The request payload from AgentCore Runtime
  * @param context - Additional context including sessionId and headers
  * @returns Response data (any serializable type) or async generator for streaming
  */
-export type InvocationHandler<TRequest = unknown> = (
+export type InvocationHandler<
+  TRequest = unknown,
+  TResponse = unknown,
+  TStreamEvent = SSESource,
+  TContext extends object = object,
+> = (
   request: TRequest,
-  context: RequestContext
-) => Promise<unknown> | unknown | AsyncGenerator<SSESource, void, unknown>
+  context: RequestContext & TContext
+) =>
+  | Promise<TResponse | MultipartResponse<TResponse>>
+  | TResponse
+  | MultipartResponse<TResponse>
+  | AsyncGenerator<TStreamEvent, void, unknown>
+
+/**
+ * Continues an invocation middleware chain.
+ *
+ * @param request - Optional replacement request passed to the rest of the chain.
+ *                  When omitted, the current request is passed through unchanged.
+ * @returns The result produced by the rest of the chain (possibly an async generator)
+ */
+export type InvocationNext<TRequest = unknown> = (request?: TRequest) => Promise<unknown>
+
+/**
+ * Middleware that wraps invocation handler execution.
+ *
+ * Middleware runs in registration order after request validation, receives the parsed
+ * request and the RequestContext, and calls `next()` to continue the chain. Code before
+ * `next()` runs before the handler; code after it can inspect or replace the result.
+ * Streaming results are async generators and can be wrapped by returning a new generator.
+ * Returning without calling `next()` short-circuits the handler.
+ *
+ * Errors thrown with a numeric `statusCode` property (4xx/5xx) are returned with that status.
+ *
+ * @param request - The validated request payload
+ * @param context - Request context for the invocation
+ * @param next - Continues the chain
+ * @returns The invocation result
+ */
+export type InvocationMiddleware<TRequest = unknown, TContext extends object = object> = (
+  request: TRequest,
+  context: RequestContext & TContext,
+  next: InvocationNext<TRequest>
+) => Promise<unknown> | unknown
 
 /**
  * WebSocket handler function type for processing WebSocket connections.
@@ -79,7 +218,60 @@ export type InvocationHandler<TRequest = unknown> = (
  * @param connection - Fastify WebSocket connection object
  * @param context - Request context including sessionId and headers
  */
-export type WebSocketHandler = (socket: WebSocket, context: RequestContext) => Promise<void> | void
+export type WebSocketHandler<TContext extends object = object> = (
+  socket: WebSocket,
+  context: RequestContext & TContext
+) => Promise<void> | void
+
+/**
+ * Definition of a WebSocket handler with JSON framing and schema-validated messages.
+ * Pass it to createWebSocketHandler() to get a WebSocketHandler.
+ */
+export interface TypedWebSocketHandlerConfig<
+  TInboundSchema extends z.ZodSchema = z.ZodSchema<unknown>,
+  TOutboundSchema extends z.ZodSchema = z.ZodSchema<unknown>,
+> {
+  /**
+   * Schema for messages received from the client. Messages that are not valid JSON or do
+   * not match are answered with a VALIDATION_ERROR error frame and not delivered.
+   */
+  inboundSchema: TInboundSchema
+
+  /**
+   * Schema for messages sent with send(). Messages that do not match throw instead of being sent.
+   */
+  outboundSchema?: TOutboundSchema
+
+  /**
+   * Handles the connection. The connection is closed with code 1000 when it returns, and
+   * with code 1011 and an error frame when it throws.
+   *
+   * @param connection - Typed connection; iterate it to receive validated messages
+   * @param context - Request context including sessionId and headers
+   */
+  process: (
+    connection: TypedWebSocket<z.infer<TInboundSchema>, z.infer<TOutboundSchema>>,
+    context: RequestContext
+  ) => Promise<void> | void
+
+  /**
+   * Interval in milliseconds between ping frames. A connection that has not answered the
+   * previous ping with a pong is terminated. Defaults to 30000; `false` disables keepalives.
+   */
+  keepAliveIntervalMs?: number | false
+
+  /**
+   * Closes the connection with an error frame when no message is received for this many
+   * milliseconds. Disabled by default.
+   */
+  idleTimeoutMs?: number
+
+  /**
+   * Maximum number of received messages waiting to be validated or iterated. The connection
+   * is closed with code 1008 when a client sends more. Defaults to 100.
+   */
+  maxBufferedMessages?: number
+}
 
 /**
  * Content type parser configuration using Fastify's native types.
@@ -140,10 +332,108 @@ export interface ContentTypeParserConfig {
   bodyLimit?: number
 }
 
+/**
+ * Response serializer for non-streaming invocation results, selected by the client's
+ * `Accept` header.
+ * @example
+ * ```typescript
+ * const app = new BedrockAgentCoreApp({
+ *   invocationHandler: { process: myHandler },
+ *   config: {
+ *     responseSerializers: [
+ *       {
+ *         contentType: 'application/xml',
+ *         serializer: (result) => toXML(result)
+ *       }
+ *     ]
+ *   }
+ * })
+ * ```
+ */
+export interface ResponseSerializerConfig {
+  /**
+   * Content type produced (e.g., 'application/xml', 'text/csv'). Matched against the
+   * media ranges of the `Accept` header, such as 'application/*'.
+   */
+  contentType: string
+
+  /**
+   * Converts the handler result to the response body: a string, Buffer or readable
+   * stream, or a value Fastify sends as JSON.
+   */
+  serializer: (result: unknown, context: RequestContext) => unknown
+}
+
+/**
+ * File sent alongside JSON in a multipart response.
+ */
+export interface ResponseFile {
+  /**
+   * File name, sent in the part's Content-Disposition header.
+   */
+  filename: string
+
+  /**
+   * File content.
+   */
+  data: Buffer | Uint8Array | string
+
+  /**
+   * Content type of the file. Defaults to 'application/octet-stream'.
+   */
+  contentType?: string
+}
+
+/**
+ * Which request headers are copied into `context.headers`, and which are redacted in logs.
+ * Header names are matched case-insensitively; a trailing `*` matches a prefix.
+ * @example
+ * ```typescript
+ * headers: {
+ *   allow: ['x-tenant-id', 'x-feature-*'],
+ *   deny: ['authorization'],
+ *   redact: ['authorization', 'x-api-key'],
+ * }
+ * ```
+ */
+export interface HeadersConfig {
+  /**
+   * Headers copied into `context.headers` in addition to `Authorization` and
+   * `X-Amzn-Bedrock-AgentCore-Runtime-Custom-*` headers, which are always copied unless denied.
+   */
+  allow?: string[]
+
+  /**
+   * Headers never copied into `context.headers`, even when they are allowed.
+   */
+  deny?: string[]
+
+  /**
+   * Headers whose values are replaced with '[Redacted]' in log entries, under `req.headers`,
+   * `headers` and `context.headers`. Exact names only; prefixes are not supported.
+   */
+  redact?: string[]
+}
+
+/**
+ * Derives additional fields for the context of an invocation or WebSocket connection, such
+ * as a tenant ID or feature flags. Runs after authentication and session validation; the
+ * returned fields are added to the context passed to middleware and handlers and returned by
+ * getContext(). Throwing rejects the request with the error's status (500 by default).
+ *
+ * @param request - Fastify request object
+ * @param context - Context of the request, including `identity` when auth is configured
+ * @returns Fields to add to the context; they must not replace built-in fields
+ */
+export type ContextFactory<TContext extends object = object> = (
+  request: FastifyRequest,
+  context: RequestContext
+) => TContext | Promise<TContext>
+
 /**
  * Configuration options for BedrockAgentCoreApp.
  */
-export interface BedrockAgentCoreAppConfig {
+export interface BedrockAgentCoreAppConfig<TContext extends object = object> {
   /**
    * Logging configuration options.
    */
@@ -232,79 +522,1518 @@ export interface BedrockAgentCoreAppConfig {
    * 'application/json' and 'text/plain' are natively supported.
    */
   contentTypeParsers?: ContentTypeParserConfig[]
-}
 
-/**
- * Parameters for BedrockAgentCoreApp constructor.
- */
-export interface BedrockAgentCoreAppParams<TSchema extends z.ZodSchema = z.ZodSchema<unknown>> {
   /**
-   * Invocation handler configuration with validation and typing.
+   * Maximum request body size in bytes, after decompression. Applies to every content type
+   * parser without its own bodyLimit. Defaults to Fastify's limit of 1048576 (1 MiB).
    */
-  invocationHandler: {
+  bodyLimit?: number
+
+  /**
+   * Decompress gzip, deflate and br request bodies and compress non-streaming responses.
+   * Pass `true` for the defaults, or an object to customize them. Disabled by default.
+   */
+  compression?: boolean | CompressionConfig
+
+  /**
+   * Parse `multipart/form-data` request bodies into fields and uploaded files.
+   * Pass `true` for the defaults, or an object to customize them. Disabled by default.
+   */
+  multipart?: boolean | MultipartConfig
+
+  /**
+   * Custom response serializers for non-streaming invocation results, negotiated with the
+   * `Accept` header. 'application/json', 'text/plain' and 'application/octet-stream' are
+   * natively supported; a custom serializer replaces the built-in one for its content type.
+   */
+  responseSerializers?: ResponseSerializerConfig[]
+
+  /**
+   * Header passthrough into `context.headers` and redaction of header values in logs.
+   */
+  headers?: HeadersConfig
+
+  /**
+   * Adds custom fields to the request context. The fields are typed in handler and middleware
+   * signatures; use `getContext<InvocationContext<typeof app>>()` to read them elsewhere.
+   */
+  contextFactory?: ContextFactory<TContext>
+
+  /**
+   * Serve an OpenAPI 3.1 document describing the runtime endpoints.
+   * Pass `true` to serve it at `/openapi.json`, or an object to customize the route and document info.
+   * Disabled by default.
+   */
+  openapi?: boolean | OpenApiConfig
+
+  /**
+   * Enable local development mode. Response schema violations include the Zod issues in the
+   * error body, and the runtime headers normally added by AgentCore Runtime are emulated.
+   * Pass `true` for the defaults, or an object to customize them. Never enable in production.
+   * Defaults to false.
+   */
+  dev?: boolean | DevConfig
+
+  /**
+   * Customizes the error body sent for failed invocations over JSON, SSE and WebSocket.
+   * Receives the error converted to an AgentCoreError; the returned value is sent as-is.
+   * Defaults to the ErrorResponseBody envelope.
+   */
+  serializeError?: ErrorSerializer
+
+  /**
+   * Maximum time in milliseconds an invocation may run, measured from when the request is
+   * received (including time spent queued). On timeout `context.signal` is aborted with an
+   * InvocationTimeoutError and the client receives a 504 (or an SSE `error` event when streaming).
+   * Disabled by default.
+   */
+  invocationTimeoutMs?: number
+
+  /**
+   * Limits on concurrent invocations. Unlimited by default.
+   */
+  concurrency?: ConcurrencyConfig
+
+  /**
+   * Async ping handler and named health check settings.
+   */
+  health?: HealthConfig
+
+  /**
+   * Enables OpenTelemetry spans and metrics for /invocations and /ws.
+   * `true` uses the globally registered tracer and meter providers.
+   */
+  telemetry?: boolean | TelemetryConfig
+
+  /**
+   * Background job settings used by enqueueJob() and the jobs route.
+   */
+  jobs?: JobsConfig
+
+  /**
+   * Buffer the events of streaming invocations so that clients can resume them after a
+   * dropped connection. When enabled, the handler's generator keeps running after the
+   * client disconnects, and a request that repeats the request ID and session ID of a
+   * buffered stream with a `Last-Event-ID` header receives the events after that ID
+   * instead of invoking the handler again. Disabled by default.
+   */
+  resumableStreams?: boolean | ResumableStreamsConfig
+
+  /**
+   * Routing of invocations to operations registered with `app.addOperation()`.
+   */
+  operations?: OperationsConfig
+
+  /**
+   * Hooks run when the app starts and stops, and when runtime sessions start and end.
+   */
+  lifecycle?: LifecycleConfig
+
+  /**
+   * Tool clients created per session and exposed as `context.tools`.
+   * Disabled by default.
+   */
+  tools?: SessionToolsConfig
+
+  /**
+   * Records invocations to a JSONL file or custom sink, for replay with `app.replay()`.
+   * Disabled by default.
+   */
+  transcripts?: TranscriptConfig
+
+  /**
+   * Store backing `context.session`.
+   * Defaults to a MemorySessionStore with a 15 minute idle TTL.
+   */
+  sessionStore?: SessionStore
+
+  /**
+   * Inbound JWT authentication for /invocations and /ws.
+   * When set, requests must carry a valid `Authorization: Bearer <token>` header;
+   * the verified claims are exposed as `context.identity`.
+   */
+  auth?: JwtAuthConfig
+
+  /**
+   * Graceful shutdown configuration used by close().
+   */
+  shutdown?: {
     /**
-     * The function to process invocation requests.
+     * Maximum time in milliseconds to wait for in-flight invocations and open
+     * WebSocket connections to finish before they are closed forcibly.
+     * Defaults to 30000.
      */
-    process: InvocationHandler<z.infer<TSchema>>
+    gracePeriodMs?: number
+
     /**
-     * Optional Zod schema for request validation and TypeScript typing.
-     * When provided, validates request.body before passing to handler.
-     * When omitted, handler receives unknown request type.
+     * Register SIGTERM and SIGINT handlers that call close() and exit the process
+     * once the server has shut down. Only applies when the server is started with run().
+     * Defaults to true.
      */
-    requestSchema?: TSchema
+    handleSignals?: boolean
   }
+}
+
+/**
+ * Claims from a verified JSON Web Token.
+ */
+export interface JwtClaims {
   /**
-   * WebSocket handler for the /ws endpoint.
+   * Issuer of the token.
    */
-  websocketHandler?: WebSocketHandler
+  iss?: string
+
   /**
-   * Additional configuration options.
+   * Subject (typically the user or client ID).
    */
-  config?: BedrockAgentCoreAppConfig
+  sub?: string
+
   /**
-   * Custom ping handler to determine health status.
+   * Intended audience(s) of the token.
    */
-  pingHandler?: () => HealthStatus | Promise<HealthStatus>
+  aud?: string | string[]
+
+  /**
+   * Expiration time in seconds since the epoch.
+   */
+  exp?: number
+
+  /**
+   * Not-before time in seconds since the epoch.
+   */
+  nbf?: number
+
+  /**
+   * Issued-at time in seconds since the epoch.
+   */
+  iat?: number
+
+  /**
+   * Additional claims.
+   */
+  [claim: string]: unknown
 }
 
 /**
- * Health status values for the /ping endpoint.
+ * A JSON Web Key used to verify token signatures.
  */
-export type HealthStatus = 'Healthy' | 'HealthyBusy'
+export interface JwtVerificationKey extends JsonWebKey {
+  /**
+   * Key ID matched against the `kid` token header.
+   */
+  kid?: string
 
-/**
- * Health check response format.
- */
-export interface HealthCheckResponse {
   /**
-   * Current health status of the application.
+   * Algorithm the key is intended for.
    */
-  status: HealthStatus
+  alg?: string
 
   /**
-   * ISO 8601 timestamp of the last update.
+   * Intended use of the key. Only 'sig' keys are used for verification.
    */
-  time_of_last_update: string
+  use?: string
 }
 
 /**
- * Information about a tracked async task.
+ * A JSON Web Key Set.
  */
-export interface AsyncTaskInfo {
-  name: string
-  startTime: number
-  metadata?: Record<string, unknown>
+export interface JsonWebKeySet {
+  keys: JwtVerificationKey[]
 }
 
 /**
- * Status information about all async tasks.
+ * Supported JWS signing algorithms.
  */
-export interface AsyncTaskStatus {
-  activeCount: number
-  runningJobs: Array<{
-    name: string
-    duration: number
-  }>
+export type JwtAlgorithm =
+  | 'RS256'
+  | 'RS384'
+  | 'RS512'
+  | 'PS256'
+  | 'PS384'
+  | 'PS512'
+  | 'ES256'
+  | 'ES384'
+  | 'ES512'
+  | 'EdDSA'
+  | 'HS256'
+  | 'HS384'
+  | 'HS512'
+
+/**
+ * Inbound JWT authentication configuration.
+ *
+ * Exactly one key source must be provided: `jwksUrl`, `jwksFile` or `jwks`.
+ *
+ * @example
+ * ```typescript
+ * const app = new BedrockAgentCoreApp({
+ *   invocationHandler: { process: handler },
+ *   config: {
+ *     auth: {
+ *       jwksUrl: 'https://cognito-idp.us-west-2.amazonaws.com/us-west-2_abc/.well-known/jwks.json',
+ *       issuer: 'https://cognito-idp.us-west-2.amazonaws.com/us-west-2_abc',
+ *       audience: 'my-client-id',
+ *     },
+ *   },
+ * })
+ * ```
+ */
+export interface JwtAuthConfig {
+  /**
+   * HTTPS URL of a JWKS document. Keys are cached and refetched on unknown key IDs.
+   */
+  jwksUrl?: string
+
+  /**
+   * Path to a local JWKS document.
+   */
+  jwksFile?: string
+
+  /**
+   * Static JWKS, e.g. a locally generated key for tests.
+   */
+  jwks?: JsonWebKeySet
+
+  /**
+   * Accepted token issuer(s). When set, the `iss` claim must match.
+   */
+  issuer?: string | string[]
+
+  /**
+   * Accepted audience(s). When set, the `aud` claim must contain one of them.
+   */
+  audience?: string | string[]
+
+  /**
+   * Accepted signing algorithms.
+   * Defaults to all supported asymmetric algorithms (RS*, PS*, ES*, EdDSA).
+   */
+  algorithms?: JwtAlgorithm[]
+
+  /**
+   * Allowed clock skew in seconds when checking `exp` and `nbf`.
+   * Defaults to 0.
+   */
+  clockToleranceSeconds?: number
+
+  /**
+   * Accept tokens without an `exp` claim, which never expire.
+   * Defaults to false.
+   */
+  allowMissingExpiration?: boolean
+
+  /**
+   * How long keys fetched from `jwksUrl` are cached, in milliseconds.
+   * Defaults to 600000 (10 minutes).
+   */
+  jwksCacheTtlMs?: number
+
+  /**
+   * Time in milliseconds to wait for the `jwksUrl` response before failing the request.
+   * Defaults to 5000.
+   */
+  jwksTimeoutMs?: number
+}
+
+/**
+ * Concurrency limits for /invocations.
+ *
+ * Invocations beyond the limits wait in a FIFO queue; when the queue is full (or the
+ * queue timeout elapses) the client receives a 429 with a Retry-After header.
+ */
+export interface ConcurrencyConfig {
+  /**
+   * Maximum invocations running at once across all sessions.
+   * While reached, /ping reports 'HealthyBusy'.
+   */
+  maxConcurrentInvocations?: number
+
+  /**
+   * Maximum invocations running at once for a single sessionId.
+   */
+  maxConcurrentInvocationsPerSession?: number
+
+  /**
+   * Maximum invocations waiting for a slot. Defaults to 0 (reject immediately).
+   */
+  maxQueueDepth?: number
+
+  /**
+   * Maximum time in milliseconds an invocation may wait in the queue.
+   * Defaults to no limit other than invocationTimeoutMs.
+   */
+  queueTimeoutMs?: number
+
+  /**
+   * Value of the Retry-After header on 429 responses, in seconds.
+   * Defaults to 1.
+   */
+  retryAfterSeconds?: number
+}
+
+/**
+ * Session-scoped key/value state exposed as `context.session`.
+ *
+ * Values are stored as JSON: they must be JSON-serializable (plain objects, arrays,
+ * strings, numbers, booleans and null), and `get` returns a copy.
+ */
+export interface SessionState {
+  /**
+   * Reads a value.
+   *
+   * @param key - Key to read
+   * @returns The stored value, or undefined if it is missing or the session expired
+   */
+  get<T = unknown>(key: string): Promise<T | undefined>
+
+  /**
+   * Stores a value.
+   *
+   * @param key - Key to write
+   * @param value - JSON-serializable value
+   * @throws TypeError if the value cannot be stored as JSON
+   */
+  set(key: string, value: unknown): Promise<void>
+
+  /**
+   * Removes a value.
+   *
+   * @param key - Key to remove
+   */
+  delete(key: string): Promise<void>
+
+  /**
+   * Removes all values for the session.
+   */
+  clear(): Promise<void>
+}
+
+/**
+ * Storage backend for session state.
+ *
+ * Implement this interface to keep session state in an external store such as Redis or
+ * DynamoDB. Values are passed already serialized as JSON strings. Stores are responsible
+ * for expiring idle sessions; `touch` is called whenever an invocation or WebSocket
+ * connection for the session starts.
+ */
+export interface SessionStore {
+  /**
+   * Reads a serialized value.
+   *
+   * @param sessionId - Session the value belongs to
+   * @param key - Key to read
+   * @returns The serialized value, or undefined if it is missing or the session expired
+   */
+  get(sessionId: string, key: string): Promise<string | undefined>
+
+  /**
+   * Writes a serialized value.
+   *
+   * @param sessionId - Session the value belongs to
+   * @param key - Key to write
+   * @param value - JSON string
+   */
+  set(sessionId: string, key: string, value: string): Promise<void>
+
+  /**
+   * Removes a value.
+   *
+   * @param sessionId - Session the value belongs to
+   * @param key - Key to remove
+   */
+  delete(sessionId: string, key: string): Promise<void>
+
+  /**
+   * Removes all values for a session.
+   *
+   * @param sessionId - Session to clear
+   */
+  clear(sessionId: string): Promise<void>
+
+  /**
+   * Extends the session's expiry.
+   *
+   * @param sessionId - Session that is active
+   */
+  touch(sessionId: string): Promise<void>
+
+  /**
+   * Releases resources held by the store. Called when the app is closed.
+   */
+  close?(): Promise<void>
+}
+
+/**
+ * Options for MemorySessionStore.
+ */
+export interface MemorySessionStoreOptions {
+  /**
+   * Maximum number of sessions kept; the least recently used session is evicted beyond it.
+   * Defaults to 1000.
+   */
+  maxSessions?: number
+
+  /**
+   * Time in milliseconds after the last access before a session's state expires.
+   * Defaults to 900000 (15 minutes, the runtime's default idle session timeout).
+   */
+  ttlMs?: number
+}
+
+/**
+ * Options for FileSessionStore.
+ */
+export interface FileSessionStoreOptions {
+  /**
+   * Directory holding one JSON file per session. Created if missing.
+   */
+  directory: string
+
+  /**
+   * Time in milliseconds after the last write or touch before a session's state expires.
+   * Defaults to 900000 (15 minutes, the runtime's default idle session timeout).
+   */
+  ttlMs?: number
+}
+
+/**
+ * Machine-readable error codes used by the runtime server.
+ * Custom codes may be used with AgentCoreError.
+ */
+export type AgentCoreErrorCode =
+  | 'VALIDATION_ERROR'
+  | 'UNAUTHORIZED'
+  | 'FORBIDDEN'
+  | 'NOT_FOUND'
+  | 'NOT_ACCEPTABLE'
+  | 'PAYLOAD_TOO_LARGE'
+  | 'UNSUPPORTED_MEDIA_TYPE'
+  | 'CONCURRENCY_LIMIT'
+  | 'TIMEOUT'
+  | 'UPSTREAM_ERROR'
+  | 'HANDLER_ERROR'
+  | 'RESPONSE_VALIDATION_ERROR'
+  | 'SERVICE_UNAVAILABLE'
+  | 'CANCELLED'
+  | (string & {})
+
+/**
+ * Options for AgentCoreError.
+ */
+export interface AgentCoreErrorOptions {
+  /**
+   * Machine-readable error code.
+   * Defaults to a code derived from statusCode, or 'HANDLER_ERROR'.
+   */
+  code?: AgentCoreErrorCode
+
+  /**
+   * HTTP status for JSON responses.
+   * Defaults to 500.
+   */
+  statusCode?: number
+
+  /**
+   * Whether the client may retry the same request.
+   * Defaults to true for 408, 429, 502, 503 and 504.
+   */
+  retryable?: boolean
+
+  /**
+   * Additional JSON-serializable information returned to the client.
+   */
+  details?: unknown
+
+  /**
+   * Underlying error. Not sent to the client.
+   */
+  cause?: unknown
+}
+
+/**
+ * Error envelope sent for failed invocations: the JSON body, the `data` of SSE `error`
+ * events, and the message sent before a WebSocket is closed with an error.
+ */
+export interface ErrorResponseBody {
+  /**
+   * Human-readable error message.
+   */
+  error: string
+  code: AgentCoreErrorCode
+  retryable: boolean
+  details?: unknown
+  requestId?: string
+}
+
+/**
+ * Transport an error is being sent over.
+ */
+export type ErrorTransport = 'http' | 'sse' | 'ndjson' | 'websocket'
+
+/**
+ * Builds the error body sent to the client.
+ *
+ * @example
+ * ```typescript
+ * const serializeError: ErrorSerializer = (error, { requestId }) => ({
+ *   type: `https://example.com/errors/${error.code}`,
+ *   title: error.message,
+ *   status: error.statusCode,
+ *   instance: requestId,
+ * })
+ * ```
+ */
+export type ErrorSerializer = (
+  error: AgentCoreError,
+  info: { transport: ErrorTransport; requestId?: string | undefined }
+) => unknown
+
+/**
+ * Configuration for the OpenAPI discovery route.
+ */
+export interface OpenApiConfig {
+  /**
+   * Route that serves the document.
+   * Defaults to '/openapi.json'.
+   */
+  path?: string
+
+  /**
+   * Document title.
+   * Defaults to 'Bedrock AgentCore Runtime'.
+   */
+  title?: string
+
+  /**
+   * Document version (the API version, not the OpenAPI version).
+   * Defaults to '1.0.0'.
+   */
+  version?: string
+
+  /**
+   * Optional document description.
+   */
+  description?: string
+}
+
+/**
+ * OpenAPI 3.1 document describing the runtime endpoints.
+ */
+export interface OpenApiDocument {
+  openapi: '3.1.0'
+  info: { title: string; version: string; description?: string }
+  paths: Record<string, Record<string, unknown>>
+  components?: Record<string, Record<string, unknown>>
+}
+
+/**
+ * Options for starting the server with BedrockAgentCoreApp.run().
+ */
+export interface RunOptions {
+  /**
+   * Port to listen on. Use 0 to bind to a random free port.
+   * Defaults to the PORT environment variable, or 8080 when it is not set.
+   */
+  port?: number
+
+  /**
+   * Host to bind to.
+   * Defaults to '0.0.0.0'.
+   */
+  host?: string
+}
+
+/**
+ * Parameters for BedrockAgentCoreApp constructor.
+ */
+export interface BedrockAgentCoreAppParams<
+  TSchema extends z.ZodSchema = z.ZodSchema<unknown>,
+  TResponseSchema extends z.ZodSchema = z.ZodSchema<unknown>,
+  TStreamEventSchema extends z.ZodSchema = z.ZodSchema<SSESource>,
+  TContext extends object = object,
+> {
+  /**
+   * Invocation handler configuration with validation and typing.
+   */
+  invocationHandler: {
+    /**
+     * The function to process invocation requests.
+     */
+    process: InvocationHandler<z.infer<TSchema>, z.input<TResponseSchema>, z.input<TStreamEventSchema>, TContext>
+    /**
+     * Optional Zod schema for request validation and TypeScript typing.
+     * When provided, validates request.body before passing to handler.
+     * When omitted, handler receives unknown request type.
+     */
+    requestSchema?: TSchema
+    /**
+     * Optional Zod schema for non-streaming responses.
+     * When provided, the handler result is validated before it is sent and the
+     * parsed value is returned to the client. Violations return a 500 error.
+     */
+    responseSchema?: TResponseSchema
+    /**
+     * Optional Zod schema applied to each chunk yielded by a streaming handler.
+     * Violations end the stream with an SSE `error` event.
+     */
+    streamEventSchema?: TStreamEventSchema
+  }
+  /**
+   * WebSocket handler for the /ws endpoint.
+   */
+  websocketHandler?: WebSocketHandler<TContext>
+  /**
+   * Additional configuration options.
+   */
+  config?: BedrockAgentCoreAppConfig<TContext>
+  /**
+   * Custom ping handler to determine health status.
+   * Synchronous handlers run on every ping. Async handlers run in the background with
+   * `config.health.timeoutMs` and their last result is cached (see HealthConfig).
+   */
+  pingHandler?: () => HealthStatus | Promise<HealthStatus>
+}
+
+/**
+ * Named invocation handler registered with `app.addOperation()`.
+ */
+export interface OperationDefinition<
+  TSchema extends z.ZodSchema = z.ZodSchema<unknown>,
+  TResponseSchema extends z.ZodSchema = z.ZodSchema<unknown>,
+  TStreamEventSchema extends z.ZodSchema = z.ZodSchema<SSESource>,
+  TContext extends object = object,
+> {
+  /**
+   * The function to process invocations of this operation.
+   */
+  process: InvocationHandler<z.infer<TSchema>, z.input<TResponseSchema>, z.input<TStreamEventSchema>, TContext>
+  /**
+   * Optional Zod schema for request validation and TypeScript typing.
+   */
+  requestSchema?: TSchema
+  /**
+   * Optional Zod schema for non-streaming responses.
+   */
+  responseSchema?: TResponseSchema
+  /**
+   * Optional Zod schema applied to each chunk yielded by a streaming handler.
+   */
+  streamEventSchema?: TStreamEventSchema
+  /**
+   * Middleware for this operation only. Runs after the middleware registered with `app.use()`.
+   */
+  middleware?: InvocationMiddleware<z.infer<TSchema>, TContext>[]
+}
+
+/**
+ * How invocations are routed to operations registered with `app.addOperation()`.
+ */
+export interface OperationsConfig {
+  /**
+   * Request header naming the operation; checked first.
+   * Defaults to 'x-amzn-bedrock-agentcore-runtime-custom-operation', which AgentCore Runtime
+   * forwards to the agent.
+   */
+  header?: string
+
+  /**
+   * Top-level field of the JSON request body naming the operation, used when the header is absent.
+   * The field is left in the body passed to the handler. Defaults to 'operation'.
+   */
+  field?: string
+}
+
+/**
+ * Request body type accepted by a BedrockAgentCoreApp, derived from its requestSchema.
+ *
+ * @example
+ * ```typescript
+ * type Request = InvocationRequest<typeof app>
+ * ```
+ */
+export type InvocationRequest<TApp> =
+  TApp extends BedrockAgentCoreApp<infer TSchema, z.ZodSchema, z.ZodSchema, infer _TContext> ? z.input<TSchema> : never
+
+/**
+ * Non-streaming response type returned by a BedrockAgentCoreApp, derived from its responseSchema.
+ */
+export type InvocationResponse<TApp> =
+  TApp extends BedrockAgentCoreApp<z.ZodSchema, infer TResponseSchema, z.ZodSchema, infer _TContext>
+    ? z.output<TResponseSchema>
+    : never
+
+/**
+ * Streaming event type emitted by a BedrockAgentCoreApp, derived from its streamEventSchema.
+ */
+export type InvocationStreamEvent<TApp> =
+  TApp extends BedrockAgentCoreApp<z.ZodSchema, z.ZodSchema, infer TStreamEventSchema, infer _TContext>
+    ? z.output<TStreamEventSchema>
+    : never
+
+/**
+ * Request context type of a BedrockAgentCoreApp, including the fields added by its contextFactory.
+ *
+ * @example
+ * ```typescript
+ * const context = getContext<InvocationContext<typeof app>>()
+ * console.log(context?.tenantId)
+ * ```
+ */
+export type InvocationContext<TApp> =
+  TApp extends BedrockAgentCoreApp<z.ZodSchema, z.ZodSchema, z.ZodSchema, infer TContext>
+    ? RequestContext & TContext
+    : never
+
+/**
+ * Token usage reported by a model.
+ */
+export interface StreamUsage {
+  inputTokens?: number | undefined
+  outputTokens?: number | undefined
+  totalTokens?: number | undefined
+}
+
+/**
+ * SSE event produced by the LLM stream adapters (`fromAiSdkStream`, `fromStrandsStream`
+ * and `fromConverseStream`). The event name identifies the payload in `data`:
+ *
+ * - `text`: a text delta
+ * - `tool-call`: a complete tool call requested by the model
+ * - `tool-result`: the result of a tool executed by the agent framework
+ * - `usage`: token usage of a model call
+ * - `message`: the final text and stop reason, sent once at the end of the stream
+ *
+ * `id` is the position of the event in the stream, starting at 1.
+ */
+export type StreamAdapterEvent = { id: string } & (
+  | { event: 'text'; data: { text: string } }
+  | { event: 'tool-call'; data: { id: string; name: string; input: unknown } }
+  | { event: 'tool-result'; data: { id: string; output: unknown; isError?: boolean } }
+  | { event: 'usage'; data: StreamUsage }
+  | { event: 'message'; data: { text: string; stopReason?: string | undefined } }
+)
+
+/**
+ * Options for the LLM stream adapters.
+ */
+export interface StreamAdapterOptions {
+  /**
+   * Skip the events up to and including this ID. Only correct when the handler produces
+   * exactly the same events again, e.g. from a cache; a new model call produces different
+   * events. Use `config.resumableStreams` to resume streams after a dropped connection.
+   */
+  lastEventId?: string | undefined
+}
+
+/**
+ * Health status values for the /ping endpoint.
+ */
+export type HealthStatus = 'Healthy' | 'HealthyBusy'
+
+/**
+ * Health check response format.
+ */
+export interface HealthCheckResponse {
+  /**
+   * Current health status of the application.
+   */
+  status: HealthStatus
+
+  /**
+   * ISO 8601 timestamp of the last update: the last health evaluation when an async
+   * ping handler or health checks are configured, otherwise the last status change.
+   */
+  time_of_last_update: string
+
+  /**
+   * Results of the named health checks from the last evaluation.
+   * Only present when health checks are configured.
+   */
+  checks?: Record<string, HealthCheckReport>
+}
+
+/**
+ * Result of a health check. Returning a boolean is shorthand for `{ healthy }`.
+ */
+export interface HealthCheckResult {
+  healthy: boolean
+  message?: string
+  details?: Record<string, unknown>
+}
+
+/**
+ * Probes a dependency. Throwing, rejecting or exceeding the timeout counts as a failure.
+ *
+ * @param signal - Aborted when the check times out
+ * @returns Whether the dependency is healthy
+ */
+export type HealthCheck = (
+  signal: globalThis.AbortSignal
+) => boolean | HealthCheckResult | Promise<boolean | HealthCheckResult>
+
+/**
+ * A named health check with options.
+ */
+export interface HealthCheckDefinition {
+  check: HealthCheck
+
+  /**
+   * When true, a failure makes /ping respond with HTTP 503.
+   * Defaults to false: failures are only reported in the `checks` body.
+   */
+  critical?: boolean
+
+  /**
+   * Timeout in milliseconds for this check.
+   * Defaults to config.health.timeoutMs.
+   */
+  timeoutMs?: number
+}
+
+/**
+ * Outcome of a named health check, reported in the /ping body.
+ */
+export interface HealthCheckReport {
+  status: 'pass' | 'fail'
+  critical: boolean
+  durationMs: number
+  message?: string
+  details?: Record<string, unknown>
+}
+
+/**
+ * Configuration for async ping handlers and named health checks.
+ */
+export interface HealthConfig {
+  /**
+   * Named health checks, e.g. `{ identity: async () => ..., browser: { check, critical: true } }`.
+   * More checks can be added with addHealthCheck().
+   */
+  checks?: Record<string, HealthCheck | HealthCheckDefinition>
+
+  /**
+   * Timeout in milliseconds for an async ping handler and each health check.
+   * Defaults to 2000.
+   */
+  timeoutMs?: number
+
+  /**
+   * How often in milliseconds the async ping handler and health checks are re-evaluated.
+   * /ping serves the cached result in between. Defaults to 10000.
+   */
+  intervalMs?: number
+}
+
+/**
+ * Information about a tracked async task.
+ */
+export interface AsyncTaskInfo {
+  name: string
+  startTime: number
+  metadata?: Record<string, unknown>
+}
+
+/**
+ * Status information about all async tasks and background jobs.
+ */
+export interface AsyncTaskStatus {
+  /**
+   * Number of tracked tasks plus pending and running jobs.
+   */
+  activeCount: number
+
+  /**
+   * Tracked tasks and unfinished jobs. `duration` is in seconds since the task or job started
+   * (or was enqueued, while pending).
+   */
+  runningJobs: Array<{
+    name: string
+    duration: number
+    state: JobState
+    jobId?: string
+    progress?: JobProgress
+  }>
+
+  /**
+   * All retained background jobs, including finished ones, most recently created first.
+   */
+  jobs: JobStatus[]
+}
+
+/**
+ * Lifecycle state of a background job.
+ */
+export type JobState = 'pending' | 'running' | 'succeeded' | 'failed' | 'cancelled'
+
+/**
+ * Progress reported by a running job.
+ */
+export interface JobProgress {
+  /**
+   * Completion percentage between 0 and 100.
+   */
+  percent?: number
+
+  /**
+   * Human-readable description of the current step.
+   */
+  message?: string
+}
+
+/**
+ * Snapshot of a background job, as returned by getJob() and the jobs route.
+ */
+export interface JobStatus<TResult = unknown> {
+  jobId: string
+  name: string
+  state: JobState
+
+  /**
+   * Session of the invocation that enqueued the job. The jobs route only returns the job
+   * to requests carrying the same session ID.
+   */
+  sessionId?: string
+  metadata?: Record<string, unknown>
+  progress?: JobProgress
+
+  /**
+   * Value returned by the job function. Set when state is 'succeeded'.
+   */
+  result?: TResult
+
+  /**
+   * Error envelope describing the failure. Set when state is 'failed' or 'cancelled'.
+   */
+  error?: ErrorResponseBody
+
+  /**
+   * ISO 8601 timestamps.
+   */
+  createdAt: string
+  startedAt?: string
+  completedAt?: string
+}
+
+/**
+ * Passed to a job function.
+ */
+export interface JobContext {
+  jobId: string
+
+  /**
+   * Aborted when the job is cancelled or the server shuts down before the job finishes.
+   */
+  signal: globalThis.AbortSignal
+
+  /**
+   * Records progress, visible through getJob() and the jobs route.
+   *
+   * @param progress - Current progress
+   */
+  reportProgress(progress: JobProgress): void
+}
+
+/**
+ * Work run in the background by enqueueJob().
+ */
+export type JobFunction<TResult = unknown> = (job: JobContext) => Promise<TResult>
+
+/**
+ * Options for enqueueJob().
+ */
+export interface EnqueueJobOptions {
+  /**
+   * Human-readable job name.
+   * Defaults to the function name, or 'job'.
+   */
+  name?: string
+
+  /**
+   * Additional information stored with the job.
+   */
+  metadata?: Record<string, unknown>
+}
+
+/**
+ * Settings for request decompression and response compression.
+ */
+export interface CompressionConfig {
+  /**
+   * Response encodings, in order of preference when the client accepts several equally.
+   * Defaults to ['br', 'gzip', 'deflate'].
+   */
+  encodings?: Array<'br' | 'gzip' | 'deflate'>
+
+  /**
+   * Minimum response body size in bytes before it is compressed.
+   * Defaults to 1024.
+   */
+  threshold?: number
+
+  /**
+   * Decompress request bodies sent with a `Content-Encoding` of gzip, deflate or br; other
+   * encodings are rejected with 415. Defaults to true.
+   */
+  decompressRequests?: boolean
+}
+
+/**
+ * Settings for `multipart/form-data` request bodies.
+ */
+export interface MultipartConfig {
+  /**
+   * How uploaded files are provided: 'buffer' holds each file in memory, 'stream' writes it to
+   * a temporary file, readable only by the owner, that is read back as a stream and removed
+   * once the response is sent or the request is aborted.
+   * Defaults to 'buffer'.
+   */
+  files?: 'buffer' | 'stream'
+
+  /**
+   * Maximum size of the whole request body in bytes.
+   * Defaults to config.bodyLimit, or 1048576 (1 MiB).
+   */
+  bodyLimit?: number
+
+  /**
+   * Maximum size of one file in bytes. Unlimited by default, within bodyLimit.
+   */
+  fileSizeLimit?: number
+
+  /**
+   * Maximum number of files. Defaults to 10.
+   */
+  maxFiles?: number
+}
+
+/**
+ * File uploaded in a `multipart/form-data` request, with `multipart.files` set to 'buffer'.
+ */
+export interface UploadedFile {
+  /**
+   * Form field the file was sent in.
+   */
+  fieldname: string
+
+  /**
+   * Name of the file on the client.
+   */
+  filename: string
+
+  /**
+   * Content type of the part; 'application/octet-stream' when not sent.
+   */
+  contentType: string
+
+  /**
+   * Size in bytes.
+   */
+  size: number
+
+  data: Buffer
+}
+
+/**
+ * File uploaded in a `multipart/form-data` request, with `multipart.files` set to 'stream'.
+ */
+export interface UploadedFileStream {
+  fieldname: string
+  filename: string
+  contentType: string
+  size: number
+
+  /**
+   * Content of the file, read from a temporary file that is removed once the response is sent.
+   */
+  stream: Readable
+}
+
+/**
+ * Why a session ended: 'idle' after the idle timeout without invocations or open WebSocket
+ * connections, 'shutdown' when the app is closed.
+ */
+export type SessionEndReason = 'idle' | 'shutdown'
+
+/**
+ * Lifecycle hooks of the app and of runtime sessions.
+ *
+ * A session starts with the first invocation or WebSocket connection carrying its ID, and
+ * ends after `sessionIdleTimeoutMs` without any and without unfinished background jobs it
+ * enqueued, or when the app shuts down.
+ */
+export interface LifecycleConfig {
+  /**
+   * Runs once before the server accepts requests, e.g. to load models. The server does not
+   * start if it throws.
+   */
+  onStartup?: () => void | Promise<void>
+
+  /**
+   * Runs once when the app is closed, after in-flight work has drained and sessions have ended.
+   * Errors are logged.
+   */
+  onShutdown?: () => void | Promise<void>
+
+  /**
+   * Runs before the first invocation of a session is handled, e.g. to start a per-session
+   * CodeInterpreter. Concurrent invocations of the session wait for it. If it throws, the
+   * invocation fails and the next one starts the session again.
+   */
+  onSessionStart?: (sessionId: string, context: RequestContext) => void | Promise<void>
+
+  /**
+   * Runs when a session ends, to release its resources. Errors are logged.
+   */
+  onSessionEnd?: (sessionId: string, reason: SessionEndReason) => void | Promise<void>
+
+  /**
+   * Time in milliseconds without invocations, open WebSocket connections or unfinished background
+   * jobs before a session ends.
+   * Defaults to 900000 (15 minutes, the runtime's default idle session timeout).
+   */
+  sessionIdleTimeoutMs?: number
+}
+
+/**
+ * Settings of the tool clients created per session. The clients are created on first use
+ * in a session, and their AgentCore sessions are stopped when the runtime session ends,
+ * after `lifecycle.onSessionEnd` has run.
+ */
+export interface SessionToolsConfig {
+  /**
+   * Configuration of the CodeInterpreter returned by `context.tools.codeInterpreter()`.
+   */
+  codeInterpreter?: CodeInterpreterConfig
+
+  /**
+   * Configuration of the PlaywrightBrowser returned by `context.tools.browser()`.
+   */
+  browser?: BrowserClientConfig
+}
+
+/**
+ * Tool clients of a runtime session, exposed as `context.tools`.
+ */
+export interface SessionTools {
+  /**
+   * @returns The CodeInterpreter of the session, created on first call
+   */
+  codeInterpreter(): CodeInterpreter
+
+  /**
+   * @returns The PlaywrightBrowser of the session, created on first call
+   */
+  browser(): PlaywrightBrowser
+}
+
+/**
+ * Settings for recording invocation transcripts.
+ */
+export interface TranscriptConfig {
+  /**
+   * Destination of the records: the path of a JSONL file, appended to, or a custom sink.
+   */
+  sink: string | TranscriptSink
+
+  /**
+   * Headers whose values are recorded as '[Redacted]', in addition to `Authorization` and
+   * config.headers.redact. Case-insensitive.
+   */
+  redactHeaders?: string[]
+
+  /**
+   * Records only the invocations for which this returns true. Records all invocations by default.
+   */
+  filter?: (context: RequestContext) => boolean
+}
+
+/**
+ * Destination of invocation transcripts.
+ */
+export interface TranscriptSink {
+  /**
+   * Stores one record. Failures are logged and do not affect the invocation.
+   *
+   * @param record - Record of a finished invocation
+   */
+  write(record: TranscriptRecord): void | Promise<void>
+
+  /**
+   * Flushes pending records and releases resources. Called when the app is closed.
+   */
+  close?(): Promise<void>
+}
+
+/**
+ * Record of one invocation that reached the handler.
+ */
+export interface TranscriptRecord {
+  /**
+   * Time the invocation started (ISO 8601).
+   */
+  timestamp: string
+
+  /**
+   * Time from the start of the handler to the end of the result or stream, in milliseconds.
+   */
+  durationMs: number
+
+  requestId: string
+  sessionId: string
+
+  /**
+   * Operation the invocation was routed to; absent for invocationHandler.
+   */
+  operation?: string
+
+  /**
+   * `context.headers`, with redacted values replaced by '[Redacted]'.
+   */
+  headers: Record<string, string>
+
+  /**
+   * Request passed to the handler, after schema validation.
+   */
+  request: unknown
+
+  /**
+   * 'cancelled' when the client disconnected before a stream finished.
+   */
+  status: 'completed' | 'failed' | 'cancelled'
+
+  /**
+   * Result of a non-streaming invocation.
+   */
+  result?: unknown
+
+  /**
+   * Events yielded by a streaming invocation, in order.
+   */
+  chunks?: unknown[]
+
+  /**
+   * Error that failed the invocation.
+   */
+  error?: { message: string; code: string }
+}
+
+/**
+ * Options for `app.replay()`.
+ */
+export interface ReplayOptions {
+  /**
+   * Headers added to every replayed request, e.g. to replace redacted credentials.
+   */
+  headers?: Record<string, string>
+
+  /**
+   * Paths excluded from the comparison, e.g. 'result.createdAt' or 'chunks[*].id'.
+   * A path also excludes everything below it; `*` matches one property name or index.
+   */
+  ignore?: string[]
+}
+
+/**
+ * Outcome of replaying one recorded invocation.
+ */
+export interface ReplayResult {
+  /**
+   * The recorded invocation.
+   */
+  expected: TranscriptRecord
+
+  /**
+   * Record of the replayed invocation; undefined when it was rejected before reaching the handler.
+   */
+  actual: TranscriptRecord | undefined
+
+  /**
+   * Differences in status, result, chunks and error.
+   */
+  differences: TranscriptDifference[]
+
+  /**
+   * True when there are no differences.
+   */
+  passed: boolean
+}
+
+/**
+ * Value that differs between a recorded and a replayed invocation.
+ */
+export interface TranscriptDifference {
+  /**
+   * Location of the value, e.g. 'result.answer' or 'chunks[2].text'.
+   */
+  path: string
+  expected: unknown
+  actual: unknown
+}
+
+/**
+ * Settings for local development mode.
+ */
+export interface DevConfig {
+  /**
+   * Session ID used for requests that carry none. The session ID is returned in the
+   * `x-amzn-bedrock-agentcore-runtime-session-id` response header.
+   * Defaults to an ID generated when the app is created.
+   */
+  sessionId?: string
+
+  /**
+   * Workload access token used for requests without a `WorkloadAccessToken` header.
+   * Defaults to 'dev-workload-access-token'.
+   */
+  workloadAccessToken?: string
+
+  /**
+   * OAuth2 callback URL used for requests without an `OAuth2CallbackUrl` header.
+   * Defaults to 'http://localhost:8080/oauth2/callback'.
+   */
+  oauth2CallbackUrl?: string
+
+  /**
+   * Print logs as readable lines instead of JSON. Ignored when config.logging.options sets a
+   * stream or transport. Defaults to true.
+   */
+  prettyLogs?: boolean
+
+  /**
+   * Path of a chat page for sending invocations and viewing streamed events, or false to
+   * disable it. Defaults to '/dev'.
+   */
+  chatPage?: string | false
+
+  /**
+   * Re-imports the handler module when it changes and replaces invocationHandler.process.
+   * Disabled by default.
+   */
+  reload?: DevReloadConfig
+}
+
+/**
+ * Settings for reloading the handler module in development mode.
+ */
+export interface DevReloadConfig {
+  /**
+   * Module exporting the handler, as a file path or file URL,
+   * e.g. `new URL('./agent.js', import.meta.url)`.
+   */
+  module: string | URL
+
+  /**
+   * Name of the export: either a handler function or an object with a `process` function.
+   * Defaults to 'default'.
+   */
+  export?: string
+}
+
+/**
+ * Settings for resumable streaming invocations.
+ */
+export interface ResumableStreamsConfig {
+  /**
+   * Time in milliseconds the events of a finished stream are kept for replay.
+   * Defaults to 300000 (5 minutes).
+   */
+  retentionMs?: number
+
+  /**
+   * Maximum events kept per stream; the oldest are discarded first.
+   * Defaults to 1000.
+   */
+  maxEvents?: number
+}
+
+/**
+ * Configuration for background jobs.
+ */
+export interface JobsConfig {
+  /**
+   * Route prefix for polling job status; jobs are served at `${path}/:jobId`.
+   * Defaults to '/jobs'.
+   */
+  path?: string
+
+  /**
+   * Maximum jobs running at once; additional jobs stay 'pending' until a slot frees up.
+   * Unlimited by default.
+   */
+  maxConcurrentJobs?: number
+
+  /**
+   * Time in milliseconds finished jobs are kept for retrieval.
+   * Defaults to 3600000 (1 hour).
+   */
+  retentionMs?: number
+
+  /**
+   * Maximum number of finished jobs kept; the oldest are discarded first.
+   * Defaults to 1000.
+   */
+  maxRetainedJobs?: number
+}
+
+// =============================================================================
+// TestClient Types (In-process Testing)
+// =============================================================================
+
+/**
+ * Options for creating a TestClient.
+ */
+export interface TestClientOptions {
+  /**
+   * Session ID sent with every request unless overridden per call.
+   * Defaults to a generated UUID.
+   */
+  sessionId?: string
+}
+
+/**
+ * Per-request options for TestClient calls.
+ */
+export interface TestRequestOptions {
+  /**
+   * Session ID for this request. Defaults to the client's session ID.
+   */
+  sessionId?: string
+
+  /**
+   * Request ID sent as X-Amzn-Bedrock-AgentCore-Runtime-Request-Id.
+   * When omitted, the server generates one.
+   */
+  requestId?: string
+
+  /**
+   * Additional headers to send with the request.
+   */
+  headers?: Record<string, string>
+}
+
+/**
+ * A parsed Server-Sent Event received by TestClient.stream().
+ */
+export interface TestSSEEvent {
+  /**
+   * Event type from the `event:` field, if present.
+   */
+  event?: string
+
+  /**
+   * Event ID from the `id:` field, if present.
+   */
+  id?: string
+
+  /**
+   * Event payload. Parsed as JSON when possible, otherwise the raw string.
+   */
+  data: unknown
+
+  /**
+   * Reconnection time from the `retry:` field, if present.
+   */
+  retry?: number
 }
 
 // =============================================================================
@@ -0,0 +1,327 @@
+import { Buffer } from 'buffer'
+import type { WebSocket } from '@fastify/websocket'
+import type { RawData } from 'ws'
+import { z } from 'zod'
+import { AgentCoreError, ValidationError, toAgentCoreError } from './errors.js'
+import type { RequestContext, TypedWebSocketHandlerConfig, WebSocketHandler } from './types.js'
+
+const DEFAULT_KEEP_ALIVE_INTERVAL_MS = 30000
+const DEFAULT_MAX_BUFFERED_MESSAGES = 100
+
+// WebSocket.OPEN
+const OPEN = 1
+
+interface TypedWebSocketOptions {
+  inboundSchema: z.ZodSchema
+  outboundSchema?: z.ZodSchema | undefined
+  requestId?: string | undefined
+  keepAliveIntervalMs?: number | false | undefined
+  idleTimeoutMs?: number | undefined
+  maxBufferedMessages?: number | undefined
+}
+
+/**
+ * Creates a WebSocket handler that exchanges schema-validated JSON messages.
+ *
+ * Inbound messages are parsed and validated before they are delivered; invalid messages are
+ * answered with an error frame and skipped. The connection is kept alive with ping frames,
+ * and can be closed automatically when idle.
+ *
+ * @param config - Schemas, connection handler and timeouts
+ * @returns Handler for the `websocketHandler` parameter of BedrockAgentCoreApp
+ *
+ * @example
+ * ```typescript
+ * const app = new BedrockAgentCoreApp({
+ *   invocationHandler: { process: handler },
+ *   websocketHandler: createWebSocketHandler({
+ *     inboundSchema: z.object({ prompt: z.string() }),
+ *     outboundSchema: z.object({ type: z.literal('token'), text: z.string() }),
+ *     process: async (connection, context) => {
+ *       for await (const message of connection) {
+ *         for await (const text of agent.stream(message.prompt, { signal: context.signal })) {
+ *           connection.send({ type: 'token', text })
+ *         }
+ *       }
+ *     },
+ *   }),
+ * })
+ * ```
+ */
+export function createWebSocketHandler<
+  TInboundSchema extends z.ZodSchema,
+  TOutboundSchema extends z.ZodSchema = z.ZodSchema<unknown>,
+>(config: TypedWebSocketHandlerConfig<TInboundSchema, TOutboundSchema>): WebSocketHandler {
+  if (!config || typeof config.process !== 'function' || !config.inboundSchema) {
+    throw new Error('createWebSocketHandler requires an object with inboundSchema and process properties')
+  }
+
+  return async (socket: WebSocket, context: RequestContext): Promise<void> => {
+    const connection = new TypedWebSocket<z.infer<TInboundSchema>, z.infer<TOutboundSchema>>(socket, {
+      inboundSchema: config.inboundSchema,
+      outboundSchema: config.outboundSchema,
+      requestId: context.requestId,
+      keepAliveIntervalMs: config.keepAliveIntervalMs,
+      idleTimeoutMs: config.idleTimeoutMs,
+      maxBufferedMessages: config.maxBufferedMessages,
+    })
+    // Errors propagate to BedrockAgentCoreApp, which sends the error frame and closes with 1011
+    await config.process(connection, context)
+    connection.close(1000)
+  }
+}
+
+/**
+ * WebSocket connection exchanging JSON messages validated against Zod schemas.
+ *
+ * Iterate it with `for await` to receive inbound messages; iteration ends when the
+ * connection closes. Messages received before iteration starts are buffered, up to
+ * maxBufferedMessages; the connection is closed with code 1008 when a client sends more.
+ */
+export class TypedWebSocket<TInbound, TOutbound> implements AsyncIterable<TInbound> {
+  /**
+   * The underlying WebSocket, for features not covered by this class.
+   */
+  readonly socket: WebSocket
+
+  private readonly _options: TypedWebSocketOptions
+  private readonly _buffer: TInbound[] = []
+  private _waiter: ((result: IteratorResult<TInbound>) => void) | undefined
+  private _closed: boolean = false
+  // Inbound messages are validated in order, even when schemas validate asynchronously
+  private _receiving: Promise<void> = Promise.resolve()
+  // Messages received but not yet validated
+  private _validating: number = 0
+  private _keepAliveTimer: ReturnType<typeof globalThis.setInterval> | undefined
+  private _idleTimer: ReturnType<typeof globalThis.setTimeout> | undefined
+  private _awaitingPong: boolean = false
+
+  /**
+   * Creates a new TypedWebSocket instance.
+   *
+   * @param socket - Open WebSocket connection
+   * @param options - Schemas, request ID for error frames, and timeouts
+   */
+  constructor(socket: WebSocket, options: TypedWebSocketOptions) {
+    this.socket = socket
+    this._options = options
+
+    socket.on('message', (data: RawData) => {
+      if (this._validating + this._buffer.length >= (options.maxBufferedMessages ?? DEFAULT_MAX_BUFFERED_MESSAGES)) {
+        this.close(1008, 'Too many unprocessed messages')
+        return
+      }
+      this._resetIdleTimer()
+      this._validating++
+      this._receiving = this._receiving
+        .then(() => this._receive(data))
+        .catch((error) => this._onReceiveError(error))
+        .finally(() => this._validating--)
+    })
+    socket.on('pong', () => {
+      this._awaitingPong = false
+    })
+    socket.on('close', () => this._onClose())
+
+    this._startKeepAlive()
+    this._resetIdleTimer()
+  }
+
+  /**
+   * True while messages can be sent.
+   */
+  get isOpen(): boolean {
+    return !this._closed && this.socket.readyState === OPEN
+  }
+
+  /**
+   * Validates a message against the outbound schema and sends it as a JSON text frame.
+   *
+   * @param message - Message to send
+   * @throws AgentCoreError with code RESPONSE_VALIDATION_ERROR if the message does not match the outbound schema
+   * @throws Error if the connection is not open
+   */
+  send(message: TOutbound): void {
+    let payload: unknown = message
+    if (this._options.outboundSchema) {
+      const parsed = this._options.outboundSchema.safeParse(message)
+      if (!parsed.success) {
+        throw new AgentCoreError('Outbound WebSocket message failed schema validation', {
+          code: 'RESPONSE_VALIDATION_ERROR',
+          details: parsed.error.issues,
+        })
+      }
+      payload = parsed.data
+    }
+    this._sendFrame(payload)
+  }
+
+  /**
+   * Sends an error frame with the same envelope as error responses, without closing the connection.
+   * Does nothing if the connection is not open.
+   *
+   * @param error - Error to report; non-AgentCoreErrors are reported as HANDLER_ERROR
+   */
+  sendError(error: unknown): void {
+    if (!this.isOpen) {
+      return
+    }
+    const requestId = this._options.requestId
+    this._sendFrame({ ...toAgentCoreError(error).toJSON(), ...(requestId && { requestId }) })
+  }
+
+  /**
+   * Closes the connection.
+   *
+   * @param code - WebSocket close code; defaults to 1000 (normal closure)
+   * @param reason - Close reason sent to the client
+   */
+  close(code: number = 1000, reason?: string): void {
+    if (this.socket.readyState === OPEN) {
+      this.socket.close(code, reason)
+    }
+    this._onClose()
+  }
+
+  [Symbol.asyncIterator](): AsyncIterator<TInbound> {
+    return {
+      next: (): Promise<IteratorResult<TInbound>> => {
+        if (this._buffer.length > 0) {
+          return Promise.resolve({ value: this._buffer.shift()!, done: false })
+        }
+        if (this._closed) {
+          return Promise.resolve({ value: undefined, done: true })
+        }
+        return new Promise((resolve) => {
+          this._waiter = resolve
+        })
+      },
+      return: (): Promise<IteratorResult<TInbound>> => {
+        this._buffer.length = 0
+        return Promise.resolve({ value: undefined, done: true })
+      },
+    }
+  }
+
+  /**
+   * Parses and validates an inbound frame, then delivers it to the iterator.
+   *
+   * @param data - Raw frame data
+   */
+  private async _receive(data: RawData): Promise<void> {
+    if (this._closed) {
+      return
+    }
+
+    let message: unknown
+    try {
+      message = JSON.parse(rawDataToString(data))
+    } catch {
+      this.sendError(new ValidationError('WebSocket message is not valid JSON'))
+      return
+    }
+
+    const parsed = await this._options.inboundSchema.safeParseAsync(message)
+    if (!parsed.success) {
+      this.sendError(new ValidationError('Invalid WebSocket message format', { details: parsed.error.issues }))
+      return
+    }
+
+    const waiter = this._waiter
+    if (waiter) {
+      this._waiter = undefined
+      waiter({ value: parsed.data as TInbound, done: false })
+    } else {
+      this._buffer.push(parsed.data as TInbound)
+    }
+  }
+
+  /**
+   * Answers a message whose validation threw, e.g. in a schema refinement, with an error frame.
+   * Later messages are still received.
+   *
+   * @param error - Error thrown while receiving the message
+   */
+  private _onReceiveError(error: unknown): void {
+    this.sendError(error)
+  }
+
+  /**
+   * Sends a value as a JSON text frame.
+   *
+   * @param value - Value to serialize
+   * @throws Error if the connection is not open
+   */
+  private _sendFrame(value: unknown): void {
+    if (!this.isOpen) {
+      throw new Error('WebSocket connection is not open')
+    }
+    this.socket.send(JSON.stringify(value))
+  }
+
+  /**
+   * Sends a ping every keepAliveIntervalMs, terminating the connection if the previous ping went unanswered.
+   */
+  private _startKeepAlive(): void {
+    const intervalMs = this._options.keepAliveIntervalMs ?? DEFAULT_KEEP_ALIVE_INTERVAL_MS
+    if (intervalMs === false) {
+      return
+    }
+    this._keepAliveTimer = globalThis.setInterval(() => {
+      if (this._awaitingPong) {
+        this.socket.terminate()
+        return
+      }
+      this._awaitingPong = true
+      this.socket.ping()
+    }, intervalMs)
+    this._keepAliveTimer.unref()
+  }
+
+  /**
+   * Restarts the idle timer after activity.
+   */
+  private _resetIdleTimer(): void {
+    const idleTimeoutMs = this._options.idleTimeoutMs
+    if (idleTimeoutMs === undefined || this._closed) {
+      return
+    }
+    globalThis.clearTimeout(this._idleTimer)
+    this._idleTimer = globalThis.setTimeout(() => {
+      this.sendError(
+        new AgentCoreError(`No message received for ${idleTimeoutMs}ms`, { code: 'TIMEOUT', statusCode: 408 })
+      )
+      this.close(1000, 'Idle timeout')
+    }, idleTimeoutMs)
+    this._idleTimer.unref()
+  }
+
+  /**
+   * Stops the timers and ends iteration.
+   */
+  private _onClose(): void {
+    if (this._closed) {
+      return
+    }
+    this._closed = true
+    globalThis.clearInterval(this._keepAliveTimer)
+    globalThis.clearTimeout(this._idleTimer)
+
+    const waiter = this._waiter
+    this._waiter = undefined
+    waiter?.({ value: undefined, done: true })
+  }
+}
+
+/**
+ * Decodes a WebSocket frame as UTF-8.
+ *
+ * @param data - Frame data as delivered by `ws`
+ * @returns Decoded text
+ */
+function rawDataToString(data: RawData): string {
+  if (Array.isArray(data)) {
+    return Buffer.concat(data).toString('utf-8')
+  }
+  return Buffer.from(data as ArrayBuffer).toString('utf-8')
+}
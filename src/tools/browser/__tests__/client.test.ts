@@ -1,5 +1,6 @@
 import { describe, it, expect, beforeEach, vi } from 'vitest'
 import { Browser } from '../client.js'
+import { runWithContext } from '../../../runtime/context.js'
 
 // Track session state for mocking
 const mockSessionState = new Map<
@@ -118,6 +119,7 @@ vi.mock('@aws-sdk/client-bedrock-agentcore', () => {
   return {
     BedrockAgentCoreClient: vi.fn(function (this: any) {
       this.send = mockSend
+      this.middlewareStack = { use: vi.fn() }
       return this
     }),
     StartBrowserSessionCommand: vi.fn(function (this: any, input: any) {
@@ -442,4 +444,22 @@ describe('Browser', () => {
       expect(result.streamStatus).toBe('ENABLED')
     })
   })
+
+  describe('request cancellation', () => {
+    it('passes the invocation signal to session calls but not to stopSession', async () => {
+      const browser = new Browser({ region: 'us-west-2' })
+      const mockSend = (browser as any)._client.send
+      mockSend.mockClear()
+      const controller = new globalThis.AbortController()
+      const context = { sessionId: 'session-123', headers: {}, log: {} as any, signal: controller.signal }
+
+      await runWithContext(context, async () => {
+        await browser.startSession()
+        await browser.stopSession()
+      })
+
+      expect(mockSend.mock.calls[0][1]).toEqual({ abortSignal: controller.signal })
+      expect(mockSend.mock.calls[1][1]).toBeUndefined()
+    })
+  })
 })
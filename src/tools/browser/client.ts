@@ -27,6 +27,8 @@ import type {
   BrowserSessionStreams,
 } from './types.js'
 import { DEFAULT_IDENTIFIER, DEFAULT_SESSION_NAME, DEFAULT_TIMEOUT, DEFAULT_REGION } from './types.js'
+import { getContext } from '../../runtime/context.js'
+import { getContextPropagationPlugin } from '../../runtime/propagation.js'
 
 /**
  * Base client for AWS Bedrock AgentCore Browser service.
@@ -71,6 +73,7 @@ export class Browser {
       region: this.region,
       ...(this._credentialsProvider && { credentials: this._credentialsProvider }),
     })
+    this._client.middlewareStack.use(getContextPropagationPlugin())
   }
 
   // ===========================
@@ -108,7 +111,7 @@ export class Browser {
 
     // Start the session
     const command = new StartBrowserSessionCommand(input)
-    const response = await this._client.send(command)
+    const response = await this._client.send(command, this._getRequestOptions())
 
     // Store session info
     const sessionInfo: SessionInfo = {
@@ -139,6 +142,7 @@ export class Browser {
       sessionId: this._session.sessionId,
     })
 
+    // Not tied to the invocation signal so cleanup still runs after cancellation
     await this._client.send(command)
 
     // Clear session state
@@ -179,7 +183,7 @@ export class Browser {
       sessionId,
     })
 
-    const response = await this._client.send(command)
+    const response = await this._client.send(command, this._getRequestOptions())
 
     // Parse streams if present - using type extension for fields not in SDK types yet
     const responseWithExtras = response as typeof response & {
@@ -273,7 +277,7 @@ export class Browser {
       ...(params?.nextToken && { nextToken: params.nextToken }),
     })
 
-    const response = await this._client.send(command)
+    const response = await this._client.send(command, this._getRequestOptions())
 
     const items: SessionSummary[] =
       response.items?.map((item) => ({
@@ -330,7 +334,7 @@ export class Browser {
       },
     })
 
-    const response = await this._client.send(command)
+    const response = await this._client.send(command, this._getRequestOptions())
 
     // Extract the updated stream information from the response
     const automationStream = response.streams?.automationStream
@@ -346,6 +350,17 @@ export class Browser {
     return result
   }
 
+  /**
+   * AWS SDK request options that cancel the call when the current BedrockAgentCoreApp
+   * invocation is aborted. Empty when called outside an invocation.
+   *
+   * @returns Options to pass to BedrockAgentCoreClient.send()
+   */
+  private _getRequestOptions(): { abortSignal?: globalThis.AbortSignal } {
+    const signal = getContext()?.signal
+    return signal ? { abortSignal: signal } : {}
+  }
+
   /**
    * Generates a WebSocket URL and authentication headers for browser automation.
    * Uses AWS Signature Version 4 to sign the WebSocket connection request.
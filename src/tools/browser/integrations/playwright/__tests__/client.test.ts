@@ -1,5 +1,7 @@
 import { describe, it, expect, beforeEach, vi } from 'vitest'
 import { PlaywrightBrowser } from '../client.js'
+import { runWithContext } from '../../../../../runtime/context.js'
+import type { RequestContext } from '../../../../../runtime/types.js'
 
 // Mock the base Browser class
 vi.mock('../../../client.js', () => {
@@ -382,4 +384,49 @@ describe('PlaywrightBrowser', () => {
       expect(mockBrowser.close).toHaveBeenCalled()
     })
   })
+
+  describe('request cancellation', () => {
+    const createContext = (signal: globalThis.AbortSignal): RequestContext => ({
+      sessionId: 'session-123',
+      headers: {},
+      log: {} as any,
+      signal,
+    })
+
+    it('rejects with the abort reason when the invocation is aborted mid-operation', async () => {
+      const browser = new PlaywrightBrowser({ region: 'us-west-2' })
+      const controller = new globalThis.AbortController()
+      mockPage.goto.mockReturnValueOnce(new Promise(() => {}))
+
+      const navigation = runWithContext(createContext(controller.signal), () =>
+        browser.navigate({ url: 'https://example.com' })
+      )
+      await vi.waitFor(() => expect(mockPage.goto).toHaveBeenCalled())
+      controller.abort(new Error('Client disconnected'))
+
+      await expect(navigation).rejects.toThrow('Client disconnected')
+    })
+
+    it('does not start operations once the invocation is aborted', async () => {
+      const browser = new PlaywrightBrowser({ region: 'us-west-2' })
+      const controller = new globalThis.AbortController()
+      controller.abort(new Error('Invocation timed out after 10ms'))
+
+      await expect(
+        runWithContext(createContext(controller.signal), () => browser.click({ selector: 'button' }))
+      ).rejects.toThrow('Invocation timed out after 10ms')
+      expect(mockPage.click).not.toHaveBeenCalled()
+    })
+
+    it('completes normally when the signal is not aborted', async () => {
+      const browser = new PlaywrightBrowser({ region: 'us-west-2' })
+      mockPage.evaluate.mockResolvedValueOnce(42)
+
+      const result = await runWithContext(createContext(new globalThis.AbortController().signal), () =>
+        browser.evaluate({ script: '6 * 7' })
+      )
+
+      expect(result).toBe(42)
+    })
+  })
 })
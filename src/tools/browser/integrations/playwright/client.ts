@@ -1,4 +1,5 @@
 import { Browser } from '../../client.js'
+import { getContext } from '../../../../runtime/context.js'
 import type { BrowserClientConfig } from '../../types.js'
 import type {
   NavigateParams,
@@ -85,10 +86,12 @@ export class PlaywrightBrowser extends Browser {
    */
   async navigate(params: NavigateParams): Promise<void> {
     await this._ensureConnected()
-    await this._playwrightPage!.goto(params.url, {
-      waitUntil: params.waitUntil ?? 'domcontentloaded',
-      timeout: params.timeout,
-    })
+    await this._abortable(
+      this._playwrightPage!.goto(params.url, {
+        waitUntil: params.waitUntil ?? 'domcontentloaded',
+        timeout: params.timeout,
+      })
+    )
   }
 
   /**
@@ -98,9 +101,11 @@ export class PlaywrightBrowser extends Browser {
    */
   async click(params: ClickParams): Promise<void> {
     await this._ensureConnected()
-    await this._playwrightPage!.click(params.selector, {
-      timeout: params.timeout,
-    })
+    await this._abortable(
+      this._playwrightPage!.click(params.selector, {
+        timeout: params.timeout,
+      })
+    )
   }
 
   /**
@@ -110,10 +115,12 @@ export class PlaywrightBrowser extends Browser {
    */
   async type(params: TypeParams): Promise<void> {
     await this._ensureConnected()
-    await this._playwrightPage!.type(params.selector, params.text, {
-      delay: params.delay,
-      timeout: params.timeout,
-    })
+    await this._abortable(
+      this._playwrightPage!.type(params.selector, params.text, {
+        delay: params.delay,
+        timeout: params.timeout,
+      })
+    )
   }
 
   /**
@@ -160,11 +167,13 @@ export class PlaywrightBrowser extends Browser {
    */
   async screenshot(params?: ScreenshotParams): Promise<globalThis.Buffer | string> {
     await this._ensureConnected()
-    const screenshot = await this._playwrightPage!.screenshot({
-      path: params?.path,
-      fullPage: params?.fullPage ?? false,
-      type: params?.type ?? 'png',
-    })
+    const screenshot: globalThis.Buffer = await this._abortable(
+      this._playwrightPage!.screenshot({
+        path: params?.path,
+        fullPage: params?.fullPage ?? false,
+        type: params?.type ?? 'png',
+      })
+    )
     return params?.encoding === 'base64' ? screenshot.toString('base64') : screenshot
   }
 
@@ -177,7 +186,7 @@ export class PlaywrightBrowser extends Browser {
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
   async evaluate(params: EvaluateParams): Promise<any> {
     await this._ensureConnected()
-    return await this._playwrightPage!.evaluate(params.script, params.args)
+    return await this._abortable(this._playwrightPage!.evaluate(params.script, params.args))
   }
 
   /**
@@ -187,14 +196,14 @@ export class PlaywrightBrowser extends Browser {
     await this._ensureConnected()
     try {
       // Try with networkidle first, which is more reliable for dynamic sites
-      await this._playwrightPage!.goBack({ waitUntil: 'networkidle', timeout: 30000 })
+      await this._abortable(this._playwrightPage!.goBack({ waitUntil: 'networkidle', timeout: 30000 }))
     } catch {
       // If networkidle times out, try with load
       try {
-        await this._playwrightPage!.goBack({ waitUntil: 'load', timeout: 30000 })
+        await this._abortable(this._playwrightPage!.goBack({ waitUntil: 'load', timeout: 30000 }))
       } catch {
         // If still failing, just trigger the navigation without waiting
-        await this._playwrightPage!.evaluate('window.history.back()')
+        await this._abortable(this._playwrightPage!.evaluate('window.history.back()'))
       }
     }
   }
@@ -206,14 +215,14 @@ export class PlaywrightBrowser extends Browser {
     await this._ensureConnected()
     try {
       // Try with networkidle first, which is more reliable for dynamic sites
-      await this._playwrightPage!.goForward({ waitUntil: 'networkidle', timeout: 30000 })
+      await this._abortable(this._playwrightPage!.goForward({ waitUntil: 'networkidle', timeout: 30000 }))
     } catch {
       // If networkidle times out, try with load
       try {
-        await this._playwrightPage!.goForward({ waitUntil: 'load', timeout: 30000 })
+        await this._abortable(this._playwrightPage!.goForward({ waitUntil: 'load', timeout: 30000 }))
       } catch {
         // If still failing, just trigger the navigation without waiting
-        await this._playwrightPage!.evaluate('window.history.forward()')
+        await this._abortable(this._playwrightPage!.evaluate('window.history.forward()'))
       }
     }
   }
@@ -223,7 +232,7 @@ export class PlaywrightBrowser extends Browser {
    */
   async refresh(): Promise<void> {
     await this._ensureConnected()
-    await this._playwrightPage!.reload()
+    await this._abortable(this._playwrightPage!.reload())
   }
 
   /**
@@ -264,10 +273,12 @@ export class PlaywrightBrowser extends Browser {
    */
   async waitForSelector(params: WaitForSelectorParams): Promise<void> {
     await this._ensureConnected()
-    await this._playwrightPage!.waitForSelector(params.selector, {
-      timeout: params.timeout ?? 30000,
-      state: params.state ?? (params.visible !== false ? 'visible' : 'attached'),
-    })
+    await this._abortable(
+      this._playwrightPage!.waitForSelector(params.selector, {
+        timeout: params.timeout ?? 30000,
+        state: params.state ?? (params.visible !== false ? 'visible' : 'attached'),
+      })
+    )
   }
 
   /**
@@ -278,9 +289,11 @@ export class PlaywrightBrowser extends Browser {
    */
   async fill(params: FillParams): Promise<void> {
     await this._ensureConnected()
-    await this._playwrightPage!.fill(params.selector, params.value, {
-      timeout: params.timeout,
-    })
+    await this._abortable(
+      this._playwrightPage!.fill(params.selector, params.value, {
+        timeout: params.timeout,
+      })
+    )
   }
 
   /**
@@ -310,6 +323,8 @@ export class PlaywrightBrowser extends Browser {
    * Ensures a session exists and Playwright is connected.
    */
   private async _ensureConnected(): Promise<void> {
+    getContext()?.signal?.throwIfAborted()
+
     // Ensure session exists
     if (!this._session) {
       await this.startSession()
@@ -321,6 +336,29 @@ export class PlaywrightBrowser extends Browser {
     }
   }
 
+  /**
+   * Rejects with the abort reason when the current BedrockAgentCoreApp invocation is aborted,
+   * so handlers stop waiting once the client disconnects or the invocation times out.
+   * The underlying Playwright operation is not cancelled.
+   *
+   * @param operation - Pending Playwright operation
+   * @returns The operation result
+   */
+  private _abortable<T>(operation: Promise<T>): Promise<T> {
+    const signal = getContext()?.signal
+    if (!signal) {
+      return operation
+    }
+    if (signal.aborted) {
+      return Promise.reject(signal.reason)
+    }
+    return new Promise<T>((resolve, reject) => {
+      const onAbort = (): void => reject(signal.reason)
+      signal.addEventListener('abort', onAbort, { once: true })
+      operation.then(resolve, reject).finally(() => signal.removeEventListener('abort', onAbort))
+    })
+  }
+
   /**
    * Connects to the browser via Playwright WebSocket.
    */
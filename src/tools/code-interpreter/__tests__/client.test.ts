@@ -1,5 +1,7 @@
 import { describe, it, expect, beforeEach, vi } from 'vitest'
 import { CodeInterpreter } from '../client.js'
+import { runWithContext } from '../../../runtime/context.js'
+import type { RequestContext } from '../../../runtime/types.js'
 
 // Mock AWS SDK
 const mockSessionIds = new Map<string, string>()
@@ -153,6 +155,7 @@ vi.mock('@aws-sdk/client-bedrock-agentcore', () => {
   return {
     BedrockAgentCoreClient: vi.fn(function (this: any) {
       this.send = mockSend
+      this.middlewareStack = { use: vi.fn() }
       return this
     }),
     StartCodeInterpreterSessionCommand: vi.fn(function (this: any, input: any) {
@@ -616,4 +619,64 @@ describe('CodeInterpreter', () => {
       expect(response.items).toBeInstanceOf(Array)
     })
   })
+
+  describe('request cancellation', () => {
+    let interpreter: CodeInterpreter
+    let mockSend: ReturnType<typeof vi.fn>
+    let controller: globalThis.AbortController
+    let context: RequestContext
+
+    beforeEach(() => {
+      interpreter = new CodeInterpreter({ region: 'us-east-1' })
+      mockSend = (interpreter as any)._client.send
+      mockSend.mockClear()
+      controller = new globalThis.AbortController()
+      context = { sessionId: 'session-123', headers: {}, log: {} as any, signal: controller.signal }
+    })
+
+    it('passes the invocation signal to AWS SDK calls made within a request', async () => {
+      await runWithContext(context, () => interpreter.executeCode({ code: 'print(1)' }))
+
+      expect(mockSend).toHaveBeenCalledTimes(2)
+      for (const call of mockSend.mock.calls) {
+        expect(call[1]).toEqual({ abortSignal: controller.signal })
+      }
+    })
+
+    it('does not pass a signal outside a request', async () => {
+      await interpreter.executeCode({ code: 'print(1)' })
+
+      expect(mockSend.mock.calls[1]![1]).toEqual({})
+    })
+
+    it('does not tie stopSession to the invocation signal', async () => {
+      await interpreter.startSession()
+      controller.abort()
+
+      await runWithContext(context, () => interpreter.stopSession())
+
+      expect(mockSend.mock.calls[1]![0]._commandName).toBe('StopCodeInterpreterSessionCommand')
+      expect(mockSend.mock.calls[1]![1]).toBeUndefined()
+    })
+
+    it('rethrows errors when the invocation was aborted', async () => {
+      await interpreter.startSession()
+      const reason = Object.assign(new Error('Client disconnected'), { name: 'AbortError' })
+      controller.abort(reason)
+      mockSend.mockRejectedValueOnce(reason)
+
+      await expect(runWithContext(context, () => interpreter.executeCode({ code: 'print(1)' }))).rejects.toThrow(
+        'Client disconnected'
+      )
+    })
+
+    it('still reports other errors as results', async () => {
+      await interpreter.startSession()
+      mockSend.mockRejectedValueOnce(new Error('Throttled'))
+
+      const result = await runWithContext(context, () => interpreter.executeCode({ code: 'print(1)' }))
+
+      expect(result).toBe('Error: Throttled')
+    })
+  })
 })
@@ -25,6 +25,8 @@ import type {
   SessionSummary,
 } from './types.js'
 import { DEFAULT_IDENTIFIER, DEFAULT_SESSION_NAME, DEFAULT_TIMEOUT, DEFAULT_REGION } from './types.js'
+import { getContext } from '../../runtime/context.js'
+import { getContextPropagationPlugin } from '../../runtime/propagation.js'
 
 /**
  * Client for AWS Bedrock Code Interpreter.
@@ -71,6 +73,7 @@ export class CodeInterpreter {
       ...(this._credentialsProvider && { credentials: this._credentialsProvider }),
       ...config.clientConfig,
     })
+    this._client.middlewareStack.use(getContextPropagationPlugin())
   }
 
   // ===========================
@@ -106,7 +109,7 @@ export class CodeInterpreter {
       sessionTimeoutSeconds: params?.timeout ?? DEFAULT_TIMEOUT,
     })
 
-    const response = await this._client.send(command)
+    const response = await this._client.send(command, this._getRequestOptions())
 
     const sessionInfo: SessionInfo = {
       sessionName,
@@ -140,6 +143,7 @@ export class CodeInterpreter {
       sessionId: this._session.sessionId,
     })
 
+    // Not tied to the invocation signal so cleanup still runs after cancellation
     await this._client.send(command)
 
     this._session = null
@@ -179,7 +183,7 @@ export class CodeInterpreter {
       sessionId,
     })
 
-    const response = await this._client.send(command)
+    const response = await this._client.send(command, this._getRequestOptions())
 
     // Using type extension for fields not in SDK types yet
     const responseWithExtras = response as typeof response & { lastUpdatedAt?: Date }
@@ -235,7 +239,7 @@ export class CodeInterpreter {
       ...(params?.nextToken && { nextToken: params.nextToken }),
     })
 
-    const response = await this._client.send(command)
+    const response = await this._client.send(command, this._getRequestOptions())
 
     const items: SessionSummary[] =
       response.items?.map((item) => ({
@@ -289,11 +293,12 @@ export class CodeInterpreter {
         },
       })
 
-      const response = await this._client.send(command)
+      const response = await this._client.send(command, this._getRequestOptions())
 
       // Returns raw content string from AWS
       return await this._parseInvokeResponse(response)
     } catch (error) {
+      this._rethrowIfAborted(error)
       return `Error: ${error instanceof Error ? error.message : 'Unknown execution error'}`
     }
   }
@@ -331,11 +336,12 @@ export class CodeInterpreter {
         },
       })
 
-      const response = await this._client.send(command)
+      const response = await this._client.send(command, this._getRequestOptions())
 
       // Returns raw content string from AWS
       return await this._parseInvokeResponse(response)
     } catch (error) {
+      this._rethrowIfAborted(error)
       return `Error: ${error instanceof Error ? error.message : 'Command execution failed'}`
     }
   }
@@ -373,11 +379,12 @@ export class CodeInterpreter {
         },
       })
 
-      const response = await this._client.send(command)
+      const response = await this._client.send(command, this._getRequestOptions())
 
       // Returns raw content string from AWS
       return await this._parseInvokeResponse(response)
     } catch (error) {
+      this._rethrowIfAborted(error)
       return `Error: ${error instanceof Error ? error.message : 'Read failed'}`
     }
   }
@@ -417,11 +424,12 @@ export class CodeInterpreter {
         },
       })
 
-      const response = await this._client.send(command)
+      const response = await this._client.send(command, this._getRequestOptions())
 
       // Returns raw content string from AWS
       return await this._parseInvokeResponse(response)
     } catch (error) {
+      this._rethrowIfAborted(error)
       return `Error: ${error instanceof Error ? error.message : 'Write failed'}`
     }
   }
@@ -453,11 +461,12 @@ export class CodeInterpreter {
         },
       })
 
-      const response = await this._client.send(command)
+      const response = await this._client.send(command, this._getRequestOptions())
 
       // Returns raw content string from AWS
       return await this._parseInvokeResponse(response)
     } catch (error) {
+      this._rethrowIfAborted(error)
       return `Error: ${error instanceof Error ? error.message : 'List failed'}`
     }
   }
@@ -491,11 +500,12 @@ export class CodeInterpreter {
         },
       })
 
-      const response = await this._client.send(command)
+      const response = await this._client.send(command, this._getRequestOptions())
 
       // Returns raw content string from AWS
       return await this._parseInvokeResponse(response)
     } catch (error) {
+      this._rethrowIfAborted(error)
       return `Error: ${error instanceof Error ? error.message : 'Remove failed'}`
     }
   }
@@ -504,6 +514,29 @@ export class CodeInterpreter {
   // Private Helpers
   // ===========================
 
+  /**
+   * AWS SDK request options that cancel the call when the current BedrockAgentCoreApp
+   * invocation is aborted. Empty when called outside an invocation.
+   *
+   * @returns Options to pass to BedrockAgentCoreClient.send()
+   */
+  private _getRequestOptions(): { abortSignal?: globalThis.AbortSignal } {
+    const signal = getContext()?.signal
+    return signal ? { abortSignal: signal } : {}
+  }
+
+  /**
+   * Rethrows errors caused by cancellation of the current invocation, which should
+   * propagate to the handler rather than be reported as a tool result.
+   *
+   * @param error - Error caught from an AWS SDK call
+   */
+  private _rethrowIfAborted(error: unknown): void {
+    if (getContext()?.signal?.aborted) {
+      throw error
+    }
+  }
+
   /**
    * Extract and parse the streaming response from InvokeCodeInterpreterCommand.
    * Returns the raw content string from AWS without additional formatting.
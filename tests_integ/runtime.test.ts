@@ -967,8 +967,8 @@ describe('BedrockAgentCoreApp Integration', () => {
           .send('some content')
           .expect(415) // Fastify returns 415 for unsupported media types
           .expect(function (res) {
-            expect(res.body.error).toBeDefined()
-            expect(res.body.message).toContain('Unsupported Media Type')
+            expect(res.body.error).toContain('Unsupported Media Type')
+            expect(res.body.code).toBe('UNSUPPORTED_MEDIA_TYPE')
           })
       })
     })
@@ -1325,4 +1325,122 @@ Bob Johnson,35,Chicago`
       }
     })
   })
+
+  describe('Server Lifecycle', () => {
+    it('binds to the requested port and host and resolves with the address', async () => {
+      const lifecycleApp = new BedrockAgentCoreApp({
+        invocationHandler: { process: async () => ({ ok: true }) },
+        config: { logging: { enabled: false }, shutdown: { handleSignals: false } },
+      })
+
+      const address = await lifecycleApp.run({ port: 0, host: '127.0.0.1' })
+
+      try {
+        expect(address).toMatch(/^http:\/\/127\.0\.0\.1:\d+$/)
+        const response = await fetch(`${address}/ping`)
+        expect(response.status).toBe(200)
+      } finally {
+        await lifecycleApp.close()
+      }
+    })
+
+    it('runs two apps in the same process', async () => {
+      const first = new BedrockAgentCoreApp({
+        invocationHandler: { process: async () => 'first' },
+        config: { logging: { enabled: false }, shutdown: { handleSignals: false } },
+      })
+      const second = new BedrockAgentCoreApp({
+        invocationHandler: { process: async () => 'second' },
+        config: { logging: { enabled: false }, shutdown: { handleSignals: false } },
+      })
+
+      const [firstAddress, secondAddress] = await Promise.all([
+        first.run({ port: 0, host: '127.0.0.1' }),
+        second.run({ port: 0, host: '127.0.0.1' }),
+      ])
+
+      try {
+        expect(firstAddress).not.toBe(secondAddress)
+      } finally {
+        await Promise.all([first.close(), second.close()])
+      }
+    })
+
+    it('drains an in-flight invocation before closing', async () => {
+      let markStarted: () => void = () => {}
+      let release: () => void = () => {}
+      const started = new Promise<void>((resolve) => (markStarted = resolve))
+      const handler: InvocationHandler = () =>
+        new Promise((resolve) => {
+          release = () => resolve({ finished: true })
+          markStarted()
+        })
+      const drainApp = new BedrockAgentCoreApp({
+        invocationHandler: { process: handler },
+        config: { logging: { enabled: false }, shutdown: { handleSignals: false } },
+      })
+      const address = await drainApp.run({ port: 0, host: '127.0.0.1' })
+
+      const inFlight = fetch(`${address}/invocations`, {
+        method: 'POST',
+        headers: {
+          'content-type': 'application/json',
+          'x-amzn-bedrock-agentcore-runtime-session-id': 'drain-session',
+        },
+        body: '{}',
+      })
+      await started
+
+      const closing = drainApp.close()
+      expect(drainApp.getCurrentPingStatus()).toBe('HealthyBusy')
+
+      release()
+      const response = await inFlight
+      expect(response.status).toBe(200)
+      expect(await response.json()).toEqual({ finished: true })
+      await closing
+    })
+  })
+
+  describe('Request Cancellation', () => {
+    it('aborts context.signal when the client disconnects', async () => {
+      let markStarted: () => void = () => {}
+      const started = new Promise<void>((resolve) => (markStarted = resolve))
+      let abortReason: Promise<string> | undefined
+      const cancelApp = new BedrockAgentCoreApp({
+        invocationHandler: {
+          process: (_request, context) => {
+            abortReason = new Promise((resolve) =>
+              context.signal!.addEventListener('abort', () => resolve(context.signal!.reason.message))
+            )
+            markStarted()
+            return abortReason
+          },
+        },
+        config: { logging: { enabled: false }, shutdown: { handleSignals: false } },
+      })
+      const address = await cancelApp.run({ port: 0, host: '127.0.0.1' })
+
+      try {
+        const client = new globalThis.AbortController()
+        const request = fetch(`${address}/invocations`, {
+          method: 'POST',
+          headers: {
+            'content-type': 'application/json',
+            'x-amzn-bedrock-agentcore-runtime-session-id': 'cancel-session',
+          },
+          body: '{}',
+          signal: client.signal,
+        }).catch(() => undefined)
+        await started
+
+        client.abort()
+        await request
+
+        expect(await abortReason).toBe('Client disconnected')
+      } finally {
+        await cancelApp.close()
+      }
+    })
+  })
 })